@@ -0,0 +1,184 @@
+import type { Plugin, ViteDevServer } from 'vite';
+
+/**
+ * Mock REST API
+ *
+ * Vite dev-server plugin serving the app's mock data under `/api`, for
+ * running the UI with `VITE_DATA_SOURCE=http`. Data lives in memory and
+ * resets on restart. Every response is delayed, and can be made to fail,
+ * so loading and error states get exercised:
+ * - `latencyMs` / `errorRate` apply to all requests
+ * - `?mockLatency=<ms>` and `?mockStatus=<code>` override them per request
+ */
+
+interface MockApiOptions {
+  latencyMs?: number;
+  // Fraction of requests (0-1) answered with a 503
+  errorRate?: number;
+}
+
+interface Entity {
+  id: string;
+  [key: string]: unknown;
+}
+
+interface MockDatabase {
+  manufacturers: Entity[];
+  quotes: Entity[];
+  conversations: (Entity & { messages: Entity[] })[];
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const findOrThrow = <T extends Entity>(items: T[], id: string, kind: string): T => {
+  const item = items.find(candidate => candidate.id === id);
+  if (!item) throw new HttpError(404, `${kind} ${id} not found`);
+  return item;
+};
+
+const decodeBody = (chunks: Uint8Array[]): unknown => {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  const raw = new TextDecoder().decode(bytes);
+  return raw ? JSON.parse(raw) : undefined;
+};
+
+const loadDatabase = async (server: ViteDevServer): Promise<MockDatabase> => {
+  const data = await server.ssrLoadModule('/src/data/mockData.ts');
+  // Round-trip through JSON so stored values match what clients receive
+  return JSON.parse(JSON.stringify({
+    manufacturers: data.mockManufacturers,
+    quotes: data.mockQuotes,
+    conversations: data.mockConversations,
+  }));
+};
+
+/**
+ * Route a request to the in-memory database. Returns the response body.
+ */
+const handle = (db: MockDatabase, method: string, path: string[], body: unknown): unknown => {
+  const [resource, id, action] = path;
+  const now = new Date().toISOString();
+
+  if (resource === 'manufacturers' && method === 'GET') {
+    return id ? findOrThrow(db.manufacturers, id, 'Manufacturer') : db.manufacturers;
+  }
+
+  if (resource === 'quotes') {
+    if (method === 'GET' && !id) return db.quotes;
+    if (method === 'GET') return findOrThrow(db.quotes, id, 'Quote');
+    if (method === 'POST' && !id) {
+      const quote = body as Entity;
+      if (!quote?.id) throw new HttpError(400, 'Quote id is required');
+      if (db.quotes.some(q => q.id === quote.id)) throw new HttpError(409, `Quote ${quote.id} already exists`);
+      db.quotes.push(quote);
+      return quote;
+    }
+    if (method === 'PATCH' && id) {
+      const quote = findOrThrow(db.quotes, id, 'Quote');
+      Object.assign(quote, body, { id, updatedAt: now });
+      return quote;
+    }
+  }
+
+  if (resource === 'conversations') {
+    if (method === 'GET' && !id) return db.conversations;
+    if (method === 'POST' && !id) {
+      const created = body as MockDatabase['conversations'][number];
+      if (!created?.id) throw new HttpError(400, 'Conversation id is required');
+      if (db.conversations.some(c => c.id === created.id)) {
+        throw new HttpError(409, `Conversation ${created.id} already exists`);
+      }
+      db.conversations.push({ ...created, messages: created.messages ?? [] });
+      return created;
+    }
+    const conversation = findOrThrow(db.conversations, id, 'Conversation');
+    if (method === 'GET' && !action) return conversation;
+    if (method === 'PATCH' && !action) {
+      Object.assign(conversation, body, { id });
+      return conversation;
+    }
+    if (method === 'POST' && action === 'messages') {
+      const message = body as Entity;
+      if (!message?.id) throw new HttpError(400, 'Message id is required');
+      conversation.messages.push(message);
+      conversation.lastMessageAt = message.timestamp ?? now;
+      return conversation;
+    }
+    if (method === 'POST' && action === 'read') {
+      conversation.messages.forEach(message => { message.read = true; });
+      return conversation;
+    }
+  }
+
+  throw new HttpError(404, `No route for ${method} /api/${path.join('/')}`);
+};
+
+export const mockApi = (options: MockApiOptions = {}): Plugin => ({
+  name: 'factorylink-mock-api',
+  apply: 'serve',
+  configureServer(server) {
+    let dbPromise: Promise<MockDatabase> | null = null;
+
+    server.middlewares.use('/api', (req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const method = req.method ?? 'GET';
+      const chunks: Uint8Array[] = [];
+
+      req.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+      req.on('end', async () => {
+        const send = (status: number, payload: unknown) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(payload));
+        };
+
+        const latency = Number(url.searchParams.get('mockLatency') ?? options.latencyMs ?? 400);
+        // +/- 50% jitter so requests don't resolve in lockstep
+        await wait(latency * (0.5 + Math.random()));
+
+        const forcedStatus = Number(url.searchParams.get('mockStatus'));
+        if (forcedStatus >= 400) {
+          send(forcedStatus, { error: `Simulated ${forcedStatus} response` });
+          return;
+        }
+        if (Math.random() < (options.errorRate ?? 0)) {
+          send(503, { error: 'Simulated outage, please retry' });
+          return;
+        }
+
+        try {
+          const body = decodeBody(chunks);
+          dbPromise ??= loadDatabase(server).catch(error => {
+            dbPromise = null;
+            throw error;
+          });
+          const db = await dbPromise;
+          const path = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+          send(200, handle(db, method, path, body));
+        } catch (error) {
+          if (error instanceof HttpError) {
+            send(error.status, { error: error.message });
+          } else if (error instanceof SyntaxError) {
+            send(400, { error: 'Malformed JSON body' });
+          } else {
+            server.config.logger.error(`[mock-api] ${String(error)}`);
+            send(500, { error: 'Mock server error' });
+          }
+        }
+      });
+    });
+  },
+});
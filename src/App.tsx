@@ -6,87 +6,113 @@ import { InteractiveMap } from './components/map/InteractiveMap';
 import { ElevenLabsVoice } from './components/voice/ElevenLabsVoice';
 import { QuoteManagement } from './components/quotes/QuoteManagement';
 import { CommunicationHub } from './components/communications/CommunicationHub';
+import { ProjectList } from './components/projects/ProjectList';
 import { ManufacturerDataTable } from './components/manufacturers/ManufacturerDataTable';
+import { ManufacturerProfilePanel } from './components/manufacturers/ManufacturerProfilePanel';
 import { AccountPage } from './components/account/AccountPage';
 import { SettingsPage } from './components/settings/SettingsPage';
 import { NotificationSettings } from './components/settings/NotificationSettings';
 import { CommunicationSettings } from './components/settings/CommunicationSettings';
 import { AuthModal } from './components/auth/AuthModal';
-import { useAppStore } from './store/appStore';
-import { useAuthStore } from './store/authStore';
+import { appStorePersistence, useAppStore } from './store/appStore';
+import { authStorePersistence, useAuthStore } from './store/authStore';
 import { 
-  mockManufacturers, 
-  mockQuotes, 
-  mockConversations, 
   mockNotifications,
+  mockProjects,
   mockResponseTemplates,
   mockPerformanceMetrics
 } from './data/mockData';
-import { Toaster } from 'react-hot-toast';
+import toast, { Toaster } from 'react-hot-toast';
 import { motion } from 'framer-motion';
 
+const QUOTE_CHECK_MS = 60 * 1000;
+
 function App() {
-  const { 
-    setManufacturers,
-    projectIntake,
-    setProjectIntake,
-    quotes,
-    addQuote,
-    conversations,
-    notifications,
-    addNotification,
-    responseTemplates,
-    addResponseTemplate,
-    updatePerformanceMetrics
-  } = useAppStore();
-  
   const { isAuthenticated } = useAuthStore();
   const [showAuthModal, setShowAuthModal] = React.useState(false);
+  const [isHydrated, setIsHydrated] = React.useState(false);
 
   React.useEffect(() => {
-    // Load mock data
-    setManufacturers(mockManufacturers);
-    
-    // Load quotes if not already loaded
-    if (quotes.length === 0) {
-      mockQuotes.forEach(quote => addQuote(quote));
-    }
-    
-    // Load notifications if not already loaded
-    if (notifications.length === 0) {
-      mockNotifications.forEach(notification => addNotification(notification));
-    }
-    
-    // Load response templates if not already loaded
-    if (responseTemplates.length === 0) {
-      mockResponseTemplates.forEach(template => addResponseTemplate(template));
-    }
-    
-    // Load performance metrics
-    updatePerformanceMetrics(mockPerformanceMetrics);
-    
-    // Set mock project intake for demo
-    if (!projectIntake) {
-      setProjectIntake({
-        userId: '1',
-        timestamp: new Date(),
-        category: 'Electronics',
-        material: 'Aluminum',
-        volume: 10000,
-        targetCost: 50,
-        leadTimeGoal: 30,
-        certificationRequirements: ['UL Listed', 'FCC'],
-        additionalRequirements: 'IoT sensor hub with wireless connectivity',
-        location: 'San Francisco, CA'
-      });
-    }
-  }, [setManufacturers, projectIntake, setProjectIntake, quotes.length, addQuote, notifications.length, addNotification, responseTemplates.length, addResponseTemplate, updatePerformanceMetrics]);
+    let cancelled = false;
+
+    // Restore persisted stores before loading so demo data never overwrites user data
+    Promise.all([appStorePersistence.hydration, authStorePersistence.hydration]).then(([appHydration]) => {
+      if (cancelled) return;
+      const {
+        notifications,
+        responseTemplates,
+        projects,
+        loadManufacturers,
+        loadQuotes,
+        loadConversations,
+        addNotification,
+        addResponseTemplate,
+        addProject,
+        setActiveProject,
+        updatePerformanceMetrics
+      } = useAppStore.getState();
+      const isFirstRun = !appHydration.restored;
+
+      updatePerformanceMetrics(mockPerformanceMetrics);
+
+      // Demo notifications, templates and projects only on first run
+      if (isFirstRun) {
+        if (notifications.length === 0) {
+          mockNotifications.forEach(notification => addNotification(notification));
+        }
+        if (responseTemplates.length === 0) {
+          mockResponseTemplates.forEach(template => addResponseTemplate(template));
+        }
+        if (projects.length === 0) {
+          mockProjects.forEach(project => addProject(project));
+          setActiveProject(mockProjects[0].id);
+        }
+      }
+
+      // The data source owns manufacturers, quotes and conversations, so
+      // they're fetched on every start
+      loadManufacturers().catch(() => toast.error('Failed to load manufacturers'));
+      loadQuotes().catch(() => toast.error('Failed to load quotes'));
+      loadConversations().catch(() => toast.error('Failed to load conversations'));
+
+      setIsHydrated(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Quotes also lapse while the app stays open, and RFQ reminders fall due
+  React.useEffect(() => {
+    if (!isHydrated) return;
+    const timer = setInterval(() => {
+      const { expireStaleQuotes, sendRfqReminders } = useAppStore.getState();
+      const expired = expireStaleQuotes();
+      if (expired.length > 0) {
+        toast(`${expired.length} quote${expired.length === 1 ? '' : 's'} expired`);
+      }
+      const reminded = sendRfqReminders();
+      if (reminded > 0) {
+        toast(`Sent ${reminded} RFQ reminder${reminded === 1 ? '' : 's'}`);
+      }
+    }, QUOTE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [isHydrated]);
 
   React.useEffect(() => {
-    if (!isAuthenticated) {
+    if (isHydrated && !isAuthenticated) {
       setShowAuthModal(true);
     }
-  }, [isAuthenticated]);
+  }, [isHydrated, isAuthenticated]);
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
     return (
@@ -134,6 +160,7 @@ function App() {
           <div className="flex-1 p-6">
             <Routes>
               <Route path="/" element={<Navigate to="/map" replace />} />
+              <Route path="/projects" element={<ProjectList />} />
               <Route path="/map" element={<InteractiveMap />} />
               <Route path="/database" element={<ManufacturerDataTable />} />
               <Route path="/quotes" element={<QuoteManagement />} />
@@ -146,6 +173,9 @@ function App() {
           </div>
         </div>
 
+        {/* Manufacturer Profile Panel */}
+        <ManufacturerProfilePanel />
+
         {/* Voice Interface */}
         <ElevenLabsVoice />
       </div>
@@ -0,0 +1,61 @@
+import { Conversation, Manufacturer, Message, Quote } from '../types';
+import { reviveDates } from '../utils/dates';
+import { ApiError, DataSource, entityDateFields } from './types';
+
+interface HttpOptions {
+  // e.g. `/api` (the dev mock server) or `https://api.example.com/v1`
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Data source for the REST API served by the dev mock server
+ * (`server/mockApi.ts`) or a real backend with the same routes.
+ */
+export const createHttpDataSource = (options: HttpOptions): DataSource => {
+  const fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  const baseUrl = options.baseUrl.replace(/\/$/, '');
+
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ApiError(0, `Network error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const payload: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = (payload as { error?: string } | null)?.error ?? response.statusText;
+      throw new ApiError(response.status, message || `Request failed with status ${response.status}`);
+    }
+    return reviveDates(payload, entityDateFields) as T;
+  };
+
+  const id = encodeURIComponent;
+
+  return {
+    manufacturers: {
+      list: () => request<Manufacturer[]>('GET', '/manufacturers'),
+    },
+    quotes: {
+      list: () => request<Quote[]>('GET', '/quotes'),
+      create: (quote) => request<Quote>('POST', '/quotes', quote),
+      update: (quoteId, updates) => request<Quote>('PATCH', `/quotes/${id(quoteId)}`, updates),
+    },
+    conversations: {
+      list: () => request<Conversation[]>('GET', '/conversations'),
+      create: (conversation) => request<Conversation>('POST', '/conversations', conversation),
+      update: (conversationId, updates) =>
+        request<Conversation>('PATCH', `/conversations/${id(conversationId)}`, updates),
+      addMessage: (conversationId, message: Message) =>
+        request<Conversation>('POST', `/conversations/${id(conversationId)}/messages`, message),
+      markAsRead: (conversationId) =>
+        request<Conversation>('POST', `/conversations/${id(conversationId)}/read`),
+    },
+  };
+};
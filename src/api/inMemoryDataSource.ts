@@ -0,0 +1,86 @@
+import { Conversation, Manufacturer, Quote } from '../types';
+import { ApiError, DataSource } from './types';
+
+interface InMemorySeed {
+  manufacturers: Manufacturer[];
+  quotes: Quote[];
+  conversations: Conversation[];
+}
+
+interface InMemoryOptions {
+  // Delay before each call resolves, to exercise loading states
+  latencyMs?: number;
+}
+
+/**
+ * Data source backed by arrays in memory. Each call returns copies, so
+ * callers can't mutate the source by editing what they were given. The
+ * arrays start from the seed on every page load; `restore` replaces them
+ * with the copy the app persisted.
+ */
+export const createInMemoryDataSource = (seed: InMemorySeed, options: InMemoryOptions = {}): DataSource => {
+  const manufacturers = structuredClone(seed.manufacturers);
+  let quotes = structuredClone(seed.quotes);
+  let conversations = structuredClone(seed.conversations);
+
+  const respond = <T>(value: T): Promise<T> =>
+    new Promise(resolve => setTimeout(() => resolve(structuredClone(value)), options.latencyMs ?? 0));
+
+  const findOrThrow = <T extends { id: string }>(items: T[], id: string, kind: string): T => {
+    const item = items.find(candidate => candidate.id === id);
+    if (!item) throw new ApiError(404, `${kind} ${id} not found`);
+    return item;
+  };
+
+  const updateConversation = (conversationId: string, update: (conversation: Conversation) => Conversation) => {
+    const updated = update(findOrThrow(conversations, conversationId, 'Conversation'));
+    conversations = conversations.map(c => c.id === conversationId ? updated : c);
+    return respond(updated);
+  };
+
+  return {
+    manufacturers: {
+      list: async () => respond(manufacturers),
+    },
+    quotes: {
+      list: async () => respond(quotes),
+      create: async (quote) => {
+        if (quotes.some(q => q.id === quote.id)) throw new ApiError(409, `Quote ${quote.id} already exists`);
+        quotes = [...quotes, structuredClone(quote)];
+        return respond(quote);
+      },
+      update: async (quoteId, updates) => {
+        const updated = { ...findOrThrow(quotes, quoteId, 'Quote'), ...structuredClone(updates), updatedAt: new Date() };
+        quotes = quotes.map(q => q.id === quoteId ? updated : q);
+        return respond(updated);
+      },
+    },
+    conversations: {
+      list: async () => respond(conversations),
+      create: async (conversation) => {
+        if (conversations.some(c => c.id === conversation.id)) {
+          throw new ApiError(409, `Conversation ${conversation.id} already exists`);
+        }
+        conversations = [...conversations, structuredClone(conversation)];
+        return respond(conversation);
+      },
+      update: async (conversationId, updates) => updateConversation(conversationId, conversation => ({
+        ...conversation,
+        ...structuredClone(updates),
+      })),
+      addMessage: async (conversationId, message) => updateConversation(conversationId, conversation => ({
+        ...conversation,
+        messages: [...conversation.messages, structuredClone(message)],
+        lastMessageAt: message.timestamp,
+      })),
+      markAsRead: async (conversationId) => updateConversation(conversationId, conversation => ({
+        ...conversation,
+        messages: conversation.messages.map(m => ({ ...m, read: true })),
+      })),
+    },
+    restore: (data) => {
+      quotes = structuredClone(data.quotes);
+      conversations = structuredClone(data.conversations);
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { mockConversations, mockManufacturers, mockQuotes } from '../data/mockData';
+import { createHttpDataSource } from './httpDataSource';
+import { createInMemoryDataSource } from './inMemoryDataSource';
+import { DataSource } from './types';
+
+export * from './types';
+export { createHttpDataSource } from './httpDataSource';
+export { createInMemoryDataSource } from './inMemoryDataSource';
+
+/**
+ * The app's data source, chosen at build time:
+ * - `VITE_DATA_SOURCE=http` talks to `VITE_API_URL` (default `/api`, the
+ *   dev mock server)
+ * - anything else uses the bundled mock data in memory
+ */
+const createDataSource = (): DataSource => {
+  if (import.meta.env.VITE_DATA_SOURCE === 'http') {
+    return createHttpDataSource({ baseUrl: import.meta.env.VITE_API_URL ?? '/api' });
+  }
+  return createInMemoryDataSource({
+    manufacturers: mockManufacturers,
+    quotes: mockQuotes,
+    conversations: mockConversations,
+  });
+};
+
+export const dataSource = createDataSource();
@@ -0,0 +1,62 @@
+import { Conversation, Manufacturer, Message, Quote } from '../types';
+
+/**
+ * Data Source Contracts
+ *
+ * Stores and components load data through these repositories instead of
+ * importing mock data directly, so the same code runs against the
+ * in-memory source or the HTTP API.
+ */
+
+export interface ManufacturerRepository {
+  list: () => Promise<Manufacturer[]>;
+}
+
+export interface QuoteRepository {
+  list: () => Promise<Quote[]>;
+  create: (quote: Quote) => Promise<Quote>;
+  update: (quoteId: string, updates: Partial<Quote>) => Promise<Quote>;
+}
+
+export interface ConversationRepository {
+  list: () => Promise<Conversation[]>;
+  create: (conversation: Conversation) => Promise<Conversation>;
+  update: (conversationId: string, updates: Partial<Conversation>) => Promise<Conversation>;
+  addMessage: (conversationId: string, message: Message) => Promise<Conversation>;
+  markAsRead: (conversationId: string) => Promise<Conversation>;
+}
+
+export interface DataSource {
+  manufacturers: ManufacturerRepository;
+  quotes: QuoteRepository;
+  conversations: ConversationRepository;
+  // Present on sources with no storage of their own: the app persists their
+  // quotes and conversations and hands them back after a reload
+  restore?: (data: { quotes: Quote[]; conversations: Conversation[] }) => void;
+}
+
+/**
+ * Failure from a repository call. `status` follows HTTP semantics; 0 means
+ * the request never got a response (offline, CORS, aborted).
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// Date properties across Manufacturer, Quote and Conversation payloads
+export const entityDateFields = new Set([
+  'lastVerifiedAt',
+  'validUntil',
+  'receivedAt',
+  'createdAt',
+  'updatedAt',
+  'uploadedAt',
+  'lastMessageAt',
+  'timestamp',
+]);
@@ -18,16 +18,19 @@ import {
 import { useAppStore } from '../../store/appStore';
 import { Conversation, Message } from '../../types';
 import { motion } from 'framer-motion';
+import { scopeToProject } from '../../utils/projects';
 
 export const CommunicationHub: React.FC = () => {
   const { 
-    conversations, 
+    conversations: allConversations, 
+    activeProjectId,
     activeConversation, 
     setActiveConversation,
     addMessage,
     markConversationAsRead 
   } = useAppStore();
   
+  const conversations = scopeToProject(allConversations, activeProjectId);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<'all' | 'email' | 'direct_message' | 'portal' | 'voice'>('all');
   const [filterPriority, setFilterPriority] = useState<'all' | 'low' | 'medium' | 'high' | 'urgent'>('all');
@@ -232,8 +235,11 @@ export const CommunicationHub: React.FC = () => {
 };
 
 const ConversationDetail: React.FC<{ conversation: Conversation }> = ({ conversation }) => {
-  const { addMessage } = useAppStore();
-  const [newMessage, setNewMessage] = useState('');
+  const { addMessage, messageDrafts, setMessageDraft } = useAppStore();
+  // Composer text lives in the store so drafts (including ones the voice
+  // agent writes) survive switching conversations
+  const newMessage = messageDrafts[conversation.id] ?? '';
+  const setNewMessage = (content: string) => setMessageDraft(conversation.id, content || null);
   const [showTemplates, setShowTemplates] = useState(false);
 
   const handleSendMessage = () => {
@@ -15,12 +15,14 @@ import { useAppStore } from '../../store/appStore';
 import { useAuthStore } from '../../store/authStore';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link } from 'react-router-dom';
+import { ProjectSwitcher } from './ProjectSwitcher';
 
 /**
  * Header Component
  * 
  * Main application header that provides:
  * - Brand identity and logo
+ * - Active project switcher
  * - Voice session controls
  * - Notifications dropdown
  * - Settings quick access
@@ -99,6 +101,9 @@ export const Header: React.FC = () => {
             </div>
             <h1 className="text-lg sm:text-xl font-semibold text-gray-900">FactoryLink</h1>
           </div>
+
+          {/* Project Switcher */}
+          <ProjectSwitcher />
         </div>
 
         {/* Action Controls - Responsive layout */}
@@ -5,7 +5,8 @@ import {
   MessageSquare, 
   User,
   Settings,
-  Database
+  Database,
+  Briefcase
 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
@@ -29,6 +30,7 @@ export const Navigation: React.FC = () => {
 
   // Navigation items configuration
   const navItems = [
+    { id: 'projects', label: 'Projects', icon: Briefcase, path: '/projects' },
     { id: 'map', label: 'Interactive Map', icon: Map, path: '/map' },
     { id: 'database', label: 'Manufacturer Database', icon: Database, path: '/database' },
     { id: 'quotes', label: 'Quote Management', icon: FileText, path: '/quotes' },
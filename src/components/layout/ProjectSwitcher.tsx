@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Briefcase, Check, ChevronDown, Layers, Plus } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { projectStatusLabels } from '../../utils/projects';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Link } from 'react-router-dom';
+
+/**
+ * ProjectSwitcher Component
+ *
+ * Header dropdown for the active sourcing project. Views scope their
+ * quotes, conversations and RFQs to it; "All projects" shows everything.
+ */
+export const ProjectSwitcher: React.FC = () => {
+  const { projects, activeProjectId, setActiveProject } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const activeProject = projects.find(project => project.id === activeProjectId);
+
+  const choose = (projectId: string | null) => {
+    setActiveProject(projectId);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors max-w-[12rem] sm:max-w-xs"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        {activeProject ? (
+          <Briefcase className="w-4 h-4 text-primary-600 flex-shrink-0" />
+        ) : (
+          <Layers className="w-4 h-4 text-primary-600 flex-shrink-0" />
+        )}
+        <span className="text-sm font-medium text-gray-900 truncate">
+          {activeProject?.name ?? 'All projects'}
+        </span>
+        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute left-0 top-full mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg"
+          >
+            <ul className="p-2 max-h-80 overflow-y-auto" role="listbox" aria-label="Projects">
+              <li>
+                <button
+                  onClick={() => choose(null)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-100 rounded-lg transition-colors"
+                  role="option"
+                  aria-selected={activeProjectId === null}
+                >
+                  <span className="flex items-center space-x-3">
+                    <Layers className="w-4 h-4 text-gray-400" />
+                    <span className="text-sm text-gray-700">All projects</span>
+                  </span>
+                  {activeProjectId === null && <Check className="w-4 h-4 text-primary-600" />}
+                </button>
+              </li>
+              {projects.map(project => (
+                <li key={project.id}>
+                  <button
+                    onClick={() => choose(project.id)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-100 rounded-lg transition-colors"
+                    role="option"
+                    aria-selected={project.id === activeProjectId}
+                  >
+                    <span className="min-w-0">
+                      <span className="block text-sm text-gray-900 truncate">{project.name}</span>
+                      <span className="block text-xs text-gray-500">{projectStatusLabels[project.status]}</span>
+                    </span>
+                    {project.id === activeProjectId && <Check className="w-4 h-4 text-primary-600 flex-shrink-0" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-2 border-t border-gray-200">
+              <Link
+                to="/projects"
+                onClick={() => setIsOpen(false)}
+                className="w-full flex items-center space-x-3 px-3 py-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4 text-gray-400" />
+                <span className="text-sm text-gray-700">Manage projects</span>
+              </Link>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Columns3 } from 'lucide-react';
+import { ManufacturerTableColumn } from '../../types';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface ColumnVisibilityMenuProps {
+  columns: { key: ManufacturerTableColumn; label: string }[];
+  hiddenColumns: ManufacturerTableColumn[];
+  onChange: (hiddenColumns: ManufacturerTableColumn[]) => void;
+}
+
+/**
+ * ColumnVisibilityMenu Component
+ *
+ * Dropdown of checkboxes choosing which optional data table columns show.
+ */
+export const ColumnVisibilityMenu: React.FC<ColumnVisibilityMenuProps> = ({ columns, hiddenColumns, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggleColumn = (column: ManufacturerTableColumn) => {
+    onChange(
+      hiddenColumns.includes(column)
+        ? hiddenColumns.filter(c => c !== column)
+        : [...hiddenColumns, column]
+    );
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <Columns3 className="w-4 h-4" />
+        <span>Columns</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 top-full mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 p-2"
+          >
+            {columns.map((column) => (
+              <label key={column.key} className="flex items-center px-2 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={!hiddenColumns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                />
+                {column.label}
+              </label>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from 'react';
+import { X, ArrowLeft, GitMerge, CheckCircle } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { DuplicateCluster, Manufacturer } from '../../types';
+import {
+  buildMergedManufacturer,
+  conflictingFields,
+  defaultMergeChoices,
+  findDuplicateClusters,
+  MergeChoices
+} from '../../utils/duplicateDetection';
+import { importFieldSpecs } from '../../utils/manufacturerImport';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface DuplicateReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const fieldLabels = new Map<keyof Manufacturer, string>(importFieldSpecs.map(spec => [spec.field, spec.label]));
+
+const fieldLabel = (field: keyof Manufacturer) =>
+  fieldLabels.get(field) ?? field.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase());
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const confidenceStyle = (confidence: number) => {
+  if (confidence >= 85) return 'bg-error-100 text-error-800';
+  if (confidence >= 70) return 'bg-warning-100 text-warning-800';
+  return 'bg-gray-100 text-gray-700';
+};
+
+/**
+ * DuplicateReviewModal Component
+ *
+ * Lists clusters of likely duplicate manufacturers with their confidence
+ * and matching signals. Reviewing a cluster opens a field-by-field merge
+ * where the user picks the surviving value; quotes and conversations are
+ * moved onto the surviving record.
+ */
+export const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ isOpen, onClose }) => {
+  const {
+    manufacturers,
+    dismissedDuplicates,
+    mergeDuplicateManufacturers,
+    dismissDuplicateCluster
+  } = useAppStore();
+  const [activeCluster, setActiveCluster] = useState<DuplicateCluster | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [choices, setChoices] = useState<MergeChoices>({});
+
+  const clusters = useMemo(
+    () => isOpen ? findDuplicateClusters(manufacturers, dismissedDuplicates) : [],
+    [isOpen, manufacturers, dismissedDuplicates]
+  );
+
+  const manufacturersById = useMemo(
+    () => new Map(manufacturers.map(manufacturer => [manufacturer.id, manufacturer])),
+    [manufacturers]
+  );
+
+  const records = useMemo(
+    () => activeCluster
+      ? activeCluster.manufacturerIds.flatMap(id => manufacturersById.get(id) ?? [])
+      : [],
+    [activeCluster, manufacturersById]
+  );
+
+  const fields = useMemo(() => records.length > 1 ? conflictingFields(records) : [], [records]);
+
+  const openCluster = (cluster: DuplicateCluster) => {
+    const clusterRecords = cluster.manufacturerIds.flatMap(id => manufacturersById.get(id) ?? []);
+    // Default to the most complete record as the survivor
+    const survivor = [...clusterRecords].sort((a, b) =>
+      Object.values(b).filter(Boolean).length - Object.values(a).filter(Boolean).length
+    )[0];
+    setActiveCluster(cluster);
+    setSurvivorId(survivor.id);
+    setChoices(defaultMergeChoices(clusterRecords, survivor.id));
+  };
+
+  const changeSurvivor = (id: string) => {
+    setSurvivorId(id);
+    setChoices(defaultMergeChoices(records, id));
+  };
+
+  const handleMerge = () => {
+    if (!activeCluster || records.length < 2) return;
+    const merged = buildMergedManufacturer(records, survivorId, choices);
+    const duplicateIds = records.map(record => record.id).filter(id => id !== survivorId);
+    const reassigned = mergeDuplicateManufacturers(merged, duplicateIds);
+    toast.success(
+      `Merged ${records.length} records into ${merged.name}` +
+      (reassigned.quotes + reassigned.conversations > 0
+        ? ` and moved ${reassigned.quotes} quotes and ${reassigned.conversations} conversations`
+        : '')
+    );
+    setActiveCluster(null);
+  };
+
+  const handleDismiss = (cluster: DuplicateCluster) => {
+    dismissDuplicateCluster(cluster.id);
+    toast.success('Marked as not duplicates');
+  };
+
+  const handleClose = () => {
+    setActiveCluster(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicate-review-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="duplicate-review-title" className="text-xl font-semibold text-gray-900">
+              {activeCluster ? 'Merge Manufacturers' : 'Possible Duplicates'}
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {activeCluster
+                ? 'Choose the record to keep and which value survives for each differing field'
+                : `${clusters.length} candidate ${clusters.length === 1 ? 'cluster' : 'clusters'} found`}
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close duplicate review"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {/* Cluster List */}
+          {!activeCluster && (
+            clusters.length === 0 ? (
+              <div className="text-center py-12">
+                <CheckCircle className="w-10 h-10 text-success-500 mx-auto mb-4" />
+                <p className="text-gray-900 font-medium">No likely duplicates</p>
+                <p className="text-sm text-gray-500 mt-1">Every manufacturer looks distinct.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {clusters.map(cluster => {
+                  const reasons = [...new Set(cluster.pairs.flatMap(pair => pair.reasons))];
+                  return (
+                    <div key={cluster.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1">
+                          {cluster.manufacturerIds.map(id => {
+                            const manufacturer = manufacturersById.get(id);
+                            return manufacturer && (
+                              <div key={id} className="text-sm">
+                                <span className="font-medium text-gray-900">{manufacturer.name}</span>
+                                <span className="text-gray-500"> · {manufacturer.city}, {manufacturer.state} · {manufacturer.manufacturerID}</span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${confidenceStyle(cluster.confidence)}`}>
+                          {cluster.confidence}% match
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {reasons.map(reason => (
+                          <span key={reason} className="px-2 py-0.5 bg-primary-50 text-primary-700 text-xs rounded-full">
+                            {reason}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="flex justify-end space-x-2 mt-4">
+                        <button
+                          onClick={() => handleDismiss(cluster)}
+                          className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          Not duplicates
+                        </button>
+                        <button
+                          onClick={() => openCluster(cluster)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                        >
+                          <GitMerge className="w-4 h-4" />
+                          <span>Review & merge</span>
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          )}
+
+          {/* Merge */}
+          {activeCluster && records.length > 1 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium w-40">Field</th>
+                  {records.map(record => (
+                    <th key={record.id} className="py-2 pr-4 font-medium">
+                      <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="survivor"
+                          checked={survivorId === record.id}
+                          onChange={() => changeSurvivor(record.id)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                        />
+                        <span className="text-gray-900">Keep {record.manufacturerID}</span>
+                      </label>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {fields.map(field => {
+                  const isList = records.some(record => Array.isArray(record[field]));
+                  return (
+                    <tr key={field}>
+                      <td className="py-2 pr-4 font-medium text-gray-900 align-top">
+                        {fieldLabel(field)}
+                        {isList && (
+                          <label className="flex items-center mt-1 text-xs font-normal text-gray-600 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`choice-${field}`}
+                              checked={choices[field] === 'combine'}
+                              onChange={() => setChoices(prev => ({ ...prev, [field]: 'combine' }))}
+                              className="h-3 w-3 text-primary-600 focus:ring-primary-500 border-gray-300 mr-1"
+                            />
+                            Combine all
+                          </label>
+                        )}
+                      </td>
+                      {records.map(record => (
+                        <td key={record.id} className="py-2 pr-4 align-top">
+                          <label className="flex items-start space-x-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`choice-${field}`}
+                              checked={choices[field] === record.id}
+                              onChange={() => setChoices(prev => ({ ...prev, [field]: record.id }))}
+                              className="h-4 w-4 mt-0.5 text-primary-600 focus:ring-primary-500 border-gray-300"
+                            />
+                            <span className="text-gray-700 break-words">{formatValue(record[field])}</span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        {activeCluster && (
+          <div className="flex items-center justify-between p-6 border-t border-gray-200">
+            <button
+              onClick={() => setActiveCluster(null)}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back to clusters</span>
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={records.length < 2}
+              className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <GitMerge className="w-4 h-4" />
+              <span>Merge {records.length} records</span>
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
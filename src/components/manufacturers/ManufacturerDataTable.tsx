@@ -1,7 +1,6 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { 
   Filter, 
-  Search, 
   Download, 
   ChevronDown, 
   ChevronUp, 
@@ -12,7 +11,6 @@ import {
   ArrowDown,
   ChevronLeft,
   ChevronRight,
-  Loader2,
   AlertCircle,
   Star,
   MapPin,
@@ -21,39 +19,74 @@ import {
   Building,
   Users,
   Award,
-  Zap
+  Zap,
+  Upload,
+  Copy
 } from 'lucide-react';
-import { useAppStore } from '../../store/appStore';
-import { Manufacturer } from '../../types';
+import { useAppStore, defaultSearchFilters } from '../../store/appStore';
+import {
+  FilterState,
+  Manufacturer,
+  ManufacturerTableColumn,
+  SavedSearch,
+  SearchFilters,
+  SortConfig,
+  SortKey
+} from '../../types';
+import { CapacityLevel, capacityBands, getCapacityLevel } from '../../utils/capacity';
+import { distanceFilterOptions } from '../../utils/geo';
+import { matchesTableFilters } from '../../utils/manufacturerFilters';
+import { DEFAULT_PAGE_SIZE, DatabaseUrlState, PAGE_SIZE_OPTIONS, parseDatabaseState, serializeDatabaseState } from '../../utils/urlState';
+import { changedParamKeys, useUrlStateSync } from '../../hooks/useUrlStateSync';
+import { ParsedManufacturerQuery, QueryVocabulary, parseManufacturerQuery } from '../../utils/queryLanguage';
+import { DistanceOriginControl } from '../map/DistanceOriginControl';
+import { MatchScoreBadge } from './MatchScoreBadge';
+import { SearchSnippet } from './SearchSnippet';
+import { QuerySearchInput } from './QuerySearchInput';
+import { MatchWeightsPanel } from './MatchWeightsPanel';
+import { SavedSearchesMenu } from './SavedSearchesMenu';
+import { ColumnVisibilityMenu } from './ColumnVisibilityMenu';
+import { ManufacturerImportWizard } from './ManufacturerImportWizard';
+import { DuplicateReviewModal } from './DuplicateReviewModal';
+import { ManufacturerExportDialog } from './ManufacturerExportDialog';
 import { motion, AnimatePresence } from 'framer-motion';
 import { capabilities, materials, certifications } from '../../data/mockData';
 import toast from 'react-hot-toast';
 
 /**
- * Filter state interface for type safety
+ * Filters shared with the map through the app store's SearchFilters
  */
-interface FilterState {
-  search: string;
-  capabilities: string[];
-  materials: string[];
-  certifications: string[];
-  states: string[];
-  employeeRange: string;
-  revenueRange: string;
-  capacityRange: string;
-  ratingRange: string;
-  diversityFlag: boolean | null;
-  sustainabilityMin: number;
-  yearEstablishedRange: string;
-}
+type SharedArrayFilter = 'capabilities' | 'materials' | 'certifications';
+
+const defaultTableFilters: FilterState = {
+  states: [],
+  employeeRange: 'all',
+  revenueRange: 'all',
+  ratingRange: 'all',
+  diversityFlag: null,
+  sustainabilityMin: 0,
+  yearEstablishedRange: 'all'
+};
 
 /**
- * Sort configuration interface
+ * Optional columns, in display order
  */
-interface SortConfig {
-  key: keyof Manufacturer | null;
-  direction: 'asc' | 'desc';
-}
+const tableColumns: { key: ManufacturerTableColumn; label: string }[] = [
+  { key: 'match', label: 'Match' },
+  { key: 'location', label: 'Location' },
+  { key: 'distance', label: 'Distance' },
+  { key: 'size', label: 'Size' },
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'rating', label: 'Rating' },
+  { key: 'capacity', label: 'Capacity' },
+  { key: 'capabilities', label: 'Capabilities' },
+  { key: 'certifications', label: 'Certifications' }
+];
+
+/**
+ * The parts of a database view shared by saved searches and links
+ */
+type DatabaseView = Pick<DatabaseUrlState, 'query' | 'searchFilters' | 'tableFilters' | 'sortConfig' | 'hiddenColumns'>;
 
 /**
  * Pagination configuration
@@ -78,41 +111,52 @@ interface PaginationConfig {
  * - WCAG 2.1 accessibility compliance
  */
 export const ManufacturerDataTable: React.FC = () => {
-  const { manufacturers, setSelectedManufacturer } = useAppStore();
+  const {
+    manufacturers,
+    filteredManufacturers,
+    searchFilters,
+    setSearchFilters,
+    selectedManufacturer,
+    setSelectedManufacturer,
+    distanceOrigin,
+    matchScores,
+    searchQuery,
+    searchHits,
+    searchManufacturers,
+    savedSearches
+  } = useAppStore();
   
   // Component state
-  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: null, direction: 'asc' });
+  const [hiddenColumns, setHiddenColumns] = useState<ManufacturerTableColumn[]>([]);
+  const [pendingManufacturerId, setPendingManufacturerId] = useState<string | null>(null);
   
   // Filter state with comprehensive options
-  const [filters, setFilters] = useState<FilterState>({
-    search: '',
-    capabilities: [],
-    materials: [],
-    certifications: [],
-    states: [],
-    employeeRange: 'all',
-    revenueRange: 'all',
-    capacityRange: 'all',
-    ratingRange: 'all',
-    diversityFlag: null,
-    sustainabilityMin: 0,
-    yearEstablishedRange: 'all'
+  const [filters, setFilters] = useState<FilterState>(defaultTableFilters);
+
+  // Raw query-language text; free text goes to the store's index
+  const [queryText, setQueryText] = useState(searchQuery);
+  const queryOwnedFilters = useRef<Pick<ParsedManufacturerQuery, 'searchFilters' | 'tableFilters'>>({
+    searchFilters: {},
+    tableFilters: {}
   });
   
   // Pagination state
   const [pagination, setPagination] = useState<PaginationConfig>({
     currentPage: 1,
-    itemsPerPage: 25,
+    itemsPerPage: DEFAULT_PAGE_SIZE,
     totalItems: 0,
     totalPages: 0
   });
 
   // Collapsible filter sections state
-  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set(['matchWeights']));
 
   /**
    * Extract unique values for filter options
@@ -142,128 +186,46 @@ export const ManufacturerDataTable: React.FC = () => {
   }, [manufacturers]);
 
   /**
-   * Apply filters and sorting to manufacturer data
+   * Values offered and accepted by the query language
    */
-  const filteredAndSortedData = useMemo(() => {
-    let filtered = manufacturers.filter(manufacturer => {
-      // Search filter
-      if (filters.search) {
-        const searchTerm = filters.search.toLowerCase();
-        const searchableText = [
-          manufacturer.name,
-          manufacturer.city,
-          manufacturer.state,
-          manufacturer.industryKeywords,
-          manufacturer.primaryApplications,
-          ...manufacturer.capabilities,
-          ...manufacturer.materials
-        ].join(' ').toLowerCase();
-        
-        if (!searchableText.includes(searchTerm)) return false;
-      }
-
-      // Capabilities filter
-      if (filters.capabilities.length > 0) {
-        if (!filters.capabilities.some(cap => manufacturer.capabilities.includes(cap))) {
-          return false;
-        }
-      }
-
-      // Materials filter
-      if (filters.materials.length > 0) {
-        if (!filters.materials.some(mat => manufacturer.materials.includes(mat))) {
-          return false;
-        }
-      }
-
-      // Certifications filter
-      if (filters.certifications.length > 0) {
-        if (!filters.certifications.some(cert => manufacturer.certifications.includes(cert))) {
-          return false;
-        }
-      }
-
-      // States filter
-      if (filters.states.length > 0) {
-        if (!filters.states.includes(manufacturer.state)) return false;
-      }
+  const queryVocabulary = useMemo<QueryVocabulary>(() => {
+    const merge = (base: string[], extra: string[][]) => [...new Set([...base, ...extra.flat()])].sort();
+    return {
+      capability: merge(capabilities, manufacturers.map(m => m.capabilities)),
+      material: merge(materials, manufacturers.map(m => m.materials)),
+      cert: merge(certifications, manufacturers.map(m => m.certifications)),
+      state: filterOptions.states
+    };
+  }, [manufacturers, filterOptions.states]);
 
-      // Employee range filter
-      if (filters.employeeRange !== 'all') {
-        const empCount = manufacturer.numberOfEmployees;
-        switch (filters.employeeRange) {
-          case '1-25': if (empCount < 1 || empCount > 25) return false; break;
-          case '26-50': if (empCount < 26 || empCount > 50) return false; break;
-          case '51-100': if (empCount < 51 || empCount > 100) return false; break;
-          case '101-250': if (empCount < 101 || empCount > 250) return false; break;
-          case '251-500': if (empCount < 251 || empCount > 500) return false; break;
-          case '500+': if (empCount < 500) return false; break;
-        }
-      }
-
-      // Revenue range filter
-      if (filters.revenueRange !== 'all') {
-        const revenue = manufacturer.annualRevenue;
-        switch (filters.revenueRange) {
-          case '0-1M': if (revenue >= 1000000) return false; break;
-          case '1M-10M': if (revenue < 1000000 || revenue >= 10000000) return false; break;
-          case '10M-50M': if (revenue < 10000000 || revenue >= 50000000) return false; break;
-          case '50M-100M': if (revenue < 50000000 || revenue >= 100000000) return false; break;
-          case '100M+': if (revenue < 100000000) return false; break;
-        }
-      }
-
-      // Capacity range filter
-      if (filters.capacityRange !== 'all') {
-        const capacity = manufacturer.currentCapacity;
-        switch (filters.capacityRange) {
-          case 'low': if (capacity >= 50) return false; break;
-          case 'medium': if (capacity < 50 || capacity >= 80) return false; break;
-          case 'high': if (capacity < 80) return false; break;
-        }
-      }
-
-      // Rating range filter
-      if (filters.ratingRange !== 'all') {
-        const rating = manufacturer.rating;
-        switch (filters.ratingRange) {
-          case '4.5+': if (rating < 4.5) return false; break;
-          case '4.0+': if (rating < 4.0) return false; break;
-          case '3.5+': if (rating < 3.5) return false; break;
-        }
-      }
-
-      // Diversity flag filter
-      if (filters.diversityFlag !== null) {
-        if (manufacturer.diversityFlag !== filters.diversityFlag) return false;
-      }
-
-      // Sustainability filter
-      if (filters.sustainabilityMin > 0) {
-        if (manufacturer.sustainabilityScore < filters.sustainabilityMin) return false;
-      }
+  const parsedQuery = useMemo(
+    () => parseManufacturerQuery(queryText, queryVocabulary),
+    [queryText, queryVocabulary]
+  );
 
-      // Year established filter
-      if (filters.yearEstablishedRange !== 'all') {
-        const year = manufacturer.yearEstablished;
-        const currentYear = new Date().getFullYear();
-        switch (filters.yearEstablishedRange) {
-          case '0-5': if (currentYear - year > 5) return false; break;
-          case '6-15': if (currentYear - year <= 5 || currentYear - year > 15) return false; break;
-          case '16-30': if (currentYear - year <= 15 || currentYear - year > 30) return false; break;
-          case '30+': if (currentYear - year <= 30) return false; break;
-        }
-      }
+  const capacityLevel = getCapacityLevel(searchFilters);
+  const isDistanceFiltered = searchFilters.maxDistance !== distanceFilterOptions[0].value;
 
-      return true;
-    });
+  /**
+   * Apply table-specific filters and sorting on top of the store's filtered set
+   */
+  const filteredAndSortedData = useMemo(() => {
+    // Text search runs in the store's index; results arrive ordered by relevance
+    const filtered = filteredManufacturers.filter(manufacturer => matchesTableFilters(manufacturer, filters));
 
     // Apply sorting
     if (sortConfig.key) {
+      const sortValue = (m: Manufacturer) =>
+        sortConfig.key === 'matchScore' ? matchScores[m.id]?.total : m[sortConfig.key as keyof Manufacturer];
+
       filtered.sort((a, b) => {
-        const aValue = a[sortConfig.key!];
-        const bValue = b[sortConfig.key!];
+        const aValue = sortValue(a);
+        const bValue = sortValue(b);
         
+        // Missing values (e.g. distance without an origin) always sort last
+        if (aValue == null || bValue == null) {
+          return aValue == null ? (bValue == null ? 0 : 1) : -1;
+        }
         if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
         if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
         return 0;
@@ -271,7 +233,7 @@ export const ManufacturerDataTable: React.FC = () => {
     }
 
     return filtered;
-  }, [manufacturers, filters, sortConfig]);
+  }, [filteredManufacturers, filters, sortConfig, matchScores]);
 
   /**
    * Paginated data for current page
@@ -302,6 +264,31 @@ export const ManufacturerDataTable: React.FC = () => {
     setPagination(prev => ({ ...prev, currentPage: 1 })); // Reset to first page
   }, []);
 
+  /**
+   * Parse the query and apply it. Filters set by the previous query but
+   * absent from this one revert to their defaults; malformed queries keep
+   * the last valid result until fixed.
+   */
+  const handleQueryChange = useCallback((query: string) => {
+    setQueryText(query);
+    const parsed = parseManufacturerQuery(query, queryVocabulary);
+    if (parsed.errors.length > 0) return;
+
+    const previous = queryOwnedFilters.current;
+    const searchResets = Object.fromEntries(
+      (Object.keys(previous.searchFilters) as (keyof SearchFilters)[]).map(key => [key, defaultSearchFilters[key]])
+    );
+    const tableResets = Object.fromEntries(
+      (Object.keys(previous.tableFilters) as (keyof FilterState)[]).map(key => [key, defaultTableFilters[key]])
+    );
+    queryOwnedFilters.current = { searchFilters: parsed.searchFilters, tableFilters: parsed.tableFilters };
+
+    searchManufacturers(parsed.text);
+    setSearchFilters({ ...searchResets, ...parsed.searchFilters });
+    setFilters(prev => ({ ...prev, ...tableResets, ...parsed.tableFilters }));
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+  }, [queryVocabulary, searchManufacturers, setSearchFilters]);
+
   /**
    * Handle multi-select filter updates
    */
@@ -316,31 +303,46 @@ export const ManufacturerDataTable: React.FC = () => {
     setPagination(prev => ({ ...prev, currentPage: 1 }));
   }, []);
 
+  /**
+   * Handle multi-select updates for filters shared through the app store
+   */
+  const toggleSharedFilter = useCallback((key: SharedArrayFilter, value: string) => {
+    const currentArray = searchFilters[key];
+    setSearchFilters({
+      [key]: currentArray.includes(value)
+        ? currentArray.filter(item => item !== value)
+        : [...currentArray, value]
+    });
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+  }, [searchFilters, setSearchFilters]);
+
+  /**
+   * Handle capacity band updates shared through the app store
+   */
+  const updateCapacityFilter = useCallback((level: CapacityLevel) => {
+    setSearchFilters(capacityBands[level]);
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+  }, [setSearchFilters]);
+
   /**
    * Clear all filters
    */
   const clearAllFilters = useCallback(() => {
-    setFilters({
-      search: '',
-      capabilities: [],
-      materials: [],
-      certifications: [],
-      states: [],
-      employeeRange: 'all',
-      revenueRange: 'all',
-      capacityRange: 'all',
-      ratingRange: 'all',
-      diversityFlag: null,
-      sustainabilityMin: 0,
-      yearEstablishedRange: 'all'
+    setQueryText('');
+    queryOwnedFilters.current = { searchFilters: {}, tableFilters: {} };
+    searchManufacturers('');
+    setFilters(defaultTableFilters);
+    setSearchFilters({
+      ...defaultSearchFilters,
+      ...capacityBands.all
     });
     setPagination(prev => ({ ...prev, currentPage: 1 }));
-  }, []);
+  }, [setSearchFilters, searchManufacturers]);
 
   /**
    * Handle sorting
    */
-  const handleSort = useCallback((key: keyof Manufacturer) => {
+  const handleSort = useCallback((key: SortKey) => {
     setSortConfig(prev => ({
       key,
       direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc'
@@ -382,76 +384,79 @@ export const ManufacturerDataTable: React.FC = () => {
     }
   }, [paginatedData, selectedRows]);
 
+  const selectedManufacturers = useMemo(
+    () => manufacturers.filter(m => selectedRows.has(m.id)),
+    [manufacturers, selectedRows]
+  );
+
   /**
-   * Export selected data
+   * Restore a view: query, filters, sort and column layout
    */
-  const exportData = useCallback(async () => {
-    if (selectedRows.size === 0) {
-      toast.error('Please select rows to export');
-      return;
-    }
+  const applyView = useCallback((view: DatabaseView) => {
+    const parsed = parseManufacturerQuery(view.query, queryVocabulary);
+    queryOwnedFilters.current = { searchFilters: parsed.searchFilters, tableFilters: parsed.tableFilters };
+    setQueryText(view.query);
+    searchManufacturers(parsed.text);
+    setSearchFilters(view.searchFilters);
+    setFilters(view.tableFilters);
+    setSortConfig(view.sortConfig);
+    setHiddenColumns(view.hiddenColumns);
+  }, [queryVocabulary, searchManufacturers, setSearchFilters]);
 
-    setIsLoading(true);
-    try {
-      const selectedData = manufacturers.filter(m => selectedRows.has(m.id));
-      const csvContent = generateCSV(selectedData);
-      downloadCSV(csvContent, 'manufacturer-data.csv');
-      toast.success(`Exported ${selectedData.length} manufacturers`);
-    } catch (error) {
-      toast.error('Failed to export data');
-      setError('Export failed. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [selectedRows, manufacturers]);
+  const applySavedSearch = useCallback((search: SavedSearch) => {
+    applyView(search);
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+  }, [applyView]);
 
   /**
-   * Generate CSV content
+   * Select a manufacturer by id, waiting for data to load if needed
    */
-  const generateCSV = (data: Manufacturer[]) => {
-    const headers = [
-      'Name', 'City', 'State', 'Industry', 'Employees', 'Revenue', 
-      'Rating', 'MOQ', 'Lead Time', 'Capacity', 'Sustainability',
-      'Founded', 'Capabilities', 'Materials', 'Certifications'
-    ];
-    
-    const rows = data.map(m => [
-      m.name,
-      m.city,
-      m.state,
-      m.industryKeywords,
-      m.numberOfEmployees,
-      m.annualRevenue,
-      m.rating,
-      m.moq,
-      m.leadTimeDays,
-      m.currentCapacity,
-      m.sustainabilityScore,
-      m.yearEstablished,
-      m.capabilities.join('; '),
-      m.materials.join('; '),
-      m.certifications.join('; ')
-    ]);
-    
-    return [headers, ...rows].map(row => 
-      row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')
-    ).join('\n');
-  };
+  const selectManufacturerById = useCallback((manufacturerId: string | null) => {
+    const manufacturer = manufacturerId ? manufacturers.find(m => m.id === manufacturerId) : null;
+    setSelectedManufacturer(manufacturer ?? null);
+    setPendingManufacturerId(manufacturerId && !manufacturer ? manufacturerId : null);
+  }, [manufacturers, setSelectedManufacturer]);
 
-  /**
-   * Download CSV file
-   */
-  const downloadCSV = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+  useEffect(() => {
+    if (pendingManufacturerId && manufacturers.length > 0) selectManufacturerById(pendingManufacturerId);
+  }, [pendingManufacturerId, manufacturers, selectManufacturerById]);
+
+  // Keep filters, sort, pagination, columns and selection in the URL
+  const urlDefaults = { searchFilters: defaultSearchFilters, tableFilters: defaultTableFilters };
+  useUrlStateSync(
+    serializeDatabaseState({
+      query: queryText,
+      searchFilters,
+      tableFilters: filters,
+      sortConfig,
+      page: pagination.currentPage,
+      pageSize: pagination.itemsPerPage,
+      hiddenColumns,
+      manufacturerId: selectedManufacturer?.id ?? pendingManufacturerId
+    }, urlDefaults),
+    (params) => {
+      // Notification links open a saved search (?savedSearch=<id>)
+      const savedSearchId = params.get('savedSearch');
+      if (savedSearchId) {
+        const search = savedSearches.find(s => s.id === savedSearchId);
+        if (search) applySavedSearch(search);
+        else toast.error('That saved search no longer exists');
+        return;
+      }
+
+      const view = parseDatabaseState(params, urlDefaults);
+      applyView(view);
+      setPagination(prev => ({ ...prev, currentPage: view.page, itemsPerPage: view.pageSize }));
+      selectManufacturerById(view.manufacturerId);
+    },
+    {
+      // Typing in the search box rewrites the current entry instead of adding one per keystroke
+      historyMode: (previous, next) =>
+        changedParamKeys(previous, next).every(key => key === 'q') ? 'replace' : 'push'
+    }
+  );
+
+  const isColumnVisible = (column: ManufacturerTableColumn) => !hiddenColumns.includes(column);
 
   /**
    * Toggle filter section collapse
@@ -471,7 +476,7 @@ export const ManufacturerDataTable: React.FC = () => {
   /**
    * Get sort icon for column
    */
-  const getSortIcon = (key: keyof Manufacturer) => {
+  const getSortIcon = (key: SortKey) => {
     if (sortConfig.key !== key) return <ArrowUpDown className="w-4 h-4 text-gray-400" />;
     return sortConfig.direction === 'asc' 
       ? <ArrowUp className="w-4 h-4 text-primary-600" />
@@ -487,25 +492,35 @@ export const ManufacturerDataTable: React.FC = () => {
     return `$${value.toLocaleString()}`;
   };
 
+  /**
+   * Highlighted company name when the search matched it
+   */
+  const nameHighlight = (manufacturerId: string) =>
+    searchHits[manufacturerId]?.highlights.find(highlight => highlight.field === 'name');
+
   /**
    * Get active filter count
    */
   const activeFilterCount = useMemo(() => {
     let count = 0;
-    if (filters.search) count++;
-    count += filters.capabilities.length;
-    count += filters.materials.length;
-    count += filters.certifications.length;
+    if (searchQuery.trim()) count++;
+    if (searchFilters.minMoq !== defaultSearchFilters.minMoq || searchFilters.maxMoq !== defaultSearchFilters.maxMoq) count++;
+    if (searchFilters.maxLeadTime !== defaultSearchFilters.maxLeadTime) count++;
+    if (searchFilters.minRating !== defaultSearchFilters.minRating || searchFilters.maxRating !== undefined) count++;
+    count += searchFilters.capabilities.length;
+    count += searchFilters.materials.length;
+    count += searchFilters.certifications.length;
     count += filters.states.length;
     if (filters.employeeRange !== 'all') count++;
     if (filters.revenueRange !== 'all') count++;
-    if (filters.capacityRange !== 'all') count++;
+    if (capacityLevel !== 'all') count++;
+    if (isDistanceFiltered) count++;
     if (filters.ratingRange !== 'all') count++;
     if (filters.diversityFlag !== null) count++;
     if (filters.sustainabilityMin > 0) count++;
     if (filters.yearEstablishedRange !== 'all') count++;
     return count;
-  }, [filters]);
+  }, [filters, searchFilters, searchQuery, capacityLevel, isDistanceFiltered]);
 
   return (
     <div className="flex h-screen bg-gray-50">
@@ -551,22 +566,26 @@ export const ManufacturerDataTable: React.FC = () => {
             {/* Filters Content */}
             <div className="flex-1 overflow-y-auto">
               <div className="p-6 space-y-6">
+                {/* Match Weights */}
+                <FilterSection
+                  title="Match Weights"
+                  isCollapsed={collapsedSections.has('matchWeights')}
+                  onToggle={() => toggleSection('matchWeights')}
+                >
+                  <MatchWeightsPanel />
+                </FilterSection>
+
                 {/* Search Filter */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Search
                   </label>
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                    <input
-                      type="text"
-                      value={filters.search}
-                      onChange={(e) => updateFilter('search', e.target.value)}
-                      placeholder="Search manufacturers..."
-                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
-                      aria-label="Search manufacturers"
-                    />
-                  </div>
+                  <QuerySearchInput
+                    value={queryText}
+                    onChange={handleQueryChange}
+                    vocabulary={queryVocabulary}
+                    errors={parsedQuery.errors}
+                  />
                 </div>
 
                 {/* Capabilities Filter */}
@@ -574,15 +593,15 @@ export const ManufacturerDataTable: React.FC = () => {
                   title="Capabilities"
                   isCollapsed={collapsedSections.has('capabilities')}
                   onToggle={() => toggleSection('capabilities')}
-                  count={filters.capabilities.length}
+                  count={searchFilters.capabilities.length}
                 >
                   <div className="space-y-2 max-h-48 overflow-y-auto">
                     {capabilities.slice(0, 20).map((capability) => (
                       <label key={capability} className="flex items-center">
                         <input
                           type="checkbox"
-                          checked={filters.capabilities.includes(capability)}
-                          onChange={() => toggleFilterArray('capabilities', capability)}
+                          checked={searchFilters.capabilities.includes(capability)}
+                          onChange={() => toggleSharedFilter('capabilities', capability)}
                           className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
                         />
                         <span className="ml-2 text-sm text-gray-700">{capability}</span>
@@ -596,15 +615,15 @@ export const ManufacturerDataTable: React.FC = () => {
                   title="Materials"
                   isCollapsed={collapsedSections.has('materials')}
                   onToggle={() => toggleSection('materials')}
-                  count={filters.materials.length}
+                  count={searchFilters.materials.length}
                 >
                   <div className="space-y-2 max-h-48 overflow-y-auto">
                     {materials.slice(0, 20).map((material) => (
                       <label key={material} className="flex items-center">
                         <input
                           type="checkbox"
-                          checked={filters.materials.includes(material)}
-                          onChange={() => toggleFilterArray('materials', material)}
+                          checked={searchFilters.materials.includes(material)}
+                          onChange={() => toggleSharedFilter('materials', material)}
                           className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
                         />
                         <span className="ml-2 text-sm text-gray-700">{material}</span>
@@ -613,6 +632,28 @@ export const ManufacturerDataTable: React.FC = () => {
                   </div>
                 </FilterSection>
 
+                {/* Certifications Filter */}
+                <FilterSection
+                  title="Certifications"
+                  isCollapsed={collapsedSections.has('certifications')}
+                  onToggle={() => toggleSection('certifications')}
+                  count={searchFilters.certifications.length}
+                >
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {certifications.slice(0, 20).map((certification) => (
+                      <label key={certification} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={searchFilters.certifications.includes(certification)}
+                          onChange={() => toggleSharedFilter('certifications', certification)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">{certification}</span>
+                      </label>
+                    ))}
+                  </div>
+                </FilterSection>
+
                 {/* States Filter */}
                 <FilterSection
                   title="States"
@@ -635,6 +676,28 @@ export const ManufacturerDataTable: React.FC = () => {
                   </div>
                 </FilterSection>
 
+                {/* Distance Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Distance
+                  </label>
+                  <select
+                    value={searchFilters.maxDistance}
+                    onChange={(e) => {
+                      setSearchFilters({ maxDistance: parseInt(e.target.value) });
+                      setPagination(prev => ({ ...prev, currentPage: 1 }));
+                    }}
+                    disabled={!distanceOrigin}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                  >
+                    {distanceFilterOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 {/* Company Size Filter */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -677,8 +740,8 @@ export const ManufacturerDataTable: React.FC = () => {
                     Current Capacity
                   </label>
                   <select
-                    value={filters.capacityRange}
-                    onChange={(e) => updateFilter('capacityRange', e.target.value)}
+                    value={capacityLevel}
+                    onChange={(e) => updateCapacityFilter(e.target.value as CapacityLevel)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                   >
                     <option value="all">All Levels</option>
@@ -790,21 +853,47 @@ export const ManufacturerDataTable: React.FC = () => {
                   {filteredAndSortedData.length} of {manufacturers.length} manufacturers
                   {selectedRows.size > 0 && ` • ${selectedRows.size} selected`}
                 </p>
+                <DistanceOriginControl className="mt-2" />
               </div>
             </div>
             
             <div className="flex items-center space-x-3">
+              <SavedSearchesMenu
+                currentView={{
+                  query: queryText,
+                  searchText: searchQuery,
+                  searchFilters,
+                  tableFilters: filters,
+                  sortConfig,
+                  hiddenColumns
+                }}
+                onApply={applySavedSearch}
+              />
+              <ColumnVisibilityMenu
+                columns={tableColumns}
+                hiddenColumns={hiddenColumns}
+                onChange={setHiddenColumns}
+              />
               <button
-                onClick={exportData}
-                disabled={selectedRows.size === 0 || isLoading}
-                className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
               >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <Download className="w-4 h-4" />
-                )}
-                <span>Export Selected</span>
+                <Upload className="w-4 h-4" />
+                <span>Import</span>
+              </button>
+              <button
+                onClick={() => setIsDuplicatesOpen(true)}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+                <span>Duplicates</span>
+              </button>
+              <button
+                onClick={() => setIsExportOpen(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>{selectedRows.size > 0 ? `Export (${selectedRows.size})` : 'Export'}</span>
               </button>
             </div>
           </div>
@@ -852,63 +941,101 @@ export const ManufacturerDataTable: React.FC = () => {
                     </button>
                   </th>
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    <button
-                      onClick={() => handleSort('state')}
-                      className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
-                    >
-                      <span>Location</span>
-                      {getSortIcon('state')}
-                    </button>
-                  </th>
+                  {isColumnVisible('match') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('matchScore')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Match</span>
+                        {getSortIcon('matchScore')}
+                      </button>
+                    </th>
+                  )}
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    <button
-                      onClick={() => handleSort('numberOfEmployees')}
-                      className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
-                    >
-                      <span>Size</span>
-                      {getSortIcon('numberOfEmployees')}
-                    </button>
-                  </th>
+                  {isColumnVisible('location') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('state')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Location</span>
+                        {getSortIcon('state')}
+                      </button>
+                    </th>
+                  )}
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    <button
-                      onClick={() => handleSort('annualRevenue')}
-                      className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
-                    >
-                      <span>Revenue</span>
-                      {getSortIcon('annualRevenue')}
-                    </button>
-                  </th>
+                  {isColumnVisible('distance') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('distance')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Distance</span>
+                        {getSortIcon('distance')}
+                      </button>
+                    </th>
+                  )}
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    <button
-                      onClick={() => handleSort('rating')}
-                      className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
-                    >
-                      <span>Rating</span>
-                      {getSortIcon('rating')}
-                    </button>
-                  </th>
+                  {isColumnVisible('size') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('numberOfEmployees')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Size</span>
+                        {getSortIcon('numberOfEmployees')}
+                      </button>
+                    </th>
+                  )}
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    <button
-                      onClick={() => handleSort('currentCapacity')}
-                      className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
-                    >
-                      <span>Capacity</span>
-                      {getSortIcon('currentCapacity')}
-                    </button>
-                  </th>
+                  {isColumnVisible('revenue') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('annualRevenue')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Revenue</span>
+                        {getSortIcon('annualRevenue')}
+                      </button>
+                    </th>
+                  )}
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Capabilities
-                  </th>
+                  {isColumnVisible('rating') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('rating')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Rating</span>
+                        {getSortIcon('rating')}
+                      </button>
+                    </th>
+                  )}
                   
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Certifications
-                  </th>
+                  {isColumnVisible('capacity') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <button
+                        onClick={() => handleSort('currentCapacity')}
+                        className="flex items-center space-x-1 hover:text-gray-700 transition-colors"
+                      >
+                        <span>Capacity</span>
+                        {getSortIcon('currentCapacity')}
+                      </button>
+                    </th>
+                  )}
+                  
+                  {isColumnVisible('capabilities') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Capabilities
+                    </th>
+                  )}
+                  
+                  {isColumnVisible('certifications') && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Certifications
+                    </th>
+                  )}
                 </tr>
               </thead>
               
@@ -921,6 +1048,8 @@ export const ManufacturerDataTable: React.FC = () => {
                     transition={{ delay: index * 0.02 }}
                     className={`hover:bg-gray-50 transition-colors cursor-pointer ${
                       selectedRows.has(manufacturer.id) ? 'bg-primary-50' : ''
+                    } ${
+                      selectedManufacturer?.id === manufacturer.id ? 'ring-2 ring-inset ring-primary-400' : ''
                     }`}
                     onClick={() => setSelectedManufacturer(manufacturer)}
                   >
@@ -946,87 +1075,127 @@ export const ManufacturerDataTable: React.FC = () => {
                         </div>
                         <div className="ml-4">
                           <div className="text-sm font-medium text-gray-900">
-                            {manufacturer.name}
+                            {nameHighlight(manufacturer.id) ? (
+                              <SearchSnippet segments={nameHighlight(manufacturer.id)!.segments} />
+                            ) : (
+                              manufacturer.name
+                            )}
                           </div>
                           <div className="text-sm text-gray-500">
                             {manufacturer.industryKeywords}
                           </div>
+                          {searchHits[manufacturer.id]?.highlights
+                            .filter(highlight => highlight.field !== 'name')
+                            .map(highlight => (
+                              <div key={highlight.field} className="text-xs text-gray-500 mt-1 max-w-xs truncate">
+                                <span className="text-gray-400 mr-1">{highlight.field}:</span>
+                                <SearchSnippet segments={highlight.segments} />
+                              </div>
+                            ))}
                         </div>
                       </div>
                     </td>
                     
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <MapPin className="w-4 h-4 text-gray-400 mr-1" />
-                        <span>{manufacturer.city}, {manufacturer.state}</span>
-                      </div>
-                    </td>
+                    {isColumnVisible('match') && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <MatchScoreBadge score={matchScores[manufacturer.id]} />
+                      </td>
+                    )}
                     
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <Users className="w-4 h-4 text-gray-400 mr-1" />
-                        <span>{manufacturer.numberOfEmployees.toLocaleString()}</span>
-                      </div>
-                    </td>
+                    {isColumnVisible('location') && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-gray-900">
+                          <MapPin className="w-4 h-4 text-gray-400 mr-1" />
+                          <span>{manufacturer.city}, {manufacturer.state}</span>
+                        </div>
+                      </td>
+                    )}
                     
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {formatCurrency(manufacturer.annualRevenue)}
-                    </td>
+                    {isColumnVisible('distance') && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {manufacturer.distance !== undefined
+                          ? `${manufacturer.distance.toLocaleString()} mi`
+                          : <span className="text-gray-400">—</span>}
+                      </td>
+                    )}
                     
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <Star className="w-4 h-4 text-yellow-400 mr-1" />
-                        <span className="text-sm text-gray-900">{manufacturer.rating}</span>
-                      </div>
-                    </td>
+                    {isColumnVisible('size') && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-gray-900">
+                          <Users className="w-4 h-4 text-gray-400 mr-1" />
+                          <span>{manufacturer.numberOfEmployees.toLocaleString()}</span>
+                        </div>
+                      </td>
+                    )}
                     
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className={`w-2 h-2 rounded-full mr-2 ${
-                          manufacturer.currentCapacity >= 80 ? 'bg-error-500' :
-                          manufacturer.currentCapacity >= 50 ? 'bg-warning-500' :
-                          'bg-success-500'
-                        }`} />
-                        <span className="text-sm text-gray-900">{manufacturer.currentCapacity}%</span>
-                      </div>
-                    </td>
+                    {isColumnVisible('revenue') && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(manufacturer.annualRevenue)}
+                      </td>
+                    )}
                     
-                    <td className="px-6 py-4">
-                      <div className="flex flex-wrap gap-1">
-                        {manufacturer.capabilities.slice(0, 2).map((capability) => (
-                          <span
-                            key={capability}
-                            className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800"
-                          >
-                            {capability}
-                          </span>
-                        ))}
-                        {manufacturer.capabilities.length > 2 && (
-                          <span className="text-xs text-gray-500">
-                            +{manufacturer.capabilities.length - 2} more
-                          </span>
-                        )}
-                      </div>
-                    </td>
+                    {isColumnVisible('rating') && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <Star className="w-4 h-4 text-yellow-400 mr-1" />
+                          <span className="text-sm text-gray-900">{manufacturer.rating}</span>
+                        </div>
+                      </td>
+                    )}
                     
-                    <td className="px-6 py-4">
-                      <div className="flex flex-wrap gap-1">
-                        {manufacturer.certifications.slice(0, 2).map((cert) => (
-                          <span
-                            key={cert}
-                            className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-secondary-100 text-secondary-800"
-                          >
-                            <Award className="w-3 h-3 mr-1" />
-                            {cert}
-                          </span>
-                        ))}
-                        {manufacturer.certifications.length > 2 && (
-                          <span className="text-xs text-gray-500">
-                            +{manufacturer.certifications.length - 2} more
-                          </span>
-                        )}
-                      </div>
-                    </td>
+                    {isColumnVisible('capacity') && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className={`w-2 h-2 rounded-full mr-2 ${
+                            manufacturer.currentCapacity >= 80 ? 'bg-error-500' :
+                            manufacturer.currentCapacity >= 50 ? 'bg-warning-500' :
+                            'bg-success-500'
+                          }`} />
+                          <span className="text-sm text-gray-900">{manufacturer.currentCapacity}%</span>
+                        </div>
+                      </td>
+                    )}
+                    
+                    {isColumnVisible('capabilities') && (
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {manufacturer.capabilities.slice(0, 2).map((capability) => (
+                            <span
+                              key={capability}
+                              className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800"
+                            >
+                              {capability}
+                            </span>
+                          ))}
+                          {manufacturer.capabilities.length > 2 && (
+                            <span className="text-xs text-gray-500">
+                              +{manufacturer.capabilities.length - 2} more
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                    
+                    {isColumnVisible('certifications') && (
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {manufacturer.certifications.slice(0, 2).map((cert) => (
+                            <span
+                              key={cert}
+                              className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-secondary-100 text-secondary-800"
+                            >
+                              <Award className="w-3 h-3 mr-1" />
+                              {cert}
+                            </span>
+                          ))}
+                          {manufacturer.certifications.length > 2 && (
+                            <span className="text-xs text-gray-500">
+                              +{manufacturer.certifications.length - 2} more
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                    )}
                   </motion.tr>
                 ))}
               </tbody>
@@ -1053,10 +1222,9 @@ export const ManufacturerDataTable: React.FC = () => {
                 }))}
                 className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
               >
-                <option value={10}>10 per page</option>
-                <option value={25}>25 per page</option>
-                <option value={50}>50 per page</option>
-                <option value={100}>100 per page</option>
+                {PAGE_SIZE_OPTIONS.map(size => (
+                  <option key={size} value={size}>{size} per page</option>
+                ))}
               </select>
             </div>
             
@@ -1101,6 +1269,16 @@ export const ManufacturerDataTable: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Import Wizard */}
+      <ManufacturerImportWizard isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+      <DuplicateReviewModal isOpen={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} />
+      <ManufacturerExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        selected={selectedManufacturers}
+        filtered={filteredAndSortedData}
+      />
     </div>
   );
 };
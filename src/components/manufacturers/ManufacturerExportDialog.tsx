@@ -0,0 +1,366 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Download, ChevronUp, ChevronDown, Save, Trash2 } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { ExportFormat, ExportProfile, ExportScope, Manufacturer } from '../../types';
+import {
+  createManufacturerExport,
+  defaultExportFields,
+  exportDelimiters,
+  exportFieldLabel,
+  exportFieldSpecs,
+  exportFormats
+} from '../../utils/manufacturerExport';
+import { downloadFile } from '../../utils/spreadsheet';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface ManufacturerExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selected: Manufacturer[];
+  filtered: Manufacturer[];
+}
+
+const scopeLabels: Record<ExportScope, string> = {
+  selected: 'Selected rows',
+  filtered: 'Current filtered results',
+  all: 'All manufacturers',
+};
+
+const fieldGroups = exportFieldSpecs.reduce<Record<string, typeof exportFieldSpecs>>((groups, spec) => {
+  groups[spec.group] = [...(groups[spec.group] ?? []), spec];
+  return groups;
+}, {});
+
+/**
+ * ManufacturerExportDialog Component
+ *
+ * Export configuration: which records, which fields in which order, and
+ * the file format. Configurations can be saved as reusable profiles.
+ */
+export const ManufacturerExportDialog: React.FC<ManufacturerExportDialogProps> = ({
+  isOpen,
+  onClose,
+  selected,
+  filtered
+}) => {
+  const {
+    manufacturers,
+    exportProfiles,
+    saveExportProfile,
+    updateExportProfile,
+    deleteExportProfile
+  } = useAppStore();
+  const [fields, setFields] = useState<string[]>(defaultExportFields);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [delimiter, setDelimiter] = useState(',');
+  const [scope, setScope] = useState<ExportScope>('filtered');
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+
+  // Default to the selection whenever there is one
+  useEffect(() => {
+    if (isOpen && !profileId) setScope(selected.length > 0 ? 'selected' : 'filtered');
+  }, [isOpen, selected.length, profileId]);
+
+  const scopeRecords: Record<ExportScope, Manufacturer[]> = useMemo(
+    () => ({ selected, filtered, all: manufacturers }),
+    [selected, filtered, manufacturers]
+  );
+
+  const records = scopeRecords[scope];
+
+  const toggleField = (path: string) => {
+    setFields(prev => prev.includes(path) ? prev.filter(field => field !== path) : [...prev, path]);
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setFields(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const applyProfile = (id: string) => {
+    setProfileId(id);
+    const profile = exportProfiles.find(p => p.id === id);
+    if (!profile) return;
+    setFields(profile.fields);
+    setFormat(profile.format);
+    setDelimiter(profile.delimiter);
+    setScope(profile.scope);
+    setProfileName(profile.name);
+  };
+
+  const currentSettings = (): Omit<ExportProfile, 'id' | 'name' | 'createdAt' | 'updatedAt'> =>
+    ({ fields, format, delimiter, scope });
+
+  /**
+   * Save the current settings; an existing name is overwritten
+   */
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = profileName.trim();
+    if (!trimmed) return;
+
+    const existing = exportProfiles.find(profile => profile.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      updateExportProfile(existing.id, { ...currentSettings(), name: trimmed });
+      setProfileId(existing.id);
+      toast.success(`Updated export profile "${trimmed}"`);
+    } else {
+      setProfileId(saveExportProfile({ ...currentSettings(), name: trimmed }).id);
+      toast.success(`Saved export profile "${trimmed}"`);
+    }
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = exportProfiles.find(p => p.id === profileId);
+    if (!profile) return;
+    deleteExportProfile(profile.id);
+    setProfileId('');
+    setProfileName('');
+    toast.success(`Deleted export profile "${profile.name}"`);
+  };
+
+  const handleExport = () => {
+    try {
+      const file = createManufacturerExport(records, { fields, format, delimiter });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(file.content, `manufacturers-${scope}-${date}.${file.extension}`, file.mimeType);
+      toast.success(`Exported ${records.length} manufacturers`);
+      onClose();
+    } catch {
+      toast.error('Failed to export data');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="export-dialog-title" className="text-xl font-semibold text-gray-900">Export Manufacturers</h2>
+            <p className="text-sm text-gray-600 mt-1">Choose records, fields and format</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close export dialog"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Profiles */}
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[12rem]">
+              <label htmlFor="export-profile" className="block text-sm font-medium text-gray-700 mb-1">Profile</label>
+              <div className="flex space-x-2">
+                <select
+                  id="export-profile"
+                  value={profileId}
+                  onChange={(e) => applyProfile(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">Custom</option>
+                  {exportProfiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+                {profileId && (
+                  <button
+                    onClick={handleDeleteProfile}
+                    className="p-2 text-gray-400 hover:text-error-600 transition-colors"
+                    aria-label="Delete export profile"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <form onSubmit={handleSaveProfile} className="flex space-x-2">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                aria-label="Export profile name"
+              />
+              <button
+                type="submit"
+                disabled={!profileName.trim() || fields.length === 0}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                <span>Save profile</span>
+              </button>
+            </form>
+          </div>
+
+          {/* Scope & Format */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 mb-2">Records</legend>
+              <div className="space-y-2">
+                {(Object.keys(scopeLabels) as ExportScope[]).map(option => (
+                  <label key={option} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="export-scope"
+                      checked={scope === option}
+                      onChange={() => setScope(option)}
+                      disabled={scopeRecords[option].length === 0}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 mr-2"
+                    />
+                    {scopeLabels[option]} ({scopeRecords[option].length})
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <div>
+              <label htmlFor="export-format" className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+              <select
+                id="export-format"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                {exportFormats.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {format === 'csv' && (
+              <div>
+                <label htmlFor="export-delimiter" className="block text-sm font-medium text-gray-700 mb-2">Delimiter</label>
+                <select
+                  id="export-delimiter"
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {exportDelimiters.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* Fields */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Available Fields</h3>
+                <div className="space-x-3 text-sm">
+                  <button
+                    onClick={() => setFields(exportFieldSpecs.map(spec => spec.path))}
+                    className="text-primary-600 hover:text-primary-700"
+                  >
+                    All
+                  </button>
+                  <button onClick={() => setFields([])} className="text-primary-600 hover:text-primary-700">
+                    None
+                  </button>
+                </div>
+              </div>
+              <div className="border border-gray-200 rounded-lg p-3 max-h-80 overflow-y-auto space-y-4">
+                {Object.entries(fieldGroups).map(([group, specs]) => (
+                  <div key={group}>
+                    <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">{group}</p>
+                    {specs.map(spec => (
+                      <label key={spec.path} className="flex items-center text-sm text-gray-700 py-0.5">
+                        <input
+                          type="checkbox"
+                          checked={fields.includes(spec.path)}
+                          onChange={() => toggleField(spec.path)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                        />
+                        {spec.label}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Column Order ({fields.length})</h3>
+              <ol className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                {fields.length === 0 && (
+                  <li className="p-3 text-sm text-gray-500">Pick at least one field</li>
+                )}
+                {fields.map((path, index) => (
+                  <li key={path} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                    <span className="text-gray-900">
+                      <span className="text-gray-400 mr-2">{index + 1}.</span>
+                      {exportFieldLabel(path)}
+                    </span>
+                    <span className="flex items-center">
+                      <button
+                        onClick={() => moveField(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        aria-label={`Move ${exportFieldLabel(path)} up`}
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveField(index, 1)}
+                        disabled={index === fields.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        aria-label={`Move ${exportFieldLabel(path)} down`}
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleField(path)}
+                        className="p-1 text-gray-400 hover:text-error-600"
+                        aria-label={`Remove ${exportFieldLabel(path)}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={fields.length === 0 || records.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export {records.length} manufacturers</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
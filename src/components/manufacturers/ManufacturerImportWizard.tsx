@@ -0,0 +1,345 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { X, Upload, FileSpreadsheet, ArrowLeft, ArrowRight, AlertCircle, Download, Loader2 } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { Manufacturer } from '../../types';
+import {
+  autoMapColumns,
+  ColumnMapping,
+  importFieldSpecs,
+  planManufacturerImport,
+  ImportRowPlan
+} from '../../utils/manufacturerImport';
+import { downloadFile, readSpreadsheetFile, spreadsheetAccept, toCsv } from '../../utils/spreadsheet';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface ManufacturerImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'review';
+
+const actionStyles: Record<ImportRowPlan['action'], string> = {
+  create: 'bg-success-100 text-success-800',
+  update: 'bg-primary-100 text-primary-800',
+  skip: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-error-100 text-error-800',
+};
+
+const actionLabels: Record<ImportRowPlan['action'], string> = {
+  create: 'New',
+  update: 'Update',
+  skip: 'Skipped',
+  invalid: 'Invalid',
+};
+
+/**
+ * ManufacturerImportWizard Component
+ *
+ * Three-step modal for bringing supplier lists into the database: upload a
+ * CSV/XLSX file, confirm the auto-detected column mapping, then review
+ * per-row validation results before merging.
+ */
+export const ManufacturerImportWizard: React.FC<ManufacturerImportWizardProps> = ({ isOpen, onClose }) => {
+  const { manufacturers, importManufacturers } = useAppStore();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [isReading, setIsReading] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setUpdateExisting(true);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const onDrop = useCallback(async (files: File[]) => {
+    const file = files[0];
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const [headerRow = [], ...dataRows] = await readSpreadsheetFile(file);
+      if (dataRows.length === 0) {
+        toast.error('The file has no data rows');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow.map(header => header.trim()));
+      setRows(dataRows);
+      setMapping(autoMapColumns(headerRow));
+      setStep('mapping');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setIsReading(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: spreadsheetAccept,
+    multiple: false,
+    disabled: isReading,
+  });
+
+  const plan = useMemo(
+    () => step === 'review' ? planManufacturerImport(headers, rows, mapping, manufacturers, { updateExisting }) : null,
+    [step, headers, rows, mapping, manufacturers, updateExisting]
+  );
+
+  const missingRequired = importFieldSpecs.filter(spec => spec.required && !mapping.includes(spec.field));
+
+  /**
+   * Assign a field to a column; a field can only feed from one column
+   */
+  const setColumnField = (column: number, field: keyof Manufacturer | null) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field;
+      return field && current === field ? null : current;
+    }));
+  };
+
+  const sampleValues = (column: number) =>
+    rows.map(row => row[column]?.trim()).filter(Boolean).slice(0, 3).join(' • ');
+
+  const downloadErrorReport = () => {
+    if (!plan) return;
+    const reportRows = plan.rows
+      .filter(row => row.action === 'invalid' || row.action === 'skip')
+      .map(row => [
+        row.rowNumber,
+        row.name,
+        row.manufacturerID,
+        actionLabels[row.action],
+        row.reason ?? row.errors.map(error => `${error.column}: ${error.message}`).join('; ')
+      ]);
+    const content = toCsv([['Row', 'Name', 'Manufacturer ID', 'Status', 'Issues'], ...reportRows]);
+    downloadFile(content, `${fileName.replace(/\.[^.]+$/, '')}-import-errors.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const handleImport = () => {
+    if (!plan) return;
+    const records = plan.rows.flatMap(row => row.manufacturer ? [row.manufacturer] : []);
+    importManufacturers(records);
+    toast.success(`Imported ${plan.counts.create} new and updated ${plan.counts.update} manufacturers`);
+    handleClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-wizard-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="import-wizard-title" className="text-xl font-semibold text-gray-900">Import Manufacturers</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {step === 'upload' && 'Step 1 of 3: Choose a CSV or XLSX file'}
+              {step === 'mapping' && `Step 2 of 3: Map columns from ${fileName}`}
+              {step === 'review' && 'Step 3 of 3: Review and import'}
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close import wizard"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {/* Upload */}
+          {step === 'upload' && (
+            <div
+              {...getRootProps()}
+              className={`border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-colors ${
+                isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400'
+              }`}
+            >
+              <input {...getInputProps()} />
+              {isReading ? (
+                <Loader2 className="w-10 h-10 text-primary-600 mx-auto mb-4 animate-spin" />
+              ) : (
+                <Upload className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+              )}
+              <p className="text-gray-900 font-medium">
+                {isDragActive ? 'Drop the file here' : 'Drag a supplier list here, or click to browse'}
+              </p>
+              <p className="text-sm text-gray-500 mt-1">
+                CSV, TSV or XLSX. The first row must contain column headers.
+              </p>
+            </div>
+          )}
+
+          {/* Column Mapping */}
+          {step === 'mapping' && (
+            <div className="space-y-4">
+              {missingRequired.length > 0 && (
+                <div className="flex items-center p-3 bg-error-50 border border-error-200 rounded-lg text-sm text-error-700">
+                  <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Map a column to {missingRequired.map(spec => spec.label).join(', ')} to continue
+                </div>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">File Column</th>
+                    <th className="py-2 pr-4 font-medium">Sample Values</th>
+                    <th className="py-2 font-medium">Manufacturer Field</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {headers.map((header, column) => (
+                    <tr key={column}>
+                      <td className="py-2 pr-4 font-medium text-gray-900">
+                        <div className="flex items-center space-x-2">
+                          <FileSpreadsheet className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                          <span>{header || `Column ${column + 1}`}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-500 max-w-xs truncate">{sampleValues(column)}</td>
+                      <td className="py-2">
+                        <select
+                          value={mapping[column] ?? ''}
+                          onChange={(e) => setColumnField(column, (e.target.value || null) as keyof Manufacturer | null)}
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          aria-label={`Field for ${header || `column ${column + 1}`}`}
+                        >
+                          <option value="">Don't import</option>
+                          {importFieldSpecs.map(spec => (
+                            <option key={spec.field} value={spec.field}>
+                              {spec.label}{spec.required ? ' *' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Review */}
+          {step === 'review' && plan && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-4 gap-4">
+                {(Object.keys(actionLabels) as ImportRowPlan['action'][]).map(action => (
+                  <div key={action} className="p-4 border border-gray-200 rounded-lg">
+                    <p className="text-2xl font-semibold text-gray-900">{plan.counts[action]}</p>
+                    <p className="text-sm text-gray-600">{actionLabels[action]}</p>
+                  </div>
+                ))}
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={updateExisting}
+                  onChange={(e) => setUpdateExisting(e.target.checked)}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                />
+                Update manufacturers whose ID already exists in the database
+              </label>
+
+              {plan.counts.invalid + plan.counts.skip > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-medium text-gray-900">Row Report</h3>
+                    <button
+                      onClick={downloadErrorReport}
+                      className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>Download report</span>
+                    </button>
+                  </div>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+                    {plan.rows
+                      .filter(row => row.action === 'invalid' || row.action === 'skip')
+                      .map(row => (
+                        <div key={row.rowNumber} className="p-3 text-sm">
+                          <div className="flex items-center space-x-2">
+                            <span className="text-gray-500">Row {row.rowNumber}</span>
+                            <span className="font-medium text-gray-900">{row.name || 'Unnamed'}</span>
+                            <span className={`px-2 py-0.5 text-xs rounded-full ${actionStyles[row.action]}`}>
+                              {actionLabels[row.action]}
+                            </span>
+                          </div>
+                          {row.reason && <p className="text-gray-600 mt-1">{row.reason}</p>}
+                          {row.errors.length > 0 && (
+                            <ul className="mt-1 space-y-0.5 text-error-700">
+                              {row.errors.map((error, index) => (
+                                <li key={index}>
+                                  <span className="font-medium">{error.column}:</span> {error.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {step !== 'upload' && (
+          <div className="flex items-center justify-between p-6 border-t border-gray-200">
+            <button
+              onClick={() => step === 'review' ? setStep('mapping') : reset()}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>{step === 'review' ? 'Back to mapping' : 'Choose another file'}</span>
+            </button>
+            {step === 'mapping' ? (
+              <button
+                onClick={() => setStep('review')}
+                disabled={missingRequired.length > 0}
+                className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <span>Validate {rows.length} rows</span>
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={!plan || plan.counts.create + plan.counts.update === 0}
+                className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import {plan ? plan.counts.create + plan.counts.update : 0} manufacturers</span>
+              </button>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
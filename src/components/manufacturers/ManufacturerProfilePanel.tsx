@@ -0,0 +1,258 @@
+import React from 'react';
+import {
+  X,
+  MapPin,
+  Star,
+  Package,
+  Clock,
+  Award,
+  Phone,
+  Mail,
+  Globe,
+  Users,
+  Bookmark,
+  BookmarkCheck
+} from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { MatchCriterion } from '../../types';
+import { matchCriterionLabels } from '../../utils/matchScoring';
+import { MAX_SHORTLIST_SIZE } from '../../utils/projects';
+import { MatchScoreBadge } from './MatchScoreBadge';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+/**
+ * ManufacturerProfilePanel Component
+ *
+ * Slide-over panel showing the manufacturer selected from the map or
+ * the data table. Driven entirely by `selectedManufacturer` and
+ * `isProfilePanelOpen` in the app store, so every view shares one selection.
+ */
+export const ManufacturerProfilePanel: React.FC = () => {
+  const {
+    selectedManufacturer,
+    isProfilePanelOpen,
+    setSelectedManufacturer,
+    shortlist,
+    addToShortlist,
+    removeFromShortlist,
+    matchScores,
+    activeProjectId
+  } = useAppStore();
+
+  const manufacturer = selectedManufacturer;
+  const matchScore = manufacturer ? matchScores[manufacturer.id] : undefined;
+  const isShortlisted = !!manufacturer && shortlist.some(m => m.id === manufacturer.id);
+
+  /**
+   * Toggle shortlist membership for the selected manufacturer
+   */
+  const handleShortlistToggle = () => {
+    if (!manufacturer) return;
+
+    // Each project keeps its own shortlist
+    if (activeProjectId === null) {
+      toast.error('Choose a project to shortlist manufacturers for');
+    } else if (isShortlisted) {
+      removeFromShortlist(manufacturer.id);
+      toast.success(`Removed ${manufacturer.name} from shortlist`);
+    } else if (shortlist.length >= MAX_SHORTLIST_SIZE) {
+      toast.error(`Shortlist limit reached (max ${MAX_SHORTLIST_SIZE})`);
+    } else {
+      addToShortlist(manufacturer);
+      toast.success(`Added ${manufacturer.name} to shortlist`);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isProfilePanelOpen && manufacturer && (
+        <motion.aside
+          key="manufacturer-profile"
+          initial={{ x: 420 }}
+          animate={{ x: 0 }}
+          exit={{ x: 420 }}
+          transition={{ type: "spring", stiffness: 300, damping: 30 }}
+          className="fixed top-0 right-0 h-full w-full sm:w-[400px] bg-white border-l border-gray-200 shadow-xl z-40 flex flex-col"
+          aria-label={`${manufacturer.name} profile`}
+        >
+          {/* Panel Header */}
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <h2 className="text-lg font-semibold text-gray-900 truncate">{manufacturer.name}</h2>
+                <div className="flex items-center text-sm text-gray-500 mt-1">
+                  <MapPin className="w-4 h-4 mr-1" />
+                  <span>{manufacturer.city}, {manufacturer.state}</span>
+                  {manufacturer.distance !== undefined && (
+                    <span className="ml-2 text-gray-400">• {manufacturer.distance.toLocaleString()} mi away</span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => setSelectedManufacturer(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+                aria-label="Close profile"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          {/* Panel Content */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <p className="text-sm text-gray-600">{manufacturer.description}</p>
+
+            {/* Key Metrics */}
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="flex items-center bg-gray-50 rounded-lg p-3">
+                <Star className="w-4 h-4 text-yellow-400 mr-2" />
+                <span className="text-gray-900">{manufacturer.rating} rating</span>
+              </div>
+              <div className="flex items-center bg-gray-50 rounded-lg p-3">
+                <Package className="w-4 h-4 text-gray-400 mr-2" />
+                <span className="text-gray-900">MOQ {manufacturer.moq.toLocaleString()}</span>
+              </div>
+              <div className="flex items-center bg-gray-50 rounded-lg p-3">
+                <Clock className="w-4 h-4 text-gray-400 mr-2" />
+                <span className="text-gray-900">{manufacturer.leadTimeDays}d lead time</span>
+              </div>
+              <div className="flex items-center bg-gray-50 rounded-lg p-3">
+                <div className={`w-2 h-2 rounded-full mr-2 ${
+                  manufacturer.currentCapacity >= 80 ? 'bg-error-500' :
+                  manufacturer.currentCapacity >= 50 ? 'bg-warning-500' :
+                  'bg-success-500'
+                }`} />
+                <span className="text-gray-900">{manufacturer.currentCapacity}% capacity</span>
+              </div>
+            </div>
+
+            {/* Match Breakdown */}
+            {matchScore && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-900">Project Match</h3>
+                  <MatchScoreBadge score={matchScore} />
+                </div>
+                <div className="space-y-2">
+                  {(Object.keys(matchCriterionLabels) as MatchCriterion[]).map((criterion) => (
+                    <div key={criterion}>
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span>{matchCriterionLabels[criterion]}</span>
+                        <span>{matchScore.breakdown[criterion]}</span>
+                      </div>
+                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary-500 rounded-full"
+                          style={{ width: `${matchScore.breakdown[criterion]}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Capabilities */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Capabilities</h3>
+              <div className="flex flex-wrap gap-1">
+                {manufacturer.capabilities.map((capability) => (
+                  <span
+                    key={capability}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800"
+                  >
+                    {capability}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Materials */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Materials</h3>
+              <p className="text-sm text-gray-600">{manufacturer.materials.join(', ')}</p>
+            </div>
+
+            {/* Certifications */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Certifications</h3>
+              <div className="flex flex-wrap gap-1">
+                {manufacturer.certifications.map((cert) => (
+                  <span
+                    key={cert}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-secondary-100 text-secondary-800"
+                  >
+                    <Award className="w-3 h-3 mr-1" />
+                    {cert}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Historical Performance */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Historical Performance</h3>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">On-time delivery</span>
+                  <span className="text-gray-900">{manufacturer.historicalPerformance.onTimeDelivery}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Quality score</span>
+                  <span className="text-gray-900">{manufacturer.historicalPerformance.qualityScore}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Communication</span>
+                  <span className="text-gray-900">{manufacturer.historicalPerformance.communicationRating}/5</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Contact */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Contact</h3>
+              <div className="space-y-2 text-sm text-gray-600">
+                <div className="flex items-center">
+                  <Users className="w-4 h-4 text-gray-400 mr-2" />
+                  <span>{manufacturer.contactPerson}</span>
+                </div>
+                <div className="flex items-center">
+                  <Mail className="w-4 h-4 text-gray-400 mr-2" />
+                  <a href={`mailto:${manufacturer.contactEmail}`} className="text-primary-600 hover:text-primary-700">
+                    {manufacturer.contactEmail}
+                  </a>
+                </div>
+                <div className="flex items-center">
+                  <Phone className="w-4 h-4 text-gray-400 mr-2" />
+                  <span>{manufacturer.phone}</span>
+                </div>
+                <div className="flex items-center">
+                  <Globe className="w-4 h-4 text-gray-400 mr-2" />
+                  <a href={manufacturer.website} target="_blank" rel="noreferrer" className="text-primary-600 hover:text-primary-700">
+                    {manufacturer.website}
+                  </a>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Panel Actions */}
+          <div className="p-6 border-t border-gray-200">
+            <button
+              onClick={handleShortlistToggle}
+              className={`w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                isShortlisted
+                  ? 'bg-success-100 text-success-800 hover:bg-success-200'
+                  : 'bg-primary-600 text-white hover:bg-primary-700'
+              }`}
+            >
+              {isShortlisted ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+              <span>{isShortlisted ? 'Shortlisted' : 'Add to Shortlist'}</span>
+            </button>
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+};
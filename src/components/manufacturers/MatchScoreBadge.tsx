@@ -0,0 +1,24 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { MatchScore } from '../../types';
+import { getMatchScoreColor } from '../../utils/matchScoring';
+
+/**
+ * MatchScoreBadge Component
+ * Compact pill showing a manufacturer's fit against the project intake
+ */
+export const MatchScoreBadge: React.FC<{ score?: MatchScore }> = ({ score }) => {
+  if (!score) {
+    return <span className="text-xs text-gray-400">No project</span>;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getMatchScoreColor(score.total)}`}
+      title={`${score.total}% match with the current project`}
+    >
+      <Target className="w-3 h-3 mr-1" />
+      {score.total}
+    </span>
+  );
+};
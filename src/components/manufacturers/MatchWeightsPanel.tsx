@@ -0,0 +1,56 @@
+import React from 'react';
+import { useAppStore } from '../../store/appStore';
+import { MatchCriterion } from '../../types';
+import { defaultMatchWeights, matchCriterionLabels } from '../../utils/matchScoring';
+
+/**
+ * MatchWeightsPanel Component
+ *
+ * Sliders for the relative importance of each match criterion.
+ * Weights are relative, so only their proportions affect the score.
+ */
+export const MatchWeightsPanel: React.FC = () => {
+  const { matchWeights, setMatchWeights, projectIntake } = useAppStore();
+  const criteria = Object.keys(matchCriterionLabels) as MatchCriterion[];
+  const totalWeight = criteria.reduce((sum, criterion) => sum + matchWeights[criterion], 0);
+
+  return (
+    <div className="space-y-3">
+      {!projectIntake && (
+        <p className="text-xs text-gray-500">
+          Start a voice session to capture project requirements before scoring.
+        </p>
+      )}
+
+      {criteria.map((criterion) => (
+        <div key={criterion}>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <label htmlFor={`weight-${criterion}`} className="text-gray-700">
+              {matchCriterionLabels[criterion]}
+            </label>
+            <span className="text-xs text-gray-500">
+              {totalWeight > 0 ? Math.round((matchWeights[criterion] / totalWeight) * 100) : 0}%
+            </span>
+          </div>
+          <input
+            id={`weight-${criterion}`}
+            type="range"
+            min="0"
+            max="50"
+            step="5"
+            value={matchWeights[criterion]}
+            onChange={(e) => setMatchWeights({ [criterion]: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={() => setMatchWeights(defaultMatchWeights)}
+        className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+      >
+        Reset weights
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Search, AlertCircle } from 'lucide-react';
+import { QueryError, QuerySuggestion, QueryVocabulary, getQuerySuggestions } from '../../utils/queryLanguage';
+
+interface QuerySearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  vocabulary: QueryVocabulary;
+  errors: QueryError[];
+}
+
+/**
+ * QuerySearchInput Component
+ *
+ * Search box for the manufacturer query language with field/value
+ * autocomplete and inline parse errors.
+ *
+ * Keyboard: ↑/↓ to move through suggestions, Enter or Tab to accept,
+ * Escape to dismiss.
+ */
+export const QuerySearchInput: React.FC<QuerySearchInputProps> = ({ value, onChange, vocabulary, errors }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(value.length);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(
+    () => getQuerySuggestions(value, caret, vocabulary),
+    [value, caret, vocabulary]
+  );
+  const showSuggestions = isFocused && !isDismissed && suggestions.length > 0;
+
+  /**
+   * Replace the token under the caret with the chosen suggestion
+   */
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    const next = value.slice(0, suggestion.replaceFrom) + suggestion.insertText + value.slice(caret);
+    const nextCaret = suggestion.replaceFrom + suggestion.insertText.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(prev => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        acceptSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        setIsDismissed(true);
+        break;
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setIsDismissed(false);
+            setActiveIndex(0);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? value.length)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder='e.g. capability:"CNC Machining" moq<500'
+          className={`w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 ${
+            errors.length > 0 ? 'border-error-300' : 'border-gray-300'
+          }`}
+          aria-label="Search manufacturers"
+          aria-invalid={errors.length > 0}
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls="query-suggestions"
+        />
+
+        {/* Autocomplete */}
+        {showSuggestions && (
+          <ul
+            id="query-suggestions"
+            role="listbox"
+            className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input while clicking
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(suggestion);
+                }}
+                className={`px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-primary-50 text-primary-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="font-medium">{suggestion.label}</span>
+                {suggestion.detail && <span className="ml-2 text-xs text-gray-500">{suggestion.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Inline Errors */}
+      {errors.length > 0 ? (
+        <ul className="mt-1 space-y-1" role="alert">
+          {errors.map((error) => (
+            <li key={`${error.start}-${error.message}`} className="flex items-start text-xs text-error-600">
+              <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+              <span>
+                {error.message}
+                <code className="ml-1 px-1 bg-error-50 rounded">{value.slice(error.start, error.end)}</code>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 text-xs text-gray-500">
+          Use field:value, moq&lt;500, rating&gt;=4.5 or -diversity; other words search all fields
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Bookmark, Bell, BellOff, Trash2, Save } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { SavedSearch } from '../../types';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+type SavedSearchView = Omit<SavedSearch, 'id' | 'name' | 'alertEnabled' | 'knownMatches' | 'createdAt' | 'updatedAt'>;
+
+interface SavedSearchesMenuProps {
+  currentView: SavedSearchView;
+  onApply: (search: SavedSearch) => void;
+}
+
+/**
+ * SavedSearchesMenu Component
+ *
+ * Dropdown for saving the current database view under a name and
+ * reopening, alert-toggling or deleting saved searches.
+ */
+export const SavedSearchesMenu: React.FC<SavedSearchesMenuProps> = ({ currentView, onApply }) => {
+  const { savedSearches, saveSearch, updateSavedSearch, deleteSavedSearch } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [alertEnabled, setAlertEnabled] = useState(false);
+
+  /**
+   * Save the current view; an existing name is overwritten
+   */
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const existing = savedSearches.find(search => search.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      updateSavedSearch(existing.id, { ...currentView, name: trimmed, alertEnabled });
+      toast.success(`Updated saved search "${trimmed}"`);
+    } else {
+      saveSearch({ ...currentView, name: trimmed, alertEnabled });
+      toast.success(`Saved search "${trimmed}"`);
+    }
+    setName('');
+    setAlertEnabled(false);
+  };
+
+  const handleApply = (search: SavedSearch) => {
+    onApply(search);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <Bookmark className="w-4 h-4" />
+        <span>Saved Searches</span>
+        {savedSearches.length > 0 && (
+          <span className="bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">{savedSearches.length}</span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 top-full mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-20"
+          >
+            {/* Save Current View */}
+            <form onSubmit={handleSave} className="p-4 border-b border-gray-200 space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name this search"
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  aria-label="Saved search name"
+                />
+                <button
+                  type="submit"
+                  disabled={!name.trim()}
+                  className="p-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  aria-label="Save current search"
+                >
+                  <Save className="w-4 h-4" />
+                </button>
+              </div>
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={alertEnabled}
+                  onChange={(e) => setAlertEnabled(e.target.checked)}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                />
+                Alert me about new or changed matches
+              </label>
+            </form>
+
+            {/* Saved List */}
+            <div className="max-h-72 overflow-y-auto">
+              {savedSearches.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">No saved searches yet</p>
+              ) : (
+                savedSearches.map((search) => (
+                  <div key={search.id} className="flex items-center px-4 py-2 hover:bg-gray-50">
+                    <button
+                      onClick={() => handleApply(search)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-sm font-medium text-gray-900 truncate">{search.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {Object.keys(search.knownMatches).length} matches
+                        {search.query && ` • ${search.query}`}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => updateSavedSearch(search.id, { alertEnabled: !search.alertEnabled })}
+                      className={`p-1.5 rounded-lg hover:bg-gray-100 transition-colors ${
+                        search.alertEnabled ? 'text-primary-600' : 'text-gray-400'
+                      }`}
+                      title={search.alertEnabled ? 'Alerts on' : 'Alerts off'}
+                      aria-label={`${search.alertEnabled ? 'Disable' : 'Enable'} alerts for ${search.name}`}
+                    >
+                      {search.alertEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => deleteSavedSearch(search.id)}
+                      className="p-1.5 text-gray-400 hover:text-error-600 rounded-lg hover:bg-gray-100 transition-colors"
+                      aria-label={`Delete ${search.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { SearchHighlightSegment } from '../../types';
+
+/**
+ * SearchSnippet Component
+ *
+ * Renders highlighted segments produced by the manufacturer search index,
+ * marking the matched terms.
+ */
+export const SearchSnippet: React.FC<{ segments: SearchHighlightSegment[]; className?: string }> = ({
+  segments,
+  className = ''
+}) => (
+  <span className={className}>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-warning-100 text-gray-900 rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </span>
+);
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Navigation2, RotateCcw } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { geocodeLocation } from '../../utils/geo';
+import toast from 'react-hot-toast';
+
+/**
+ * DistanceOriginControl Component
+ *
+ * Lets the user pick the point manufacturer distances are measured from.
+ * Defaults to the project intake location; a custom origin overrides it
+ * until reset. Geocoding uses the bundled offline US centroid table.
+ */
+export const DistanceOriginControl: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { distanceOrigin, setDistanceOrigin, projectIntake } = useAppStore();
+  const [query, setQuery] = useState('');
+
+  /**
+   * Geocode the entered location and make it the active origin
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = geocodeLocation(query);
+    if (!result) {
+      toast.error(`Couldn't find "${query}". Try a US city, state or ZIP code.`);
+      return;
+    }
+    setDistanceOrigin({ ...result, source: 'custom' });
+    setQuery('');
+  };
+
+  /**
+   * Return to measuring distances from the project location
+   */
+  const handleReset = () => {
+    const result = projectIntake?.location ? geocodeLocation(projectIntake.location) : null;
+    setDistanceOrigin(result ? { ...result, source: 'project' } : null);
+  };
+
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-center gap-2 ${className}`}>
+      <div className="flex items-center text-sm text-gray-600">
+        <Navigation2 className="w-4 h-4 text-primary-600 mr-1" />
+        {distanceOrigin ? (
+          <span>
+            Distances from <span className="font-medium text-gray-900">{distanceOrigin.label}</span>
+            <span className="ml-1 text-xs text-gray-500">
+              ({distanceOrigin.source === 'project' ? 'project location' : 'custom origin'})
+            </span>
+          </span>
+        ) : (
+          <span>No origin set</span>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="City, state or ZIP"
+          className="w-40 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          aria-label="Distance origin"
+        />
+        <button
+          type="submit"
+          disabled={!query.trim()}
+          className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Set
+        </button>
+        {distanceOrigin?.source === 'custom' && (
+          <button
+            type="button"
+            onClick={handleReset}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+            title="Use project location"
+            aria-label="Use project location"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import { 
   MapPin, 
   Star, 
@@ -13,7 +13,15 @@ import {
   Grid,
   List
 } from 'lucide-react';
-import { useAppStore } from '../../store/appStore';
+import { useAppStore, defaultSearchFilters } from '../../store/appStore';
+import { Manufacturer } from '../../types';
+import { CapacityLevel, capacityBands, getCapacityLevel } from '../../utils/capacity';
+import { distanceFilterOptions } from '../../utils/geo';
+import { DistanceOriginControl } from './DistanceOriginControl';
+import { MatchScoreBadge } from '../manufacturers/MatchScoreBadge';
+import { getMatchScoreHex } from '../../utils/matchScoring';
+import { DEFAULT_MAP_VIEWPORT, MapViewport, parseMapState, serializeMapState } from '../../utils/urlState';
+import { changedParamKeys, useUrlStateSync } from '../../hooks/useUrlStateSync';
 import { motion, AnimatePresence } from 'framer-motion';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
@@ -27,141 +35,46 @@ L.Icon.Default.mergeOptions({
 });
 
 /**
- * Factory location data for map display
- * In production, this would come from an API
+ * Pans the map to the selected manufacturer when the selection
+ * changes from outside the map (data table, profile panel)
  */
-const factoryLocations = [
-  {
-    id: 'factory-1',
-    name: 'Precision Manufacturing Co.',
-    lat: 40.7128,
-    lng: -74.0060,
-    city: 'New York',
-    state: 'NY',
-    capabilities: ['CNC Machining', 'Sheet Metal'],
-    currentCapacity: 75,
-    rating: 4.8,
-    moq: 100,
-    leadTime: 21
-  },
-  {
-    id: 'factory-2',
-    name: 'West Coast Electronics',
-    lat: 34.0522,
-    lng: -118.2437,
-    city: 'Los Angeles',
-    state: 'CA',
-    capabilities: ['PCB Assembly', 'Testing'],
-    currentCapacity: 82,
-    rating: 4.6,
-    moq: 50,
-    leadTime: 14
-  },
-  {
-    id: 'factory-3',
-    name: 'Midwest Steel Works',
-    lat: 41.8781,
-    lng: -87.6298,
-    city: 'Chicago',
-    state: 'IL',
-    capabilities: ['Welding', 'Fabrication'],
-    currentCapacity: 68,
-    rating: 4.5,
-    moq: 500,
-    leadTime: 28
-  },
-  {
-    id: 'factory-4',
-    name: 'Texas Precision Casting',
-    lat: 29.7604,
-    lng: -95.3698,
-    city: 'Houston',
-    state: 'TX',
-    capabilities: ['Investment Casting', 'Machining'],
-    currentCapacity: 91,
-    rating: 4.7,
-    moq: 250,
-    leadTime: 35
-  },
-  {
-    id: 'factory-5',
-    name: 'Pacific Northwest Composites',
-    lat: 47.6062,
-    lng: -122.3321,
-    city: 'Seattle',
-    state: 'WA',
-    capabilities: ['Composite Manufacturing', 'Autoclave'],
-    currentCapacity: 73,
-    rating: 4.9,
-    moq: 25,
-    leadTime: 42
-  },
-  {
-    id: 'factory-6',
-    name: 'Rocky Mountain Machining',
-    lat: 39.7392,
-    lng: -104.9903,
-    city: 'Denver',
-    state: 'CO',
-    capabilities: ['CNC Machining', 'Swiss Turning'],
-    currentCapacity: 85,
-    rating: 4.8,
-    moq: 10,
-    leadTime: 18
-  },
-  {
-    id: 'factory-7',
-    name: 'Florida Aerospace Components',
-    lat: 28.5383,
-    lng: -81.3792,
-    city: 'Orlando',
-    state: 'FL',
-    capabilities: ['Aerospace Parts', 'Testing'],
-    currentCapacity: 79,
-    rating: 4.6,
-    moq: 5,
-    leadTime: 21
-  },
-  {
-    id: 'factory-8',
-    name: 'Carolina Textiles',
-    lat: 35.2271,
-    lng: -80.8431,
-    city: 'Charlotte',
-    state: 'NC',
-    capabilities: ['Weaving', 'Dyeing'],
-    currentCapacity: 88,
-    rating: 4.4,
-    moq: 5000,
-    leadTime: 45
-  },
-  {
-    id: 'factory-9',
-    name: 'Great Lakes Foundry',
-    lat: 43.0389,
-    lng: -87.9065,
-    city: 'Milwaukee',
-    state: 'WI',
-    capabilities: ['Iron Casting', 'Machining'],
-    currentCapacity: 71,
-    rating: 4.3,
-    moq: 100,
-    leadTime: 28
-  },
-  {
-    id: 'factory-10',
-    name: 'Silicon Valley Plastics',
-    lat: 37.3382,
-    lng: -121.8863,
-    city: 'San Jose',
-    state: 'CA',
-    capabilities: ['Injection Molding', 'Assembly'],
-    currentCapacity: 94,
-    rating: 4.9,
-    moq: 1000,
-    leadTime: 28
-  }
-];
+const SelectionFocus: React.FC<{ manufacturer: Manufacturer | null }> = ({ manufacturer }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (manufacturer) {
+      map.flyTo([manufacturer.lat, manufacturer.lon], Math.max(map.getZoom(), 6), { duration: 0.75 });
+    }
+  }, [manufacturer, map]);
+
+  return null;
+};
+
+const roundCoordinate = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Reports pans and zooms, and moves the map when the viewport is restored
+ * from the URL (pasted link, back/forward)
+ */
+const ViewportSync: React.FC<{ viewport: MapViewport; onChange: (viewport: MapViewport) => void }> = ({ viewport, onChange }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onChange({ lat: roundCoordinate(center.lat), lng: roundCoordinate(center.lng), zoom: map.getZoom() });
+    }
+  });
+
+  useEffect(() => {
+    const center = map.getCenter();
+    const isCurrent =
+      roundCoordinate(center.lat) === viewport.lat &&
+      roundCoordinate(center.lng) === viewport.lng &&
+      map.getZoom() === viewport.zoom;
+    if (!isCurrent) map.setView([viewport.lat, viewport.lng], viewport.zoom);
+  }, [viewport, map]);
+
+  return null;
+};
 
 /**
  * InteractiveMap Component
@@ -181,49 +94,102 @@ const factoryLocations = [
  * - Collapsible filter panel
  */
 export const InteractiveMap: React.FC = () => {
-  const { setSelectedManufacturer } = useAppStore();
+  const {
+    manufacturers,
+    filteredManufacturers,
+    searchFilters,
+    setSearchFilters,
+    selectedManufacturer,
+    setSelectedManufacturer,
+    distanceOrigin,
+    matchScores
+  } = useAppStore();
   
   // Local state for map controls
   const [mapView, setMapView] = useState<'satellite' | 'terrain' | 'street'>('street');
   const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
-  const [selectedFilters, setSelectedFilters] = useState({
-    capabilities: [] as string[],
-    capacity: 'all' as 'all' | 'high' | 'medium' | 'low'
-  });
+  const [viewport, setViewport] = useState<MapViewport>(DEFAULT_MAP_VIEWPORT);
+  const [pendingManufacturerId, setPendingManufacturerId] = useState<string | null>(null);
+
+  const handleViewportChange = useCallback((next: MapViewport) => {
+    setViewport(prev =>
+      prev.lat === next.lat && prev.lng === next.lng && prev.zoom === next.zoom ? prev : next
+    );
+  }, []);
 
   /**
-   * Filter factories based on selected criteria
+   * Select a manufacturer by id, waiting for data to load if needed
    */
-  const filteredFactories = factoryLocations.filter(factory => {
-    // Filter by capabilities
-    if (selectedFilters.capabilities.length > 0) {
-      if (!selectedFilters.capabilities.some(cap => factory.capabilities.includes(cap))) {
-        return false;
-      }
-    }
-    
-    // Filter by capacity
-    if (selectedFilters.capacity !== 'all') {
-      const capacity = factory.currentCapacity;
-      if (selectedFilters.capacity === 'high' && capacity < 80) return false;
-      if (selectedFilters.capacity === 'medium' && (capacity < 50 || capacity >= 80)) return false;
-      if (selectedFilters.capacity === 'low' && capacity >= 50) return false;
+  const selectManufacturerById = useCallback((manufacturerId: string | null) => {
+    const manufacturer = manufacturerId ? manufacturers.find(m => m.id === manufacturerId) : null;
+    setSelectedManufacturer(manufacturer ?? null);
+    setPendingManufacturerId(manufacturerId && !manufacturer ? manufacturerId : null);
+  }, [manufacturers, setSelectedManufacturer]);
+
+  useEffect(() => {
+    if (pendingManufacturerId && manufacturers.length > 0) selectManufacturerById(pendingManufacturerId);
+  }, [pendingManufacturerId, manufacturers, selectManufacturerById]);
+
+  // Keep filters, viewport, view mode and selection in the URL
+  useUrlStateSync(
+    serializeMapState({
+      searchFilters,
+      viewport,
+      viewMode,
+      manufacturerId: selectedManufacturer?.id ?? pendingManufacturerId
+    }, defaultSearchFilters),
+    (params) => {
+      const state = parseMapState(params, defaultSearchFilters);
+      setSearchFilters(state.searchFilters);
+      setViewport(state.viewport);
+      setViewMode(state.viewMode);
+      selectManufacturerById(state.manufacturerId);
+    },
+    {
+      // Panning and zooming update the current entry rather than adding history
+      historyMode: (previous, next) =>
+        changedParamKeys(previous, next).every(key => ['lat', 'lng', 'zoom'].includes(key)) ? 'replace' : 'push'
     }
-    
-    return true;
-  });
+  );
+
+  const capacityLevel = getCapacityLevel(searchFilters);
+  const isDistanceFiltered = searchFilters.maxDistance !== distanceFilterOptions[0].value;
+  const activeFilterCount =
+    searchFilters.capabilities.length + (capacityLevel !== 'all' ? 1 : 0) + (isDistanceFiltered ? 1 : 0);
+
+  /**
+   * Capability options offered by the loaded manufacturers
+   */
+  const capabilityOptions = useMemo(
+    () => [...new Set(manufacturers.flatMap(m => m.capabilities))].sort(),
+    [manufacturers]
+  );
+
+  /**
+   * Nearest facilities first once an origin is known
+   */
+  const sortedManufacturers = useMemo(() => {
+    if (!distanceOrigin) return filteredManufacturers;
+    return [...filteredManufacturers].sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  }, [filteredManufacturers, distanceOrigin]);
 
   /**
    * Handle capability filter toggle
    */
   const handleCapabilityFilter = (capability: string) => {
-    setSelectedFilters(prev => ({
-      ...prev,
-      capabilities: prev.capabilities.includes(capability)
-        ? prev.capabilities.filter(c => c !== capability)
-        : [...prev.capabilities, capability]
-    }));
+    setSearchFilters({
+      capabilities: searchFilters.capabilities.includes(capability)
+        ? searchFilters.capabilities.filter(c => c !== capability)
+        : [...searchFilters.capabilities, capability]
+    });
+  };
+
+  /**
+   * Handle capacity band selection
+   */
+  const handleCapacityFilter = (level: CapacityLevel) => {
+    setSearchFilters(capacityBands[level]);
   };
 
   /**
@@ -242,15 +208,22 @@ export const InteractiveMap: React.FC = () => {
 
   /**
    * Create custom marker icon based on factory capacity
+   * The selected manufacturer gets a larger, outlined marker, and a
+   * match score badge is pinned to the marker when a project is active
    */
-  const createCustomIcon = (capacity: number) => {
+  const createCustomIcon = (capacity: number, isSelected: boolean, matchScore?: number) => {
     const color = capacity >= 80 ? '#ef4444' : capacity >= 50 ? '#f59e0b' : '#22c55e';
+    const size = isSelected ? 28 : 20;
+    const border = isSelected ? '4px solid #1d4ed8' : '3px solid white';
+    const badge = matchScore === undefined
+      ? ''
+      : `<div style="position: absolute; top: -12px; left: ${size - 6}px; background-color: ${getMatchScoreHex(matchScore)}; color: white; font-size: 10px; font-weight: 600; line-height: 1; padding: 2px 4px; border-radius: 9999px; border: 1px solid white; white-space: nowrap;">${matchScore}</div>`;
     
     return L.divIcon({
-      html: `<div style="background-color: ${color}; width: 20px; height: 20px; border-radius: 50%; border: 3px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>`,
+      html: `<div style="position: relative; background-color: ${color}; width: ${size}px; height: ${size}px; border-radius: 50%; border: ${border}; box-shadow: 0 2px 4px rgba(0,0,0,0.3);">${badge}</div>`,
       className: 'custom-marker',
-      iconSize: [20, 20],
-      iconAnchor: [10, 10]
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2]
     });
   };
 
@@ -263,7 +236,7 @@ export const InteractiveMap: React.FC = () => {
             Interactive Manufacturing Map
           </h2>
           <span className="text-sm text-gray-500 bg-gray-100 px-3 py-1 rounded-full">
-            {filteredFactories.length} facilities
+            {filteredManufacturers.length} facilities
           </span>
         </div>
         
@@ -322,15 +295,18 @@ export const InteractiveMap: React.FC = () => {
           >
             <Filter className="w-4 h-4" />
             <span className="hidden sm:inline">Filters</span>
-            {(selectedFilters.capabilities.length > 0 || selectedFilters.capacity !== 'all') && (
+            {activeFilterCount > 0 && (
               <span className="bg-primary-600 text-white text-xs px-2 py-1 rounded-full">
-                {selectedFilters.capabilities.length + (selectedFilters.capacity !== 'all' ? 1 : 0)}
+                {activeFilterCount}
               </span>
             )}
           </button>
         </div>
       </div>
 
+      {/* Distance Origin */}
+      <DistanceOriginControl />
+
       {/* Filters Panel - Responsive design */}
       <AnimatePresence>
         {showFilters && (
@@ -340,16 +316,16 @@ export const InteractiveMap: React.FC = () => {
             exit={{ opacity: 0, height: 0 }}
             className="bg-white border border-gray-200 rounded-lg p-4 lg:p-6"
           >
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 lg:gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 lg:gap-6">
               {/* Capabilities Filter */}
               <div>
                 <h3 className="text-sm font-medium text-gray-900 mb-3">Capabilities</h3>
                 <div className="space-y-2 max-h-32 overflow-y-auto">
-                  {['CNC Machining', 'Sheet Metal', 'PCB Assembly', 'Welding', 'Injection Molding', 'Casting'].map((capability) => (
+                  {capabilityOptions.map((capability) => (
                     <label key={capability} className="flex items-center">
                       <input
                         type="checkbox"
-                        checked={selectedFilters.capabilities.includes(capability)}
+                        checked={searchFilters.capabilities.includes(capability)}
                         onChange={() => handleCapabilityFilter(capability)}
                         className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
                       />
@@ -363,19 +339,19 @@ export const InteractiveMap: React.FC = () => {
               <div>
                 <h3 className="text-sm font-medium text-gray-900 mb-3">Current Capacity</h3>
                 <div className="space-y-2">
-                  {[
+                  {([
                     { value: 'all', label: 'All Levels' },
                     { value: 'high', label: 'High (80%+)' },
                     { value: 'medium', label: 'Medium (50-79%)' },
                     { value: 'low', label: 'Low (<50%)' }
-                  ].map((option) => (
+                  ] as const).map((option) => (
                     <label key={option.value} className="flex items-center">
                       <input
                         type="radio"
                         name="capacity"
                         value={option.value}
-                        checked={selectedFilters.capacity === option.value}
-                        onChange={(e) => setSelectedFilters(prev => ({ ...prev, capacity: e.target.value as any }))}
+                        checked={capacityLevel === option.value}
+                        onChange={() => handleCapacityFilter(option.value)}
                         className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
                       />
                       <span className="ml-2 text-sm text-gray-700">{option.label}</span>
@@ -383,6 +359,26 @@ export const InteractiveMap: React.FC = () => {
                   ))}
                 </div>
               </div>
+
+              {/* Distance Filter */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Distance</h3>
+                <select
+                  value={searchFilters.maxDistance}
+                  onChange={(e) => setSearchFilters({ maxDistance: parseInt(e.target.value) })}
+                  disabled={!distanceOrigin}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                >
+                  {distanceFilterOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {!distanceOrigin && (
+                  <p className="text-xs text-gray-500 mt-2">Set an origin to filter by distance</p>
+                )}
+              </div>
             </div>
           </motion.div>
         )}
@@ -394,8 +390,8 @@ export const InteractiveMap: React.FC = () => {
         <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
           <div className="h-64 sm:h-80 lg:h-96 relative">
             <MapContainer
-              center={[39.8283, -98.5795]} // Center of US
-              zoom={4}
+              center={[viewport.lat, viewport.lng]}
+              zoom={viewport.zoom}
               style={{ height: '100%', width: '100%' }}
               className="z-10"
             >
@@ -403,44 +399,66 @@ export const InteractiveMap: React.FC = () => {
                 url={getTileLayerUrl()}
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
               />
+              <SelectionFocus manufacturer={selectedManufacturer} />
+              <ViewportSync viewport={viewport} onChange={handleViewportChange} />
               
-              {filteredFactories.map((factory) => (
+              {distanceOrigin && (
+                <CircleMarker
+                  center={[distanceOrigin.lat, distanceOrigin.lon]}
+                  radius={8}
+                  pathOptions={{ color: '#1d4ed8', fillColor: '#3b82f6', fillOpacity: 0.9, weight: 3 }}
+                >
+                  <Tooltip>Origin: {distanceOrigin.label}</Tooltip>
+                </CircleMarker>
+              )}
+              
+              {filteredManufacturers.map((manufacturer) => (
                 <Marker
-                  key={factory.id}
-                  position={[factory.lat, factory.lng]}
-                  icon={createCustomIcon(factory.currentCapacity)}
+                  key={manufacturer.id}
+                  position={[manufacturer.lat, manufacturer.lon]}
+                  icon={createCustomIcon(
+                    manufacturer.currentCapacity,
+                    selectedManufacturer?.id === manufacturer.id,
+                    matchScores[manufacturer.id]?.total
+                  )}
                 >
                   <Popup>
                     <div className="p-2 min-w-48">
-                      <h3 className="font-medium text-gray-900 mb-2">{factory.name}</h3>
-                      <p className="text-sm text-gray-600 mb-2">{factory.city}, {factory.state}</p>
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <h3 className="font-medium text-gray-900">{manufacturer.name}</h3>
+                        {matchScores[manufacturer.id] && <MatchScoreBadge score={matchScores[manufacturer.id]} />}
+                      </div>
+                      <p className="text-sm text-gray-600 mb-2">
+                        {manufacturer.city}, {manufacturer.state}
+                        {manufacturer.distance !== undefined && ` • ${manufacturer.distance.toLocaleString()} mi`}
+                      </p>
                       
                       <div className="grid grid-cols-2 gap-2 text-xs mb-3">
                         <div className="flex items-center">
                           <Star className="w-3 h-3 text-yellow-400 mr-1" />
-                          <span className="text-gray-700">{factory.rating}</span>
+                          <span className="text-gray-700">{manufacturer.rating}</span>
                         </div>
                         <div className="flex items-center">
                           <Package className="w-3 h-3 text-gray-400 mr-1" />
-                          <span className="text-gray-700">{factory.moq.toLocaleString()}</span>
+                          <span className="text-gray-700">{manufacturer.moq.toLocaleString()}</span>
                         </div>
                         <div className="flex items-center">
                           <Clock className="w-3 h-3 text-gray-400 mr-1" />
-                          <span className="text-gray-700">{factory.leadTime}d</span>
+                          <span className="text-gray-700">{manufacturer.leadTimeDays}d</span>
                         </div>
                         <div className="flex items-center">
                           <div className={`w-2 h-2 rounded-full mr-1 ${
-                            factory.currentCapacity >= 80 ? 'bg-red-500' :
-                            factory.currentCapacity >= 50 ? 'bg-yellow-500' :
+                            manufacturer.currentCapacity >= 80 ? 'bg-red-500' :
+                            manufacturer.currentCapacity >= 50 ? 'bg-yellow-500' :
                             'bg-green-500'
                           }`} />
-                          <span className="text-gray-700">{factory.currentCapacity}%</span>
+                          <span className="text-gray-700">{manufacturer.currentCapacity}%</span>
                         </div>
                       </div>
                       
                       <div className="mb-3">
                         <div className="flex flex-wrap gap-1">
-                          {factory.capabilities.slice(0, 2).map((cap) => (
+                          {manufacturer.capabilities.slice(0, 2).map((cap) => (
                             <span
                               key={cap}
                               className="text-xs bg-primary-100 text-primary-700 px-2 py-1 rounded"
@@ -448,15 +466,18 @@ export const InteractiveMap: React.FC = () => {
                               {cap}
                             </span>
                           ))}
-                          {factory.capabilities.length > 2 && (
+                          {manufacturer.capabilities.length > 2 && (
                             <span className="text-xs text-gray-500">
-                              +{factory.capabilities.length - 2}
+                              +{manufacturer.capabilities.length - 2}
                             </span>
                           )}
                         </div>
                       </div>
                       
-                      <button className="w-full bg-primary-600 text-white text-xs py-2 px-3 rounded hover:bg-primary-700 transition-colors">
+                      <button
+                        onClick={() => setSelectedManufacturer(manufacturer)}
+                        className="w-full bg-primary-600 text-white text-xs py-2 px-3 rounded hover:bg-primary-700 transition-colors"
+                      >
                         View Details
                       </button>
                     </div>
@@ -489,7 +510,7 @@ export const InteractiveMap: React.FC = () => {
               
               <div className="text-right">
                 <div className="text-sm text-gray-600">
-                  Showing {filteredFactories.length} of {factoryLocations.length} facilities
+                  Showing {filteredManufacturers.length} of {manufacturers.length} facilities
                 </div>
                 <div className="text-xs text-gray-500">
                   Click markers for detailed information
@@ -501,48 +522,54 @@ export const InteractiveMap: React.FC = () => {
       ) : (
         /* List View - Responsive grid */
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 lg:gap-6">
-          {filteredFactories.map((factory, index) => (
+          {sortedManufacturers.map((manufacturer, index) => (
             <motion.div
-              key={factory.id}
+              key={manufacturer.id}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.1 }}
-              className="bg-white border border-gray-200 rounded-lg p-4 lg:p-6 hover:border-primary-200 hover:shadow-md transition-all cursor-pointer"
-              onClick={() => setSelectedManufacturer(factory)}
+              className={`bg-white border rounded-lg p-4 lg:p-6 hover:border-primary-200 hover:shadow-md transition-all cursor-pointer ${
+                selectedManufacturer?.id === manufacturer.id ? 'border-primary-500 ring-2 ring-primary-100' : 'border-gray-200'
+              }`}
+              onClick={() => setSelectedManufacturer(manufacturer)}
             >
               <div className="flex items-start justify-between mb-3">
                 <div className="flex-1 min-w-0">
                   <h3 className="text-sm lg:text-base font-medium text-gray-900 truncate">
-                    {factory.name}
+                    {manufacturer.name}
                   </h3>
                   <p className="text-xs lg:text-sm text-gray-500">
-                    {factory.city}, {factory.state}
+                    {manufacturer.city}, {manufacturer.state}
+                    {manufacturer.distance !== undefined && ` • ${manufacturer.distance.toLocaleString()} mi`}
                   </p>
                 </div>
-                <div className={`w-3 h-3 rounded-full ${
-                  factory.currentCapacity >= 80 ? 'bg-red-500' :
-                  factory.currentCapacity >= 50 ? 'bg-yellow-500' :
-                  'bg-green-500'
-                }`} />
+                <div className="flex items-center space-x-2">
+                  {matchScores[manufacturer.id] && <MatchScoreBadge score={matchScores[manufacturer.id]} />}
+                  <div className={`w-3 h-3 rounded-full ${
+                    manufacturer.currentCapacity >= 80 ? 'bg-red-500' :
+                    manufacturer.currentCapacity >= 50 ? 'bg-yellow-500' :
+                    'bg-green-500'
+                  }`} />
+                </div>
               </div>
               
               <div className="grid grid-cols-3 gap-2 lg:gap-3 mb-3 text-xs lg:text-sm">
                 <div className="flex items-center">
                   <Star className="w-3 h-3 text-yellow-400 mr-1" />
-                  <span className="text-gray-700">{factory.rating}</span>
+                  <span className="text-gray-700">{manufacturer.rating}</span>
                 </div>
                 <div className="flex items-center">
                   <Package className="w-3 h-3 text-gray-400 mr-1" />
-                  <span className="text-gray-700">{factory.moq.toLocaleString()}</span>
+                  <span className="text-gray-700">{manufacturer.moq.toLocaleString()}</span>
                 </div>
                 <div className="flex items-center">
                   <Clock className="w-3 h-3 text-gray-400 mr-1" />
-                  <span className="text-gray-700">{factory.leadTime}d</span>
+                  <span className="text-gray-700">{manufacturer.leadTimeDays}d</span>
                 </div>
               </div>
               
               <div className="flex flex-wrap gap-1">
-                {factory.capabilities.slice(0, 2).map((cap) => (
+                {manufacturer.capabilities.slice(0, 2).map((cap) => (
                   <span
                     key={cap}
                     className="text-xs bg-primary-100 text-primary-700 px-2 py-1 rounded"
@@ -550,9 +577,9 @@ export const InteractiveMap: React.FC = () => {
                     {cap}
                   </span>
                 ))}
-                {factory.capabilities.length > 2 && (
+                {manufacturer.capabilities.length > 2 && (
                   <span className="text-xs text-gray-500">
-                    +{factory.capabilities.length - 2}
+                    +{manufacturer.capabilities.length - 2}
                   </span>
                 )}
               </div>
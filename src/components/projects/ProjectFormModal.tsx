@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import { CheckCircle, Plus, Trash2, XCircle } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { useAuthStore } from '../../store/authStore';
+import { Project, ProjectIntake, ProjectMilestone, ProjectStatus } from '../../types';
+import { projectStatuses, projectStatusLabels } from '../../utils/projects';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface ProjectFormModalProps {
+  project?: Project; // edits this project; creates one when omitted
+  onClose: () => void;
+}
+
+interface MilestoneRow {
+  id: string;
+  title: string;
+  dueDate: string;
+  done: boolean;
+  completedAt?: Date;
+}
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toMilestoneRow = (milestone: ProjectMilestone): MilestoneRow => ({
+  id: milestone.id,
+  title: milestone.title,
+  dueDate: toDateInput(milestone.dueDate),
+  done: !!milestone.completedAt,
+  completedAt: milestone.completedAt,
+});
+
+/**
+ * ProjectFormModal Component
+ *
+ * Creates or edits a sourcing project: its name, status, budget and
+ * milestones, and the intake its manufacturers and quotes are scored
+ * against.
+ */
+export const ProjectFormModal: React.FC<ProjectFormModalProps> = ({ project, onClose }) => {
+  const { createProject, updateProject } = useAppStore();
+  const { user } = useAuthStore();
+  const intake = project?.intake;
+
+  const [name, setName] = useState(project?.name ?? '');
+  const [status, setStatus] = useState<ProjectStatus>(project?.status ?? 'planning');
+  const [budget, setBudget] = useState(project?.budget?.toString() ?? '');
+  const [category, setCategory] = useState(intake?.category ?? '');
+  const [material, setMaterial] = useState(intake?.material ?? '');
+  const [volume, setVolume] = useState(intake?.volume?.toString() ?? '');
+  const [targetCost, setTargetCost] = useState(intake?.targetCost?.toString() ?? '');
+  const [leadTimeGoal, setLeadTimeGoal] = useState(intake?.leadTimeGoal?.toString() ?? '');
+  const [certifications, setCertifications] = useState(intake?.certificationRequirements.join(', ') ?? '');
+  const [location, setLocation] = useState(intake?.location ?? '');
+  const [description, setDescription] = useState(intake?.additionalRequirements ?? '');
+  const [milestones, setMilestones] = useState<MilestoneRow[]>(() => project?.milestones.map(toMilestoneRow) ?? []);
+
+  const updateMilestone = (id: string, updates: Partial<MilestoneRow>) =>
+    setMilestones(rows => rows.map(row => row.id === id ? { ...row, ...updates } : row));
+
+  const addMilestone = () => setMilestones(rows => [
+    ...rows,
+    { id: `milestone-${Date.now()}`, title: '', dueDate: toDateInput(new Date()), done: false },
+  ]);
+
+  const hasIntake = [category, material, volume, targetCost, leadTimeGoal, certifications, location, description]
+    .some(value => value.trim());
+  const invalidMilestone = milestones.some(row => !row.title.trim() || !row.dueDate);
+  const canSave = !!name.trim() && !invalidMilestone;
+
+  const handleSave = () => {
+    const now = new Date();
+    const projectIntake: ProjectIntake | null = hasIntake ? {
+      userId: intake?.userId ?? user?.id ?? '',
+      timestamp: intake?.timestamp ?? now,
+      category: category.trim(),
+      material: material.trim(),
+      volume: Number(volume) || 0,
+      targetCost: Number(targetCost) || 0,
+      leadTimeGoal: Number(leadTimeGoal) || 0,
+      certificationRequirements: certifications.split(',').map(item => item.trim()).filter(Boolean),
+      additionalRequirements: description.trim() || undefined,
+      location: location.trim() || undefined,
+    } : null;
+    const details = {
+      name: name.trim(),
+      status,
+      budget: budget ? Number(budget) : undefined,
+      intake: projectIntake,
+      milestones: milestones.map(row => ({
+        id: row.id,
+        title: row.title.trim(),
+        dueDate: new Date(`${row.dueDate}T00:00:00`),
+        completedAt: row.done ? row.completedAt ?? now : undefined,
+      })),
+    };
+
+    if (project) {
+      updateProject(project.id, details);
+      toast.success(`Saved ${details.name}`);
+    } else {
+      createProject(details);
+      toast.success(`Created ${details.name}`);
+    }
+    onClose();
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="project-form-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 id="project-form-title" className="text-2xl font-semibold text-gray-900">
+            {project ? 'Edit Project' : 'New Project'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XCircle className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Project */}
+          <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-3">
+              <label htmlFor="project-name" className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input id="project-name" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="project-status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                id="project-status"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as ProjectStatus)}
+                className={inputClassName}
+              >
+                {projectStatuses.map(value => (
+                  <option key={value} value={value}>{projectStatusLabels[value]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="project-budget" className="block text-sm font-medium text-gray-700 mb-1">Budget (USD)</label>
+              <input
+                id="project-budget"
+                type="number"
+                min={0}
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Owner</span>
+              <p className="px-3 py-2 text-sm text-gray-600">
+                {project?.ownerName ?? (user ? `${user.firstName} ${user.lastName}` : '—')}
+              </p>
+            </div>
+          </section>
+
+          {/* Intake */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Requirements</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="project-category" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <input id="project-category" value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="project-material" className="block text-sm font-medium text-gray-700 mb-1">Material</label>
+                <input id="project-material" value={material} onChange={(e) => setMaterial(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="project-location" className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <input
+                  id="project-location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="e.g. Austin, TX"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="project-volume" className="block text-sm font-medium text-gray-700 mb-1">Volume (units)</label>
+                <input id="project-volume" type="number" min={0} value={volume} onChange={(e) => setVolume(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="project-target-cost" className="block text-sm font-medium text-gray-700 mb-1">Target cost (USD/unit)</label>
+                <input
+                  id="project-target-cost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={targetCost}
+                  onChange={(e) => setTargetCost(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="project-lead-time" className="block text-sm font-medium text-gray-700 mb-1">Lead time goal (days)</label>
+                <input
+                  id="project-lead-time"
+                  type="number"
+                  min={0}
+                  value={leadTimeGoal}
+                  onChange={(e) => setLeadTimeGoal(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label htmlFor="project-certifications" className="block text-sm font-medium text-gray-700 mb-1">Required certifications</label>
+                <input
+                  id="project-certifications"
+                  value={certifications}
+                  onChange={(e) => setCertifications(e.target.value)}
+                  placeholder="Comma-separated, e.g. ISO 9001, UL Listed"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label htmlFor="project-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  id="project-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={2}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </section>
+
+          {/* Milestones */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-gray-900">Milestones</h3>
+              <button
+                onClick={addMilestone}
+                className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add milestone</span>
+              </button>
+            </div>
+            {milestones.length === 0 ? (
+              <p className="text-sm text-gray-500">No milestones yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {milestones.map(row => (
+                  <li key={row.id} className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={row.done}
+                      onChange={(e) => updateMilestone(row.id, { done: e.target.checked })}
+                      className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                      aria-label={`${row.title || 'Milestone'} done`}
+                    />
+                    <input
+                      value={row.title}
+                      onChange={(e) => updateMilestone(row.id, { title: e.target.value })}
+                      placeholder="Milestone"
+                      aria-label="Milestone title"
+                      className={`flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 ${
+                        row.title.trim() ? 'border-gray-300' : 'border-error-300'
+                      }`}
+                    />
+                    <input
+                      type="date"
+                      value={row.dueDate}
+                      onChange={(e) => updateMilestone(row.id, { dueDate: e.target.value })}
+                      aria-label="Due date"
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <button
+                      onClick={() => setMilestones(rows => rows.filter(r => r.id !== row.id))}
+                      className="text-gray-400 hover:text-error-600"
+                      aria-label={`Remove ${row.title || 'milestone'}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <CheckCircle className="w-4 h-4" />
+            <span>{project ? 'Save Project' : 'Create Project'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
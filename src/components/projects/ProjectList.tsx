@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Briefcase, Calendar, Check, Edit3, Layers, Plus } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { Project, ProjectStatus } from '../../types';
+import { committedSpend, nextMilestone, projectStatusLabels, scopeToProject } from '../../utils/projects';
+import { ProjectFormModal } from './ProjectFormModal';
+import { motion } from 'framer-motion';
+
+const statusStyles: Record<ProjectStatus, string> = {
+  planning: 'bg-gray-100 text-gray-800',
+  sourcing: 'bg-primary-100 text-primary-800',
+  negotiating: 'bg-warning-100 text-warning-800',
+  production: 'bg-accent-100 text-accent-800',
+  completed: 'bg-success-100 text-success-800',
+  on_hold: 'bg-error-100 text-error-800',
+};
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+/**
+ * ProjectList Component
+ *
+ * Every sourcing project with its status, budget against committed spend,
+ * next milestone and what it holds. Opening a project makes it the active
+ * one the other views are scoped to.
+ */
+export const ProjectList: React.FC = () => {
+  const { projects, activeProjectId, setActiveProject, quotes, rfqs, conversations } = useAppStore();
+  const [editing, setEditing] = useState<Project | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Projects</h2>
+          <p className="text-gray-600 mt-1">
+            Each project keeps its own requirements, shortlist, quotes and conversations
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setActiveProject(null)}
+            disabled={activeProjectId === null}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Layers className="w-4 h-4" />
+            <span>View All Projects</span>
+          </button>
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Project</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Projects */}
+      {projects.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <Briefcase className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">No projects yet. Create one to start sourcing.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {projects.map(project => {
+            const isActive = project.id === activeProjectId;
+            const spent = committedSpend(project, quotes);
+            const milestone = nextMilestone(project);
+            const completedMilestones = project.milestones.filter(m => m.completedAt).length;
+            const counts = [
+              { label: 'Shortlisted', value: project.shortlist.length },
+              { label: 'Quotes', value: scopeToProject(quotes, project.id).length },
+              { label: 'RFQs', value: scopeToProject(rfqs, project.id).length },
+              { label: 'Conversations', value: scopeToProject(conversations, project.id).length },
+            ];
+
+            return (
+              <motion.div
+                key={project.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`bg-white rounded-lg border p-6 space-y-4 ${
+                  isActive ? 'border-primary-500 ring-1 ring-primary-500' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900 truncate">{project.name}</h3>
+                    <p className="text-sm text-gray-500">
+                      {project.intake ? `${project.intake.category} · ${project.intake.material}` : 'No requirements yet'}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full flex-shrink-0 ${statusStyles[project.status]}`}>
+                    {projectStatusLabels[project.status]}
+                  </span>
+                </div>
+
+                {/* Budget */}
+                {project.budget ? (
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-600">Committed</span>
+                      <span className={spent > project.budget ? 'text-error-600 font-medium' : 'text-gray-900'}>
+                        {formatCurrency(spent)} of {formatCurrency(project.budget)}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden" aria-hidden="true">
+                      <div
+                        className={spent > project.budget ? 'h-full bg-error-500' : 'h-full bg-primary-500'}
+                        style={{ width: `${Math.min(100, (spent / project.budget) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No budget set</p>
+                )}
+
+                {/* Milestones */}
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <Calendar className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="truncate">
+                    {milestone
+                      ? `${milestone.title} · ${milestone.dueDate.toLocaleDateString()}`
+                      : project.milestones.length > 0 ? 'All milestones complete' : 'No milestones'}
+                  </span>
+                  {project.milestones.length > 0 && (
+                    <span className="text-xs text-gray-400 flex-shrink-0">
+                      {completedMilestones}/{project.milestones.length}
+                    </span>
+                  )}
+                </div>
+
+                <dl className="grid grid-cols-4 gap-2 text-center">
+                  {counts.map(count => (
+                    <div key={count.label}>
+                      <dd className="text-lg font-semibold text-gray-900">{count.value}</dd>
+                      <dt className="text-xs text-gray-500">{count.label}</dt>
+                    </div>
+                  ))}
+                </dl>
+
+                <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+                  <span className="text-xs text-gray-500">Owner: {project.ownerName}</span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setEditing(project)}
+                      className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                      aria-label={`Edit ${project.name}`}
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    {isActive ? (
+                      <span className="flex items-center space-x-1 px-3 py-1.5 text-sm text-primary-700">
+                        <Check className="w-4 h-4" />
+                        <span>Active</span>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setActiveProject(project.id)}
+                        className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                      >
+                        Open
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      {showCreate && <ProjectFormModal onClose={() => setShowCreate(false)} />}
+      {editing && <ProjectFormModal project={editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useMemo } from 'react';
+import { Scale } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { DecisionCriterion, Quote } from '../../types';
+import {
+  decisionCriterionLabels,
+  decisionFits,
+  defaultDecisionWeights,
+  rankQuoteIds,
+  sensitivityAnalysis,
+  weightedDecisionScore
+} from '../../utils/decisionMatrix';
+
+const fitColor = (value: number) => {
+  if (value >= 75) return 'bg-success-500';
+  if (value >= 50) return 'bg-warning-500';
+  return 'bg-error-500';
+};
+
+const multiplierLabel = (multiplier: number) => {
+  if (multiplier === 0) return 'Off';
+  if (multiplier === 1) return 'Current';
+  return `${multiplier}×`;
+};
+
+/**
+ * DecisionMatrix Component
+ *
+ * Weighted multi-criteria scoring for the quotes being compared. Quotes are
+ * normalized against every priced quote for the same project, the same
+ * basis as the score written back to each quote. The sensitivity view
+ * scales one weight at a time to show whether the leader would change.
+ */
+export const DecisionMatrix: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
+  const { quotes: allQuotes, projects, manufacturers, projectIntake, decisionWeights, setDecisionWeights } = useAppStore();
+  const criteria = Object.keys(decisionCriterionLabels) as DecisionCriterion[];
+  const totalWeight = criteria.reduce((sum, criterion) => sum + Math.max(0, decisionWeights[criterion]), 0);
+
+  // Peers for normalization, with pinned revisions standing in for their quotes
+  const fits = useMemo(() => {
+    const shown = new Map(quotes.map(quote => [quote.id, quote]));
+    const projectIds = new Set(quotes.map(quote => quote.projectId));
+    const peers = [
+      ...allQuotes.filter(quote => projectIds.has(quote.projectId) && !shown.has(quote.id)),
+      ...quotes
+    ].filter(quote => quote.pricePerUnit !== undefined);
+    // Scored against the compared quotes' project intake, as in the write-back
+    const intake = projects.find(project => project.id === quotes[0]?.projectId)?.intake ?? projectIntake;
+    return decisionFits(peers, manufacturers, intake);
+  }, [quotes, allQuotes, projects, manufacturers, projectIntake]);
+
+  const scoredQuotes = quotes.filter(quote => fits[quote.id]);
+  const shownFits = Object.fromEntries(scoredQuotes.map(quote => [quote.id, fits[quote.id]]));
+  const ranking = rankQuoteIds(shownFits, decisionWeights);
+  const sensitivity = sensitivityAnalysis(shownFits, decisionWeights);
+  const leaderId = ranking[0];
+  const flippingCriteria = criteria.filter(criterion =>
+    sensitivity[criterion].some(step => step.ranking[0] !== leaderId)
+  );
+
+  const nameOf = (quoteId: string) => {
+    const quote = quotes.find(q => q.id === quoteId);
+    const manufacturer = manufacturers.find(m => m.id === quote?.manufacturerId);
+    return manufacturer?.name ?? `Quote #${quoteId}`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Scale className="w-5 h-5 text-primary-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Decision Matrix</h3>
+        </div>
+        {leaderId && (
+          <p className="text-sm text-gray-600">
+            Top ranked: <span className="font-semibold text-gray-900">{nameOf(leaderId)}</span>
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 p-4">
+        {/* Weights */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">Criteria Weights</h4>
+          {criteria.map(criterion => (
+            <div key={criterion}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <label htmlFor={`decision-weight-${criterion}`} className="text-gray-700">
+                  {decisionCriterionLabels[criterion]}
+                </label>
+                <span className="text-xs text-gray-500">
+                  {totalWeight > 0 ? Math.round((Math.max(0, decisionWeights[criterion]) / totalWeight) * 100) : 0}%
+                </span>
+              </div>
+              <input
+                id={`decision-weight-${criterion}`}
+                type="range"
+                min="0"
+                max="50"
+                step="5"
+                value={decisionWeights[criterion]}
+                onChange={(e) => setDecisionWeights({ [criterion]: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => setDecisionWeights(defaultDecisionWeights)}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            Reset weights
+          </button>
+        </div>
+
+        <div className="lg:col-span-3 space-y-6 min-w-0">
+          {scoredQuotes.length === 0 ? (
+            <p className="text-sm text-gray-500">Quotes need a price before they can be scored.</p>
+          ) : (
+            <>
+              {/* Scores */}
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Criterion</th>
+                      {scoredQuotes.map(quote => (
+                        <th key={quote.id} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {nameOf(quote.id)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {criteria.filter(criterion => decisionWeights[criterion] > 0).map(criterion => (
+                      <tr key={criterion}>
+                        <td className="px-4 py-2 text-gray-900 whitespace-nowrap">
+                          {decisionCriterionLabels[criterion]}
+                          <span className="ml-1 text-xs text-gray-500">
+                            ({totalWeight > 0 ? Math.round((decisionWeights[criterion] / totalWeight) * 100) : 0}%)
+                          </span>
+                        </td>
+                        {scoredQuotes.map(quote => {
+                          const fit = fits[quote.id][criterion];
+                          const value = fit === null ? null : Math.round(fit * 100);
+                          return (
+                            <td key={quote.id} className="px-4 py-2">
+                              {value === null ? (
+                                <span className="block text-center text-xs text-gray-400" title="No data; scored as neutral">—</span>
+                              ) : (
+                                <div className="flex items-center space-x-2">
+                                  <div className="flex-1 h-2 bg-gray-100 rounded-full">
+                                    <div className={`h-2 rounded-full ${fitColor(value)}`} style={{ width: `${value}%` }} />
+                                  </div>
+                                  <span className="w-8 text-right text-xs text-gray-700">{value}</span>
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                    <tr className="bg-gray-50">
+                      <td className="px-4 py-2 font-semibold text-gray-900">Score</td>
+                      {scoredQuotes.map(quote => {
+                        const rank = ranking.indexOf(quote.id) + 1;
+                        return (
+                          <td key={quote.id} className="px-4 py-2 text-center">
+                            <span className="font-semibold text-gray-900">{weightedDecisionScore(fits[quote.id], decisionWeights)}</span>
+                            <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                              rank === 1 ? 'bg-success-100 text-success-800' : 'bg-gray-100 text-gray-600'
+                            }`}>
+                              #{rank}
+                            </span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Sensitivity */}
+              {scoredQuotes.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-1">Sensitivity</h4>
+                  <p className="text-xs text-gray-500 mb-2">
+                    {flippingCriteria.length === 0
+                      ? 'The top-ranked quote holds whichever single weight is switched off or doubled.'
+                      : `The top-ranked quote changes when the weight on ${flippingCriteria
+                          .map(criterion => decisionCriterionLabels[criterion].toLowerCase())
+                          .join(', ')} moves. Highlighted cells show a different leader.`}
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Weight on</th>
+                          {sensitivity[criteria[0]].map(step => (
+                            <th key={step.multiplier} className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">
+                              {multiplierLabel(step.multiplier)}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {criteria.map(criterion => (
+                          <tr key={criterion}>
+                            <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{decisionCriterionLabels[criterion]}</td>
+                            {sensitivity[criterion].map(step => {
+                              const leader = step.ranking[0];
+                              return (
+                                <td
+                                  key={step.multiplier}
+                                  className={`px-3 py-2 text-center whitespace-nowrap ${
+                                    leader !== leaderId ? 'bg-warning-50 text-warning-800 font-medium' : 'text-gray-600'
+                                  }`}
+                                  title={step.ranking.map((quoteId, index) => `${index + 1}. ${nameOf(quoteId)}`).join('\n')}
+                                >
+                                  {nameOf(leader)}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, CheckCircle, Plus, Trash2, XCircle } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { CostLineItem, CostLineItemKind, PriceTier, Quote } from '../../types';
+import { calculateLandedCost, costItemKindLabels, defaultCostQuantity } from '../../utils/landedCost';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface QuoteCostModalProps {
+  quote: Quote;
+  onClose: () => void;
+}
+
+const basisLabels: Record<CostLineItem['basis'], string> = {
+  'one-time': 'One-time ($)',
+  'per-unit': 'Per unit ($)',
+  percent: '% of goods',
+};
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * QuoteCostModal Component
+ *
+ * Landed-cost calculator for one quote: edit its price breaks and extra
+ * charges (tooling, NRE, freight, tariffs) and see the true per-unit cost
+ * at the project volume before saving the cost model onto the quote.
+ */
+export const QuoteCostModal: React.FC<QuoteCostModalProps> = ({ quote, onClose }) => {
+  const { manufacturers, projectIntake, updateQuote } = useAppStore();
+  const [tiers, setTiers] = useState<PriceTier[]>(() =>
+    quote.priceTiers?.length
+      ? [...quote.priceTiers].sort((a, b) => a.minQuantity - b.minQuantity)
+      : quote.pricePerUnit !== undefined
+      ? [{ minQuantity: quote.moq ?? 1, pricePerUnit: quote.pricePerUnit }]
+      : []
+  );
+  const [costItems, setCostItems] = useState<CostLineItem[]>(() => quote.costItems ?? []);
+  const [volume, setVolume] = useState(() => defaultCostQuantity(projectIntake?.volume, [quote]));
+
+  const manufacturer = manufacturers.find(m => m.id === quote.manufacturerId);
+  const invalidTiers = tiers.some(tier => !(tier.minQuantity > 0) || !(tier.pricePerUnit >= 0))
+    || new Set(tiers.map(tier => tier.minQuantity)).size !== tiers.length;
+  const invalidItems = costItems.some(item => !item.label.trim() || !(item.amount >= 0));
+
+  const landedCost = useMemo(
+    () => calculateLandedCost({ ...quote, priceTiers: tiers, costItems }, volume),
+    [quote, tiers, costItems, volume]
+  );
+
+  const updateTier = (index: number, changes: Partial<PriceTier>) => {
+    setTiers(prev => prev.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+  };
+
+  const addTier = () => {
+    const last = tiers[tiers.length - 1];
+    setTiers(prev => [...prev, {
+      minQuantity: last ? last.minQuantity * 2 : quote.moq ?? 1,
+      pricePerUnit: last?.pricePerUnit ?? quote.pricePerUnit ?? 0,
+    }]);
+  };
+
+  const updateItem = (id: string, changes: Partial<CostLineItem>) => {
+    setCostItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const addItem = () => {
+    setCostItems(prev => [...prev, {
+      id: `cost-${Date.now()}`,
+      kind: 'tooling',
+      label: costItemKindLabels.tooling,
+      amount: 0,
+      basis: 'one-time',
+    }]);
+  };
+
+  const handleSave = () => {
+    const priceTiers = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+    updateQuote(quote.id, {
+      priceTiers,
+      costItems: costItems.map(item => ({ ...item, label: item.label.trim() })),
+      // The headline price stays in step with the first price break
+      pricePerUnit: priceTiers[0]?.pricePerUnit ?? quote.pricePerUnit,
+      updatedAt: new Date(),
+    });
+    toast.success('Cost model saved');
+    onClose();
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quote-cost-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="quote-cost-title" className="text-2xl font-semibold text-gray-900">
+              Landed Cost Calculator
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {manufacturer?.name ?? quote.manufacturerId}
+              {quote.moq ? ` · MOQ ${quote.moq.toLocaleString()}` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XCircle className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3 space-y-6">
+            {/* Price Breaks */}
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-900">Price Breaks</h3>
+                <button
+                  onClick={addTier}
+                  className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add break</span>
+                </button>
+              </div>
+              {tiers.length === 0 ? (
+                <p className="text-sm text-gray-500">No pricing yet. Add a price break to cost this quote.</p>
+              ) : (
+                <div className="space-y-2">
+                  {tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <label className="flex-1 text-xs text-gray-600">
+                        From quantity
+                        <input
+                          type="number"
+                          min={1}
+                          value={tier.minQuantity}
+                          onChange={(e) => updateTier(index, { minQuantity: Number(e.target.value) })}
+                          className={inputClassName}
+                        />
+                      </label>
+                      <label className="flex-1 text-xs text-gray-600">
+                        Unit price (USD)
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={tier.pricePerUnit}
+                          onChange={(e) => updateTier(index, { pricePerUnit: Number(e.target.value) })}
+                          className={inputClassName}
+                        />
+                      </label>
+                      <button
+                        onClick={() => setTiers(prev => prev.filter((_, i) => i !== index))}
+                        className="self-end p-2 text-gray-400 hover:text-error-600"
+                        aria-label="Remove price break"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {invalidTiers && (
+                    <p className="text-xs text-error-600">Each break needs a distinct quantity above zero and a price.</p>
+                  )}
+                </div>
+              )}
+            </section>
+
+            {/* Additional Costs */}
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-900">Additional Costs</h3>
+                <button
+                  onClick={addItem}
+                  className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add cost</span>
+                </button>
+              </div>
+              {costItems.length === 0 ? (
+                <p className="text-sm text-gray-500">No tooling, freight or duty charges recorded.</p>
+              ) : (
+                <div className="space-y-2">
+                  {costItems.map(item => (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={item.kind}
+                        onChange={(e) => {
+                          const kind = e.target.value as CostLineItemKind;
+                          updateItem(item.id, {
+                            kind,
+                            label: item.label === costItemKindLabels[item.kind] ? costItemKindLabels[kind] : item.label,
+                          });
+                        }}
+                        className={`${inputClassName} col-span-3`}
+                        aria-label="Cost type"
+                      >
+                        {(Object.keys(costItemKindLabels) as CostLineItemKind[]).map(kind => (
+                          <option key={kind} value={kind}>{costItemKindLabels[kind]}</option>
+                        ))}
+                      </select>
+                      <input
+                        value={item.label}
+                        onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                        className={`${inputClassName} col-span-4`}
+                        aria-label="Description"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={item.amount}
+                        onChange={(e) => updateItem(item.id, { amount: Number(e.target.value) })}
+                        className={`${inputClassName} col-span-2`}
+                        aria-label="Amount"
+                      />
+                      <select
+                        value={item.basis}
+                        onChange={(e) => updateItem(item.id, { basis: e.target.value as CostLineItem['basis'] })}
+                        className={`${inputClassName} col-span-2`}
+                        aria-label="Basis"
+                      >
+                        {(Object.keys(basisLabels) as CostLineItem['basis'][]).map(basis => (
+                          <option key={basis} value={basis}>{basisLabels[basis]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setCostItems(prev => prev.filter(other => other.id !== item.id))}
+                        className="p-2 text-gray-400 hover:text-error-600"
+                        aria-label="Remove cost"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {invalidItems && (
+                    <p className="text-xs text-error-600">Each cost needs a description and a non-negative amount.</p>
+                  )}
+                </div>
+              )}
+            </section>
+          </div>
+
+          {/* Breakdown */}
+          <aside className="lg:col-span-2 bg-gray-50 rounded-lg border border-gray-200 p-4 space-y-4 self-start">
+            <label className="block text-sm font-medium text-gray-700">
+              Quantity needed
+              <input
+                type="number"
+                min={1}
+                value={volume}
+                onChange={(e) => setVolume(Math.max(1, Number(e.target.value) || 1))}
+                className={`${inputClassName} mt-1`}
+              />
+              {projectIntake?.volume === volume && (
+                <span className="text-xs text-gray-500">Project volume</span>
+              )}
+            </label>
+
+            {landedCost ? (
+              <dl className="text-sm space-y-2">
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">
+                    {landedCost.orderQuantity.toLocaleString()} × {formatMoney(landedCost.unitPrice)}
+                  </dt>
+                  <dd className="text-gray-900">{formatMoney(landedCost.merchandise)}</dd>
+                </div>
+                {(Object.keys(costItemKindLabels) as CostLineItemKind[])
+                  .filter(kind => landedCost.charges[kind] > 0)
+                  .map(kind => (
+                    <div key={kind} className="flex justify-between">
+                      <dt className="text-gray-600">{costItemKindLabels[kind]}</dt>
+                      <dd className="text-gray-900">{formatMoney(landedCost.charges[kind])}</dd>
+                    </div>
+                  ))}
+                <div className="flex justify-between pt-2 border-t border-gray-200 font-medium">
+                  <dt className="text-gray-900">Total cost</dt>
+                  <dd className="text-gray-900">{formatMoney(landedCost.total)}</dd>
+                </div>
+                <div className="flex justify-between items-center p-3 bg-white rounded-lg border border-gray-200">
+                  <dt className="flex items-center space-x-2 text-gray-900 font-semibold">
+                    <Calculator className="w-4 h-4 text-primary-600" />
+                    <span>Landed cost / unit</span>
+                  </dt>
+                  <dd className="text-lg font-semibold text-primary-700">{formatMoney(landedCost.landedUnitCost)}</dd>
+                </div>
+                {landedCost.orderQuantity > landedCost.quantity && (
+                  <p className="text-xs text-warning-700">
+                    The MOQ of {landedCost.orderQuantity.toLocaleString()} is above the quantity needed; the surplus is included in the cost.
+                  </p>
+                )}
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">Add a price to see the landed cost.</p>
+            )}
+          </aside>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={invalidTiers || invalidItems}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <CheckCircle className="w-4 h-4" />
+            <span>Save cost model</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowRight, Clock, DollarSign, Edit3, Package, PlusCircle, RefreshCw, XCircle } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { QuoteEvent, QuoteStatus } from '../../types';
+import {
+  isQuotePastValidity,
+  quoteStatusLabels,
+  quoteTransitions,
+  transitionBlocker
+} from '../../utils/quoteLifecycle';
+import { QuoteStatusBadge, QuoteStatusIcon } from './QuoteStatusBadge';
+import { QuoteRevisionDiff } from './QuoteRevisionDiff';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface QuoteDetailModalProps {
+  quoteId: string;
+  onClose: () => void;
+}
+
+// Actions offered for each target status; expiry happens on its own
+const transitionActions: Partial<Record<QuoteStatus, { label: string; className: string }>> = {
+  requested: { label: 'Send request', className: 'bg-primary-600 text-white hover:bg-primary-700' },
+  received: { label: 'Mark received', className: 'bg-primary-600 text-white hover:bg-primary-700' },
+  under_review: { label: 'Start review', className: 'bg-primary-600 text-white hover:bg-primary-700' },
+  negotiating: { label: 'Negotiate', className: 'bg-secondary-600 text-white hover:bg-secondary-700' },
+  accepted: { label: 'Accept', className: 'bg-success-600 text-white hover:bg-success-700' },
+  rejected: { label: 'Reject', className: 'border border-error-300 text-error-700 hover:bg-error-50' },
+  withdrawn: { label: 'Withdraw', className: 'border border-gray-300 text-gray-700 hover:bg-gray-50' },
+};
+
+const eventTitle = (event: QuoteEvent) => {
+  switch (event.type) {
+    case 'created':
+      return `Created as ${quoteStatusLabels[event.to ?? 'requested'].toLowerCase()}`;
+    case 'status_changed':
+      return event.from
+        ? `${quoteStatusLabels[event.from]} → ${quoteStatusLabels[event.to ?? event.from]}`
+        : `Marked ${quoteStatusLabels[event.to ?? 'requested'].toLowerCase()}`;
+    case 'revised':
+      return `Revision ${event.revision ?? ''} received`;
+    default:
+      return `Updated ${event.changes?.map(change => change.field.toLowerCase()).join(', ') ?? 'details'}`;
+  }
+};
+
+const eventIcon = (event: QuoteEvent) => {
+  const className = 'w-3.5 h-3.5 text-gray-500';
+  if (event.type === 'created') return <PlusCircle className={className} />;
+  if (event.type === 'updated') return <Edit3 className={className} />;
+  if (event.type === 'revised') return <RefreshCw className={className} />;
+  return <QuoteStatusIcon status={event.to ?? 'requested'} className={className} />;
+};
+
+/**
+ * QuoteDetailModal Component
+ *
+ * A quote's terms, the lifecycle actions open to it now (with the reason
+ * when one is blocked), its revisions and its event log as a timeline.
+ */
+export const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({ quoteId, onClose }) => {
+  const { quotes, manufacturers, transitionQuoteStatus } = useAppStore();
+  const [note, setNote] = useState('');
+
+  const quote = quotes.find(q => q.id === quoteId);
+  if (!quote) return null;
+
+  const manufacturer = manufacturers.find(m => m.id === quote.manufacturerId);
+  const actions = quoteTransitions[quote.status].filter(status => transitionActions[status]);
+  const timeline = [...(quote.events ?? [])].reverse();
+
+  const handleTransition = (status: QuoteStatus) => {
+    try {
+      transitionQuoteStatus(quote.id, status, note.trim() || undefined);
+      setNote('');
+      toast.success(`Quote marked ${quoteStatusLabels[status].toLowerCase()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update the quote');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quote-detail-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <div className="flex items-center space-x-3">
+              <h2 id="quote-detail-title" className="text-2xl font-semibold text-gray-900">
+                Quote #{quote.id}
+              </h2>
+              <QuoteStatusBadge status={quote.status} />
+            </div>
+            <p className="text-sm text-gray-600 mt-1">{manufacturer?.name ?? quote.manufacturerId}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XCircle className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Terms */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center text-xs text-gray-500 mb-1">
+                <DollarSign className="w-3 h-3 mr-1" />
+                Unit Price
+              </div>
+              <div className="text-sm font-medium text-gray-900">
+                {quote.pricePerUnit !== undefined ? `$${quote.pricePerUnit.toFixed(2)}` : 'Pending'}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center text-xs text-gray-500 mb-1">
+                <Clock className="w-3 h-3 mr-1" />
+                Lead Time
+              </div>
+              <div className="text-sm font-medium text-gray-900">
+                {quote.leadTimeDays ? `${quote.leadTimeDays} days` : 'TBD'}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center text-xs text-gray-500 mb-1">
+                <Package className="w-3 h-3 mr-1" />
+                MOQ
+              </div>
+              <div className="text-sm font-medium text-gray-900">
+                {quote.moq ? quote.moq.toLocaleString() : 'TBD'}
+              </div>
+            </div>
+            <div className={`p-3 rounded-lg ${isQuotePastValidity(quote) ? 'bg-error-50' : 'bg-gray-50'}`}>
+              <div className="flex items-center text-xs text-gray-500 mb-1">
+                <AlertCircle className="w-3 h-3 mr-1" />
+                Valid Until
+              </div>
+              <div className={`text-sm font-medium ${isQuotePastValidity(quote) ? 'text-error-700' : 'text-gray-900'}`}>
+                {quote.validUntil ? quote.validUntil.toLocaleDateString() : 'Not stated'}
+              </div>
+            </div>
+          </div>
+
+          {/* Lifecycle Actions */}
+          {actions.length > 0 ? (
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Next Steps</h3>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                placeholder="Optional note for the history, e.g. why the quote was rejected"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+              <div className="flex flex-wrap gap-2">
+                {actions.map(status => {
+                  const action = transitionActions[status]!;
+                  const blocker = transitionBlocker(quote, status);
+                  return (
+                    <button
+                      key={status}
+                      onClick={() => handleTransition(status)}
+                      disabled={!!blocker}
+                      title={blocker}
+                      className={`px-4 py-2 text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${action.className}`}
+                    >
+                      {action.label}
+                    </button>
+                  );
+                })}
+              </div>
+              {actions.some(status => transitionBlocker(quote, status)) && (
+                <ul className="text-xs text-gray-500 space-y-1">
+                  {actions.flatMap(status => {
+                    const blocker = transitionBlocker(quote, status);
+                    return blocker ? [<li key={status}>{transitionActions[status]!.label}: {blocker}</li>] : [];
+                  })}
+                </ul>
+              )}
+            </section>
+          ) : (
+            <p className="text-sm text-gray-500">
+              This quote is {quoteStatusLabels[quote.status].toLowerCase()}; its lifecycle is complete.
+            </p>
+          )}
+
+          {/* Revisions */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Revisions</h3>
+            <QuoteRevisionDiff quote={quote} />
+          </section>
+
+          {/* Timeline */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">History</h3>
+            {timeline.length === 0 ? (
+              <p className="text-sm text-gray-500">No recorded changes.</p>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-3 space-y-5">
+                {timeline.map(event => (
+                  <li key={event.id} className="ml-6">
+                    <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white border border-gray-200 rounded-full">
+                      {eventIcon(event)}
+                    </span>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-gray-900">{eventTitle(event)}</p>
+                      <time className="text-xs text-gray-500">{event.timestamp.toLocaleString()}</time>
+                    </div>
+                    <p className="text-xs text-gray-500">by {event.actor}</p>
+                    {event.changes && event.changes.length > 0 && (
+                      <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                        {event.changes.map(change => (
+                          <li key={change.field} className="flex items-center space-x-1">
+                            <span className="font-medium">{change.field}</span>
+                            {(change.from !== undefined || change.to !== undefined) && (
+                              <>
+                                <span>{change.from ?? '—'}</span>
+                                <ArrowRight className="w-3 h-3" />
+                                <span>{change.to ?? '—'}</span>
+                              </>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {event.note && (
+                      <p className="mt-1 text-sm text-gray-700 bg-gray-50 rounded p-2">{event.note}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
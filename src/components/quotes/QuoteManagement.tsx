@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   FileText, 
   Upload, 
@@ -11,20 +11,70 @@ import {
   Filter,
   Search,
   BarChart3,
-  CheckCircle,
   XCircle,
-  AlertCircle
+  Calculator,
+  Send
 } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
-import { Quote } from '../../types';
+import { CostLineItemKind, Quote } from '../../types';
 import { motion } from 'framer-motion';
+import { QuotesUrlState, parseQuotesState, serializeQuotesState } from '../../utils/urlState';
+import { changedParamKeys, useUrlStateSync } from '../../hooks/useUrlStateSync';
+import { buildQuoteReportHtml } from '../../utils/quoteReport';
+import { calculateLandedCost, costItemKindLabels, defaultCostQuantity } from '../../utils/landedCost';
+import { ReportExportMenu } from './ReportExportMenu';
+import { QuoteUploadModal } from './QuoteUploadModal';
+import { QuoteCostModal } from './QuoteCostModal';
+import { QuoteDetailModal } from './QuoteDetailModal';
+import { QuoteStatusBadge } from './QuoteStatusBadge';
+import { DecisionMatrix } from './DecisionMatrix';
+import { RfqBuilderModal } from './RfqBuilderModal';
+import { RfqTracker } from './RfqTracker';
+import { quoteStatuses, quoteStatusLabels } from '../../utils/quoteLifecycle';
+import { latestRevision, quoteAtRevision, quoteRevisions } from '../../utils/quoteRevisions';
+import { scopeToProject } from '../../utils/projects';
 
 export const QuoteManagement: React.FC = () => {
-  const { quotes, selectedQuotes, selectQuoteForComparison, removeQuoteFromComparison } = useAppStore();
-  const [activeTab, setActiveTab] = useState<'all' | 'pending' | 'received' | 'comparison'>('all');
+  const { quotes: allQuotes, activeProjectId, manufacturers, projectIntake, selectedQuotes, revisionPins, selectQuoteForComparison, removeQuoteFromComparison, setComparisonQuotes } = useAppStore();
+  const quotes = scopeToProject(allQuotes, activeProjectId);
+  const [activeTab, setActiveTab] = useState<QuotesUrlState['tab']>('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'date' | 'price' | 'leadTime' | 'score'>('date');
+  const [sortBy, setSortBy] = useState<QuotesUrlState['sortBy']>('date');
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showRfqBuilder, setShowRfqBuilder] = useState(false);
+  const [costQuote, setCostQuote] = useState<Quote | null>(null);
+  const [detailQuoteId, setDetailQuoteId] = useState<string | null>(null);
+  // Comparison ids from a link, held until quotes have loaded
+  const [pendingCompareIds, setPendingCompareIds] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (pendingCompareIds && quotes.length > 0) {
+      setComparisonQuotes(pendingCompareIds);
+      setPendingCompareIds(null);
+    }
+  }, [pendingCompareIds, quotes, setComparisonQuotes]);
+
+  // Keep tab, search, sort and the comparison set in the URL
+  useUrlStateSync(
+    serializeQuotesState({
+      tab: activeTab,
+      search: searchQuery,
+      sortBy,
+      compareIds: pendingCompareIds ?? selectedQuotes.map(q => q.id)
+    }),
+    (params) => {
+      const state = parseQuotesState(params);
+      setActiveTab(state.tab);
+      setSearchQuery(state.search);
+      setSortBy(state.sortBy);
+      setComparisonQuotes(state.compareIds);
+      setPendingCompareIds(quotes.length === 0 && state.compareIds.length > 0 ? state.compareIds : null);
+    },
+    {
+      historyMode: (previous, next) =>
+        changedParamKeys(previous, next).every(key => key === 'q') ? 'replace' : 'push'
+    }
+  );
 
   const filteredQuotes = quotes.filter(quote => {
     if (activeTab !== 'all' && quote.status !== activeTab) return false;
@@ -45,38 +95,11 @@ export const QuoteManagement: React.FC = () => {
     }
   });
 
-  const getStatusIcon = (status: Quote['status']) => {
-    switch (status) {
-      case 'received':
-        return <CheckCircle className="w-4 h-4 text-success-500" />;
-      case 'pending':
-        return <Clock className="w-4 h-4 text-warning-500" />;
-      case 'rejected':
-        return <XCircle className="w-4 h-4 text-error-500" />;
-      case 'expired':
-        return <AlertCircle className="w-4 h-4 text-gray-400" />;
-      default:
-        return <FileText className="w-4 h-4 text-gray-400" />;
-    }
-  };
-
-  const getStatusColor = (status: Quote['status']) => {
-    switch (status) {
-      case 'received':
-        return 'bg-success-100 text-success-800';
-      case 'pending':
-        return 'bg-warning-100 text-warning-800';
-      case 'rejected':
-        return 'bg-error-100 text-error-800';
-      case 'expired':
-        return 'bg-gray-100 text-gray-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
+  // The comparison shows each quote's latest revision unless an older one is pinned
+  const comparisonQuotes = selectedQuotes.map(quote => quoteAtRevision(quote, revisionPins[quote.id]));
 
   if (activeTab === 'comparison') {
-    return <QuoteComparison quotes={selectedQuotes} />;
+    return <QuoteComparison quotes={comparisonQuotes} />;
   }
 
   return (
@@ -91,6 +114,14 @@ export const QuoteManagement: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowRfqBuilder(true)}
+            className="flex items-center space-x-2 px-4 py-2 border border-primary-600 text-primary-700 rounded-lg hover:bg-primary-50 transition-colors"
+          >
+            <Send className="w-4 h-4" />
+            <span>Request Quotes</span>
+          </button>
+          
           <button
             onClick={() => setShowUploadModal(true)}
             className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
@@ -99,26 +130,41 @@ export const QuoteManagement: React.FC = () => {
             <span>Upload Quotes</span>
           </button>
           
-          <button className="flex items-center space-x-2 px-4 py-2 bg-secondary-600 text-white rounded-lg hover:bg-secondary-700 transition-colors">
-            <Download className="w-4 h-4" />
-            <span>Export Report</span>
-          </button>
+          <ReportExportMenu
+            label="Export Report"
+            filename={`quote-report-${new Date().toISOString().slice(0, 10)}`}
+            buttonClassName="bg-secondary-600 hover:bg-secondary-700"
+            disabled={sortedQuotes.length === 0}
+            buildReport={() => buildQuoteReportHtml({
+              title: activeTab === 'all' ? 'Quote Report' : `Quote Report: ${activeTab.charAt(0).toUpperCase() + activeTab.slice(1)} Quotes`,
+              quotes: sortedQuotes,
+              manufacturers,
+              comparison: comparisonQuotes,
+              volume: defaultCostQuantity(projectIntake?.volume, comparisonQuotes)
+            })}
+          />
         </div>
       </div>
 
+      {/* RFQs */}
+      <RfqTracker />
+
       {/* Tabs */}
       <div className="border-b border-gray-200">
-        <nav className="-mb-px flex space-x-8">
+        <nav className="-mb-px flex space-x-6 overflow-x-auto">
           {[
             { id: 'all', label: 'All Quotes', count: quotes.length },
-            { id: 'pending', label: 'Pending', count: quotes.filter(q => q.status === 'pending').length },
-            { id: 'received', label: 'Received', count: quotes.filter(q => q.status === 'received').length },
+            ...quoteStatuses.map(status => ({
+              id: status,
+              label: quoteStatusLabels[status],
+              count: quotes.filter(q => q.status === status).length
+            })),
             { id: 'comparison', label: 'Comparison', count: selectedQuotes.length }
           ].map((tab) => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id as any)}
-              className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
+              onClick={() => setActiveTab(tab.id as QuotesUrlState['tab'])}
+              className={`py-2 px-1 border-b-2 font-medium text-sm whitespace-nowrap transition-colors ${
                 activeTab === tab.id
                   ? 'border-primary-500 text-primary-600'
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
@@ -157,7 +203,7 @@ export const QuoteManagement: React.FC = () => {
         <div className="flex items-center space-x-4">
           <select
             value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as any)}
+            onChange={(e) => setSortBy(e.target.value as QuotesUrlState['sortBy'])}
             className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
           >
             <option value="date">Sort by Date</option>
@@ -226,12 +272,7 @@ export const QuoteManagement: React.FC = () => {
                   </td>
                   
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(quote.status)}
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(quote.status)}`}>
-                        {quote.status.charAt(0).toUpperCase() + quote.status.slice(1)}
-                      </span>
-                    </div>
+                    <QuoteStatusBadge status={quote.status} showIcon />
                   </td>
                   
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -289,7 +330,19 @@ export const QuoteManagement: React.FC = () => {
                         <BarChart3 className="w-4 h-4" />
                       </button>
                       
-                      <button className="p-2 bg-secondary-100 text-secondary-600 rounded-lg hover:bg-secondary-200 transition-colors">
+                      <button
+                        onClick={() => setCostQuote(quote)}
+                        className="p-2 bg-warning-100 text-warning-600 rounded-lg hover:bg-warning-200 transition-colors"
+                        title="Landed cost calculator"
+                      >
+                        <Calculator className="w-4 h-4" />
+                      </button>
+
+                      <button
+                        onClick={() => setDetailQuoteId(quote.id)}
+                        className="p-2 bg-secondary-100 text-secondary-600 rounded-lg hover:bg-secondary-200 transition-colors"
+                        title="Details and history"
+                      >
                         <Eye className="w-4 h-4" />
                       </button>
                       
@@ -324,16 +377,45 @@ export const QuoteManagement: React.FC = () => {
         </div>
       )}
 
+      {/* RFQ Builder */}
+      {showRfqBuilder && (
+        <RfqBuilderModal onClose={() => setShowRfqBuilder(false)} />
+      )}
+
       {/* Upload Modal */}
       {showUploadModal && (
         <QuoteUploadModal onClose={() => setShowUploadModal(false)} />
       )}
+
+      {/* Detail Modal */}
+      {detailQuoteId && (
+        <QuoteDetailModal quoteId={detailQuoteId} onClose={() => setDetailQuoteId(null)} />
+      )}
+
+      {/* Cost Modal */}
+      {costQuote && (
+        <QuoteCostModal quote={costQuote} onClose={() => setCostQuote(null)} />
+      )}
     </div>
   );
 };
 
 const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
-  const { removeQuoteFromComparison } = useAppStore();
+  const { manufacturers, projectIntake, revisionPins, removeQuoteFromComparison, pinQuoteRevision } = useAppStore();
+  const [volume, setVolume] = useState(() => defaultCostQuantity(projectIntake?.volume, quotes));
+
+  // Compare on total cost of ownership at the project volume
+  const landedCosts = useMemo(
+    () => new Map(quotes.map(quote => [quote.id, calculateLandedCost(quote, volume)])),
+    [quotes, volume]
+  );
+  const costedQuotes = quotes.filter(quote => landedCosts.get(quote.id));
+  const bestLandedUnitCost = Math.min(...costedQuotes.map(quote => landedCosts.get(quote.id)!.landedUnitCost));
+  const bestQuote = costedQuotes.find(quote => landedCosts.get(quote.id)!.landedUnitCost === bestLandedUnitCost);
+  const chargeKinds = (Object.keys(costItemKindLabels) as CostLineItemKind[])
+    .filter(kind => quotes.some(quote => (landedCosts.get(quote.id)?.charges[kind] ?? 0) > 0));
+  const manufacturerName = (quote: Quote) =>
+    manufacturers.find(m => m.id === quote.manufacturerId)?.name ?? quote.manufacturerId;
 
   if (quotes.length === 0) {
     return (
@@ -353,10 +435,40 @@ const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
         <h3 className="text-xl font-semibold text-gray-900">
           Quote Comparison ({quotes.length}/5)
         </h3>
-        <button className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors">
-          <Download className="w-4 h-4" />
-          <span>Export Comparison</span>
-        </button>
+        <ReportExportMenu
+          label="Export Comparison"
+          filename={`quote-comparison-${new Date().toISOString().slice(0, 10)}`}
+          buttonClassName="bg-primary-600 hover:bg-primary-700"
+          buildReport={() => buildQuoteReportHtml({
+            title: 'Quote Comparison',
+            quotes,
+            manufacturers,
+            comparison: quotes,
+            volume
+          })}
+        />
+      </div>
+
+      {/* Cost Basis */}
+      <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <Calculator className="w-4 h-4 text-gray-400" />
+          <span>Compare total cost at</span>
+          <input
+            type="number"
+            min={1}
+            value={volume}
+            onChange={(e) => setVolume(Math.max(1, Number(e.target.value) || 1))}
+            className="w-28 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <span>units{projectIntake?.volume === volume ? ' (project volume)' : ''}</span>
+        </label>
+        {bestQuote && (
+          <p className="text-sm text-gray-700">
+            Lowest landed cost: <span className="font-semibold text-gray-900">{manufacturerName(bestQuote)}</span>{' '}
+            at <span className="font-semibold text-success-700">${bestLandedUnitCost.toFixed(2)}/unit</span>
+          </p>
+        )}
       </div>
 
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
@@ -378,6 +490,23 @@ const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
                         <XCircle className="w-4 h-4" />
                       </button>
                     </div>
+                    {quoteRevisions(quote).length > 1 && (
+                      <select
+                        value={revisionPins[quote.id] ?? ''}
+                        onChange={(e) => pinQuoteRevision(quote.id, e.target.value ? Number(e.target.value) : null)}
+                        aria-label={`Revision of quote ${quote.id}`}
+                        className={`mt-2 w-full px-2 py-1 text-xs normal-case tracking-normal border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 ${
+                          revisionPins[quote.id] ? 'border-warning-300 bg-warning-50 text-warning-800' : 'border-gray-300 text-gray-700'
+                        }`}
+                      >
+                        <option value="">Latest (revision {latestRevision(quote)?.version})</option>
+                        {quoteRevisions(quote).slice(0, -1).reverse().map(revision => (
+                          <option key={revision.version} value={revision.version}>
+                            Pinned: revision {revision.version}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   </th>
                 ))}
               </tr>
@@ -385,7 +514,7 @@ const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
             <tbody className="bg-white divide-y divide-gray-200">
               <tr>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  Price per Unit
+                  Quoted Unit Price
                 </td>
                 {quotes.map((quote) => (
                   <td key={quote.id} className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-900">
@@ -413,6 +542,78 @@ const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
                   </td>
                 ))}
               </tr>
+              <tr>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  Tier Price
+                </td>
+                {quotes.map((quote) => {
+                  const cost = landedCosts.get(quote.id);
+                  return (
+                    <td key={quote.id} className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-900">
+                      {cost ? `$${cost.unitPrice.toFixed(2)} × ${cost.orderQuantity.toLocaleString()}` : 'Pending'}
+                    </td>
+                  );
+                })}
+              </tr>
+              {chargeKinds.map(kind => (
+                <tr key={kind}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {costItemKindLabels[kind]}
+                  </td>
+                  {quotes.map((quote) => {
+                    const charge = landedCosts.get(quote.id)?.charges[kind];
+                    return (
+                      <td key={quote.id} className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-900">
+                        {charge ? `$${charge.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '—'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  Total Cost
+                </td>
+                {quotes.map((quote) => {
+                  const cost = landedCosts.get(quote.id);
+                  return (
+                    <td key={quote.id} className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-900">
+                      {cost ? `$${cost.total.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : 'Pending'}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr className="bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                  Landed Cost / Unit
+                </td>
+                {quotes.map((quote) => {
+                  const cost = landedCosts.get(quote.id);
+                  const isBest = cost?.landedUnitCost === bestLandedUnitCost;
+                  return (
+                    <td
+                      key={quote.id}
+                      className={`px-6 py-4 whitespace-nowrap text-center text-sm ${isBest ? 'bg-success-50 text-success-800 font-semibold' : 'text-gray-900'}`}
+                    >
+                      {cost ? (
+                        <>
+                          <div>${cost.landedUnitCost.toFixed(2)}</div>
+                          {!isBest && (
+                            <div className="text-xs text-error-600">
+                              +{(((cost.landedUnitCost - bestLandedUnitCost) / bestLandedUnitCost) * 100).toFixed(1)}% vs best
+                            </div>
+                          )}
+                          {cost.orderQuantity > cost.quantity && (
+                            <div className="text-xs text-warning-700">MOQ {cost.orderQuantity.toLocaleString()}</div>
+                          )}
+                        </>
+                      ) : (
+                        'Pending'
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
               <tr>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                   Score
@@ -436,9 +637,7 @@ const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
                 </td>
                 {quotes.map((quote) => (
                   <td key={quote.id} className="px-6 py-4 whitespace-nowrap text-center">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(quote.status)}`}>
-                      {quote.status.charAt(0).toUpperCase() + quote.status.slice(1)}
-                    </span>
+                    <QuoteStatusBadge status={quote.status} />
                   </td>
                 ))}
               </tr>
@@ -446,114 +645,9 @@ const QuoteComparison: React.FC<{ quotes: Quote[] }> = ({ quotes }) => {
           </table>
         </div>
       </div>
-    </div>
-  );
-};
-
-const QuoteUploadModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
-  const [dragActive, setDragActive] = useState(false);
-
-  const handleDrag = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (e.type === "dragenter" || e.type === "dragover") {
-      setDragActive(true);
-    } else if (e.type === "dragleave") {
-      setDragActive(false);
-    }
-  };
-
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragActive(false);
-    
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      // Handle file upload
-      console.log('Files dropped:', e.dataTransfer.files);
-    }
-  };
-
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <motion.div
-        initial={{ opacity: 0, scale: 0.9 }}
-        animate={{ opacity: 1, scale: 1 }}
-        className="bg-white rounded-xl p-8 w-full max-w-2xl"
-      >
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-semibold text-gray-900">Upload Quote Documents</h2>
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-gray-600"
-          >
-            <XCircle className="w-6 h-6" />
-          </button>
-        </div>
 
-        <div
-          className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-            dragActive
-              ? 'border-primary-500 bg-primary-50'
-              : 'border-gray-300 hover:border-gray-400'
-          }`}
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
-        >
-          <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 mb-2">
-            Drop quote files here or click to browse
-          </h3>
-          <p className="text-gray-500 mb-4">
-            Supports PDF, DOC, DOCX, XLS, XLSX files up to 10MB
-          </p>
-          <button className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors">
-            Select Files
-          </button>
-        </div>
-
-        <div className="mt-6">
-          <h4 className="text-sm font-medium text-gray-900 mb-3">
-            Automated Extraction Features:
-          </h4>
-          <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
-            <div className="flex items-center space-x-2">
-              <CheckCircle className="w-4 h-4 text-success-500" />
-              <span>Price per unit extraction</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <CheckCircle className="w-4 h-4 text-success-500" />
-              <span>Lead time identification</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <CheckCircle className="w-4 h-4 text-success-500" />
-              <span>MOQ detection</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <CheckCircle className="w-4 h-4 text-success-500" />
-              <span>Terms and conditions parsing</span>
-            </div>
-          </div>
-        </div>
-      </motion.div>
+      {/* Decision Matrix */}
+      <DecisionMatrix quotes={quotes} />
     </div>
   );
 };
-
-// Helper function moved outside component
-const getStatusColor = (status: Quote['status']) => {
-  switch (status) {
-    case 'received':
-      return 'bg-success-100 text-success-800';
-    case 'pending':
-      return 'bg-warning-100 text-warning-800';
-    case 'rejected':
-      return 'bg-error-100 text-error-800';
-    case 'expired':
-      return 'bg-gray-100 text-gray-800';
-    default:
-      return 'bg-gray-100 text-gray-800';
-  }
-};
\ No newline at end of file
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ArrowDownRight, ArrowUpRight, FileText } from 'lucide-react';
+import { Quote, QuoteFile } from '../../types';
+import { loadStoredFile } from '../../store/persistence';
+import { diffRevisions, quoteRevisions } from '../../utils/quoteRevisions';
+import toast from 'react-hot-toast';
+
+// How long a viewing tab has to load an uploaded file before its URL is revoked
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+/**
+ * Open a quote document in a new tab. Uploads are read back from IndexedDB
+ * into an object URL that only lives long enough for the tab to load it.
+ */
+const openQuoteFile = async (file: QuoteFile) => {
+  if (file.url) {
+    window.open(file.url, '_blank', 'noreferrer');
+    return;
+  }
+  // Open the tab while the click still counts as a user gesture
+  const tab = window.open('', '_blank');
+  const contents = await loadStoredFile(file.id).catch(() => undefined);
+  if (!contents) {
+    tab?.close();
+    toast.error(`${file.name} isn't stored on this device`);
+    return;
+  }
+  if (!tab) return;
+  const url = URL.createObjectURL(contents);
+  tab.opener = null;
+  tab.location.href = url;
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+};
+
+/**
+ * QuoteRevisionDiff Component
+ *
+ * Lists a quote's revisions with the files each came with, and compares
+ * any two side by side. Changed terms are highlighted; numeric terms show
+ * whether the change is in the buyer's favour.
+ */
+export const QuoteRevisionDiff: React.FC<{ quote: Quote }> = ({ quote }) => {
+  const revisions = quoteRevisions(quote);
+  const latest = revisions[revisions.length - 1]?.version ?? 1;
+  const [fromVersion, setFromVersion] = useState(Math.max(1, latest - 1));
+  const [toVersion, setToVersion] = useState(latest);
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No terms received yet.</p>;
+  }
+
+  const from = revisions.find(r => r.version === fromVersion) ?? revisions[0];
+  const to = revisions.find(r => r.version === toVersion) ?? revisions[revisions.length - 1];
+  const rows = diffRevisions(from, to);
+
+  const versionSelect = (value: number, onChange: (version: number) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      aria-label={label}
+      className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+    >
+      {revisions.map(revision => (
+        <option key={revision.version} value={revision.version}>
+          Revision {revision.version}{revision.version === latest ? ' (latest)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Revision List */}
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {[...revisions].reverse().map(revision => (
+          <li key={revision.version} className="flex items-start justify-between px-4 py-2 text-sm">
+            <div>
+              <span className="font-medium text-gray-900">Revision {revision.version}</span>
+              <span className="text-gray-500"> · received {revision.receivedAt.toLocaleDateString()}</span>
+              {revision.files.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {revision.files.map(file => (
+                    <button
+                      key={file.id}
+                      type="button"
+                      onClick={() => openQuoteFile(file)}
+                      className="inline-flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+                    >
+                      <FileText className="w-3 h-3" />
+                      <span>{file.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <span className="text-gray-900">
+              {revision.pricePerUnit !== undefined ? `$${revision.pricePerUnit.toFixed(2)}` : '—'}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {/* Diff */}
+      {revisions.length > 1 && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Term</th>
+                <th className="px-4 py-2 text-left">{versionSelect(from.version, setFromVersion, 'Compare from revision')}</th>
+                <th className="px-4 py-2 text-left">{versionSelect(to.version, setToVersion, 'Compare to revision')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.field} className={row.changed ? 'bg-warning-50' : ''}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{row.label}</td>
+                  <td className={`px-4 py-2 ${row.changed ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                    {row.from ?? '—'}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`inline-flex items-center space-x-1 ${
+                      row.trend === 'better' ? 'text-success-700 font-medium'
+                        : row.trend === 'worse' ? 'text-error-700 font-medium'
+                        : row.changed ? 'text-gray-900 font-medium' : 'text-gray-900'
+                    }`}>
+                      <span>{row.to ?? '—'}</span>
+                      {row.trend === 'better' && <ArrowDownRight className="w-3 h-3" />}
+                      {row.trend === 'worse' && <ArrowUpRight className="w-3 h-3" />}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.every(row => !row.changed) && (
+            <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-100">These revisions have the same terms.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
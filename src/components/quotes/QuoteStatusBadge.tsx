@@ -0,0 +1,49 @@
+import React from 'react';
+import {
+  AlertCircle,
+  Ban,
+  CheckCircle,
+  Clock,
+  FileText,
+  MessageSquare,
+  Search,
+  Send,
+  XCircle
+} from 'lucide-react';
+import { QuoteStatus } from '../../types';
+import { quoteStatusLabels } from '../../utils/quoteLifecycle';
+
+const statusStyles: Record<QuoteStatus, { icon: React.ElementType; iconClassName: string; className: string }> = {
+  draft: { icon: FileText, iconClassName: 'text-gray-400', className: 'bg-gray-100 text-gray-800' },
+  requested: { icon: Send, iconClassName: 'text-warning-500', className: 'bg-warning-100 text-warning-800' },
+  received: { icon: CheckCircle, iconClassName: 'text-success-500', className: 'bg-success-100 text-success-800' },
+  under_review: { icon: Search, iconClassName: 'text-primary-500', className: 'bg-primary-100 text-primary-800' },
+  negotiating: { icon: MessageSquare, iconClassName: 'text-secondary-500', className: 'bg-secondary-100 text-secondary-800' },
+  accepted: { icon: CheckCircle, iconClassName: 'text-success-600', className: 'bg-success-600 text-white' },
+  rejected: { icon: XCircle, iconClassName: 'text-error-500', className: 'bg-error-100 text-error-800' },
+  expired: { icon: AlertCircle, iconClassName: 'text-gray-400', className: 'bg-gray-100 text-gray-800' },
+  withdrawn: { icon: Ban, iconClassName: 'text-gray-400', className: 'bg-gray-100 text-gray-600' },
+};
+
+export const QuoteStatusIcon: React.FC<{ status: QuoteStatus; className?: string }> = ({ status, className }) => {
+  const Icon = statusStyles[status]?.icon ?? Clock;
+  return <Icon className={className ?? `w-4 h-4 ${statusStyles[status]?.iconClassName ?? 'text-gray-400'}`} />;
+};
+
+/**
+ * QuoteStatusBadge Component
+ *
+ * Status pill used wherever a quote's lifecycle state is shown.
+ */
+export const QuoteStatusBadge: React.FC<{ status: QuoteStatus; showIcon?: boolean }> = ({ status, showIcon = false }) => {
+  const style = statusStyles[status];
+
+  return (
+    <div className="inline-flex items-center space-x-2">
+      {showIcon && <QuoteStatusIcon status={status} />}
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style?.className ?? 'bg-gray-100 text-gray-800'}`}>
+        {quoteStatusLabels[status] ?? status}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Upload, XCircle, CheckCircle, ArrowLeft, Loader2, FileText } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { storeFile } from '../../store/persistence';
+import { ExtractedQuoteData, ExtractedQuoteField, Quote } from '../../types';
+import { readDocumentText, quoteDocumentAccept } from '../../utils/documentText';
+import { extractQuoteData, QuoteExtraction } from '../../utils/quoteExtraction';
+import { latestRevision } from '../../utils/quoteRevisions';
+import { quoteStatusLabels } from '../../utils/quoteLifecycle';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface QuoteUploadModalProps {
+  onClose: () => void;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const fieldSpecs: { field: ExtractedQuoteField; label: string; kind: 'number' | 'text' | 'list'; suffix?: string; required?: boolean }[] = [
+  { field: 'pricePerUnit', label: 'Unit Price', kind: 'number', suffix: 'USD', required: true },
+  { field: 'leadTime', label: 'Lead Time', kind: 'number', suffix: 'days', required: true },
+  { field: 'moq', label: 'MOQ', kind: 'number', suffix: 'units', required: true },
+  { field: 'paymentTerms', label: 'Payment Terms', kind: 'text' },
+  { field: 'shippingTerms', label: 'Shipping Terms', kind: 'text' },
+  { field: 'warranty', label: 'Warranty', kind: 'text' },
+  { field: 'certifications', label: 'Certifications', kind: 'list' },
+];
+
+type FieldValues = Record<ExtractedQuoteField, string>;
+
+const toFieldValues = (extraction: QuoteExtraction): FieldValues => Object.fromEntries(
+  fieldSpecs.map(({ field }) => {
+    const value = extraction[field]?.value;
+    return [field, Array.isArray(value) ? value.join(', ') : value?.toString() ?? ''];
+  })
+) as FieldValues;
+
+const confidenceBadge = (confidence: number | undefined) => {
+  if (confidence === undefined) return { label: 'Not found', className: 'bg-gray-100 text-gray-600' };
+  if (confidence >= 0.8) return { label: `High ${Math.round(confidence * 100)}%`, className: 'bg-success-100 text-success-800' };
+  if (confidence >= 0.6) return { label: `Medium ${Math.round(confidence * 100)}%`, className: 'bg-warning-100 text-warning-800' };
+  return { label: `Low ${Math.round(confidence * 100)}%`, className: 'bg-error-100 text-error-800' };
+};
+
+/**
+ * QuoteUploadModal Component
+ *
+ * Reads a quote document (PDF, DOCX, XLSX, CSV) in the browser, extracts
+ * its commercial terms with a confidence per field, and lets the user
+ * correct them before they are saved onto a quote.
+ */
+export const QuoteUploadModal: React.FC<QuoteUploadModalProps> = ({ onClose }) => {
+  const { quotes, manufacturers, addQuoteRevision, transitionQuoteStatus } = useAppStore();
+  const [file, setFile] = useState<File | null>(null);
+  const [documentText, setDocumentText] = useState('');
+  const [extraction, setExtraction] = useState<QuoteExtraction | null>(null);
+  const [values, setValues] = useState<FieldValues | null>(null);
+  const [edited, setEdited] = useState<Set<ExtractedQuoteField>>(new Set());
+  const [quoteId, setQuoteId] = useState('');
+  const [isReading, setIsReading] = useState(false);
+
+  const manufacturerNames = useMemo(
+    () => new Map(manufacturers.map(manufacturer => [manufacturer.id, manufacturer.name])),
+    [manufacturers]
+  );
+
+  /**
+   * Guess the quote a document belongs to: a requested quote from a
+   * manufacturer named in the text, then any such quote, then any requested one
+   */
+  const suggestQuote = useCallback((text: string): Quote | undefined => {
+    const lowerText = text.toLowerCase();
+    const mentioned = quotes.filter(quote => {
+      const name = manufacturerNames.get(quote.manufacturerId);
+      return name && lowerText.includes(name.toLowerCase());
+    });
+    return mentioned.find(quote => quote.status === 'requested')
+      ?? mentioned[0]
+      ?? quotes.find(quote => quote.status === 'requested')
+      ?? quotes[0];
+  }, [quotes, manufacturerNames]);
+
+  const onDrop = useCallback(async (accepted: File[]) => {
+    const dropped = accepted[0];
+    if (!dropped) return;
+
+    setIsReading(true);
+    try {
+      const text = await readDocumentText(dropped);
+      const result = extractQuoteData(text);
+      setFile(dropped);
+      setDocumentText(text);
+      setExtraction(result);
+      setValues(toFieldValues(result));
+      setEdited(new Set());
+      setQuoteId(suggestQuote(text)?.id ?? '');
+      if (fieldSpecs.every(({ field }) => !result[field])) {
+        toast.error('No quote terms were recognised; enter them manually');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read document');
+    } finally {
+      setIsReading(false);
+    }
+  }, [suggestQuote]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    onDropRejected: () => toast.error('Use a PDF, DOCX, XLSX or CSV file up to 10MB'),
+    accept: quoteDocumentAccept,
+    maxSize: MAX_FILE_SIZE,
+    multiple: false,
+    disabled: isReading,
+  });
+
+  const setValue = (field: ExtractedQuoteField, value: string) => {
+    setValues(prev => prev && { ...prev, [field]: value });
+    setEdited(prev => new Set(prev).add(field));
+  };
+
+  const invalidFields = values
+    ? fieldSpecs.filter(spec => spec.kind === 'number' && !(Number(values[spec.field]) > 0)).map(spec => spec.field)
+    : [];
+
+  const reset = () => {
+    setFile(null);
+    setDocumentText('');
+    setExtraction(null);
+    setValues(null);
+    setEdited(new Set());
+  };
+
+  const targetQuote = quotes.find(q => q.id === quoteId);
+  const nextVersion = targetQuote ? (latestRevision(targetQuote)?.version ?? 0) + 1 : 1;
+
+  const handleSave = async () => {
+    const quote = quotes.find(q => q.id === quoteId);
+    if (!file || !values || !extraction || !quote || invalidFields.length > 0) return;
+
+    // Reviewed (edited or manually entered) values are fully trusted
+    const confidence = Object.fromEntries(fieldSpecs.flatMap(({ field }) => {
+      if (edited.has(field)) return [[field, 1]];
+      const extracted = extraction[field];
+      return extracted ? [[field, extracted.confidence]] : [];
+    }));
+    const extractedData: ExtractedQuoteData = {
+      pricePerUnit: Number(values.pricePerUnit),
+      leadTime: Math.round(Number(values.leadTime)),
+      moq: Math.round(Number(values.moq)),
+      certifications: values.certifications.split(',').map(item => item.trim()).filter(Boolean),
+      paymentTerms: values.paymentTerms.trim(),
+      shippingTerms: values.shippingTerms.trim(),
+      warranty: values.warranty.trim(),
+      confidence,
+      sourceFile: file.name,
+    };
+    const now = new Date();
+    const fileId = `file-${now.getTime()}`;
+
+    // The document itself is kept in IndexedDB; the quote refers to it by id
+    try {
+      await storeFile(fileId, file);
+    } catch (error) {
+      console.warn('Failed to store quote document:', error);
+      toast.error(`Couldn't keep a copy of ${file.name}; its extracted terms are still saved`);
+    }
+
+    // A document for a quote that already has terms is a revised quote
+    addQuoteRevision(quote.id, {
+      extractedData,
+      pricePerUnit: extractedData.pricePerUnit,
+      leadTimeDays: extractedData.leadTime,
+      moq: extractedData.moq,
+      files: [{
+        id: fileId,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        uploadedAt: now,
+      }],
+      receivedAt: now,
+    });
+    if (quote.status === 'requested') transitionQuoteStatus(quote.id, 'received');
+    toast.success(nextVersion > 1
+      ? `Saved revision ${nextVersion} of quote #${quote.id}`
+      : `Saved extracted terms to quote #${quote.id}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quote-upload-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="quote-upload-title" className="text-2xl font-semibold text-gray-900">
+              {values ? 'Review Extracted Terms' : 'Upload Quote Documents'}
+            </h2>
+            {file && <p className="text-sm text-gray-600 mt-1">{file.name}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XCircle className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {/* Upload */}
+          {!values && (
+            <>
+              <div
+                {...getRootProps()}
+                className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+                  isDragActive
+                    ? 'border-primary-500 bg-primary-50'
+                    : 'border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                <input {...getInputProps()} />
+                {isReading ? (
+                  <Loader2 className="w-12 h-12 text-primary-600 mx-auto mb-4 animate-spin" />
+                ) : (
+                  <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                )}
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  {isReading ? 'Reading document...' : 'Drop a quote file here or click to browse'}
+                </h3>
+                <p className="text-gray-500">
+                  Supports PDF, DOCX, XLSX and CSV files up to 10MB
+                </p>
+              </div>
+
+              <div className="mt-6">
+                <h4 className="text-sm font-medium text-gray-900 mb-3">
+                  Automated Extraction Features:
+                </h4>
+                <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
+                  {['Price per unit extraction', 'Lead time identification', 'MOQ detection', 'Payment, shipping and warranty terms'].map(feature => (
+                    <div key={feature} className="flex items-center space-x-2">
+                      <CheckCircle className="w-4 h-4 text-success-500" />
+                      <span>{feature}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-3">
+                  Documents are processed in your browser. Scanned PDFs without a text layer can't be read.
+                </p>
+              </div>
+            </>
+          )}
+
+          {/* Review */}
+          {values && extraction && (
+            <div className="space-y-5">
+              <div>
+                <label htmlFor="quote-target" className="block text-sm font-medium text-gray-700 mb-1">Attach to quote</label>
+                <select
+                  id="quote-target"
+                  value={quoteId}
+                  onChange={(e) => setQuoteId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="" disabled>Select a quote</option>
+                  {quotes.map(quote => (
+                    <option key={quote.id} value={quote.id}>
+                      #{quote.id} · {manufacturerNames.get(quote.manufacturerId) ?? quote.manufacturerId} · {quoteStatusLabels[quote.status]}
+                    </option>
+                  ))}
+                </select>
+                {nextVersion > 1 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    This quote already has terms; the document will be saved as revision {nextVersion}.
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {fieldSpecs.map(spec => {
+                  const extracted = extraction[spec.field];
+                  const badge = edited.has(spec.field)
+                    ? { label: 'Reviewed', className: 'bg-primary-100 text-primary-800' }
+                    : confidenceBadge(extracted?.confidence);
+                  const isInvalid = invalidFields.includes(spec.field);
+                  return (
+                    <div key={spec.field} className={spec.kind === 'list' ? 'md:col-span-2' : ''}>
+                      <div className="flex items-center justify-between mb-1">
+                        <label htmlFor={`field-${spec.field}`} className="text-sm font-medium text-gray-700">
+                          {spec.label}{spec.required ? ' *' : ''}{spec.suffix ? ` (${spec.suffix})` : ''}
+                        </label>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${badge.className}`}>{badge.label}</span>
+                      </div>
+                      <input
+                        id={`field-${spec.field}`}
+                        type={spec.kind === 'number' ? 'number' : 'text'}
+                        min={spec.kind === 'number' ? 0 : undefined}
+                        step={spec.field === 'pricePerUnit' ? '0.01' : undefined}
+                        value={values[spec.field]}
+                        onChange={(e) => setValue(spec.field, e.target.value)}
+                        placeholder={spec.kind === 'list' ? 'Comma-separated, e.g. ISO 9001, AS9100' : undefined}
+                        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 ${
+                          isInvalid ? 'border-error-300' : 'border-gray-300'
+                        }`}
+                        aria-invalid={isInvalid}
+                      />
+                      <p className="text-xs text-gray-500 mt-1 truncate" title={extracted?.snippet}>
+                        {extracted ? `Found: “${extracted.snippet}”` : 'Not found in document'}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <details className="border border-gray-200 rounded-lg">
+                <summary className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 cursor-pointer">
+                  <FileText className="w-4 h-4 text-gray-400" />
+                  <span>Document text</span>
+                </summary>
+                <pre className="px-4 pb-4 text-xs text-gray-600 whitespace-pre-wrap max-h-60 overflow-y-auto">{documentText}</pre>
+              </details>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {values && (
+          <div className="flex items-center justify-between p-6 border-t border-gray-200">
+            <button
+              onClick={reset}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Choose another file</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!quoteId || invalidFields.length > 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>{nextVersion > 1 ? `Save as revision ${nextVersion}` : 'Save to quote'}</span>
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
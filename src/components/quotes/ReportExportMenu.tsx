@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Download, FileText, Printer } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { downloadFile } from '../../utils/spreadsheet';
+import { printHtmlDocument } from '../../utils/quoteReport';
+import toast from 'react-hot-toast';
+
+interface ReportExportMenuProps {
+  label: string;
+  filename: string; // without extension
+  buttonClassName: string;
+  disabled?: boolean;
+  buildReport: () => string; // the standalone HTML document
+}
+
+/**
+ * ReportExportMenu Component
+ *
+ * Export button offering a generated report as a standalone HTML file or
+ * through the browser's print dialog for saving as PDF.
+ */
+export const ReportExportMenu: React.FC<ReportExportMenuProps> = ({
+  label,
+  filename,
+  buttonClassName,
+  disabled = false,
+  buildReport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (target: 'html' | 'pdf') => {
+    setIsOpen(false);
+    try {
+      const html = buildReport();
+      if (target === 'html') {
+        downloadFile(html, `${filename}.html`, 'text/html;charset=utf-8;');
+        toast.success('Report downloaded');
+      } else {
+        printHtmlDocument(html);
+      }
+    } catch {
+      toast.error('Failed to generate report');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`flex items-center space-x-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${buttonClassName}`}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+      >
+        <Download className="w-4 h-4" />
+        <span>{label}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 top-full mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1"
+            role="menu"
+          >
+            <button
+              onClick={() => handleExport('pdf')}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              role="menuitem"
+            >
+              <Printer className="w-4 h-4 text-gray-400" />
+              <span>Print / Save as PDF</span>
+            </button>
+            <button
+              onClick={() => handleExport('html')}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              role="menuitem"
+            >
+              <FileText className="w-4 h-4 text-gray-400" />
+              <span>Download HTML</span>
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
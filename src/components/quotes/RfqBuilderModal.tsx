@@ -0,0 +1,293 @@
+import React, { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Paperclip, Send, Trash2, XCircle } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { useAuthStore } from '../../store/authStore';
+import { MessageFile, RfqDraft } from '../../types';
+import { findRfqTemplates, renderRfqMessage, rfqDraftFromIntake } from '../../utils/rfq';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface RfqBuilderModalProps {
+  onClose: () => void;
+}
+
+const MAX_FILE_SIZE = 25 * 1024 * 1024;
+
+// Date input value in local time
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Responses are due by the end of the chosen day
+const fromDateInput = (value: string) => new Date(`${value}T23:59:59`);
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * RfqBuilderModal Component
+ *
+ * Builds a request for quote from the project intake, with specs and
+ * drawings attached, and sends it to every shortlisted manufacturer. The
+ * preview shows the message generated from the quote-request template.
+ */
+export const RfqBuilderModal: React.FC<RfqBuilderModalProps> = ({ onClose }) => {
+  const { activeProjectId, projectIntake, shortlist, responseTemplates, sendRfq } = useAppStore();
+  const { user } = useAuthStore();
+  const [draft, setDraft] = useState<RfqDraft>(() => rfqDraftFromIntake(projectIntake));
+  const [certifications, setCertifications] = useState(draft.certificationRequirements.join(', '));
+
+  const { request: template } = findRfqTemplates(responseTemplates);
+  const userName = user ? `${user.firstName} ${user.lastName}`.trim() : '';
+
+  const update = (updates: Partial<RfqDraft>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  const onDrop = useCallback((accepted: File[]) => {
+    const now = Date.now();
+    const files: MessageFile[] = accepted.map((file, index) => ({
+      id: `rfq-file-${now}-${index}`,
+      name: file.name,
+      url: URL.createObjectURL(file),
+      type: file.type,
+      size: file.size,
+    }));
+    setDraft(prev => ({ ...prev, attachments: [...prev.attachments, ...files] }));
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    maxSize: MAX_FILE_SIZE,
+    onDropRejected: (rejections) => toast.error(`${rejections.length} file${rejections.length === 1 ? '' : 's'} over 25MB skipped`),
+  });
+
+  const removeAttachment = (fileId: string) => {
+    const file = draft.attachments.find(f => f.id === fileId);
+    if (file) URL.revokeObjectURL(file.url);
+    update({ attachments: draft.attachments.filter(f => f.id !== fileId) });
+  };
+
+  const requestDraft: RfqDraft = {
+    ...draft,
+    certificationRequirements: certifications.split(',').map(item => item.trim()).filter(Boolean),
+  };
+
+  const problems = [
+    !requestDraft.title.trim() && 'Give the request a title',
+    !(requestDraft.quantity > 0) && 'Enter a quantity',
+    requestDraft.deadline.getTime() <= Date.now() && 'Choose a deadline in the future',
+    activeProjectId === null && 'Choose a project to request quotes for',
+    shortlist.length === 0 && 'Shortlist manufacturers to send the request to',
+    !template && 'The Initial Quote Request template is missing',
+  ].filter((problem): problem is string => !!problem);
+
+  const preview = template ? renderRfqMessage(template, requestDraft, shortlist[0], userName) : null;
+
+  const handleSend = () => {
+    try {
+      const rfq = sendRfq(requestDraft);
+      toast.success(`RFQ sent to ${rfq.recipients.length} manufacturer${rfq.recipients.length === 1 ? '' : 's'}`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not send the RFQ');
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="rfq-builder-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="rfq-builder-title" className="text-2xl font-semibold text-gray-900">
+              Request Quotes
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Sends to {shortlist.length} shortlisted manufacturer{shortlist.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XCircle className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Request */}
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="rfq-title" className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+              <input
+                id="rfq-title"
+                value={draft.title}
+                onChange={(e) => update({ title: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="rfq-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <textarea
+                id="rfq-description"
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                rows={3}
+                className={inputClassName}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="rfq-material" className="block text-sm font-medium text-gray-700 mb-1">Material</label>
+                <input
+                  id="rfq-material"
+                  value={draft.material}
+                  onChange={(e) => update({ material: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="rfq-quantity" className="block text-sm font-medium text-gray-700 mb-1">Quantity (units) *</label>
+                <input
+                  id="rfq-quantity"
+                  type="number"
+                  min={1}
+                  value={draft.quantity || ''}
+                  onChange={(e) => update({ quantity: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="rfq-target-price" className="block text-sm font-medium text-gray-700 mb-1">Target price (USD)</label>
+                <input
+                  id="rfq-target-price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.targetPrice || ''}
+                  onChange={(e) => update({ targetPrice: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="rfq-lead-time" className="block text-sm font-medium text-gray-700 mb-1">Lead time goal (days)</label>
+                <input
+                  id="rfq-lead-time"
+                  type="number"
+                  min={0}
+                  value={draft.leadTimeGoal || ''}
+                  onChange={(e) => update({ leadTimeGoal: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="rfq-certifications" className="block text-sm font-medium text-gray-700 mb-1">Required certifications</label>
+              <input
+                id="rfq-certifications"
+                value={certifications}
+                onChange={(e) => setCertifications(e.target.value)}
+                placeholder="Comma-separated, e.g. ISO 9001, UL Listed"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="rfq-deadline" className="block text-sm font-medium text-gray-700 mb-1">Response deadline *</label>
+              <input
+                id="rfq-deadline"
+                type="date"
+                min={toDateInput(new Date())}
+                value={toDateInput(draft.deadline)}
+                onChange={(e) => e.target.value && update({ deadline: fromDateInput(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+
+            {/* Attachments */}
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Specs and drawings</span>
+              <div
+                {...getRootProps()}
+                className={`border-2 border-dashed rounded-lg p-4 text-center text-sm cursor-pointer transition-colors ${
+                  isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                <input {...getInputProps()} />
+                <Paperclip className="w-5 h-5 text-gray-400 mx-auto mb-1" />
+                <span className="text-gray-600">Drop files here or click to attach</span>
+              </div>
+              {draft.attachments.length > 0 && (
+                <ul className="mt-2 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {draft.attachments.map(file => (
+                    <li key={file.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className="truncate text-gray-900">{file.name}</span>
+                      <div className="flex items-center space-x-3 flex-shrink-0">
+                        <span className="text-xs text-gray-500">{formatSize(file.size)}</span>
+                        <button
+                          onClick={() => removeAttachment(file.id)}
+                          className="text-gray-400 hover:text-error-600"
+                          aria-label={`Remove ${file.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Recipients and Preview */}
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Recipients</h3>
+              {shortlist.length === 0 ? (
+                <p className="text-sm text-gray-500">No manufacturers shortlisted yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {shortlist.map(manufacturer => (
+                    <span key={manufacturer.id} className="px-2 py-1 text-xs bg-primary-50 text-primary-800 rounded-full">
+                      {manufacturer.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            {preview && (
+              <div className="border border-gray-200 rounded-lg">
+                <div className="px-4 py-2 border-b border-gray-200 bg-gray-50">
+                  <p className="text-xs text-gray-500">Preview{shortlist[0] ? ` for ${shortlist[0].name}` : ''}</p>
+                  <p className="text-sm font-medium text-gray-900">{preview.subject}</p>
+                </div>
+                <pre className="px-4 py-3 text-sm text-gray-700 whitespace-pre-wrap font-sans max-h-80 overflow-y-auto">{preview.content}</pre>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200">
+          <p className="text-sm text-gray-500">{problems[0] ?? 'Each manufacturer gets a quote to track and a conversation for replies.'}</p>
+          <button
+            onClick={handleSend}
+            disabled={problems.length > 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Send className="w-4 h-4" />
+            <span>Send RFQ</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
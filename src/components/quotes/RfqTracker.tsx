@@ -0,0 +1,90 @@
+import React from 'react';
+import { Bell, Send } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { scopeToProject } from '../../utils/projects';
+import { isRfqOpen, rfqRecipientStatus, rfqResponseStats, RfqRecipientStatus } from '../../utils/rfq';
+
+const recipientStatusStyles: Record<RfqRecipientStatus, { label: string; className: string }> = {
+  quoted: { label: 'Quoted', className: 'bg-success-100 text-success-800' },
+  replied: { label: 'Replied', className: 'bg-primary-100 text-primary-800' },
+  awaiting: { label: 'Awaiting', className: 'bg-warning-100 text-warning-800' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-600' },
+};
+
+const deadlineLabel = (deadline: Date, now: Date) => {
+  const days = Math.ceil((deadline.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return `Closed ${deadline.toLocaleDateString()}`;
+  return `Due ${deadline.toLocaleDateString()} · ${days} day${days === 1 ? '' : 's'} left`;
+};
+
+/**
+ * RfqTracker Component
+ *
+ * Response rates for sent RFQs, newest first, with where each recipient
+ * stands and how many reminders they've had.
+ */
+export const RfqTracker: React.FC = () => {
+  const { rfqs: allRfqs, activeProjectId, quotes, conversations, manufacturers } = useAppStore();
+  const rfqs = scopeToProject(allRfqs, activeProjectId);
+  const now = new Date();
+
+  if (rfqs.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="flex items-center space-x-2 p-4 border-b border-gray-200">
+        <Send className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Requests for Quote</h3>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {[...rfqs].reverse().map(rfq => {
+          const stats = rfqResponseStats(rfq, quotes, conversations);
+          const open = isRfqOpen(rfq, now);
+          return (
+            <li key={rfq.id} className="p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">{rfq.title}</p>
+                  <p className={`text-xs ${open ? 'text-gray-500' : 'text-error-600'}`}>
+                    {deadlineLabel(rfq.deadline, now)} · {rfq.quantity.toLocaleString()} units
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-lg font-semibold text-gray-900">{Math.round(stats.responseRate * 100)}%</p>
+                  <p className="text-xs text-gray-500">
+                    {stats.quoted + stats.replied} of {stats.sent} responded
+                  </p>
+                </div>
+              </div>
+              <div className="flex h-2 bg-gray-100 rounded-full overflow-hidden" aria-hidden="true">
+                <div className="bg-success-500" style={{ width: `${(stats.quoted / Math.max(1, stats.sent)) * 100}%` }} />
+                <div className="bg-primary-400" style={{ width: `${(stats.replied / Math.max(1, stats.sent)) * 100}%` }} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {rfq.recipients.map(recipient => {
+                  const status = recipientStatusStyles[rfqRecipientStatus(recipient, quotes, conversations)];
+                  const name = manufacturers.find(m => m.id === recipient.manufacturerId)?.name ?? recipient.manufacturerId;
+                  return (
+                    <span
+                      key={recipient.quoteId}
+                      className={`inline-flex items-center space-x-1 px-2 py-1 text-xs rounded-full ${status.className}`}
+                      title={recipient.lastRemindedAt ? `Last reminded ${recipient.lastRemindedAt.toLocaleString()}` : undefined}
+                    >
+                      <span>{name} · {status.label}</span>
+                      {recipient.remindersSent > 0 && (
+                        <span className="inline-flex items-center">
+                          <Bell className="w-3 h-3 ml-1" />
+                          {recipient.remindersSent}
+                        </span>
+                      )}
+                    </span>
+                  );
+                })}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,13 +1,21 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Mic, MicOff, Volume2, VolumeX, Loader2, Phone, MessageSquare, AlertCircle, Settings, RefreshCw } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, Volume2, VolumeX, Loader2, Phone, MessageSquare, AlertCircle, Settings, RefreshCw, Wrench } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
+import { useAuthStore } from '../../store/authStore';
+import { ProjectIntake, VoiceTurn } from '../../types';
+import { intakeSlots, nextIntakeFollowUp } from '../../utils/voiceIntake';
+import { AgentToolContext, agentTools, PendingToolCall, prepareToolCall, runConfirmedToolCall, ToolCallOutcome } from '../../utils/agentTools';
+import { AudioPlaybackQueue, connectWithRetry, createAudioPlaybackQueue, createVoiceActivityDetector, monitorVoiceActivity, PUSH_TO_TALK_KEY, PUSH_TO_TALK_KEY_LABEL, retryDelayMs, VAD_PRE_ROLL_MS, VoiceClientTool, VoiceConnection, VoiceDisconnectReason, VoiceInputMode, voiceInputModeLabels, VoiceMicrophone, VoiceMode, voiceTransport } from '../../voice';
+import { demoConfirmReply, demoIntakeReplies, demoToolCommand } from '../../voice/demoScript';
+import { VoiceIntakeCard } from './VoiceIntakeCard';
 import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
-interface ElevenLabsConfig {
-  apiKey: string;
-  agentId: string;
-}
+// Reconnects after error disconnects before the panel shows the error and Retry
+const MAX_RECONNECT_ATTEMPTS = 3;
+// A connection up this long resets the reconnect count
+const STABLE_CONNECTION_MS = 30_000;
 
 interface ConversationState {
   isConnected: boolean;
@@ -16,7 +24,6 @@ interface ConversationState {
   error: string | null;
   microphonePermission: 'granted' | 'denied' | 'prompt' | 'checking';
   connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error';
-  wsConnectionState: 'closed' | 'connecting' | 'open' | 'closing';
 }
 
 interface ConversationContext {
@@ -24,39 +31,36 @@ interface ConversationContext {
   sessionId: string;
   startTime: string;
   messageCount: number;
-  topicsDiscussed: string[];
 }
 
+const initialConversationState: ConversationState = {
+  isConnected: false,
+  isListening: false,
+  isSpeaking: false,
+  error: null,
+  microphonePermission: 'prompt',
+  connectionStatus: 'disconnected'
+};
+
 export const ElevenLabsVoice: React.FC = () => {
   const { 
     isVoiceActive, 
     voiceSession, 
-    startVoiceSession, 
     endVoiceSession,
-    updateVoiceTranscript 
+    appendVoiceTurn,
+    setProjectIntake,
+    searchManufacturers
   } = useAppStore();
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
 
-  const [config] = useState<ElevenLabsConfig>({
-    apiKey: import.meta.env.VITE_ELEVEN_API_KEY || '',
-    agentId: import.meta.env.VITE_ELEVEN_AGENT_ID || 'agent_01jxea051nek1svtgdx4px1hcq'
-  });
-
-  const [conversationState, setConversationState] = useState<ConversationState>({
-    isConnected: false,
-    isListening: false,
-    isSpeaking: false,
-    error: null,
-    microphonePermission: 'prompt',
-    connectionStatus: 'disconnected',
-    wsConnectionState: 'closed'
-  });
+  const [conversationState, setConversationState] = useState<ConversationState>(initialConversationState);
 
   const [conversationContext, setConversationContext] = useState<ConversationContext>({
     userId: 'user_123',
     sessionId: `session_${Date.now()}`,
     startTime: new Date().toISOString(),
-    messageCount: 0,
-    topicsDiscussed: []
+    messageCount: 0
   });
 
   const [isMuted, setIsMuted] = useState(false);
@@ -64,19 +68,38 @@ export const ElevenLabsVoice: React.FC = () => {
   const [audioLevel, setAudioLevel] = useState(0);
   const [showPermissionHelp, setShowPermissionHelp] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
+  const [isReviewingIntake, setIsReviewingIntake] = useState(false);
+  const [pendingToolCalls, setPendingToolCalls] = useState<PendingToolCall[]>([]);
+  const [inputMode, setInputMode] = useState<VoiceInputMode>('vad');
+  const [isPushToTalkHeld, setIsPushToTalkHeld] = useState(false);
   
-  const wsRef = useRef<WebSocket | null>(null);
+  const connectionRef = useRef<VoiceConnection | null>(null);
+  // Bumped when a session ends, so a connection that finishes afterwards is dropped
+  const sessionGenerationRef = useRef(0);
+  const isMutedRef = useRef(false);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const audioLevelIntervalRef = useRef<number | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
-  const reconnectTimeoutRef = useRef<number | null>(null);
-
-  // Add debug logging
+  const playbackRef = useRef<AudioPlaybackQueue | null>(null);
+  // Speaking is the agent's turn per the transport, or audio still playing
+  const agentModeRef = useRef<VoiceMode | null>(null);
+  const isPlayingAudioRef = useRef(false);
+  // Voice activity detection on our own view of the microphone; it gates
+  // what the transport hears according to the input mode
+  const stopVadRef = useRef<(() => void) | null>(null);
+  const inputModeRef = useRef<VoiceInputMode>('vad');
+  const isSpeechRef = useRef(false);
+  const isPushToTalkHeldRef = useRef(false);
+  const isListeningRef = useRef(false);
+  const toolCallCountRef = useRef(0);
+  // Error disconnects in a row, so a session that keeps dropping backs off and gives up
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const connectedAtRef = useRef(0);
+  // Settles the agent's pending tool calls once the user allows or declines them
+  const toolCallResolversRef = useRef(new Map<string, { resolve: (result: string) => void; reject: (error: Error) => void }>());
+
+  // Add debug logging; messages can quote the user's speech, so the console copy is dev-only
   const addDebugLog = (message: string) => {
-    console.log(`🔧 [ElevenLabs Debug] ${message}`);
+    if (import.meta.env.DEV) console.log(`🔧 [Voice Debug] ${message}`);
     setDebugInfo(prev => [...prev.slice(-4), `${new Date().toLocaleTimeString()}: ${message}`]);
   };
 
@@ -107,13 +130,8 @@ export const ElevenLabsVoice: React.FC = () => {
       setConversationState(prev => ({ ...prev, microphonePermission: 'granted', error: null }));
       toast.success('🎤 Microphone access granted');
       
-      // Test audio context
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      addDebugLog(`🔊 AudioContext created: ${audioContext.state}`);
-      
-      // Clean up test stream
+      // Clean up test stream; the transport opens its own
       stream.getTracks().forEach(track => track.stop());
-      audioContext.close();
       
       return true;
     } catch (error: any) {
@@ -154,296 +172,166 @@ export const ElevenLabsVoice: React.FC = () => {
     }
   };
 
-  // Validate configuration with better error messages
-  const validateConfiguration = (): boolean => {
-    addDebugLog('Validating ElevenLabs configuration...');
+  const toolContext: AgentToolContext = {
+    getState: useAppStore.getState,
+    navigate,
+    userName: user ? `${user.firstName} ${user.lastName}`.trim() : '',
+  };
+
+  // Client tool calls from the agent; state-changing ones wait for the user
+  const handleClientToolCall = (toolName: string, parameters: unknown): Promise<string> => {
+    addDebugLog(`🛠️ Agent called ${toolName}`);
+    const outcome = prepareToolCall(`tool_${++toolCallCountRef.current}`, toolName, parameters, toolContext);
     
-    if (!config.apiKey) {
-      const errorMsg = 'ElevenLabs API key not found. Please check your .env file contains VITE_ELEVEN_API_KEY.';
-      setConversationState(prev => ({ 
-        ...prev, 
-        error: errorMsg,
-        connectionStatus: 'error'
-      }));
-      addDebugLog(`❌ ${errorMsg}`);
-      toast.error('⚙️ API key missing');
-      return false;
-    }
+    if (outcome.status === 'done') return Promise.resolve(outcome.result);
+    if (outcome.status === 'failed') return Promise.reject(new Error(outcome.error));
+    
+    return new Promise((resolve, reject) => {
+      toolCallResolversRef.current.set(outcome.call.id, { resolve, reject });
+      setPendingToolCalls(prev => [...prev, outcome.call]);
+    });
+  };
 
-    if (!config.agentId) {
-      const errorMsg = 'ElevenLabs Agent ID not found. Please check your .env file contains VITE_ELEVEN_AGENT_ID.';
-      setConversationState(prev => ({ 
-        ...prev, 
-        error: errorMsg,
-        connectionStatus: 'error'
-      }));
-      addDebugLog(`❌ ${errorMsg}`);
-      toast.error('⚙️ Agent ID missing');
-      return false;
-    }
+  const clientTools: Record<string, VoiceClientTool> = Object.fromEntries(
+    agentTools.map(tool => [tool.name, (parameters: Record<string, unknown>) => handleClientToolCall(tool.name, parameters)])
+  );
 
-    addDebugLog('✅ Configuration valid');
-    return true;
+  const handleResolveToolCall = (call: PendingToolCall, allowed: boolean) => {
+    setPendingToolCalls(prev => prev.filter(pending => pending.id !== call.id));
+    const outcome: ToolCallOutcome = allowed
+      ? runConfirmedToolCall(call, toolContext)
+      : { status: 'failed', error: 'The user declined this action.' };
+    const resolver = toolCallResolversRef.current.get(call.id);
+    toolCallResolversRef.current.delete(call.id);
+    addDebugLog(`🛠️ ${call.toolName}: ${allowed ? outcome.status : 'declined'}`);
+    
+    if (outcome.status === 'done') {
+      toast.success(outcome.result);
+      resolver?.resolve(outcome.result);
+    } else if (outcome.status === 'failed') {
+      if (allowed) toast.error(outcome.error);
+      resolver?.reject(new Error(outcome.error));
+    }
   };
 
-  // Initialize audio interface with better error handling
-  const initializeAudioInterface = async (): Promise<MediaStream> => {
-    try {
-      addDebugLog('Initializing audio interface...');
-      
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 16000,
-          channelCount: 1
-        } 
-      });
-      
-      mediaStreamRef.current = stream;
-      addDebugLog('✅ Media stream acquired');
+  const updateSpeakingState = () => {
+    const isSpeaking = agentModeRef.current === 'speaking' || isPlayingAudioRef.current;
+    setConversationState(prev => ({ ...prev, isSpeaking }));
+  };
 
-      // Initialize AudioContext
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 16000
+  // Agent audio from transports that leave playback to the UI
+  const playAgentAudio = (audioBase64: string, sequence: number) => {
+    if (voiceTransport.playsAudio || !voiceTransport.audioFormat) return;
+    if (!playbackRef.current) {
+      audioContextRef.current = new AudioContext();
+      playbackRef.current = createAudioPlaybackQueue(audioContextRef.current, {
+        format: voiceTransport.audioFormat,
+        onSpeakingChange: (isPlaying) => {
+          isPlayingAudioRef.current = isPlaying;
+          updateSpeakingState();
+        },
       });
+      playbackRef.current.setVolume(isMutedRef.current ? 0 : 1);
+    }
+    playbackRef.current.enqueue(audioBase64, sequence);
+  };
 
-      // Resume audio context if suspended
-      if (audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume();
-        addDebugLog('🔄 AudioContext resumed');
-      }
-
-      // Create gain node for volume control
-      gainNodeRef.current = audioContextRef.current.createGain();
-      gainNodeRef.current.connect(audioContextRef.current.destination);
-
-      // Setup audio level monitoring
-      setupAudioLevelMonitoring(stream);
-      
-      addDebugLog('✅ Audio interface initialized');
-      return stream;
-    } catch (error: any) {
-      addDebugLog(`❌ Failed to initialize audio interface: ${error.message}`);
-      throw error;
+  // Barge-in: the user is talking, so the agent stops mid-sentence
+  const stopAgentSpeech = useCallback(() => {
+    playbackRef.current?.flush();
+    if ('speechSynthesis' in window) {
+      speechSynthesis.cancel();
     }
+  }, []);
+
+  // The transport only hears the microphone while the input mode allows it:
+  // always, while push-to-talk is held, or while speech is detected
+  const updateMicGate = useCallback(() => {
+    const mode = inputModeRef.current;
+    const isMicOpen = mode === 'always'
+      || (mode === 'push_to_talk' && isPushToTalkHeldRef.current)
+      || (mode === 'vad' && isSpeechRef.current);
+    const isListening = isMicOpen && isSpeechRef.current;
+    if (isListening && !isListeningRef.current) stopAgentSpeech();
+    isListeningRef.current = isListening;
+    // Detection lags the start of speech; the pre-roll keeps it from being clipped
+    connectionRef.current?.microphone?.setSendDelay(mode === 'vad' ? VAD_PRE_ROLL_MS : 0);
+    connectionRef.current?.setMicMuted(!isMicOpen);
+    setConversationState(prev => prev.isListening === isListening ? prev : { ...prev, isListening });
+  }, [stopAgentSpeech]);
+
+  const setPushToTalkHeld = useCallback((isHeld: boolean) => {
+    if (isPushToTalkHeldRef.current === isHeld) return;
+    isPushToTalkHeldRef.current = isHeld;
+    setIsPushToTalkHeld(isHeld);
+    updateMicGate();
+  }, [updateMicGate]);
+
+  // Analyse the transport's own capture, so the microphone is opened once
+  const startVoiceActivityDetection = (microphone: VoiceMicrophone) => {
+    stopVadRef.current = monitorVoiceActivity(microphone.analyser, createVoiceActivityDetector(), {
+      onLevel: setAudioLevel,
+      onSpeechChange: (isSpeech) => {
+        isSpeechRef.current = isSpeech;
+        updateMicGate();
+      },
+    });
+    addDebugLog('👂 Voice activity detection running');
   };
 
-  // Setup audio level monitoring for visual feedback
-  const setupAudioLevelMonitoring = (stream: MediaStream) => {
-    if (!audioContextRef.current) return;
+  const stopVoiceActivityDetection = () => {
+    stopVadRef.current?.();
+    stopVadRef.current = null;
+    isSpeechRef.current = false;
+    isListeningRef.current = false;
+    setAudioLevel(0);
+  };
 
-    const source = audioContextRef.current.createMediaStreamSource(stream);
-    analyserRef.current = audioContextRef.current.createAnalyser();
-    analyserRef.current.fftSize = 256;
+  // Handle agent responses
+  const handleAgentResponse = (response: string, withAudio = false) => {
+    addDebugLog(`🤖 Agent: ${response.substring(0, 50)}...`);
     
-    source.connect(analyserRef.current);
-
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
+    appendVoiceTurn({ speaker: 'agent', text: response });
     
-    const updateAudioLevel = () => {
-      if (analyserRef.current && conversationState.isListening) {
-        analyserRef.current.getByteFrequencyData(dataArray);
-        const average = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
-        setAudioLevel(average / 255); // Normalize to 0-1
-      }
-      if (conversationState.isListening) {
-        audioLevelIntervalRef.current = requestAnimationFrame(updateAudioLevel);
-      }
-    };
+    // Update conversation context
+    setConversationContext(prev => ({
+      ...prev,
+      messageCount: prev.messageCount + 1
+    }));
     
-    updateAudioLevel();
-    addDebugLog('🎚️ Audio level monitoring started');
+    // Speak the response when no audio comes with it
+    if (!voiceTransport.playsAudio && !withAudio) {
+      speakText(response);
+    }
   };
 
-  // Create real ElevenLabs WebSocket connection
-  const createElevenLabsWebSocket = async (): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      try {
-        addDebugLog('Creating ElevenLabs WebSocket connection...');
-        
-        // ElevenLabs Conversational AI WebSocket URL
-        const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${config.agentId}`;
-        
-        setConversationState(prev => ({ ...prev, wsConnectionState: 'connecting' }));
-        
-        wsRef.current = new WebSocket(wsUrl);
-        
-        wsRef.current.onopen = () => {
-          addDebugLog('✅ WebSocket connection opened');
-          setConversationState(prev => ({ 
-            ...prev, 
-            isConnected: true, 
-            connectionStatus: 'connected',
-            wsConnectionState: 'open',
-            error: null
-          }));
-          
-          // Send authentication
-          const authMessage = {
-            type: 'auth',
-            api_key: config.apiKey
-          };
-          
-          wsRef.current?.send(JSON.stringify(authMessage));
-          addDebugLog('🔐 Authentication sent');
-          
-          resolve();
-        };
-
-        wsRef.current.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            addDebugLog(`📨 Received message: ${data.type}`);
-            
-            switch (data.type) {
-              case 'auth_success':
-                addDebugLog('✅ Authentication successful');
-                toast.success('🤖 Connected to voice agent');
-                
-                // Start listening after successful auth
-                setConversationState(prev => ({ 
-                  ...prev, 
-                  isListening: true 
-                }));
-                
-                // Send initial greeting
-                setTimeout(() => {
-                  const greeting = "Hello! I'm your AI sourcing agent. I'll help you find the perfect U.S. manufacturer for your project. What type of product are you looking to manufacture?";
-                  handleAgentResponse(greeting);
-                }, 1000);
-                break;
-                
-              case 'auth_error':
-                addDebugLog(`❌ Authentication failed: ${data.message}`);
-                setConversationState(prev => ({ 
-                  ...prev, 
-                  error: `Authentication failed: ${data.message}`,
-                  connectionStatus: 'error'
-                }));
-                break;
-                
-              case 'audio':
-                // Handle incoming audio from agent
-                if (data.audio_base64 && !isMuted) {
-                  playAudioFromBase64(data.audio_base64);
-                }
-                break;
-                
-              case 'transcript':
-                // Handle transcript updates
-                if (data.text) {
-                  handleAgentResponse(data.text);
-                }
-                break;
-                
-              case 'error':
-                addDebugLog(`❌ WebSocket error: ${data.message}`);
-                setConversationState(prev => ({ 
-                  ...prev, 
-                  error: data.message,
-                  connectionStatus: 'error'
-                }));
-                break;
-            }
-          } catch (error) {
-            addDebugLog(`❌ Error parsing WebSocket message: ${error}`);
-          }
-        };
-
-        wsRef.current.onerror = (error) => {
-          addDebugLog(`❌ WebSocket error: ${error}`);
-          setConversationState(prev => ({ 
-            ...prev, 
-            error: 'WebSocket connection failed',
-            connectionStatus: 'error',
-            wsConnectionState: 'closed'
-          }));
-          reject(error);
-        };
-
-        wsRef.current.onclose = (event) => {
-          addDebugLog(`🔌 WebSocket closed: ${event.code} - ${event.reason}`);
-          setConversationState(prev => ({ 
-            ...prev, 
-            isConnected: false,
-            wsConnectionState: 'closed'
-          }));
-          
-          // Attempt to reconnect if not intentionally closed
-          if (event.code !== 1000 && isVoiceActive) {
-            addDebugLog('🔄 Attempting to reconnect...');
-            reconnectTimeoutRef.current = window.setTimeout(() => {
-              createElevenLabsWebSocket().catch(console.error);
-            }, 3000);
-          }
-        };
-
-      } catch (error) {
-        addDebugLog(`❌ Failed to create WebSocket: ${error}`);
-        reject(error);
-      }
-    });
+  // Handle user transcripts
+  const handleUserTranscript = (transcript: string) => {
+    addDebugLog(`👤 User: ${transcript.substring(0, 50)}...`);
+    
+    appendVoiceTurn({ speaker: 'user', text: transcript });
+    
+    // Update conversation context
+    setConversationContext(prev => ({
+      ...prev,
+      messageCount: prev.messageCount + 1
+    }));
   };
 
-  // Play audio from base64 data
-  const playAudioFromBase64 = async (audioBase64: string) => {
-    try {
-      if (!audioContextRef.current) return;
-      
-      const audioData = atob(audioBase64);
-      const arrayBuffer = new ArrayBuffer(audioData.length);
-      const view = new Uint8Array(arrayBuffer);
-      
-      for (let i = 0; i < audioData.length; i++) {
-        view[i] = audioData.charCodeAt(i);
-      }
-      
-      const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBuffer;
-      
-      if (gainNodeRef.current) {
-        source.connect(gainNodeRef.current);
-      } else {
-        source.connect(audioContextRef.current.destination);
-      }
-      
-      setConversationState(prev => ({ 
-        ...prev, 
-        isSpeaking: true, 
-        isListening: false 
-      }));
-      
-      source.onended = () => {
-        setConversationState(prev => ({ 
-          ...prev, 
-          isSpeaking: false, 
-          isListening: true 
-        }));
-      };
-      
-      source.start();
-      addDebugLog('🔊 Playing audio response');
-      
-    } catch (error) {
-      addDebugLog(`❌ Error playing audio: ${error}`);
-      // Fallback to text-to-speech
-      setConversationState(prev => ({ 
-        ...prev, 
-        isSpeaking: false, 
-        isListening: true 
-      }));
+  const handleTurn = (turn: VoiceTurn, withAudio?: boolean) => {
+    if (turn.speaker === 'agent') {
+      handleAgentResponse(turn.text, withAudio);
+    } else {
+      stopAgentSpeech();
+      handleUserTranscript(turn.text);
     }
   };
 
-  // Initialize ElevenLabs Conversational AI
-  const initializeElevenLabsConversation = async () => {
-    addDebugLog('🚀 Starting ElevenLabs conversation initialization...');
-    
-    if (!validateConfiguration()) return;
+  // Start (or restart) the transport session for the active voice session
+  const initializeVoiceConversation = async () => {
+    addDebugLog(`🚀 Starting ${voiceTransport.name} voice conversation...`);
+    const generation = sessionGenerationRef.current;
+    stopVoiceActivityDetection();
 
     setIsInitializing(true);
     setConversationState(prev => ({ 
@@ -453,26 +341,69 @@ export const ElevenLabsVoice: React.FC = () => {
     }));
 
     try {
-      // Step 1: Test microphone access
-      const microphoneOk = await testMicrophoneAccess();
-      if (!microphoneOk) {
+      if (voiceTransport.requiresMicrophone && !(await testMicrophoneAccess())) {
         throw new Error('Microphone access failed');
       }
 
-      // Step 2: Initialize audio interface
-      await initializeAudioInterface();
-      
-      // Step 3: Create WebSocket connection
-      await createElevenLabsWebSocket();
-      
-      addDebugLog('✅ ElevenLabs conversation initialized successfully');
+      const connection = await connectWithRetry(voiceTransport, {
+        userId: user?.id,
+        clientTools,
+        onStatusChange: (status) => {
+          addDebugLog(`🔌 Transport ${status}`);
+          setConversationState(prev => ({
+            ...prev,
+            isConnected: status === 'connected',
+            connectionStatus: prev.connectionStatus === 'error' && status === 'disconnected' ? 'error' : status
+          }));
+        },
+        onModeChange: (mode) => {
+          agentModeRef.current = mode;
+          updateSpeakingState();
+        },
+        onTurn: handleTurn,
+        onAudio: playAgentAudio,
+        onInterruption: () => {
+          addDebugLog('✋ Agent interrupted');
+          stopAgentSpeech();
+        },
+        onError: (message) => {
+          addDebugLog(`❌ Transport error: ${message}`);
+          setConversationState(prev => ({ ...prev, error: message, connectionStatus: 'error' }));
+        },
+        onDisconnect: handleDisconnect,
+      }, {
+        onRetry: (attempt, delayMs) => addDebugLog(`🔄 Connection attempt ${attempt} failed, retrying in ${delayMs}ms`),
+      });
+
+      // The session ended while connecting
+      if (generation !== sessionGenerationRef.current) {
+        connection.end();
+        return;
+      }
+      connectionRef.current = connection;
+      connectedAtRef.current = Date.now();
+      connection.setVolume(isMutedRef.current ? 0 : 1);
+      updateMicGate();
+      addDebugLog(`✅ Voice conversation ${connection.conversationId} started`);
+      toast.success('🤖 Connected to voice agent');
+
+      if (voiceTransport.requiresMicrophone) {
+        if (connection.microphone) {
+          startVoiceActivityDetection(connection.microphone);
+        } else {
+          // Without detection the mic would never open in Voice detect; fall back to always on
+          addDebugLog("❌ Voice activity detection unavailable: the transport doesn't share its microphone");
+          handleInputModeChange('always');
+        }
+      }
       
     } catch (error: any) {
-      addDebugLog(`❌ Failed to initialize ElevenLabs conversation: ${error.message}`);
+      if (generation !== sessionGenerationRef.current) return;
+      addDebugLog(`❌ Failed to start voice conversation: ${error.message}`);
       setConversationState(prev => ({ 
         ...prev, 
         connectionStatus: 'error',
-        error: error.message
+        error: prev.error ?? error.message
       }));
       toast.error('Failed to initialize voice session');
     } finally {
@@ -480,100 +411,51 @@ export const ElevenLabsVoice: React.FC = () => {
     }
   };
 
-  // Handle agent responses
-  const handleAgentResponse = (response: string) => {
-    addDebugLog(`🤖 Agent: ${response.substring(0, 50)}...`);
-    
-    const currentTranscript = voiceSession?.transcript || '';
-    updateVoiceTranscript(`${currentTranscript}\n\nAI: ${response}`);
-    
-    // Update conversation context
-    setConversationContext(prev => ({
-      ...prev,
-      messageCount: prev.messageCount + 1
-    }));
-    
-    // Speak the response if not muted (fallback TTS)
-    if (!isMuted && !conversationState.isSpeaking) {
-      speakText(response);
-    }
-  };
-
-  // Handle user transcripts
-  const handleUserTranscript = (transcript: string) => {
-    addDebugLog(`👤 User: ${transcript.substring(0, 50)}...`);
-    
-    const currentTranscript = voiceSession?.transcript || '';
-    updateVoiceTranscript(`${currentTranscript}\n\nYou: ${transcript}`);
-    
-    // Send to ElevenLabs WebSocket
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      const message = {
-        type: 'user_audio_chunk',
-        audio_base64: '', // Would need to implement audio encoding
-        text: transcript // Send text for now
-      };
-      wsRef.current.send(JSON.stringify(message));
+  // Connection lost mid-session: reconnect with backoff, counting drops
+  // across reconnects until one stays up. The agent or the user ending the
+  // conversation isn't retried.
+  const handleDisconnect = (reason: VoiceDisconnectReason) => {
+    addDebugLog(`🔌 Disconnected (${reason})`);
+    connectionRef.current = null;
+    agentModeRef.current = null;
+    stopAgentSpeech();
+    stopVoiceActivityDetection();
+    setConversationState(prev => ({ ...prev, isConnected: false, isListening: false, isSpeaking: false }));
+    if (reason !== 'error' || !useAppStore.getState().isVoiceActive) return;
+
+    if (Date.now() - connectedAtRef.current >= STABLE_CONNECTION_MS) reconnectAttemptsRef.current = 0;
+    reconnectAttemptsRef.current += 1;
+    if (reconnectAttemptsRef.current > MAX_RECONNECT_ATTEMPTS) {
+      addDebugLog('❌ Giving up reconnecting');
+      setConversationState(prev => ({
+        ...prev,
+        connectionStatus: 'error',
+        error: prev.error ?? 'Lost the connection to the voice agent.',
+      }));
+      toast.error('Voice connection lost');
+      return;
     }
-    
-    // Update conversation context
-    setConversationContext(prev => ({
-      ...prev,
-      messageCount: prev.messageCount + 1,
-      topicsDiscussed: extractTopics(transcript, prev.topicsDiscussed)
-    }));
-    
-    setConversationState(prev => ({ 
-      ...prev, 
-      isListening: false 
-    }));
-  };
 
-  // Extract topics from user messages
-  const extractTopics = (content: string, existingTopics: string[]): string[] => {
-    const words = content.toLowerCase().split(/\s+/);
-    const newTopics = [...existingTopics];
-    
-    if (words.some(word => ['manufacturing', 'supplier', 'factory', 'production'].includes(word))) {
-      if (!newTopics.includes('manufacturing')) {
-        newTopics.push('manufacturing');
-      }
-    }
-    
-    if (words.some(word => ['electronics', 'pcb', 'circuit', 'sensor'].includes(word))) {
-      if (!newTopics.includes('electronics')) {
-        newTopics.push('electronics');
+    const generation = sessionGenerationRef.current;
+    const delayMs = retryDelayMs(reconnectAttemptsRef.current);
+    addDebugLog(`🔄 Reconnecting in ${delayMs}ms (attempt ${reconnectAttemptsRef.current} of ${MAX_RECONNECT_ATTEMPTS})`);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      if (generation === sessionGenerationRef.current && useAppStore.getState().isVoiceActive) {
+        initializeVoiceConversation();
       }
-    }
-    
-    return newTopics;
+    }, delayMs);
   };
 
   // Text-to-speech implementation (fallback)
   const speakText = (text: string) => {
-    if (isMuted || !('speechSynthesis' in window)) return;
+    if (isMutedRef.current || !('speechSynthesis' in window)) return;
 
     const utterance = new SpeechSynthesisUtterance(text);
     utterance.rate = 0.9;
     utterance.pitch = 1.0;
     utterance.volume = 1.0;
 
-    utterance.onstart = () => {
-      setConversationState(prev => ({ 
-        ...prev, 
-        isSpeaking: true, 
-        isListening: false 
-      }));
-    };
-
-    utterance.onend = () => {
-      setConversationState(prev => ({ 
-        ...prev, 
-        isSpeaking: false, 
-        isListening: true 
-      }));
-    };
-
     speechSynthesis.speak(utterance);
     addDebugLog('🗣️ Using fallback TTS');
   };
@@ -581,76 +463,50 @@ export const ElevenLabsVoice: React.FC = () => {
   // Cleanup function
   const endConversationSession = () => {
     addDebugLog('🛑 Ending conversation session...');
-    
-    // Clear reconnect timeout
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    
-    // Stop audio level monitoring
-    if (audioLevelIntervalRef.current) {
-      cancelAnimationFrame(audioLevelIntervalRef.current);
-      audioLevelIntervalRef.current = null;
-    }
-
-    // Stop media recorder
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
-      mediaRecorderRef.current = null;
-    }
-
-    // Close WebSocket
-    if (wsRef.current) {
-      wsRef.current.close(1000, 'Session ended by user');
-      wsRef.current = null;
+    sessionGenerationRef.current += 1;
+    if (reconnectTimerRef.current !== null) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    reconnectAttemptsRef.current = 0;
+
+    // Actions the agent asked for lapse with the session
+    toolCallResolversRef.current.forEach(({ reject }) => reject(new Error('The voice session ended.')));
+    toolCallResolversRef.current.clear();
+    setPendingToolCalls([]);
+
+    if (connectionRef.current) {
+      const connection = connectionRef.current;
+      connectionRef.current = null;
+      connection.end().catch(error => addDebugLog(`❌ Error ending session: ${error}`));
     }
 
-    // Stop media stream
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
-
-    // Close audio context
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-
-    // Stop any ongoing speech synthesis
-    if ('speechSynthesis' in window) {
-      speechSynthesis.cancel();
-    }
-
-    setConversationState({
-      isConnected: false,
-      isListening: false,
-      isSpeaking: false,
-      error: null,
-      microphonePermission: 'prompt',
-      connectionStatus: 'disconnected',
-      wsConnectionState: 'closed'
-    });
-    setAudioLevel(0);
+    // Stop agent speech and release the playback queue
+    stopAgentSpeech();
+    playbackRef.current?.close();
+    playbackRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    agentModeRef.current = null;
+    isPlayingAudioRef.current = false;
+    stopVoiceActivityDetection();
+    setPushToTalkHeld(false);
+
+    setConversationState(initialConversationState);
     
     addDebugLog('✅ Conversation session ended');
   };
 
-  // Main toggle function
-  const handleVoiceToggle = async () => {
-    if (isVoiceActive) {
-      endVoiceSession();
-      endConversationSession();
-    } else {
-      startVoiceSession();
-      await initializeElevenLabsConversation();
-    }
+  // Ending the voice session disconnects through the session effect below
+  const handleVoiceToggle = () => {
+    endVoiceSession();
   };
 
   const handleMute = () => {
-    setIsMuted(!isMuted);
-    if (!isMuted) {
+    const muted = !isMuted;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    connectionRef.current?.setVolume(muted ? 0 : 1);
+    playbackRef.current?.setVolume(muted ? 0 : 1);
+    if (muted) {
       // Stop any ongoing speech
       if ('speechSynthesis' in window) {
         speechSynthesis.cancel();
@@ -661,58 +517,83 @@ export const ElevenLabsVoice: React.FC = () => {
     }
   };
 
+  const handleInputModeChange = (mode: VoiceInputMode) => {
+    inputModeRef.current = mode;
+    setInputMode(mode);
+    setPushToTalkHeld(false);
+    updateMicGate();
+    addDebugLog(`🎚️ Input mode: ${voiceInputModeLabels[mode]}`);
+  };
+
   const handleRetry = () => {
+    reconnectAttemptsRef.current = 0;
     setConversationState(prev => ({ ...prev, error: null }));
-    initializeElevenLabsConversation();
+    initializeVoiceConversation();
   };
 
-  // Mock conversation responses for demo
-  const mockResponses = [
-    "Great! You're looking to manufacture electronics. What material will your product primarily be made from?",
-    "Excellent choice with aluminum. What's your expected annual production volume?",
-    "Perfect! 10,000 units annually is a good volume. What's your target cost per unit?",
-    "Got it, $50 per unit. What's your ideal lead time for production?",
-    "30 days is reasonable. Do you need any specific certifications like ISO 9001, UL listing, or others?",
-    "Wonderful! I've gathered all the information I need. Let me search our database of verified U.S. manufacturers for you. This will take just a moment...",
-  ];
-
-  const [responseIndex, setResponseIndex] = useState(0);
-
+  // Demo replies are sent to the agent as typed text
   const handleMockUserResponse = (response: string) => {
-    if (!voiceSession) return;
-    
+    stopAgentSpeech();
     handleUserTranscript(response);
-    
-    setTimeout(() => {
-      if (responseIndex < mockResponses.length) {
-        const aiResponse = mockResponses[responseIndex];
-        handleAgentResponse(aiResponse);
-        setResponseIndex(prev => prev + 1);
-        
-        if (responseIndex >= mockResponses.length - 1) {
-          setTimeout(() => {
-            endVoiceSession();
-            endConversationSession();
-          }, 3000);
-        }
-      }
-    }, 1000);
+    connectionRef.current?.sendUserMessage(response);
+  };
+
+  const handleConfirmIntake = (intake: ProjectIntake) => {
+    setProjectIntake(intake);
+    searchManufacturers('');
+    navigate('/database?sort=matchScore&dir=desc');
+    toast.success('Requirements saved. Showing your best-matched manufacturers');
+    setIsReviewingIntake(false);
+    endVoiceSession();
   };
 
-  // Test audio permissions on component mount
+  // Connect when a voice session starts; disconnect when it ends
   useEffect(() => {
-    addDebugLog('🎬 ElevenLabsVoice component mounted');
+    if (voiceSession?.status !== 'active') return;
+    initializeVoiceConversation();
     
     return () => {
-      addDebugLog('🎬 ElevenLabsVoice component unmounting');
       endConversationSession();
     };
-  }, []);
+  }, [voiceSession?.id, voiceSession?.status]);
+
+  // Push-to-talk: hold the hotkey anywhere outside a text field
+  useEffect(() => {
+    if (inputMode !== 'push_to_talk') return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || isTyping(event.target)) return;
+      event.preventDefault();
+      setPushToTalkHeld(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || isTyping(event.target)) return;
+      event.preventDefault();
+      setPushToTalkHeld(false);
+    };
+    const handleBlur = () => setPushToTalkHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [inputMode, setPushToTalkHeld]);
 
   if (!isVoiceActive || !voiceSession) {
     return null;
   }
 
+  const heardSlots = voiceSession.extractedData ?? {};
+  const heardCount = intakeSlots.filter(slot => heardSlots[slot]).length;
+  const followUp = nextIntakeFollowUp(heardSlots);
+  const demoAnswer = followUp && (followUp.confirming ? demoConfirmReply : demoIntakeReplies[followUp.slot]);
+
   const getStatusText = () => {
     if (isInitializing) return 'Initializing...';
     if (conversationState.error) return 'Connection Error';
@@ -825,14 +706,48 @@ export const ElevenLabsVoice: React.FC = () => {
           <div className="text-xs text-gray-500">
             {conversationState.error ? 'Check configuration and try again' :
              conversationState.microphonePermission === 'denied' ? 'Allow microphone access' :
-             conversationState.isListening ? 'Speak now' :
+             conversationState.isListening ? 'Hearing you' :
              conversationState.isSpeaking ? 'AI is responding' :
              isInitializing ? 'Setting up connection...' :
-             'Voice session active'}
+             conversationState.isConnected && voiceTransport.requiresMicrophone
+               ? inputMode === 'push_to_talk' ? `Hold ${PUSH_TO_TALK_KEY_LABEL} to talk` : 'Speak now'
+               : 'Voice session active'}
           </div>
         </div>
       </div>
 
+      {/* Input Mode */}
+      {voiceTransport.requiresMicrophone && !conversationState.error && (
+        <div className="mb-4">
+          <div className="flex p-0.5 border border-gray-200 rounded-lg text-xs">
+            {(Object.keys(voiceInputModeLabels) as VoiceInputMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleInputModeChange(mode)}
+                className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                  inputMode === mode ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {voiceInputModeLabels[mode]}
+              </button>
+            ))}
+          </div>
+          {inputMode === 'push_to_talk' && (
+            <button
+              onPointerDown={() => setPushToTalkHeld(true)}
+              onPointerUp={() => setPushToTalkHeld(false)}
+              onPointerLeave={() => setPushToTalkHeld(false)}
+              className={`w-full mt-2 flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm select-none transition-colors ${
+                isPushToTalkHeld ? 'bg-primary-600 text-white' : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <Mic className="w-4 h-4" />
+              <span>{isPushToTalkHeld ? 'Release to stop' : `Hold to talk (or ${PUSH_TO_TALK_KEY_LABEL})`}</span>
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Error Display */}
       {conversationState.error && (
         <div className="mb-4 p-3 bg-error-50 border border-error-200 rounded-lg">
@@ -846,58 +761,68 @@ export const ElevenLabsVoice: React.FC = () => {
         </div>
       )}
 
-      {/* Mock Response Buttons (for demo) */}
-      {conversationState.isListening && !conversationState.error && conversationState.microphonePermission === 'granted' && (
-        <div className="space-y-2 mb-4">
-          <div className="text-xs text-gray-500 text-center mb-2">Quick responses (demo):</div>
-          {responseIndex === 0 && (
-            <button
-              onClick={() => handleMockUserResponse("I'm developing a smart home device, an IoT sensor hub")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "I'm developing a smart home device, an IoT sensor hub"
-            </button>
-          )}
-          {responseIndex === 1 && (
-            <button
-              onClick={() => handleMockUserResponse("It will be primarily aluminum with some plastic components")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "It will be primarily aluminum with some plastic components"
-            </button>
-          )}
-          {responseIndex === 2 && (
-            <button
-              onClick={() => handleMockUserResponse("We're planning for about 10,000 units per year initially")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "We're planning for about 10,000 units per year initially"
-            </button>
+      {/* Requirements heard so far */}
+      {heardCount > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+            <span>{heardCount} of {intakeSlots.length} requirements heard</span>
+            {followUp && (
+              <button
+                onClick={() => setIsReviewingIntake(!isReviewingIntake)}
+                className="text-primary-600 hover:text-primary-700 font-medium"
+              >
+                {isReviewingIntake ? 'Hide details' : 'Review details'}
+              </button>
+            )}
+          </div>
+          {(isReviewingIntake || !followUp) && (
+            <VoiceIntakeCard slots={heardSlots} userId={user?.id ?? voiceSession.userId} onConfirm={handleConfirmIntake} />
           )}
-          {responseIndex === 3 && (
+        </div>
+      )}
+
+      {/* Agent actions awaiting confirmation */}
+      {pendingToolCalls.map(call => (
+        <div key={call.id} className="mb-4 p-3 bg-primary-50 border border-primary-200 rounded-lg">
+          <div className="flex items-start space-x-2">
+            <Wrench className="w-4 h-4 text-primary-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-gray-900">{call.question}</p>
+          </div>
+          <div className="flex justify-end space-x-2 mt-3">
             <button
-              onClick={() => handleMockUserResponse("Our target is around $50 per unit")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
+              onClick={() => handleResolveToolCall(call, false)}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
             >
-              "Our target is around $50 per unit"
+              Decline
             </button>
-          )}
-          {responseIndex === 4 && (
             <button
-              onClick={() => handleMockUserResponse("We need about 30 days lead time")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
+              onClick={() => handleResolveToolCall(call, true)}
+              className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
             >
-              "We need about 30 days lead time"
+              Allow
             </button>
-          )}
-          {responseIndex === 5 && (
+          </div>
+        </div>
+      ))}
+
+      {/* Mock Response Buttons (for demo) */}
+      {pendingToolCalls.length === 0 && conversationState.isConnected && !conversationState.isSpeaking && !conversationState.error && (
+        <div className="space-y-2 mb-4">
+          <div className="text-xs text-gray-500 text-center mb-2">Quick responses (demo):</div>
+          {demoAnswer && (
             <button
-              onClick={() => handleMockUserResponse("Yes, we need UL listing and FCC certification")}
+              onClick={() => handleMockUserResponse(demoAnswer)}
               className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
             >
-              "Yes, we need UL listing and FCC certification"
+              "{demoAnswer}"
             </button>
           )}
+          <button
+            onClick={() => handleMockUserResponse(demoToolCommand)}
+            className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
+          >
+            "{demoToolCommand}"
+          </button>
         </div>
       )}
 
@@ -915,10 +840,11 @@ export const ElevenLabsVoice: React.FC = () => {
       {/* Debug Info */}
       <div className="mt-4 pt-4 border-t border-gray-200 text-xs text-gray-500 space-y-1">
         <div className="grid grid-cols-2 gap-2">
-          <div>API Key: {config.apiKey ? '✅ Set' : '❌ Missing'}</div>
-          <div>Agent ID: {config.agentId ? '✅ Set' : '❌ Missing'}</div>
-          <div>Microphone: {conversationState.microphonePermission === 'granted' ? '✅' : '❌'}</div>
-          <div>WebSocket: {conversationState.wsConnectionState}</div>
+          <div>Transport: {voiceTransport.name}</div>
+          <div>Connection: {conversationState.connectionStatus}</div>
+          <div>Microphone: {!voiceTransport.requiresMicrophone ? 'Not used' : conversationState.microphonePermission === 'granted' ? '✅' : '❌'}</div>
+          <div>Mode: {conversationState.isSpeaking ? 'speaking' : conversationState.isListening ? 'listening' : '—'}</div>
+          {voiceTransport.requiresMicrophone && <div>Input: {voiceInputModeLabels[inputMode]}</div>}
         </div>
         
         {debugInfo.length > 0 && (
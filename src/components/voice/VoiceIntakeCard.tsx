@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { CheckCircle, Search } from 'lucide-react';
+import { IntakeSlot, IntakeSlots, ProjectIntake } from '../../types';
+import { intakeSlotLabels, intakeSlots, LOW_SLOT_CONFIDENCE, requiredIntakeSlots } from '../../utils/voiceIntake';
+
+interface VoiceIntakeCardProps {
+  slots: IntakeSlots;
+  userId: string;
+  onConfirm: (intake: ProjectIntake) => void;
+}
+
+const slotInputTypes: Record<IntakeSlot, 'text' | 'number'> = {
+  category: 'text',
+  material: 'text',
+  volume: 'number',
+  targetCost: 'number',
+  leadTimeGoal: 'number',
+  certificationRequirements: 'text',
+  location: 'text',
+};
+
+const slotPlaceholders: Partial<Record<IntakeSlot, string>> = {
+  volume: 'Units per year',
+  targetCost: 'USD per unit',
+  leadTimeGoal: 'Days',
+  certificationRequirements: 'Comma-separated',
+};
+
+const toInputValue = (slots: IntakeSlots, slot: IntakeSlot) => {
+  const value = slots[slot]?.value;
+  if (value === undefined) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const confidenceBadge = (confidence: number | undefined) => {
+  if (confidence === undefined) return { label: 'Missing', className: 'bg-gray-100 text-gray-600' };
+  if (confidence >= 0.8) return { label: 'Heard', className: 'bg-success-100 text-success-800' };
+  if (confidence >= LOW_SLOT_CONFIDENCE) return { label: 'Likely', className: 'bg-warning-100 text-warning-800' };
+  return { label: 'Check', className: 'bg-error-100 text-error-800' };
+};
+
+/**
+ * VoiceIntakeCard Component
+ *
+ * The requirements heard in the voice conversation, each with how sure the
+ * slot filling was, for the user to correct before they become the project
+ * intake and drive the manufacturer search.
+ */
+export const VoiceIntakeCard: React.FC<VoiceIntakeCardProps> = ({ slots, userId, onConfirm }) => {
+  // Fields the user has edited keep their edits as the conversation goes on
+  const [edits, setEdits] = useState<Partial<Record<IntakeSlot, string>>>({});
+
+  const isEdited = (slot: IntakeSlot) => edits[slot] !== undefined;
+  const valueOf = (slot: IntakeSlot) => edits[slot] ?? toInputValue(slots, slot);
+  const missing = requiredIntakeSlots.filter(slot => !valueOf(slot).trim() || (slotInputTypes[slot] === 'number' && !(Number(valueOf(slot)) > 0)));
+
+  const handleConfirm = () => {
+    onConfirm({
+      userId,
+      timestamp: new Date(),
+      category: valueOf('category').trim(),
+      material: valueOf('material').trim(),
+      volume: Math.round(Number(valueOf('volume'))),
+      targetCost: Number(valueOf('targetCost')),
+      leadTimeGoal: Math.round(Number(valueOf('leadTimeGoal'))),
+      certificationRequirements: valueOf('certificationRequirements').split(',').map(item => item.trim()).filter(Boolean),
+      location: valueOf('location').trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg">
+      <div className="px-3 py-2 border-b border-gray-200 bg-gray-50">
+        <p className="text-sm font-medium text-gray-900">Confirm your requirements</p>
+      </div>
+      <div className="p-3 space-y-2 max-h-64 overflow-y-auto">
+        {intakeSlots.map(slot => {
+          const badge = confidenceBadge(isEdited(slot) ? 1 : slots[slot]?.confidence);
+          return (
+            <div key={slot}>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor={`voice-intake-${slot}`} className="text-xs font-medium text-gray-700">
+                  {intakeSlotLabels[slot]}{requiredIntakeSlots.includes(slot) ? ' *' : ''}
+                </label>
+                <span
+                  className={`px-1.5 py-0.5 text-xs rounded-full ${badge.className}`}
+                  title={slots[slot] && !isEdited(slot) ? `"${slots[slot]!.snippet}" · ${Math.round(slots[slot]!.confidence * 100)}% sure` : undefined}
+                >
+                  {isEdited(slot) ? 'Edited' : badge.label}
+                </span>
+              </div>
+              <input
+                id={`voice-intake-${slot}`}
+                type={slotInputTypes[slot]}
+                min={slotInputTypes[slot] === 'number' ? 0 : undefined}
+                step={slot === 'targetCost' ? '0.01' : undefined}
+                value={valueOf(slot)}
+                placeholder={slotPlaceholders[slot]}
+                onChange={(e) => setEdits(prev => ({ ...prev, [slot]: e.target.value }))}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-between px-3 py-2 border-t border-gray-200">
+        <span className="text-xs text-gray-500">
+          {missing.length > 0 ? `Needs ${missing.map(slot => intakeSlotLabels[slot].toLowerCase()).join(', ')}` : (
+            <span className="inline-flex items-center text-success-700">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Ready to search
+            </span>
+          )}
+        </span>
+        <button
+          onClick={handleConfirm}
+          disabled={missing.length > 0}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Search className="w-4 h-4" />
+          <span>Confirm &amp; Search</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,86 +1,81 @@
 import React from 'react';
 import { Mic, MicOff, Volume2, VolumeX, MessageSquare } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
+import { nextIntakeFollowUp } from '../../utils/voiceIntake';
+import { createMockVoiceTransport, VoiceConnection } from '../../voice';
+import { demoConfirmReply, demoIntakeReplies, intakeDemoScript } from '../../voice/demoScript';
 import { motion } from 'framer-motion';
 
+// Scripted agent, so this panel works without any voice service
+const transport = createMockVoiceTransport(intakeDemoScript);
+
 export const VoiceInterface: React.FC = () => {
   const { 
     isVoiceActive, 
     voiceSession, 
-    setVoiceActive, 
-    startVoiceSession, 
     endVoiceSession,
-    updateVoiceTranscript 
+    appendVoiceTurn 
   } = useAppStore();
 
   const [isListening, setIsListening] = React.useState(false);
   const [isSpeaking, setIsSpeaking] = React.useState(false);
   const [isMuted, setIsMuted] = React.useState(false);
+  const connectionRef = React.useRef<VoiceConnection | null>(null);
 
-  // Mock voice integration - replace with actual ElevenLabs integration
-  const handleVoiceToggle = () => {
-    if (isVoiceActive) {
-      endVoiceSession();
-      setIsListening(false);
-      setIsSpeaking(false);
-    } else {
-      startVoiceSession();
-      // Mock conversation start
-      setTimeout(() => {
-        updateVoiceTranscript("AI: Hello! I'm your sourcing agent. I'll help you find the perfect U.S. manufacturer for your project. Let's start with what type of product are you looking to manufacture?");
-        setIsSpeaking(true);
-        setTimeout(() => setIsSpeaking(false), 3000);
-      }, 1000);
-    }
-  };
+  // Connect when a voice session starts; disconnect when it ends
+  React.useEffect(() => {
+    if (voiceSession?.status !== 'active') return;
+    let ended = false;
+
+    transport.connect({
+      clientTools: {},
+      onStatusChange: () => {},
+      onModeChange: (mode) => {
+        setIsSpeaking(mode === 'speaking');
+        setIsListening(mode === 'listening');
+      },
+      onTurn: appendVoiceTurn,
+      onError: (message) => console.error('Voice transport error:', message),
+      onDisconnect: () => {
+        setIsListening(false);
+        setIsSpeaking(false);
+      },
+    }).then(connection => {
+      if (ended) {
+        connection.end();
+      } else {
+        connectionRef.current = connection;
+      }
+    });
 
-  const mockResponses = [
-    "Great! You're looking to manufacture electronics. What material will your product primarily be made from?",
-    "Excellent choice with aluminum. What's your expected annual production volume?",
-    "Perfect! 10,000 units annually is a good volume. What's your target cost per unit?",
-    "Got it, $50 per unit. What's your ideal lead time for production?",
-    "30 days is reasonable. Do you need any specific certifications like ISO 9001, UL listing, or others?",
-    "Wonderful! I've gathered all the information I need. Let me search our database of verified U.S. manufacturers for you. This will take just a moment...",
-  ];
+    return () => {
+      ended = true;
+      connectionRef.current?.end();
+      connectionRef.current = null;
+    };
+  }, [voiceSession?.id, voiceSession?.status, appendVoiceTurn]);
 
-  const [responseIndex, setResponseIndex] = React.useState(0);
+  React.useEffect(() => {
+    connectionRef.current?.setVolume(isMuted ? 0 : 1);
+  }, [isMuted]);
+
+  const handleVoiceToggle = () => {
+    endVoiceSession();
+  };
 
   const handleMockUserResponse = (response: string) => {
-    if (!voiceSession) return;
-    
-    const updatedTranscript = voiceSession.transcript + `\n\nYou: ${response}`;
-    updateVoiceTranscript(updatedTranscript);
-    
+    appendVoiceTurn({ speaker: 'user', text: response });
+    connectionRef.current?.sendUserMessage(response);
     setIsListening(false);
-    
-    // Mock AI response
-    setTimeout(() => {
-      if (responseIndex < mockResponses.length) {
-        const aiResponse = `\n\nAI: ${mockResponses[responseIndex]}`;
-        updateVoiceTranscript(updatedTranscript + aiResponse);
-        setResponseIndex(prev => prev + 1);
-        setIsSpeaking(true);
-        
-        setTimeout(() => {
-          setIsSpeaking(false);
-          if (responseIndex < mockResponses.length - 1) {
-            setIsListening(true);
-          } else {
-            // End voice session and trigger search
-            setTimeout(() => {
-              endVoiceSession();
-              // Here you would trigger the actual manufacturer search
-            }, 2000);
-          }
-        }, 2000);
-      }
-    }, 1000);
   };
 
   if (!isVoiceActive || !voiceSession) {
     return null;
   }
 
+  const followUp = nextIntakeFollowUp(voiceSession.extractedData ?? {});
+  const demoReply = followUp && (followUp.confirming ? demoConfirmReply : demoIntakeReplies[followUp.slot]);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -155,57 +150,15 @@ export const VoiceInterface: React.FC = () => {
       </div>
 
       {/* Mock User Response Buttons (for demo purposes) */}
-      {isListening && (
+      {isListening && demoReply && (
         <div className="space-y-2 mb-4">
           <div className="text-xs text-gray-500 text-center mb-2">Quick responses (demo):</div>
-          {responseIndex === 0 && (
-            <button
-              onClick={() => handleMockUserResponse("I'm developing a smart home device, an IoT sensor hub")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "I'm developing a smart home device, an IoT sensor hub"
-            </button>
-          )}
-          {responseIndex === 1 && (
-            <button
-              onClick={() => handleMockUserResponse("It will be primarily aluminum with some plastic components")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "It will be primarily aluminum with some plastic components"
-            </button>
-          )}
-          {responseIndex === 2 && (
-            <button
-              onClick={() => handleMockUserResponse("We're planning for about 10,000 units per year initially")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "We're planning for about 10,000 units per year initially"
-            </button>
-          )}
-          {responseIndex === 3 && (
-            <button
-              onClick={() => handleMockUserResponse("Our target is around $50 per unit")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "Our target is around $50 per unit"
-            </button>
-          )}
-          {responseIndex === 4 && (
-            <button
-              onClick={() => handleMockUserResponse("We need about 30 days lead time")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "We need about 30 days lead time"
-            </button>
-          )}
-          {responseIndex === 5 && (
-            <button
-              onClick={() => handleMockUserResponse("Yes, we need UL listing and FCC certification")}
-              className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
-            >
-              "Yes, we need UL listing and FCC certification"
-            </button>
-          )}
+          <button
+            onClick={() => handleMockUserResponse(demoReply)}
+            className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm transition-colors"
+          >
+            "{demoReply}"
+          </button>
         </div>
       )}
 
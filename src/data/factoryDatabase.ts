@@ -1,4 +1,5 @@
 import { Manufacturer } from '../types';
+import { GeoPoint, greatCircleDistance } from '../utils/geo';
 
 /**
  * Comprehensive Factory Database
@@ -61,7 +62,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 85,
     lastVerifiedAt: new Date('2024-01-15'),
     rating: 4.8,
-    distance: 45,
     photos: [
       'https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg',
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
@@ -127,7 +127,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 78,
     lastVerifiedAt: new Date('2024-01-20'),
     rating: 4.6,
-    distance: 120,
     photos: [
       'https://images.pexels.com/photos/1108572/pexels-photo-1108572.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -193,7 +192,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 92,
     lastVerifiedAt: new Date('2024-01-10'),
     rating: 4.9,
-    distance: 25,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/3825584/pexels-photo-3825584.jpeg',
@@ -259,7 +257,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 88,
     lastVerifiedAt: new Date('2024-01-25'),
     rating: 4.7,
-    distance: 85,
     photos: [
       'https://images.pexels.com/photos/343457/pexels-photo-343457.jpeg',
       'https://images.pexels.com/photos/163100/circuit-circuit-board-resistor-computer-163100.jpeg',
@@ -325,7 +322,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 82,
     lastVerifiedAt: new Date('2024-01-18'),
     rating: 4.5,
-    distance: 200,
     photos: [
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -391,7 +387,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 79,
     lastVerifiedAt: new Date('2024-01-12'),
     rating: 4.6,
-    distance: 280,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/4386321/pexels-photo-4386321.jpeg',
@@ -457,7 +452,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 95,
     lastVerifiedAt: new Date('2024-01-22'),
     rating: 4.4,
-    distance: 320,
     photos: [
       'https://images.pexels.com/photos/6764045/pexels-photo-6764045.jpeg',
       'https://images.pexels.com/photos/4792073/pexels-photo-4792073.jpeg',
@@ -523,7 +517,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 81,
     lastVerifiedAt: new Date('2024-01-28'),
     rating: 4.8,
-    distance: 150,
     photos: [
       'https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg',
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
@@ -589,7 +582,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 76,
     lastVerifiedAt: new Date('2024-01-16'),
     rating: 4.3,
-    distance: 95,
     photos: [
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
       'https://images.pexels.com/photos/1108572/pexels-photo-1108572.jpeg',
@@ -655,7 +647,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 84,
     lastVerifiedAt: new Date('2024-01-30'),
     rating: 4.7,
-    distance: 450,
     photos: [
       'https://images.pexels.com/photos/343457/pexels-photo-343457.jpeg',
       'https://images.pexels.com/photos/163100/circuit-circuit-board-resistor-computer-163100.jpeg',
@@ -721,7 +712,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 83,
     lastVerifiedAt: new Date('2024-02-01'),
     rating: 4.6,
-    distance: 180,
     photos: [
       'https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg',
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
@@ -787,7 +777,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 98,
     lastVerifiedAt: new Date('2024-02-02'),
     rating: 4.5,
-    distance: 320,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/4386321/pexels-photo-4386321.jpeg',
@@ -853,7 +842,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 72,
     lastVerifiedAt: new Date('2024-02-03'),
     rating: 4.4,
-    distance: 280,
     photos: [
       'https://images.pexels.com/photos/1108572/pexels-photo-1108572.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -919,7 +907,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 69,
     lastVerifiedAt: new Date('2024-02-04'),
     rating: 4.2,
-    distance: 420,
     photos: [
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -985,7 +972,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 81,
     lastVerifiedAt: new Date('2024-02-05'),
     rating: 4.3,
-    distance: 250,
     photos: [
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -1051,7 +1037,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 89,
     lastVerifiedAt: new Date('2024-02-06'),
     rating: 4.7,
-    distance: 190,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/3825584/pexels-photo-3825584.jpeg',
@@ -1117,7 +1102,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 74,
     lastVerifiedAt: new Date('2024-02-07'),
     rating: 4.1,
-    distance: 380,
     photos: [
       'https://images.pexels.com/photos/1108572/pexels-photo-1108572.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -1183,7 +1167,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 87,
     lastVerifiedAt: new Date('2024-02-08'),
     rating: 4.5,
-    distance: 310,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/3825584/pexels-photo-3825584.jpeg',
@@ -1249,7 +1232,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 96,
     lastVerifiedAt: new Date('2024-02-09'),
     rating: 4.4,
-    distance: 290,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/4386321/pexels-photo-4386321.jpeg',
@@ -1315,7 +1297,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 91,
     lastVerifiedAt: new Date('2024-02-10'),
     rating: 4.6,
-    distance: 240,
     photos: [
       'https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg',
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
@@ -1381,7 +1362,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 85,
     lastVerifiedAt: new Date('2024-02-11'),
     rating: 4.7,
-    distance: 380,
     photos: [
       'https://images.pexels.com/photos/343457/pexels-photo-343457.jpeg',
       'https://images.pexels.com/photos/163100/circuit-circuit-board-resistor-computer-163100.jpeg',
@@ -1447,7 +1427,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 78,
     lastVerifiedAt: new Date('2024-02-12'),
     rating: 4.3,
-    distance: 850,
     photos: [
       'https://images.pexels.com/photos/1108572/pexels-photo-1108572.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -1513,7 +1492,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 97,
     lastVerifiedAt: new Date('2024-02-13'),
     rating: 4.5,
-    distance: 1200,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/4386321/pexels-photo-4386321.jpeg',
@@ -1579,7 +1557,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 88,
     lastVerifiedAt: new Date('2024-02-14'),
     rating: 4.4,
-    distance: 420,
     photos: [
       'https://images.pexels.com/photos/6764045/pexels-photo-6764045.jpeg',
       'https://images.pexels.com/photos/4792073/pexels-photo-4792073.jpeg',
@@ -1645,7 +1622,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 86,
     lastVerifiedAt: new Date('2024-02-15'),
     rating: 4.8,
-    distance: 220,
     photos: [
       'https://images.pexels.com/photos/343457/pexels-photo-343457.jpeg',
       'https://images.pexels.com/photos/163100/circuit-circuit-board-resistor-computer-163100.jpeg',
@@ -1711,7 +1687,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 82,
     lastVerifiedAt: new Date('2024-02-16'),
     rating: 4.3,
-    distance: 160,
     photos: [
       'https://images.pexels.com/photos/1108572/pexels-photo-1108572.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -1777,7 +1752,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 84,
     lastVerifiedAt: new Date('2024-02-17'),
     rating: 4.6,
-    distance: 180,
     photos: [
       'https://images.pexels.com/photos/343457/pexels-photo-343457.jpeg',
       'https://images.pexels.com/photos/163100/circuit-circuit-board-resistor-computer-163100.jpeg',
@@ -1843,7 +1817,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 87,
     lastVerifiedAt: new Date('2024-02-18'),
     rating: 4.7,
-    distance: 200,
     photos: [
       'https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg',
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
@@ -1909,7 +1882,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 79,
     lastVerifiedAt: new Date('2024-02-19'),
     rating: 4.4,
-    distance: 240,
     photos: [
       'https://images.pexels.com/photos/3862132/pexels-photo-3862132.jpeg',
       'https://images.pexels.com/photos/4386321/pexels-photo-4386321.jpeg',
@@ -1975,7 +1947,6 @@ export const factoryDatabase: Manufacturer[] = [
     sustainabilityScore: 71,
     lastVerifiedAt: new Date('2024-02-20'),
     rating: 4.2,
-    distance: 480,
     photos: [
       'https://images.pexels.com/photos/1108101/pexels-photo-1108101.jpeg',
       'https://images.pexels.com/photos/1267338/pexels-photo-1267338.jpeg',
@@ -2035,11 +2006,11 @@ export const getFactoriesByCertification = (certification: string): Manufacturer
 };
 
 /**
- * Helper function to get factories within distance range
+ * Helper function to get factories within distance range of an origin
  */
-export const getFactoriesWithinDistance = (maxDistance: number): Manufacturer[] => {
+export const getFactoriesWithinDistance = (origin: GeoPoint, maxDistance: number): Manufacturer[] => {
   return factoryDatabase.filter(factory => 
-    (factory.distance || 0) <= maxDistance
+    greatCircleDistance(origin, factory) <= maxDistance
   );
 };
 
@@ -1,9 +1,70 @@
-import { Manufacturer, Quote, Conversation, Notification, ResponseTemplate, PerformanceMetrics } from '../types';
+import { Manufacturer, Project, Quote, Conversation, Notification, ResponseTemplate, PerformanceMetrics } from '../types';
 import { factoryDatabase } from './factoryDatabase';
 
 // Export the comprehensive factory database as mockManufacturers
 export const mockManufacturers: Manufacturer[] = factoryDatabase;
 
+// Demo dates are relative to the first run, so quotes stay open for a while rather than expiring on load
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+export const mockProjects: Project[] = [
+  {
+    id: 'p1',
+    name: 'IoT Sensor Hub',
+    status: 'sourcing',
+    ownerId: '1',
+    ownerName: 'John Doe',
+    budget: 600000,
+    intake: {
+      userId: '1',
+      timestamp: daysFromNow(-30),
+      category: 'Electronics',
+      material: 'Aluminum',
+      volume: 10000,
+      targetCost: 50,
+      leadTimeGoal: 30,
+      certificationRequirements: ['UL Listed', 'FCC'],
+      additionalRequirements: 'IoT sensor hub with wireless connectivity',
+      location: 'San Francisco, CA'
+    },
+    shortlist: [],
+    milestones: [
+      { id: 'p1-m1', title: 'Quotes in', dueDate: daysFromNow(-5), completedAt: daysFromNow(-6) },
+      { id: 'p1-m2', title: 'Supplier selected', dueDate: daysFromNow(10) },
+      { id: 'p1-m3', title: 'First article approved', dueDate: daysFromNow(45) }
+    ],
+    createdAt: daysFromNow(-30),
+    updatedAt: daysFromNow(-6)
+  },
+  {
+    id: 'p2',
+    name: 'Solar Mounting Assemblies',
+    status: 'negotiating',
+    ownerId: '1',
+    ownerName: 'John Doe',
+    budget: 90000,
+    intake: {
+      userId: '1',
+      timestamp: daysFromNow(-20),
+      category: 'Energy',
+      material: 'Aluminum',
+      volume: 100,
+      targetCost: 900,
+      leadTimeGoal: 45,
+      certificationRequirements: ['UL 1703', 'IEC 61215'],
+      additionalRequirements: 'Solar panel mounting assemblies',
+      location: 'Phoenix, AZ'
+    },
+    shortlist: [],
+    milestones: [
+      { id: 'p2-m1', title: 'Terms agreed', dueDate: daysFromNow(7) },
+      { id: 'p2-m2', title: 'Purchase order issued', dueDate: daysFromNow(14) }
+    ],
+    createdAt: daysFromNow(-20),
+    updatedAt: daysFromNow(-2)
+  }
+];
+
 export const mockQuotes: Quote[] = [
   {
     id: 'q1',
@@ -14,7 +75,7 @@ export const mockQuotes: Quote[] = [
     totalPrice: 45500,
     leadTimeDays: 21,
     moq: 100,
-    validUntil: new Date('2024-03-15'),
+    validUntil: daysFromNow(24),
     files: [
       {
         id: 'f1',
@@ -37,7 +98,15 @@ export const mockQuotes: Quote[] = [
       shippingTerms: 'FOB Origin',
       warranty: '1 Year'
     },
-    score: 92
+    score: 92,
+    priceTiers: [
+      { minQuantity: 100, pricePerUnit: 45.50 },
+      { minQuantity: 500, pricePerUnit: 42.00 },
+      { minQuantity: 1000, pricePerUnit: 39.75 }
+    ],
+    costItems: [
+      { id: 'c1', kind: 'freight', label: 'LTL freight', amount: 850, basis: 'one-time' }
+    ]
   },
   {
     id: 'q2',
@@ -48,7 +117,7 @@ export const mockQuotes: Quote[] = [
     totalPrice: 38750,
     leadTimeDays: 28,
     moq: 1000,
-    validUntil: new Date('2024-03-20'),
+    validUntil: daysFromNow(29),
     files: [
       {
         id: 'f2',
@@ -57,11 +126,19 @@ export const mockQuotes: Quote[] = [
         type: 'application/pdf',
         size: 189440,
         uploadedAt: new Date('2024-02-03')
+      },
+      {
+        id: 'f2b',
+        name: 'sv_plastics_quote_rev2.pdf',
+        url: '/files/sv_plastics_quote_rev2.pdf',
+        type: 'application/pdf',
+        size: 192512,
+        uploadedAt: new Date('2024-02-08')
       }
     ],
     notes: 'Clean room assembly included. FDA compliance documentation provided.',
     createdAt: new Date('2024-02-03'),
-    updatedAt: new Date('2024-02-03'),
+    updatedAt: new Date('2024-02-08'),
     extractedData: {
       pricePerUnit: 38.75,
       leadTime: 28,
@@ -71,13 +148,93 @@ export const mockQuotes: Quote[] = [
       shippingTerms: 'FOB Destination',
       warranty: '2 Years'
     },
-    score: 88
+    score: 88,
+    priceTiers: [
+      { minQuantity: 1000, pricePerUnit: 38.75 },
+      { minQuantity: 5000, pricePerUnit: 35.20 }
+    ],
+    costItems: [
+      { id: 'c2', kind: 'tooling', label: 'Injection mold', amount: 12500, basis: 'one-time' },
+      { id: 'c3', kind: 'setup', label: 'Clean room setup', amount: 750, basis: 'one-time' }
+    ],
+    revisions: [
+      {
+        version: 1,
+        pricePerUnit: 41.20,
+        totalPrice: 41200,
+        leadTimeDays: 35,
+        moq: 1000,
+        validUntil: daysFromNow(14),
+        extractedData: {
+          pricePerUnit: 41.20,
+          leadTime: 35,
+          moq: 1000,
+          certifications: ['ISO 13485', 'FDA Registered'],
+          paymentTerms: 'Net 30',
+          shippingTerms: 'FOB Origin',
+          warranty: '1 Year'
+        },
+        costItems: [
+          { id: 'c2', kind: 'tooling', label: 'Injection mold', amount: 12500, basis: 'one-time' },
+          { id: 'c3', kind: 'setup', label: 'Clean room setup', amount: 750, basis: 'one-time' }
+        ],
+        notes: 'Clean room assembly included.',
+        files: [
+          {
+            id: 'f2',
+            name: 'sv_plastics_quote.pdf',
+            url: '/files/sv_plastics_quote.pdf',
+            type: 'application/pdf',
+            size: 189440,
+            uploadedAt: new Date('2024-02-03')
+          }
+        ],
+        receivedAt: new Date('2024-02-03')
+      },
+      {
+        version: 2,
+        pricePerUnit: 38.75,
+        totalPrice: 38750,
+        leadTimeDays: 28,
+        moq: 1000,
+        validUntil: daysFromNow(29),
+        extractedData: {
+          pricePerUnit: 38.75,
+          leadTime: 28,
+          moq: 1000,
+          certifications: ['ISO 13485', 'FDA Registered'],
+          paymentTerms: 'Net 45',
+          shippingTerms: 'FOB Destination',
+          warranty: '2 Years'
+        },
+        priceTiers: [
+          { minQuantity: 1000, pricePerUnit: 38.75 },
+          { minQuantity: 5000, pricePerUnit: 35.20 }
+        ],
+        costItems: [
+          { id: 'c2', kind: 'tooling', label: 'Injection mold', amount: 12500, basis: 'one-time' },
+          { id: 'c3', kind: 'setup', label: 'Clean room setup', amount: 750, basis: 'one-time' }
+        ],
+        notes: 'Clean room assembly included. FDA compliance documentation provided.',
+        files: [
+          {
+            id: 'f2b',
+            name: 'sv_plastics_quote_rev2.pdf',
+            url: '/files/sv_plastics_quote_rev2.pdf',
+            type: 'application/pdf',
+            size: 192512,
+            uploadedAt: new Date('2024-02-08')
+          }
+        ],
+        receivedAt: new Date('2024-02-08')
+      }
+    ]
   },
   {
     id: 'q3',
     manufacturerId: 'factory-004',
     projectId: 'p1',
-    status: 'pending',
+    status: 'requested',
     createdAt: new Date('2024-02-05'),
     updatedAt: new Date('2024-02-05'),
     files: []
@@ -91,7 +248,7 @@ export const mockQuotes: Quote[] = [
     totalPrice: 125000,
     leadTimeDays: 18,
     moq: 10,
-    validUntil: new Date('2024-03-25'),
+    validUntil: daysFromNow(34),
     files: [
       {
         id: 'f4',
@@ -114,7 +271,12 @@ export const mockQuotes: Quote[] = [
       shippingTerms: 'FOB Origin',
       warranty: '2 Years'
     },
-    score: 95
+    score: 95,
+    costItems: [
+      { id: 'c4', kind: 'nre', label: 'Fixture design', amount: 2400, basis: 'one-time' },
+      { id: 'c5', kind: 'freight', label: 'Air freight', amount: 3.5, basis: 'per-unit' },
+      { id: 'c6', kind: 'tariff', label: 'Import duty on titanium stock', amount: 2.5, basis: 'percent' }
+    ]
   },
   {
     id: 'q5',
@@ -125,7 +287,7 @@ export const mockQuotes: Quote[] = [
     totalPrice: 85000,
     leadTimeDays: 35,
     moq: 100,
-    validUntil: new Date('2024-04-01'),
+    validUntil: daysFromNow(41),
     files: [
       {
         id: 'f5',
@@ -156,6 +318,7 @@ export const mockConversations: Conversation[] = [
   {
     id: 'c1',
     manufacturerId: 'factory-001',
+    projectId: 'p1',
     userId: '1',
     type: 'email',
     subject: 'Quote Request - IoT Sensor Hub',
@@ -198,6 +361,7 @@ export const mockConversations: Conversation[] = [
   {
     id: 'c2',
     manufacturerId: 'factory-003',
+    projectId: 'p1',
     userId: '1',
     type: 'direct_message',
     subject: 'Material Specifications Clarification',
@@ -221,6 +385,7 @@ export const mockConversations: Conversation[] = [
   {
     id: 'c3',
     manufacturerId: 'factory-008',
+    projectId: 'p1',
     userId: '1',
     type: 'portal',
     subject: 'Precision Machining Capabilities Discussion',
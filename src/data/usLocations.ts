@@ -0,0 +1,211 @@
+/**
+ * Offline US Location Centroids
+ *
+ * Bundled geocoding data used to resolve a project location or a
+ * user-entered origin without calling an external service. Each city
+ * entry carries a representative ZIP code; ZIP lookups fall back to the
+ * closest entry sharing the same 3-digit sectional center prefix.
+ */
+
+export interface StateCentroid {
+  code: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface CityCentroid {
+  city: string;
+  state: string;
+  stateCode: string;
+  zip: string;
+  lat: number;
+  lon: number;
+}
+
+export const usStateCentroids: StateCentroid[] = [
+  { code: 'AL', name: 'Alabama', lat: 32.8067, lon: -86.7911 },
+  { code: 'AK', name: 'Alaska', lat: 61.3707, lon: -152.4044 },
+  { code: 'AZ', name: 'Arizona', lat: 33.7298, lon: -111.4312 },
+  { code: 'AR', name: 'Arkansas', lat: 34.9697, lon: -92.3731 },
+  { code: 'CA', name: 'California', lat: 36.1162, lon: -119.6816 },
+  { code: 'CO', name: 'Colorado', lat: 39.0598, lon: -105.3111 },
+  { code: 'CT', name: 'Connecticut', lat: 41.5978, lon: -72.7554 },
+  { code: 'DE', name: 'Delaware', lat: 39.3185, lon: -75.5071 },
+  { code: 'DC', name: 'District of Columbia', lat: 38.8974, lon: -77.0268 },
+  { code: 'FL', name: 'Florida', lat: 27.7663, lon: -81.6868 },
+  { code: 'GA', name: 'Georgia', lat: 33.0406, lon: -83.6431 },
+  { code: 'HI', name: 'Hawaii', lat: 21.0943, lon: -157.4983 },
+  { code: 'ID', name: 'Idaho', lat: 44.2405, lon: -114.4788 },
+  { code: 'IL', name: 'Illinois', lat: 40.3495, lon: -88.9861 },
+  { code: 'IN', name: 'Indiana', lat: 39.8494, lon: -86.2583 },
+  { code: 'IA', name: 'Iowa', lat: 42.0115, lon: -93.2105 },
+  { code: 'KS', name: 'Kansas', lat: 38.5266, lon: -96.7265 },
+  { code: 'KY', name: 'Kentucky', lat: 37.6681, lon: -84.6701 },
+  { code: 'LA', name: 'Louisiana', lat: 31.1695, lon: -91.8678 },
+  { code: 'ME', name: 'Maine', lat: 44.6939, lon: -69.3819 },
+  { code: 'MD', name: 'Maryland', lat: 39.0639, lon: -76.8021 },
+  { code: 'MA', name: 'Massachusetts', lat: 42.2302, lon: -71.5301 },
+  { code: 'MI', name: 'Michigan', lat: 43.3266, lon: -84.5361 },
+  { code: 'MN', name: 'Minnesota', lat: 45.6945, lon: -93.9002 },
+  { code: 'MS', name: 'Mississippi', lat: 32.7416, lon: -89.6787 },
+  { code: 'MO', name: 'Missouri', lat: 38.4561, lon: -92.2884 },
+  { code: 'MT', name: 'Montana', lat: 46.9219, lon: -110.4544 },
+  { code: 'NE', name: 'Nebraska', lat: 41.1254, lon: -98.2681 },
+  { code: 'NV', name: 'Nevada', lat: 38.3135, lon: -117.0554 },
+  { code: 'NH', name: 'New Hampshire', lat: 43.4525, lon: -71.5639 },
+  { code: 'NJ', name: 'New Jersey', lat: 40.2989, lon: -74.5210 },
+  { code: 'NM', name: 'New Mexico', lat: 34.8405, lon: -106.2485 },
+  { code: 'NY', name: 'New York', lat: 42.1657, lon: -74.9481 },
+  { code: 'NC', name: 'North Carolina', lat: 35.6301, lon: -79.8064 },
+  { code: 'ND', name: 'North Dakota', lat: 47.5289, lon: -99.7840 },
+  { code: 'OH', name: 'Ohio', lat: 40.3888, lon: -82.7649 },
+  { code: 'OK', name: 'Oklahoma', lat: 35.5653, lon: -96.9289 },
+  { code: 'OR', name: 'Oregon', lat: 44.5720, lon: -122.0709 },
+  { code: 'PA', name: 'Pennsylvania', lat: 40.5908, lon: -77.2098 },
+  { code: 'RI', name: 'Rhode Island', lat: 41.6809, lon: -71.5118 },
+  { code: 'SC', name: 'South Carolina', lat: 33.8569, lon: -80.9450 },
+  { code: 'SD', name: 'South Dakota', lat: 44.2998, lon: -99.4388 },
+  { code: 'TN', name: 'Tennessee', lat: 35.7478, lon: -86.6923 },
+  { code: 'TX', name: 'Texas', lat: 31.0545, lon: -97.5635 },
+  { code: 'UT', name: 'Utah', lat: 40.1500, lon: -111.8624 },
+  { code: 'VT', name: 'Vermont', lat: 44.0459, lon: -72.7107 },
+  { code: 'VA', name: 'Virginia', lat: 37.7693, lon: -78.1700 },
+  { code: 'WA', name: 'Washington', lat: 47.4009, lon: -121.4905 },
+  { code: 'WV', name: 'West Virginia', lat: 38.4912, lon: -80.9545 },
+  { code: 'WI', name: 'Wisconsin', lat: 44.2685, lon: -89.6165 },
+  { code: 'WY', name: 'Wyoming', lat: 42.7560, lon: -107.3025 }
+];
+
+export const usCityCentroids: CityCentroid[] = [
+  { city: 'New York', state: 'New York', stateCode: 'NY', zip: '10001', lat: 40.7128, lon: -74.0060 },
+  { city: 'Los Angeles', state: 'California', stateCode: 'CA', zip: '90012', lat: 34.0522, lon: -118.2437 },
+  { city: 'Chicago', state: 'Illinois', stateCode: 'IL', zip: '60601', lat: 41.8781, lon: -87.6298 },
+  { city: 'Houston', state: 'Texas', stateCode: 'TX', zip: '77002', lat: 29.7604, lon: -95.3698 },
+  { city: 'Phoenix', state: 'Arizona', stateCode: 'AZ', zip: '85004', lat: 33.4484, lon: -112.0740 },
+  { city: 'Philadelphia', state: 'Pennsylvania', stateCode: 'PA', zip: '19102', lat: 39.9526, lon: -75.1652 },
+  { city: 'San Antonio', state: 'Texas', stateCode: 'TX', zip: '78205', lat: 29.4241, lon: -98.4936 },
+  { city: 'San Diego', state: 'California', stateCode: 'CA', zip: '92101', lat: 32.7157, lon: -117.1611 },
+  { city: 'Dallas', state: 'Texas', stateCode: 'TX', zip: '75201', lat: 32.7767, lon: -96.7970 },
+  { city: 'San Jose', state: 'California', stateCode: 'CA', zip: '95113', lat: 37.3382, lon: -121.8863 },
+  { city: 'Austin', state: 'Texas', stateCode: 'TX', zip: '78701', lat: 30.2672, lon: -97.7431 },
+  { city: 'Jacksonville', state: 'Florida', stateCode: 'FL', zip: '32202', lat: 30.3322, lon: -81.6557 },
+  { city: 'Fort Worth', state: 'Texas', stateCode: 'TX', zip: '76102', lat: 32.7555, lon: -97.3308 },
+  { city: 'Columbus', state: 'Ohio', stateCode: 'OH', zip: '43215', lat: 39.9612, lon: -82.9988 },
+  { city: 'Indianapolis', state: 'Indiana', stateCode: 'IN', zip: '46204', lat: 39.7684, lon: -86.1581 },
+  { city: 'Charlotte', state: 'North Carolina', stateCode: 'NC', zip: '28202', lat: 35.2271, lon: -80.8431 },
+  { city: 'San Francisco', state: 'California', stateCode: 'CA', zip: '94103', lat: 37.7749, lon: -122.4194 },
+  { city: 'Seattle', state: 'Washington', stateCode: 'WA', zip: '98101', lat: 47.6062, lon: -122.3321 },
+  { city: 'Denver', state: 'Colorado', stateCode: 'CO', zip: '80202', lat: 39.7392, lon: -104.9903 },
+  { city: 'Washington', state: 'District of Columbia', stateCode: 'DC', zip: '20001', lat: 38.9072, lon: -77.0369 },
+  { city: 'Nashville', state: 'Tennessee', stateCode: 'TN', zip: '37203', lat: 36.1627, lon: -86.7816 },
+  { city: 'Oklahoma City', state: 'Oklahoma', stateCode: 'OK', zip: '73102', lat: 35.4676, lon: -97.5164 },
+  { city: 'El Paso', state: 'Texas', stateCode: 'TX', zip: '79901', lat: 31.7619, lon: -106.4850 },
+  { city: 'Boston', state: 'Massachusetts', stateCode: 'MA', zip: '02108', lat: 42.3601, lon: -71.0589 },
+  { city: 'Portland', state: 'Oregon', stateCode: 'OR', zip: '97204', lat: 45.5152, lon: -122.6784 },
+  { city: 'Las Vegas', state: 'Nevada', stateCode: 'NV', zip: '89101', lat: 36.1699, lon: -115.1398 },
+  { city: 'Detroit', state: 'Michigan', stateCode: 'MI', zip: '48201', lat: 42.3314, lon: -83.0458 },
+  { city: 'Memphis', state: 'Tennessee', stateCode: 'TN', zip: '38103', lat: 35.1495, lon: -90.0490 },
+  { city: 'Louisville', state: 'Kentucky', stateCode: 'KY', zip: '40202', lat: 38.2527, lon: -85.7585 },
+  { city: 'Baltimore', state: 'Maryland', stateCode: 'MD', zip: '21202', lat: 39.2904, lon: -76.6122 },
+  { city: 'Milwaukee', state: 'Wisconsin', stateCode: 'WI', zip: '53202', lat: 43.0389, lon: -87.9065 },
+  { city: 'Albuquerque', state: 'New Mexico', stateCode: 'NM', zip: '87102', lat: 35.0844, lon: -106.6504 },
+  { city: 'Tucson', state: 'Arizona', stateCode: 'AZ', zip: '85701', lat: 32.2226, lon: -110.9747 },
+  { city: 'Fresno', state: 'California', stateCode: 'CA', zip: '93721', lat: 36.7378, lon: -119.7871 },
+  { city: 'Sacramento', state: 'California', stateCode: 'CA', zip: '95814', lat: 38.5816, lon: -121.4944 },
+  { city: 'Kansas City', state: 'Missouri', stateCode: 'MO', zip: '64105', lat: 39.0997, lon: -94.5786 },
+  { city: 'Atlanta', state: 'Georgia', stateCode: 'GA', zip: '30303', lat: 33.7490, lon: -84.3880 },
+  { city: 'Omaha', state: 'Nebraska', stateCode: 'NE', zip: '68102', lat: 41.2565, lon: -95.9345 },
+  { city: 'Raleigh', state: 'North Carolina', stateCode: 'NC', zip: '27601', lat: 35.7796, lon: -78.6382 },
+  { city: 'Miami', state: 'Florida', stateCode: 'FL', zip: '33130', lat: 25.7617, lon: -80.1918 },
+  { city: 'Minneapolis', state: 'Minnesota', stateCode: 'MN', zip: '55401', lat: 44.9778, lon: -93.2650 },
+  { city: 'Tulsa', state: 'Oklahoma', stateCode: 'OK', zip: '74103', lat: 36.1540, lon: -95.9928 },
+  { city: 'Cleveland', state: 'Ohio', stateCode: 'OH', zip: '44113', lat: 41.4993, lon: -81.6944 },
+  { city: 'Wichita', state: 'Kansas', stateCode: 'KS', zip: '67202', lat: 37.6872, lon: -97.3301 },
+  { city: 'New Orleans', state: 'Louisiana', stateCode: 'LA', zip: '70112', lat: 29.9511, lon: -90.0715 },
+  { city: 'Tampa', state: 'Florida', stateCode: 'FL', zip: '33602', lat: 27.9506, lon: -82.4572 },
+  { city: 'Orlando', state: 'Florida', stateCode: 'FL', zip: '32801', lat: 28.5383, lon: -81.3792 },
+  { city: 'Pittsburgh', state: 'Pennsylvania', stateCode: 'PA', zip: '15222', lat: 40.4406, lon: -79.9959 },
+  { city: 'Cincinnati', state: 'Ohio', stateCode: 'OH', zip: '45202', lat: 39.1031, lon: -84.5120 },
+  { city: 'St. Louis', state: 'Missouri', stateCode: 'MO', zip: '63101', lat: 38.6270, lon: -90.1994 },
+  { city: 'Salt Lake City', state: 'Utah', stateCode: 'UT', zip: '84111', lat: 40.7608, lon: -111.8910 },
+  { city: 'Boise', state: 'Idaho', stateCode: 'ID', zip: '83702', lat: 43.6150, lon: -116.2023 },
+  { city: 'Spokane', state: 'Washington', stateCode: 'WA', zip: '99201', lat: 47.6588, lon: -117.4260 },
+  { city: 'Des Moines', state: 'Iowa', stateCode: 'IA', zip: '50309', lat: 41.5868, lon: -93.6250 },
+  { city: 'Madison', state: 'Wisconsin', stateCode: 'WI', zip: '53703', lat: 43.0731, lon: -89.4012 },
+  { city: 'Grand Rapids', state: 'Michigan', stateCode: 'MI', zip: '49503', lat: 42.9634, lon: -85.6681 },
+  { city: 'Lansing', state: 'Michigan', stateCode: 'MI', zip: '48933', lat: 42.7325, lon: -84.5555 },
+  { city: 'Flint', state: 'Michigan', stateCode: 'MI', zip: '48502', lat: 43.0125, lon: -83.6875 },
+  { city: 'Toledo', state: 'Ohio', stateCode: 'OH', zip: '43604', lat: 41.6528, lon: -83.5379 },
+  { city: 'Akron', state: 'Ohio', stateCode: 'OH', zip: '44308', lat: 41.0814, lon: -81.5190 },
+  { city: 'Dayton', state: 'Ohio', stateCode: 'OH', zip: '45402', lat: 39.7589, lon: -84.1916 },
+  { city: 'Buffalo', state: 'New York', stateCode: 'NY', zip: '14202', lat: 42.8864, lon: -78.8784 },
+  { city: 'Rochester', state: 'New York', stateCode: 'NY', zip: '14604', lat: 43.1566, lon: -77.6088 },
+  { city: 'Albany', state: 'New York', stateCode: 'NY', zip: '12207', lat: 42.6526, lon: -73.7562 },
+  { city: 'Syracuse', state: 'New York', stateCode: 'NY', zip: '13202', lat: 43.0481, lon: -76.1474 },
+  { city: 'Hartford', state: 'Connecticut', stateCode: 'CT', zip: '06103', lat: 41.7658, lon: -72.6734 },
+  { city: 'New Haven', state: 'Connecticut', stateCode: 'CT', zip: '06510', lat: 41.3083, lon: -72.9279 },
+  { city: 'Providence', state: 'Rhode Island', stateCode: 'RI', zip: '02903', lat: 41.8240, lon: -71.4128 },
+  { city: 'Newport', state: 'Rhode Island', stateCode: 'RI', zip: '02840', lat: 41.4901, lon: -71.3128 },
+  { city: 'Manchester', state: 'New Hampshire', stateCode: 'NH', zip: '03101', lat: 42.9956, lon: -71.4548 },
+  { city: 'Burlington', state: 'Vermont', stateCode: 'VT', zip: '05401', lat: 44.4759, lon: -73.2121 },
+  { city: 'Portland', state: 'Maine', stateCode: 'ME', zip: '04101', lat: 43.6591, lon: -70.2568 },
+  { city: 'Wilmington', state: 'Delaware', stateCode: 'DE', zip: '19801', lat: 39.7391, lon: -75.5398 },
+  { city: 'Newark', state: 'New Jersey', stateCode: 'NJ', zip: '07102', lat: 40.7357, lon: -74.1724 },
+  { city: 'Trenton', state: 'New Jersey', stateCode: 'NJ', zip: '08608', lat: 40.2206, lon: -74.7597 },
+  { city: 'Richmond', state: 'Virginia', stateCode: 'VA', zip: '23219', lat: 37.5407, lon: -77.4360 },
+  { city: 'Norfolk', state: 'Virginia', stateCode: 'VA', zip: '23510', lat: 36.8508, lon: -76.2859 },
+  { city: 'Charleston', state: 'South Carolina', stateCode: 'SC', zip: '29401', lat: 32.7765, lon: -79.9311 },
+  { city: 'Columbia', state: 'South Carolina', stateCode: 'SC', zip: '29201', lat: 34.0007, lon: -81.0348 },
+  { city: 'Greenville', state: 'South Carolina', stateCode: 'SC', zip: '29601', lat: 34.8526, lon: -82.3940 },
+  { city: 'Asheville', state: 'North Carolina', stateCode: 'NC', zip: '28801', lat: 35.5951, lon: -82.5515 },
+  { city: 'Greensboro', state: 'North Carolina', stateCode: 'NC', zip: '27401', lat: 36.0726, lon: -79.7920 },
+  { city: 'Birmingham', state: 'Alabama', stateCode: 'AL', zip: '35203', lat: 33.5186, lon: -86.8104 },
+  { city: 'Huntsville', state: 'Alabama', stateCode: 'AL', zip: '35801', lat: 34.7304, lon: -86.5861 },
+  { city: 'Mobile', state: 'Alabama', stateCode: 'AL', zip: '36602', lat: 30.6954, lon: -88.0399 },
+  { city: 'Jackson', state: 'Mississippi', stateCode: 'MS', zip: '39201', lat: 32.2988, lon: -90.1848 },
+  { city: 'Little Rock', state: 'Arkansas', stateCode: 'AR', zip: '72201', lat: 34.7465, lon: -92.2896 },
+  { city: 'Baton Rouge', state: 'Louisiana', stateCode: 'LA', zip: '70801', lat: 30.4515, lon: -91.1871 },
+  { city: 'Shreveport', state: 'Louisiana', stateCode: 'LA', zip: '71101', lat: 32.5252, lon: -93.7502 },
+  { city: 'Knoxville', state: 'Tennessee', stateCode: 'TN', zip: '37902', lat: 35.9606, lon: -83.9207 },
+  { city: 'Chattanooga', state: 'Tennessee', stateCode: 'TN', zip: '37402', lat: 35.0456, lon: -85.3097 },
+  { city: 'Lexington', state: 'Kentucky', stateCode: 'KY', zip: '40507', lat: 38.0406, lon: -84.5037 },
+  { city: 'Charleston', state: 'West Virginia', stateCode: 'WV', zip: '25301', lat: 38.3498, lon: -81.6326 },
+  { city: 'Savannah', state: 'Georgia', stateCode: 'GA', zip: '31401', lat: 32.0809, lon: -81.0912 },
+  { city: 'Fort Lauderdale', state: 'Florida', stateCode: 'FL', zip: '33301', lat: 26.1224, lon: -80.1373 },
+  { city: 'Gainesville', state: 'Florida', stateCode: 'FL', zip: '32601', lat: 29.6516, lon: -82.3248 },
+  { city: 'Tallahassee', state: 'Florida', stateCode: 'FL', zip: '32301', lat: 30.4383, lon: -84.2807 },
+  { city: 'Corpus Christi', state: 'Texas', stateCode: 'TX', zip: '78401', lat: 27.8006, lon: -97.3964 },
+  { city: 'Lubbock', state: 'Texas', stateCode: 'TX', zip: '79401', lat: 33.5779, lon: -101.8552 },
+  { city: 'Amarillo', state: 'Texas', stateCode: 'TX', zip: '79101', lat: 35.2220, lon: -101.8313 },
+  { city: 'Santa Fe', state: 'New Mexico', stateCode: 'NM', zip: '87501', lat: 35.6870, lon: -105.9378 },
+  { city: 'Colorado Springs', state: 'Colorado', stateCode: 'CO', zip: '80903', lat: 38.8339, lon: -104.8214 },
+  { city: 'Cheyenne', state: 'Wyoming', stateCode: 'WY', zip: '82001', lat: 41.1400, lon: -104.8202 },
+  { city: 'Casper', state: 'Wyoming', stateCode: 'WY', zip: '82601', lat: 42.8666, lon: -106.3131 },
+  { city: 'Billings', state: 'Montana', stateCode: 'MT', zip: '59101', lat: 45.7833, lon: -108.5007 },
+  { city: 'Bozeman', state: 'Montana', stateCode: 'MT', zip: '59715', lat: 45.6770, lon: -111.0429 },
+  { city: 'Fargo', state: 'North Dakota', stateCode: 'ND', zip: '58102', lat: 46.8772, lon: -96.7898 },
+  { city: 'Sioux Falls', state: 'South Dakota', stateCode: 'SD', zip: '57104', lat: 43.5446, lon: -96.7311 },
+  { city: 'Lincoln', state: 'Nebraska', stateCode: 'NE', zip: '68508', lat: 40.8136, lon: -96.7026 },
+  { city: 'Topeka', state: 'Kansas', stateCode: 'KS', zip: '66603', lat: 39.0473, lon: -95.6752 },
+  { city: 'St. Paul', state: 'Minnesota', stateCode: 'MN', zip: '55102', lat: 44.9537, lon: -93.0900 },
+  { city: 'Duluth', state: 'Minnesota', stateCode: 'MN', zip: '55802', lat: 46.7867, lon: -92.1005 },
+  { city: 'Green Bay', state: 'Wisconsin', stateCode: 'WI', zip: '54301', lat: 44.5133, lon: -88.0133 },
+  { city: 'Peoria', state: 'Illinois', stateCode: 'IL', zip: '61602', lat: 40.6936, lon: -89.5890 },
+  { city: 'Springfield', state: 'Illinois', stateCode: 'IL', zip: '62701', lat: 39.7817, lon: -89.6501 },
+  { city: 'Fort Wayne', state: 'Indiana', stateCode: 'IN', zip: '46802', lat: 41.0793, lon: -85.1394 },
+  { city: 'South Bend', state: 'Indiana', stateCode: 'IN', zip: '46601', lat: 41.6764, lon: -86.2520 },
+  { city: 'Cedar Rapids', state: 'Iowa', stateCode: 'IA', zip: '52401', lat: 41.9779, lon: -91.6656 },
+  { city: 'Springfield', state: 'Missouri', stateCode: 'MO', zip: '65806', lat: 37.2090, lon: -93.2923 },
+  { city: 'Reno', state: 'Nevada', stateCode: 'NV', zip: '89501', lat: 39.5296, lon: -119.8138 },
+  { city: 'Oakland', state: 'California', stateCode: 'CA', zip: '94612', lat: 37.8044, lon: -122.2712 },
+  { city: 'Long Beach', state: 'California', stateCode: 'CA', zip: '90802', lat: 33.7701, lon: -118.1937 },
+  { city: 'Irvine', state: 'California', stateCode: 'CA', zip: '92614', lat: 33.6846, lon: -117.8265 },
+  { city: 'Bakersfield', state: 'California', stateCode: 'CA', zip: '93301', lat: 35.3733, lon: -119.0187 },
+  { city: 'Riverside', state: 'California', stateCode: 'CA', zip: '92501', lat: 33.9806, lon: -117.3755 },
+  { city: 'Eugene', state: 'Oregon', stateCode: 'OR', zip: '97401', lat: 44.0521, lon: -123.0868 },
+  { city: 'Tacoma', state: 'Washington', stateCode: 'WA', zip: '98402', lat: 47.2529, lon: -122.4443 },
+  { city: 'Anchorage', state: 'Alaska', stateCode: 'AK', zip: '99501', lat: 61.2181, lon: -149.9003 },
+  { city: 'Fairbanks', state: 'Alaska', stateCode: 'AK', zip: '99701', lat: 64.8378, lon: -147.7164 },
+  { city: 'Honolulu', state: 'Hawaii', stateCode: 'HI', zip: '96813', lat: 21.3069, lon: -157.8583 }
+];
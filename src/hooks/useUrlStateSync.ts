@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+type HistoryMode = 'push' | 'replace';
+
+interface UrlStateSyncOptions {
+  // Decide whether a state change adds a history entry; defaults to push
+  historyMode?: (previous: URLSearchParams, next: URLSearchParams) => HistoryMode;
+}
+
+/**
+ * Two-way sync between a view's state and the URL query string.
+ *
+ * - `serializedState` is the view's current state as a query string.
+ * - `applyFromUrl` restores state from params; it runs for pasted links and
+ *   back/forward navigation, but not for changes this hook wrote itself.
+ *
+ * A view opened without any params (e.g. from the nav bar) keeps its
+ * current state and writes it to the URL instead of resetting to defaults.
+ */
+export const useUrlStateSync = (
+  serializedState: string,
+  applyFromUrl: (params: URLSearchParams) => void,
+  options: UrlStateSyncOptions = {}
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastSynced = useRef<string | null>(null);
+  const appliedThisRender = useRef(false);
+  const isRestoring = useRef(false);
+  const hasWritten = useRef(false);
+  const currentUrl = searchParams.toString();
+
+  // URL -> state
+  useEffect(() => {
+    if (currentUrl === lastSynced.current) return;
+    const isInitialEmpty = lastSynced.current === null && currentUrl === '';
+    lastSynced.current = currentUrl;
+    if (isInitialEmpty) return;
+
+    applyFromUrl(new URLSearchParams(currentUrl));
+    appliedThisRender.current = true;
+    isRestoring.current = true;
+    // applyFromUrl is intentionally read fresh on each URL change only
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUrl]);
+
+  // State -> URL
+  useEffect(() => {
+    // State read in this render predates the restore above; wait for it
+    if (appliedThisRender.current) return;
+    if (serializedState === lastSynced.current) {
+      isRestoring.current = false;
+      return;
+    }
+
+    // The first write and canonicalizing a restored URL must not add entries
+    const previous = new URLSearchParams(lastSynced.current ?? '');
+    const next = new URLSearchParams(serializedState);
+    const replace = !hasWritten.current || isRestoring.current || options.historyMode?.(previous, next) === 'replace';
+
+    hasWritten.current = true;
+    isRestoring.current = false;
+    lastSynced.current = serializedState;
+    setSearchParams(next, { replace });
+  });
+
+  useEffect(() => {
+    appliedThisRender.current = false;
+  });
+};
+
+/**
+ * Keys whose values differ between two param sets
+ */
+export const changedParamKeys = (a: URLSearchParams, b: URLSearchParams): string[] => {
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  return [...keys].filter(key => a.getAll(key).join('\u0000') !== b.getAll(key).join('\u0000'));
+};
@@ -1,24 +1,139 @@
 import { create } from 'zustand';
 import { 
   Manufacturer, 
+  Project,
   ProjectIntake, 
   SearchFilters, 
+  DistanceOrigin,
+  MatchScore,
+  MatchWeights,
+  DecisionWeights,
+  ManufacturerSearchHit,
+  SavedSearch,
+  ExportProfile,
   VoiceSession, 
+  VoiceTurn,
   Quote, 
+  QuoteRevision,
+  QuoteRevisionTerms,
+  QuoteStatus,
   Conversation, 
   Notification,
   ResponseTemplate,
-  PerformanceMetrics
+  PerformanceMetrics,
+  Rfq,
+  RfqDraft
 } from '../types';
+import { applyDistances, geocodeLocation, MAX_SEARCH_DISTANCE } from '../utils/geo';
+import { defaultMatchWeights, scoreManufacturers } from '../utils/matchScoring';
+import { applyDecisionScores, defaultDecisionWeights } from '../utils/decisionMatrix';
+import { createManufacturerSearchIndex } from '../utils/searchIndex';
+import { matchesSearchFilters } from '../utils/manufacturerFilters';
+import { mergeManufacturers } from '../utils/manufacturerImport';
+import {
+  checkSavedSearchAlerts,
+  findSavedSearchMatches,
+  snapshotMatches
+} from '../utils/savedSearches';
+import {
+  applyQuoteUpdates,
+  createQuoteEvent,
+  expireQuotes,
+  seedQuoteEvents,
+  transitionQuote
+} from '../utils/quoteLifecycle';
+import { reviseQuote, syncLatestRevision } from '../utils/quoteRevisions';
+import { createProject, MAX_SHORTLIST_SIZE, projectNameFromIntake } from '../utils/projects';
+import { fillIntakeSlots, formatVoiceTurn, parseVoiceTranscript } from '../utils/voiceIntake';
+import { createRfqRequests, dueRfqReminders, findRfqTemplates, rfqReminderMessage, rfqRemindersDue } from '../utils/rfq';
+import { persistStore } from './persistence';
+import { useAuthStore } from './authStore';
+import { dataSource } from '../api';
 
-interface AppState {
+// Full-text index over `manufacturers`, kept in sync by setManufacturers
+const searchIndex = createManufacturerSearchIndex();
+
+const textSearchIds = (query: string) => new Set(searchIndex.search(query).map(hit => hit.manufacturerId));
+
+// Manufacturers passing the filters, ordered by full-text relevance when there's a query
+const runSearch = (manufacturers: Manufacturer[], searchFilters: SearchFilters, searchQuery: string) => {
+  let filtered = manufacturers.filter(m => matchesSearchFilters(m, searchFilters));
+  const searchHits: Record<string, ManufacturerSearchHit> = {};
+  if (searchQuery.trim()) {
+    searchIndex.search(searchQuery).forEach(hit => {
+      searchHits[hit.manufacturerId] = hit;
+    });
+    filtered = filtered
+      .filter(m => searchHits[m.id])
+      .sort((a, b) => searchHits[b.id].score - searchHits[a.id].score);
+  }
+  return { filtered, searchHits };
+};
+
+// Name recorded in quote event logs for changes made in this session
+const currentActor = () => {
+  const user = useAuthStore.getState().user;
+  return user ? `${user.firstName} ${user.lastName}`.trim() || user.email : 'Unknown user';
+};
+
+// Sender of messages written on the user's behalf, such as RFQs
+const currentSender = () => ({ id: useAuthStore.getState().user?.id ?? '1', name: currentActor() });
+
+const withoutKey = <T,>(record: Record<string, T>, key: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+
+// Projects with the active one's fields updated
+const updateActiveProject = (projects: Project[], activeProjectId: string | null, updates: Partial<Project>) =>
+  projects.map(project => project.id === activeProjectId ? { ...project, ...updates, updatedAt: new Date() } : project);
+
+// Write-through: actions update local state first, then send the result to
+// the data source. A failed write keeps the local change and tells the user
+// it wasn't saved, since the data source's copy wins on the next load.
+const syncToDataSource = (description: string, write: () => Promise<unknown>) => {
+  write().catch(error => {
+    console.warn(`Failed to sync ${description}:`, error);
+    useAppStore.getState().addNotification({
+      id: `sync-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      userId: currentSender().id,
+      type: 'system',
+      title: 'Change not saved',
+      message: `Couldn't save the ${description}: ${error instanceof Error ? error.message : String(error)}. It will be lost when the app reloads.`,
+      read: false,
+      createdAt: new Date(),
+      priority: 'high',
+    });
+  });
+};
+
+const syncQuotes = (quotes: Quote[]) => quotes.forEach(quote =>
+  syncToDataSource(`quote ${quote.id}`, () => dataSource.quotes.update(quote.id, quote))
+);
+
+// Quotes from the data source or storage, with a log and expiry applied
+const prepareQuotes = (quotes: Quote[]) => expireQuotes(quotes.map(seedQuoteEvents)).quotes;
+
+export interface AppState {
+  // Projects; projectIntake and shortlist mirror the active one (null: all projects)
+  projects: Project[];
+  activeProjectId: string | null;
+  
   // Project and search state
   projectIntake: ProjectIntake | null;
   manufacturers: Manufacturer[];
+  importedManufacturers: Manufacturer[];
+  manufacturerMerges: Record<string, string>; // merged-away id -> surviving id
+  dismissedDuplicates: string[]; // DuplicateCluster ids marked "not duplicates"
   filteredManufacturers: Manufacturer[];
   selectedManufacturer: Manufacturer | null;
   shortlist: Manufacturer[];
   searchFilters: SearchFilters;
+  distanceOrigin: DistanceOrigin | null;
+  matchWeights: MatchWeights;
+  matchScores: Record<string, MatchScore>;
+  searchQuery: string;
+  searchHits: Record<string, ManufacturerSearchHit>;
+  savedSearches: SavedSearch[];
+  exportProfiles: ExportProfile[];
   
   // UI state
   activeTab: 'matches' | 'map';
@@ -32,10 +147,16 @@ interface AppState {
   // Quotes
   quotes: Quote[];
   selectedQuotes: Quote[];
+  revisionPins: Record<string, number>; // quote id -> revision shown in the comparison instead of the latest
+  decisionWeights: DecisionWeights;
+  
+  // Requests for quote
+  rfqs: Rfq[];
   
   // Conversations
   conversations: Conversation[];
   activeConversation: Conversation | null;
+  messageDrafts: Record<string, string>; // conversation id -> unsent composer text
   
   // Notifications
   notifications: Notification[];
@@ -48,13 +169,25 @@ interface AppState {
   performanceMetrics: PerformanceMetrics | null;
   
   // Actions
+  addProject: (project: Project) => void;
+  createProject: (input: Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>> & { name: string }) => Project;
+  updateProject: (projectId: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>) => void;
+  setActiveProject: (projectId: string | null) => void;
+  loadManufacturers: () => Promise<void>;
+  loadQuotes: () => Promise<void>;
+  loadConversations: () => Promise<void>;
   setProjectIntake: (intake: ProjectIntake) => void;
   setManufacturers: (manufacturers: Manufacturer[]) => void;
+  importManufacturers: (manufacturers: Manufacturer[]) => void;
+  mergeDuplicateManufacturers: (merged: Manufacturer, duplicateIds: string[]) => { quotes: number; conversations: number };
+  dismissDuplicateCluster: (clusterId: string) => void;
   setSelectedManufacturer: (manufacturer: Manufacturer | null) => void;
   addToShortlist: (manufacturer: Manufacturer) => void;
   removeFromShortlist: (manufacturerId: string) => void;
   clearShortlist: () => void;
   setSearchFilters: (filters: Partial<SearchFilters>) => void;
+  setDistanceOrigin: (origin: DistanceOrigin | null) => void;
+  setMatchWeights: (weights: Partial<MatchWeights>) => void;
   setActiveTab: (tab: 'matches' | 'map') => void;
   setProfilePanelOpen: (isOpen: boolean) => void;
   setVoiceActive: (isActive: boolean) => void;
@@ -62,16 +195,37 @@ interface AppState {
   startVoiceSession: () => void;
   endVoiceSession: () => void;
   updateVoiceTranscript: (transcript: string) => void;
+  appendVoiceTurn: (turn: VoiceTurn) => void;
   searchManufacturers: (query?: string) => void;
+  // Same results as searchManufacturers, without changing the visible search
+  findManufacturers: (query: string) => Manufacturer[];
+  saveSearch: (search: Omit<SavedSearch, 'id' | 'knownMatches' | 'createdAt' | 'updatedAt'>) => SavedSearch;
+  updateSavedSearch: (savedSearchId: string, updates: Partial<SavedSearch>) => void;
+  deleteSavedSearch: (savedSearchId: string) => void;
+  saveExportProfile: (profile: Omit<ExportProfile, 'id' | 'createdAt' | 'updatedAt'>) => ExportProfile;
+  updateExportProfile: (profileId: string, updates: Partial<ExportProfile>) => void;
+  deleteExportProfile: (profileId: string) => void;
   
   // Quote actions
   addQuote: (quote: Quote) => void;
   updateQuote: (quoteId: string, updates: Partial<Quote>) => void;
+  transitionQuoteStatus: (quoteId: string, status: QuoteStatus, note?: string) => void;
+  expireStaleQuotes: () => Quote[];
+  addQuoteRevision: (quoteId: string, revision: QuoteRevisionTerms & { files: QuoteRevision['files']; receivedAt?: Date }) => void;
+  pinQuoteRevision: (quoteId: string, version: number | null) => void;
+  setDecisionWeights: (weights: Partial<DecisionWeights>) => void;
+  rescoreQuotes: () => void;
   selectQuoteForComparison: (quote: Quote) => void;
   removeQuoteFromComparison: (quoteId: string) => void;
+  setComparisonQuotes: (quoteIds: string[]) => void;
+  
+  // RFQ actions
+  sendRfq: (draft: RfqDraft) => Rfq;
+  sendRfqReminders: () => number;
   
   // Conversation actions
   setActiveConversation: (conversation: Conversation | null) => void;
+  setMessageDraft: (conversationId: string, content: string | null) => void;
   addMessage: (conversationId: string, message: any) => void;
   markConversationAsRead: (conversationId: string) => void;
   
@@ -89,11 +243,11 @@ interface AppState {
   updatePerformanceMetrics: (metrics: PerformanceMetrics) => void;
 }
 
-const defaultFilters: SearchFilters = {
+export const defaultSearchFilters: SearchFilters = {
   capabilities: [],
   materials: [],
   certifications: [],
-  maxDistance: 500,
+  maxDistance: MAX_SEARCH_DISTANCE,
   minMoq: 0,
   maxMoq: 100000,
   maxLeadTime: 365,
@@ -101,13 +255,25 @@ const defaultFilters: SearchFilters = {
 };
 
 export const useAppStore = create<AppState>((set, get) => ({
+  projects: [],
+  activeProjectId: null,
   // Initial state
   projectIntake: null,
   manufacturers: [],
+  importedManufacturers: [],
+  manufacturerMerges: {},
+  dismissedDuplicates: [],
   filteredManufacturers: [],
   selectedManufacturer: null,
   shortlist: [],
-  searchFilters: defaultFilters,
+  searchFilters: defaultSearchFilters,
+  distanceOrigin: null,
+  matchWeights: defaultMatchWeights,
+  matchScores: {},
+  searchQuery: '',
+  searchHits: {},
+  savedSearches: [],
+  exportProfiles: [],
   activeTab: 'matches',
   isProfilePanelOpen: false,
   isVoiceActive: false,
@@ -115,21 +281,184 @@ export const useAppStore = create<AppState>((set, get) => ({
   voiceSession: null,
   quotes: [],
   selectedQuotes: [],
+  revisionPins: {},
+  decisionWeights: defaultDecisionWeights,
+  rfqs: [],
   conversations: [],
   activeConversation: null,
+  messageDrafts: {},
   notifications: [],
   unreadCount: 0,
   responseTemplates: [],
   performanceMetrics: null,
 
   // Actions
-  setProjectIntake: (intake) => set({ projectIntake: intake }),
+  addProject: (project) => {
+    set({ projects: [...get().projects, project] });
+  },
+  
+  createProject: (input) => {
+    const project = createProject(input, currentSender());
+    get().addProject(project);
+    get().setActiveProject(project.id);
+    return project;
+  },
+  
+  updateProject: (projectId, updates) => {
+    set({
+      projects: get().projects.map(project =>
+        project.id === projectId ? { ...project, ...updates, updatedAt: new Date() } : project
+      ),
+    });
+    // Refresh the mirrored intake and shortlist
+    if (projectId === get().activeProjectId && ('intake' in updates || 'shortlist' in updates)) {
+      get().setActiveProject(projectId);
+    }
+    // Quotes are scored against their project's intake
+    if ('intake' in updates) get().rescoreQuotes();
+  },
+  
+  setActiveProject: (projectId) => {
+    const { projects, manufacturers, matchWeights, distanceOrigin } = get();
+    const project = projectId === null ? undefined : projects.find(p => p.id === projectId);
+    if (projectId !== null && !project) return;
+    
+    const intake = project?.intake ?? null;
+    // Current records, with distances from the current origin
+    const byId = new Map(manufacturers.map(m => [m.id, m]));
+    set({
+      activeProjectId: projectId,
+      projectIntake: intake,
+      shortlist: (project?.shortlist ?? []).map(m => byId.get(m.id) ?? m),
+      matchScores: scoreManufacturers(manufacturers, intake, matchWeights),
+    });
+    
+    // A user-chosen origin takes precedence over the project location
+    if (distanceOrigin?.source === 'custom') return;
+    
+    const geocoded = intake?.location ? geocodeLocation(intake.location) : null;
+    get().setDistanceOrigin(geocoded ? { ...geocoded, source: 'project' } : null);
+  },
+  
+  // Loaders fetch from the configured data source; failures reject for the caller to report
+  loadManufacturers: async () => {
+    set({ isLoading: true });
+    try {
+      const manufacturers = await dataSource.manufacturers.list();
+      const { importedManufacturers, manufacturerMerges } = get();
+      get().setManufacturers(
+        mergeManufacturers(manufacturers, importedManufacturers).filter(m => !manufacturerMerges[m.id])
+      );
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+  
+  loadQuotes: async () => {
+    const quotes = await dataSource.quotes.list();
+    set({ quotes: prepareQuotes(quotes) });
+    get().rescoreQuotes();
+    // Comparison picks restored earlier point at the quotes just replaced
+    get().setComparisonQuotes(get().selectedQuotes.map(quote => quote.id));
+  },
+  
+  loadConversations: async () => {
+    const conversations = await dataSource.conversations.list();
+    set({ conversations });
+  },
+  
+  setProjectIntake: (intake) => {
+    // An intake given with no project selected starts a new one
+    const { activeProjectId } = get();
+    if (activeProjectId === null) {
+      get().createProject({ name: projectNameFromIntake(intake), intake });
+    } else {
+      get().updateProject(activeProjectId, { intake });
+    }
+  },
   
   setManufacturers: (manufacturers) => {
+    const { distanceOrigin, projectIntake, matchWeights } = get();
+    const withDistances = applyDistances(manufacturers, distanceOrigin);
+    searchIndex.sync(withDistances);
     set({ 
+      manufacturers: withDistances,
+      filteredManufacturers: withDistances,
+      matchScores: scoreManufacturers(withDistances, projectIntake, matchWeights),
+    });
+    get().searchManufacturers();
+    get().rescoreQuotes();
+    
+    // Refresh saved-search snapshots and alert on new or changed matches
+    const { searches, notifications } = checkSavedSearchAlerts(get().savedSearches, withDistances, textSearchIds, currentSender().id);
+    set({ savedSearches: searches });
+    notifications.forEach(notification => get().addNotification(notification));
+  },
+  
+  importManufacturers: (imported) => {
+    // Imports live on top of the data source and are re-applied after each load
+    const { manufacturers, importedManufacturers } = get();
+    set({ importedManufacturers: mergeManufacturers(importedManufacturers, imported) });
+    get().setManufacturers(mergeManufacturers(manufacturers, imported));
+  },
+  
+  mergeDuplicateManufacturers: (merged, duplicateIds) => {
+    const {
       manufacturers,
-      filteredManufacturers: manufacturers,
+      importedManufacturers,
+      manufacturerMerges,
+      quotes,
+      conversations,
+      rfqs,
+      projects,
+      shortlist,
+      selectedManufacturer,
+      selectedQuotes,
+    } = get();
+    const removed = new Set(duplicateIds.filter(id => id !== merged.id));
+    const reassign = <T extends { manufacturerId: string }>(item: T): T =>
+      removed.has(item.manufacturerId) ? { ...item, manufacturerId: merged.id } : item;
+    const reassignedQuotes = quotes.filter(q => removed.has(q.manufacturerId)).map(reassign);
+    const reassignedConversations = conversations.filter(c => removed.has(c.manufacturerId)).map(reassign);
+    // Shortlists hold the survivor once, in place of any of the duplicates
+    const remapShortlist = (list: Manufacturer[]) => list.some(m => m.id === merged.id || removed.has(m.id))
+      ? [...list.filter(m => m.id !== merged.id && !removed.has(m.id)), merged]
+      : list;
+    
+    // The survivor is stored with imports so the merge outlives reloads
+    set({
+      importedManufacturers: mergeManufacturers(importedManufacturers.filter(m => !removed.has(m.id)), [merged]),
+      manufacturerMerges: {
+        ...manufacturerMerges,
+        ...Object.fromEntries([...removed].map(id => [id, merged.id])),
+      },
+      quotes: quotes.map(reassign),
+      conversations: conversations.map(reassign),
+      rfqs: rfqs.map(rfq => ({ ...rfq, recipients: rfq.recipients.map(reassign) })),
+      // The project's list is the persisted one the mirrored shortlist is rebuilt from
+      projects: projects.map(project => ({ ...project, shortlist: remapShortlist(project.shortlist) })),
+      shortlist: remapShortlist(shortlist),
+      selectedManufacturer: selectedManufacturer && (selectedManufacturer.id === merged.id || removed.has(selectedManufacturer.id))
+        ? merged
+        : selectedManufacturer,
     });
+    get().setManufacturers(
+      manufacturers.filter(m => !removed.has(m.id)).map(m => m.id === merged.id ? merged : m)
+    );
+    get().setComparisonQuotes(selectedQuotes.map(q => q.id));
+    syncQuotes(reassignedQuotes);
+    reassignedConversations.forEach(c => syncToDataSource(`conversation ${c.id}`, () =>
+      dataSource.conversations.update(c.id, { manufacturerId: merged.id })
+    ));
+    
+    return { quotes: reassignedQuotes.length, conversations: reassignedConversations.length };
+  },
+  
+  dismissDuplicateCluster: (clusterId) => {
+    const { dismissedDuplicates } = get();
+    if (!dismissedDuplicates.includes(clusterId)) {
+      set({ dismissedDuplicates: [...dismissedDuplicates, clusterId] });
+    }
   },
   
   setSelectedManufacturer: (manufacturer) => {
@@ -139,19 +468,28 @@ export const useAppStore = create<AppState>((set, get) => ({
     });
   },
   
+  // Shortlists belong to a project; there's none to change in the all-projects view
   addToShortlist: (manufacturer) => {
-    const { shortlist } = get();
-    if (shortlist.length < 5 && !shortlist.find(m => m.id === manufacturer.id)) {
-      set({ shortlist: [...shortlist, manufacturer] });
+    const { shortlist, projects, activeProjectId } = get();
+    if (activeProjectId === null) return;
+    if (shortlist.length < MAX_SHORTLIST_SIZE && !shortlist.find(m => m.id === manufacturer.id)) {
+      const updated = [...shortlist, manufacturer];
+      set({ shortlist: updated, projects: updateActiveProject(projects, activeProjectId, { shortlist: updated }) });
     }
   },
   
   removeFromShortlist: (manufacturerId) => {
-    const { shortlist } = get();
-    set({ shortlist: shortlist.filter(m => m.id !== manufacturerId) });
+    const { shortlist, projects, activeProjectId } = get();
+    if (activeProjectId === null) return;
+    const updated = shortlist.filter(m => m.id !== manufacturerId);
+    set({ shortlist: updated, projects: updateActiveProject(projects, activeProjectId, { shortlist: updated }) });
   },
   
-  clearShortlist: () => set({ shortlist: [] }),
+  clearShortlist: () => {
+    const { projects, activeProjectId } = get();
+    if (activeProjectId === null) return;
+    set({ shortlist: [], projects: updateActiveProject(projects, activeProjectId, { shortlist: [] }) });
+  },
   
   setSearchFilters: (filters) => {
     const { searchFilters } = get();
@@ -160,6 +498,31 @@ export const useAppStore = create<AppState>((set, get) => ({
     get().searchManufacturers();
   },
   
+  setDistanceOrigin: (origin) => {
+    const { manufacturers, selectedManufacturer, shortlist } = get();
+    const withDistances = applyDistances(manufacturers, origin);
+    const byId = new Map(withDistances.map(m => [m.id, m]));
+    
+    set({
+      distanceOrigin: origin,
+      manufacturers: withDistances,
+      selectedManufacturer: selectedManufacturer ? byId.get(selectedManufacturer.id) ?? selectedManufacturer : null,
+      shortlist: shortlist.map(m => byId.get(m.id) ?? m),
+    });
+    get().searchManufacturers();
+    // Distance is a decision criterion
+    get().rescoreQuotes();
+  },
+  
+  setMatchWeights: (weights) => {
+    const { manufacturers, projectIntake, matchWeights } = get();
+    const newWeights = { ...matchWeights, ...weights };
+    set({
+      matchWeights: newWeights,
+      matchScores: scoreManufacturers(manufacturers, projectIntake, newWeights),
+    });
+  },
+  
   setActiveTab: (tab) => set({ activeTab: tab }),
   setProfilePanelOpen: (isOpen) => set({ isProfilePanelOpen: isOpen }),
   setVoiceActive: (isActive) => set({ isVoiceActive: isActive }),
@@ -202,78 +565,166 @@ export const useAppStore = create<AppState>((set, get) => ({
         voiceSession: {
           ...voiceSession,
           transcript,
+          extractedData: fillIntakeSlots(parseVoiceTranscript(transcript)),
         },
       });
     }
   },
   
+  appendVoiceTurn: (turn) => {
+    // Appends to the latest transcript, so turns added from timers don't drop each other
+    const { voiceSession, updateVoiceTranscript } = get();
+    if (voiceSession) updateVoiceTranscript(`${voiceSession.transcript}${formatVoiceTurn(turn)}`);
+  },
+  
   searchManufacturers: (query) => {
+    // Without a query argument, re-run the last one so filter changes keep it
+    const searchQuery = query ?? get().searchQuery;
     const { manufacturers, searchFilters } = get();
-    let filtered = [...manufacturers];
-    
-    // Apply filters
-    if (searchFilters.capabilities.length > 0) {
-      filtered = filtered.filter(m => 
-        searchFilters.capabilities.some(cap => m.capabilities.includes(cap))
-      );
-    }
-    
-    if (searchFilters.materials.length > 0) {
-      filtered = filtered.filter(m => 
-        searchFilters.materials.some(mat => m.materials.includes(mat))
-      );
-    }
-    
-    if (searchFilters.certifications.length > 0) {
-      filtered = filtered.filter(m => 
-        searchFilters.certifications.some(cert => m.certifications.includes(cert))
-      );
-    }
-    
-    filtered = filtered.filter(m => {
-      return (
-        (m.distance || 0) <= searchFilters.maxDistance &&
-        m.moq >= searchFilters.minMoq &&
-        m.moq <= searchFilters.maxMoq &&
-        m.leadTimeDays <= searchFilters.maxLeadTime &&
-        m.rating >= searchFilters.minRating
-      );
+    const { filtered, searchHits } = runSearch(manufacturers, searchFilters, searchQuery);
+    set({ filteredManufacturers: filtered, searchQuery, searchHits });
+  },
+
+  findManufacturers: (query) => {
+    const { manufacturers, searchFilters } = get();
+    return runSearch(manufacturers, searchFilters, query).filtered;
+  },
+  
+  saveSearch: (search) => {
+    const { savedSearches, manufacturers } = get();
+    const now = new Date();
+    const draft: SavedSearch = {
+      ...search,
+      id: `search-${Date.now()}`,
+      knownMatches: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    const saved = { ...draft, knownMatches: snapshotMatches(findSavedSearchMatches(draft, manufacturers, textSearchIds)) };
+    const updated = [...savedSearches, saved];
+    set({ savedSearches: updated });
+    return saved;
+  },
+  
+  updateSavedSearch: (savedSearchId, updates) => {
+    const { savedSearches, manufacturers } = get();
+    const updated = savedSearches.map(search => {
+      if (search.id !== savedSearchId) return search;
+      const next = { ...search, ...updates, updatedAt: new Date() };
+      // Re-baseline so editing a search doesn't alert on its existing matches
+      return { ...next, knownMatches: snapshotMatches(findSavedSearchMatches(next, manufacturers, textSearchIds)) };
     });
-    
-    if (searchFilters.diversityFlag !== undefined) {
-      filtered = filtered.filter(m => m.diversityFlag === searchFilters.diversityFlag);
-    }
-    
-    if (searchFilters.minCapacity !== undefined) {
-      filtered = filtered.filter(m => m.currentCapacity >= searchFilters.minCapacity);
-    }
-    
-    // Text search
-    if (query) {
-      const searchTerm = query.toLowerCase();
-      filtered = filtered.filter(m => 
-        m.name.toLowerCase().includes(searchTerm) ||
-        m.city.toLowerCase().includes(searchTerm) ||
-        m.state.toLowerCase().includes(searchTerm) ||
-        m.capabilities.some(cap => cap.toLowerCase().includes(searchTerm)) ||
-        m.materials.some(mat => mat.toLowerCase().includes(searchTerm))
-      );
-    }
-    
-    set({ filteredManufacturers: filtered });
+    set({ savedSearches: updated });
+  },
+  
+  deleteSavedSearch: (savedSearchId) => {
+    const updated = get().savedSearches.filter(search => search.id !== savedSearchId);
+    set({ savedSearches: updated });
+  },
+  
+  saveExportProfile: (profile) => {
+    const now = new Date();
+    const saved: ExportProfile = { ...profile, id: `export-${Date.now()}`, createdAt: now, updatedAt: now };
+    set({ exportProfiles: [...get().exportProfiles, saved] });
+    return saved;
+  },
+  
+  updateExportProfile: (profileId, updates) => {
+    set({
+      exportProfiles: get().exportProfiles.map(profile =>
+        profile.id === profileId ? { ...profile, ...updates, updatedAt: new Date() } : profile
+      )
+    });
+  },
+  
+  deleteExportProfile: (profileId) => {
+    set({ exportProfiles: get().exportProfiles.filter(profile => profile.id !== profileId) });
   },
   
   // Quote actions
   addQuote: (quote) => {
     const { quotes } = get();
-    set({ quotes: [...quotes, quote] });
+    const created = quote.events?.length
+      ? quote
+      : { ...quote, events: [createQuoteEvent({ type: 'created', actor: currentActor(), to: quote.status })] };
+    set({ quotes: [...quotes, created] });
+    get().rescoreQuotes();
+    syncToDataSource(`quote ${created.id}`, () => dataSource.quotes.create(created));
   },
   
   updateQuote: (quoteId, updates) => {
-    const { quotes } = get();
+    // Status changes go through the lifecycle; a disallowed one throws QuoteTransitionError
+    const { quotes, selectedQuotes } = get();
+    const quote = quotes.find(q => q.id === quoteId);
+    if (!quote) return;
+    const updated = syncLatestRevision(applyQuoteUpdates(quote, updates, currentActor()));
     set({
-      quotes: quotes.map(q => q.id === quoteId ? { ...q, ...updates } : q)
+      quotes: quotes.map(q => q.id === quoteId ? updated : q),
+      // Keep the comparison showing the updated quote
+      selectedQuotes: selectedQuotes.map(q => q.id === quoteId ? updated : q)
     });
+    get().rescoreQuotes();
+    syncQuotes([updated]);
+  },
+  
+  transitionQuoteStatus: (quoteId, status, note) => {
+    const { quotes, selectedQuotes } = get();
+    const quote = quotes.find(q => q.id === quoteId);
+    if (!quote) return;
+    const updated = transitionQuote(quote, status, currentActor(), { note });
+    set({
+      quotes: quotes.map(q => q.id === quoteId ? updated : q),
+      selectedQuotes: selectedQuotes.map(q => q.id === quoteId ? updated : q)
+    });
+    syncQuotes([updated]);
+  },
+  
+  addQuoteRevision: (quoteId, revision) => {
+    const { quotes, selectedQuotes, revisionPins } = get();
+    const quote = quotes.find(q => q.id === quoteId);
+    if (!quote) return;
+    const updated = reviseQuote(quote, revision, currentActor());
+    // A pin chose between the revisions the user had seen; show the new one
+    set({
+      quotes: quotes.map(q => q.id === quoteId ? updated : q),
+      selectedQuotes: selectedQuotes.map(q => q.id === quoteId ? updated : q),
+      revisionPins: withoutKey(revisionPins, quoteId)
+    });
+    get().rescoreQuotes();
+    syncQuotes([updated]);
+  },
+  
+  pinQuoteRevision: (quoteId, version) => {
+    const pins = withoutKey(get().revisionPins, quoteId);
+    set({ revisionPins: version === null ? pins : { ...pins, [quoteId]: version } });
+  },
+  
+  setDecisionWeights: (weights) => {
+    set({ decisionWeights: { ...get().decisionWeights, ...weights } });
+    get().rescoreQuotes();
+  },
+  
+  rescoreQuotes: () => {
+    // Scores are relative to the other quotes for a project, so any change rescores them all
+    const { quotes, selectedQuotes, manufacturers, projects, decisionWeights } = get();
+    const intakes = new Map(projects.map(project => [project.id, project.intake]));
+    const scored = applyDecisionScores(quotes, manufacturers, projectId => intakes.get(projectId) ?? null, decisionWeights);
+    if (scored === quotes) return;
+    const byId = new Map(scored.map(q => [q.id, q]));
+    set({
+      quotes: scored,
+      selectedQuotes: selectedQuotes.map(q => byId.get(q.id) ?? q)
+    });
+  },
+  
+  expireStaleQuotes: () => {
+    const { quotes, expired } = expireQuotes(get().quotes);
+    if (expired.length > 0) {
+      set({ quotes });
+      get().setComparisonQuotes(get().selectedQuotes.map(q => q.id));
+      syncQuotes(expired);
+    }
+    return expired;
   },
   
   selectQuoteForComparison: (quote) => {
@@ -288,8 +739,71 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ selectedQuotes: selectedQuotes.filter(q => q.id !== quoteId) });
   },
   
+  setComparisonQuotes: (quoteIds) => {
+    const { quotes } = get();
+    const selected = quoteIds
+      .map(id => quotes.find(q => q.id === id))
+      .filter((quote): quote is Quote => !!quote)
+      .slice(0, 5);
+    set({ selectedQuotes: selected });
+  },
+  
+  // RFQ actions
+  sendRfq: (draft) => {
+    // Throws when there's no one to send to or no template to write with
+    const { activeProjectId, shortlist, responseTemplates, quotes, conversations, rfqs } = get();
+    if (activeProjectId === null) throw new Error('Choose a project to request quotes for');
+    if (shortlist.length === 0) throw new Error('Shortlist manufacturers before requesting quotes');
+    const { request } = findRfqTemplates(responseTemplates);
+    if (!request) throw new Error('The Initial Quote Request template is missing');
+
+    const created = createRfqRequests({ draft, projectId: activeProjectId, manufacturers: shortlist, template: request, user: currentSender() });
+    set({
+      rfqs: [...rfqs, created.rfq],
+      quotes: [...quotes, ...created.quotes],
+      conversations: [...created.conversations, ...conversations],
+    });
+    get().updateResponseTemplate(request.id, { usageCount: request.usageCount + created.quotes.length });
+    created.quotes.forEach(quote => syncToDataSource(`quote ${quote.id}`, () => dataSource.quotes.create(quote)));
+    created.conversations.forEach(conversation =>
+      syncToDataSource(`conversation ${conversation.id}`, () => dataSource.conversations.create(conversation))
+    );
+    return created.rfq;
+  },
+  
+  sendRfqReminders: () => {
+    const { rfqs, quotes, conversations, manufacturers, responseTemplates } = get();
+    const { followUp } = findRfqTemplates(responseTemplates);
+    const user = currentSender();
+    const now = new Date();
+    const reminders = rfqs.flatMap(rfq => dueRfqReminders(rfq, quotes, conversations, now).map(recipient => ({
+      recipient,
+      message: rfqReminderMessage(rfq, recipient, manufacturers.find(m => m.id === recipient.manufacturerId), followUp, user, now),
+    })));
+    if (reminders.length === 0) return 0;
+
+    const reminded = new Set(reminders.map(({ recipient }) => recipient.quoteId));
+    set({
+      rfqs: rfqs.map(rfq => ({
+        ...rfq,
+        recipients: rfq.recipients.map(recipient => reminded.has(recipient.quoteId)
+          ? { ...recipient, remindersSent: rfqRemindersDue(rfq, now), lastRemindedAt: now }
+          : recipient),
+      })),
+    });
+    reminders.forEach(({ recipient, message }) => get().addMessage(recipient.conversationId, message));
+    return reminders.length;
+  },
+  
   // Conversation actions
   setActiveConversation: (conversation) => set({ activeConversation: conversation }),
+
+  setMessageDraft: (conversationId, content) => {
+    const messageDrafts = { ...get().messageDrafts };
+    if (content === null) delete messageDrafts[conversationId];
+    else messageDrafts[conversationId] = content;
+    set({ messageDrafts });
+  },
   
   addMessage: (conversationId, message) => {
     const { conversations } = get();
@@ -300,6 +814,9 @@ export const useAppStore = create<AppState>((set, get) => ({
           : c
       )
     });
+    syncToDataSource(`message in conversation ${conversationId}`, () =>
+      dataSource.conversations.addMessage(conversationId, message)
+    );
   },
   
   markConversationAsRead: (conversationId) => {
@@ -314,6 +831,9 @@ export const useAppStore = create<AppState>((set, get) => ({
           : c
       )
     });
+    syncToDataSource(`read receipt for conversation ${conversationId}`, () =>
+      dataSource.conversations.markAsRead(conversationId)
+    );
   },
   
   // Notification actions
@@ -367,4 +887,66 @@ export const useAppStore = create<AppState>((set, get) => ({
   
   // Performance actions
   updatePerformanceMetrics: (metrics) => set({ performanceMetrics: metrics }),
-}));
\ No newline at end of file
+}));
+
+/**
+ * User data kept across reloads and shared between tabs. Manufacturers are
+ * reference data reloaded on startup (only imported ones are kept); UI,
+ * search and voice state are per-session (views restore theirs from the URL).
+ * Quotes and conversations belong to the data source and are loaded from it
+ * on every start; they're kept here only for a source that can't keep them
+ * itself, which takes them back through `restore`.
+ */
+export const appStorePersistence = persistStore(useAppStore, {
+  name: 'app',
+  version: 1,
+  partialize: (state) => ({
+    projects: state.projects,
+    activeProjectId: state.activeProjectId,
+    importedManufacturers: state.importedManufacturers,
+    manufacturerMerges: state.manufacturerMerges,
+    dismissedDuplicates: state.dismissedDuplicates,
+    distanceOrigin: state.distanceOrigin,
+    matchWeights: state.matchWeights,
+    savedSearches: state.savedSearches,
+    exportProfiles: state.exportProfiles,
+    ...(dataSource.restore ? { quotes: state.quotes } : {}),
+    revisionPins: state.revisionPins,
+    decisionWeights: state.decisionWeights,
+    rfqs: state.rfqs,
+    ...(dataSource.restore ? { conversations: state.conversations } : {}),
+    notifications: state.notifications,
+    unreadCount: state.unreadCount,
+    responseTemplates: state.responseTemplates,
+  }),
+  dateFields: [
+    'createdAt',
+    'updatedAt',
+    'timestamp',
+    'lastVerifiedAt',
+    'validUntil',
+    'receivedAt',
+    'deadline',
+    'dueDate',
+    'completedAt',
+    'lastRemindedAt',
+    'uploadedAt',
+    'lastMessageAt',
+    'startedAt',
+    'endedAt',
+  ],
+  onApply: (store) => {
+    // Distances, the active project's intake and shortlist, match scores and
+    // comparison picks derive from the restored slice
+    const { distanceOrigin, activeProjectId, selectedQuotes, setDistanceOrigin, setActiveProject, setComparisonQuotes } = store.getState();
+    setDistanceOrigin(distanceOrigin);
+    setActiveProject(activeProjectId);
+    // Quotes without an event log get one; any that lapsed while closed expire
+    store.setState({ quotes: prepareQuotes(store.getState().quotes) });
+    // Writes that follow must find these quotes and conversations in the source
+    const { quotes, conversations } = store.getState();
+    dataSource.restore?.({ quotes, conversations });
+    store.getState().rescoreQuotes();
+    setComparisonQuotes(selectedQuotes.map(quote => quote.id));
+  },
+});
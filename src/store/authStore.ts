@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { User, UserPreferences, DeletedAccount, RegistrationAttempt, DeletionAuditEntry, AuthenticationLog, EmailVerification } from '../types';
+import { persistStore } from './persistence';
 
 interface AuthState {
   user: User | null;
@@ -751,4 +752,35 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       )
     }));
   }
-}));
\ No newline at end of file
+}));
+
+/**
+ * Keeps the signed-in session, preferences and the mock account database
+ * across reloads; signing in or out in one tab applies to every open tab.
+ */
+export const authStorePersistence = persistStore(useAuthStore, {
+  name: 'auth',
+  version: 1,
+  partialize: (state) => ({
+    user: state.user,
+    isAuthenticated: state.isAuthenticated,
+    deletedAccounts: state.deletedAccounts,
+    registrationAttempts: state.registrationAttempts,
+    authenticationLogs: state.authenticationLogs,
+    emailVerifications: state.emailVerifications,
+    registeredEmails: state.registeredEmails,
+  }),
+  dateFields: [
+    'createdAt',
+    'deletedAt',
+    'emailVerificationExpires',
+    'lastLoginAt',
+    'lockedUntil',
+    'passwordResetExpires',
+    'timestamp',
+    'expiresAt',
+    'verifiedAt',
+    'dataRetentionUntil',
+    'attemptedAt',
+  ],
+});
@@ -0,0 +1,274 @@
+import { StoreApi } from 'zustand';
+import { reviveDates } from '../utils/dates';
+
+/**
+ * Store Persistence
+ *
+ * Saves a slice of a Zustand store to IndexedDB and restores it on load.
+ * Each store declares a versioned schema; records written by an older
+ * version are upgraded through the schema's migrations before they are
+ * applied. Records are stored as JSON, so Date fields named in the schema
+ * are revived on the way back in. Saves are broadcast to other open tabs,
+ * which apply the same slice without writing it again.
+ */
+
+const DB_NAME = 'factorylink';
+const DB_VERSION = 1;
+const OBJECT_STORE = 'stores';
+// Uploaded file contents, keyed by file id
+const FILE_STORE = 'files';
+const SAVE_DELAY_MS = 250;
+
+// Each migration accepts whatever shape the previous version stored
+type Migration = (data: never) => unknown;
+
+interface PersistedRecord {
+  version: number;
+  data: string;
+  savedAt: string;
+}
+
+interface BroadcastMessage {
+  sourceId: string;
+  version: number;
+  data: string;
+}
+
+export interface PersistSchema<T, P extends Partial<T> = Partial<T>> {
+  // Record key in IndexedDB and BroadcastChannel suffix
+  name: string;
+  version: number;
+  // The persisted slice; everything else stays in memory only
+  partialize: (state: T) => P;
+  // `migrations[n]` upgrades data written by version n - 1 to version n
+  migrations?: Record<number, Migration>;
+  // Property names holding Dates, revived at any depth
+  dateFields: string[];
+  // Data saved before this store was persisted, treated as version 0
+  legacy?: {
+    load: () => unknown;
+    clear: () => void;
+  };
+  // Re-derive in-memory state after a restored or remote slice is applied
+  onApply?: (store: StoreApi<T>) => void;
+}
+
+export interface StorePersistence {
+  // Resolves once stored data (if any) has been applied; `restored` is
+  // false on first run, when there was nothing to restore
+  hydration: Promise<{ restored: boolean }>;
+  // Write pending changes immediately
+  flush: () => Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        [OBJECT_STORE, FILE_STORE].forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const readRecord = async (key: string): Promise<PersistedRecord | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(OBJECT_STORE, 'readonly').objectStore(OBJECT_STORE).get(key);
+    request.onsuccess = () => resolve(request.result as PersistedRecord | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeRecord = async (key: string, record: PersistedRecord): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OBJECT_STORE, 'readwrite');
+    transaction.objectStore(OBJECT_STORE).put(record, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Keep an uploaded file's contents. Object URLs die with the page, so
+ * records refer to uploads by id and open them through loadStoredFile.
+ */
+export const storeFile = async (fileId: string, contents: Blob): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FILE_STORE, 'readwrite');
+    transaction.objectStore(FILE_STORE).put(contents, fileId);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const loadStoredFile = async (fileId: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE).get(fileId);
+    request.onsuccess = () => resolve(request.result as Blob | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Upgrade data from `fromVersion` to `toVersion`, one step at a time.
+ * Throws when a step has no migration, since guessing would corrupt data.
+ */
+export const migrate = (
+  data: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Record<number, Migration> = {}
+): unknown => {
+  let migrated = data;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const step = migrations[version];
+    if (!step) throw new Error(`No migration to version ${version}`);
+    migrated = step(migrated as never);
+  }
+  return migrated;
+};
+
+/**
+ * Keep only the keys the schema persists, so renamed or dropped fields in
+ * old records can't leak into the store
+ */
+const pickPersistedKeys = <T>(data: unknown, persistedKeys: string[]): Partial<T> => {
+  if (data === null || typeof data !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(data).filter(([key]) => persistedKeys.includes(key))
+  ) as Partial<T>;
+};
+
+/**
+ * Persist a store according to its schema. Saving starts only after
+ * hydration so the initial in-memory defaults never overwrite stored data.
+ */
+export const persistStore = <T, P extends Partial<T>>(
+  store: StoreApi<T>,
+  schema: PersistSchema<T, P>
+): StorePersistence => {
+  const dateFields = new Set(schema.dateFields);
+  const persistedKeys = Object.keys(schema.partialize(store.getState()));
+  const sourceId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const channel = typeof BroadcastChannel === 'undefined'
+    ? null
+    : new BroadcastChannel(`${DB_NAME}.${schema.name}`);
+
+  let isHydrated = false;
+  let isApplyingRemote = false;
+  let lastSaved: string | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const apply = (data: unknown) => {
+    const slice = pickPersistedKeys<T>(reviveDates(data, dateFields), persistedKeys);
+    if (Object.keys(slice).length === 0) return;
+    store.setState(slice);
+    schema.onApply?.(store);
+  };
+
+  const decode = (version: number, data: unknown) =>
+    migrate(data, version, schema.version, schema.migrations);
+
+  const save = async () => {
+    saveTimer = null;
+    const data = JSON.stringify(schema.partialize(store.getState()));
+    if (data === lastSaved) return;
+    lastSaved = data;
+
+    try {
+      await writeRecord(schema.name, { version: schema.version, data, savedAt: new Date().toISOString() });
+      channel?.postMessage({ sourceId, version: schema.version, data } satisfies BroadcastMessage);
+    } catch (error) {
+      console.warn(`Failed to persist ${schema.name}:`, error);
+      lastSaved = null;
+    }
+  };
+
+  const scheduleSave = () => {
+    if (!isHydrated || isApplyingRemote) return;
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(save, SAVE_DELAY_MS);
+  };
+
+  const flush = async () => {
+    if (!isHydrated) return;
+    if (saveTimer) clearTimeout(saveTimer);
+    await save();
+  };
+
+  store.subscribe(scheduleSave);
+
+  channel?.addEventListener('message', (event: MessageEvent<BroadcastMessage>) => {
+    const message = event.data;
+    if (!isHydrated || message.sourceId === sourceId) return;
+
+    try {
+      const data = decode(message.version, JSON.parse(message.data));
+      isApplyingRemote = true;
+      apply(data);
+      // The other tab already stored this; don't write it back
+      lastSaved = JSON.stringify(schema.partialize(store.getState()));
+    } catch (error) {
+      console.warn(`Ignoring ${schema.name} update from another tab:`, error);
+    } finally {
+      isApplyingRemote = false;
+    }
+  });
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => { void flush(); });
+  }
+
+  const hydrate = async (): Promise<{ restored: boolean }> => {
+    let restored = false;
+    try {
+      const record = await readRecord(schema.name);
+      if (record) {
+        if (record.version > schema.version) {
+          throw new Error(`Stored version ${record.version} is newer than ${schema.version}`);
+        }
+        apply(decode(record.version, JSON.parse(record.data)));
+        lastSaved = record.version === schema.version ? record.data : null;
+        restored = true;
+      } else {
+        const legacy = schema.legacy?.load();
+        if (legacy !== undefined && legacy !== null) {
+          apply(decode(0, legacy));
+        }
+      }
+    } catch (error) {
+      // Keep running on in-memory defaults, but never save over a record
+      // this version couldn't read
+      console.warn(`Failed to restore ${schema.name}:`, error);
+      return { restored: false };
+    }
+
+    isHydrated = true;
+    await flush();
+    // Legacy data is only dropped once it's safely in IndexedDB
+    if (!restored && lastSaved !== null) schema.legacy?.clear();
+    return { restored };
+  };
+
+  return { hydration: hydrate(), flush };
+};
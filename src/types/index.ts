@@ -117,6 +117,9 @@ export interface UserPreferences {
   };
 }
 
+// Manufacturer fields the match scoring reads that a record may lack
+export type ScoredManufacturerField = 'moq' | 'leadTimeDays' | 'currentCapacity' | 'historicalPerformance';
+
 export interface Manufacturer {
   // Basic Identification
   id: string;
@@ -175,7 +178,7 @@ export interface Manufacturer {
   sustainabilityScore: number;
   lastVerifiedAt: Date;
   rating: number;
-  distance?: number;
+  distance?: number; // miles from the active DistanceOrigin, computed at runtime
   
   // Additional Information
   photos: string[];
@@ -191,13 +194,26 @@ export interface Manufacturer {
     qualityScore: number;
     communicationRating: number;
   };
+  // Scored fields an import didn't supply; their stored values are placeholders
+  unknownFields?: ScoredManufacturerField[];
 }
 
+export type QuoteStatus =
+  | 'draft'
+  | 'requested'
+  | 'received'
+  | 'under_review'
+  | 'negotiating'
+  | 'accepted'
+  | 'rejected'
+  | 'expired'
+  | 'withdrawn';
+
 export interface Quote {
   id: string;
   manufacturerId: string;
   projectId: string;
-  status: 'pending' | 'received' | 'accepted' | 'rejected' | 'expired';
+  status: QuoteStatus; // change through the lifecycle (utils/quoteLifecycle)
   pricePerUnit?: number;
   totalPrice?: number;
   leadTimeDays?: number;
@@ -208,18 +224,76 @@ export interface Quote {
   createdAt: Date;
   updatedAt: Date;
   extractedData?: ExtractedQuoteData;
-  score?: number;
+  score?: number; // 0-100 decision-matrix score against quotes for the same project
+  priceTiers?: PriceTier[]; // quantity breaks; pricePerUnit is the headline price
+  costItems?: CostLineItem[]; // tooling, setup, freight, tariffs and other charges
+  events?: readonly QuoteEvent[]; // append-only audit log, oldest first
+  revisions?: QuoteRevision[]; // oldest first; the quote's own terms mirror the latest
+}
+
+// Commercial terms that change from one revision of a quote to the next
+export type QuoteRevisionTerms = Pick<
+  Quote,
+  'pricePerUnit' | 'totalPrice' | 'leadTimeDays' | 'moq' | 'validUntil' | 'extractedData' | 'priceTiers' | 'costItems' | 'notes'
+>;
+
+export interface QuoteRevision extends QuoteRevisionTerms {
+  version: number; // 1 for the original quote
+  files: QuoteFile[]; // documents that came with this revision
+  receivedAt: Date;
+}
+
+export interface QuoteFieldChange {
+  field: string;
+  from?: string; // display values; omitted for lists and nested data
+  to?: string;
+}
+
+export interface QuoteEvent {
+  id: string;
+  type: 'created' | 'status_changed' | 'updated' | 'revised';
+  timestamp: Date;
+  actor: string; // user's name, or 'System' for automatic changes such as expiry
+  from?: QuoteStatus;
+  to?: QuoteStatus;
+  changes?: QuoteFieldChange[];
+  revision?: number; // version added by a 'revised' event
+  note?: string;
+}
+
+export interface PriceTier {
+  minQuantity: number;
+  pricePerUnit: number;
+}
+
+export type CostLineItemKind = 'tooling' | 'nre' | 'setup' | 'freight' | 'tariff' | 'other';
+
+export interface CostLineItem {
+  id: string;
+  kind: CostLineItemKind;
+  label: string;
+  amount: number; // dollars, or a percentage when basis is 'percent'
+  basis: 'one-time' | 'per-unit' | 'percent'; // percent of the merchandise subtotal
 }
 
 export interface QuoteFile {
   id: string;
   name: string;
-  url: string;
+  url?: string; // remote files; uploads are kept in IndexedDB under `id`
   type: string;
   size: number;
   uploadedAt: Date;
 }
 
+export type ExtractedQuoteField =
+  | 'pricePerUnit'
+  | 'leadTime'
+  | 'moq'
+  | 'certifications'
+  | 'paymentTerms'
+  | 'shippingTerms'
+  | 'warranty';
+
 export interface ExtractedQuoteData {
   pricePerUnit: number;
   leadTime: number;
@@ -228,11 +302,14 @@ export interface ExtractedQuoteData {
   paymentTerms: string;
   shippingTerms: string;
   warranty: string;
+  confidence?: Partial<Record<ExtractedQuoteField, number>>; // 0-1 from document extraction; 1 once reviewed
+  sourceFile?: string;
 }
 
 export interface Conversation {
   id: string;
   manufacturerId: string;
+  projectId?: string;
   userId: string;
   type: 'email' | 'direct_message' | 'portal' | 'voice';
   subject: string;
@@ -264,6 +341,34 @@ export interface MessageFile {
   size: number;
 }
 
+// Request for quote sent to every shortlisted manufacturer at once
+export interface Rfq {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string;
+  category: string;
+  material: string;
+  quantity: number;
+  targetPrice: number;
+  leadTimeGoal: number; // days
+  certificationRequirements: string[];
+  attachments: MessageFile[]; // specs and drawings sent with the request
+  deadline: Date;
+  recipients: RfqRecipient[];
+  createdAt: Date;
+}
+
+export interface RfqRecipient {
+  manufacturerId: string;
+  quoteId: string;
+  conversationId: string;
+  remindersSent: number;
+  lastRemindedAt?: Date;
+}
+
+export type RfqDraft = Omit<Rfq, 'id' | 'projectId' | 'recipients' | 'createdAt'>;
+
 export interface Notification {
   id: string;
   userId: string;
@@ -285,9 +390,27 @@ export interface VoiceSession {
   startedAt: Date;
   endedAt?: Date;
   duration?: number;
-  extractedData?: any;
+  extractedData?: IntakeSlots;
+}
+
+export interface VoiceTurn {
+  speaker: 'agent' | 'user';
+  text: string;
+}
+
+// Intake fields the voice agent fills from the conversation
+export type IntakeSlot = 'category' | 'material' | 'volume' | 'targetCost' | 'leadTimeGoal' | 'certificationRequirements' | 'location';
+
+export interface SlotFill<T> {
+  value: T;
+  confidence: number; // 0-1
+  snippet: string; // what the user said
 }
 
+export type IntakeSlots = {
+  [K in IntakeSlot]?: SlotFill<NonNullable<ProjectIntake[K]>>;
+};
+
 export interface ProjectIntake {
   userId: string;
   timestamp: Date;
@@ -301,6 +424,37 @@ export interface ProjectIntake {
   location?: string;
 }
 
+export type ProjectStatus = 'planning' | 'sourcing' | 'negotiating' | 'production' | 'completed' | 'on_hold';
+
+export interface ProjectMilestone {
+  id: string;
+  title: string;
+  dueDate: Date;
+  completedAt?: Date;
+}
+
+// A sourcing project; quotes, conversations and RFQs belong to one by projectId
+export interface Project {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  ownerId: string;
+  ownerName: string;
+  budget?: number; // USD for the whole order
+  intake: ProjectIntake | null;
+  shortlist: Manufacturer[];
+  milestones: ProjectMilestone[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DistanceOrigin {
+  label: string;
+  lat: number;
+  lon: number;
+  source: 'project' | 'custom';
+}
+
 export interface SearchFilters {
   capabilities: string[];
   materials: string[];
@@ -310,9 +464,137 @@ export interface SearchFilters {
   maxMoq: number;
   maxLeadTime: number;
   minRating: number;
+  maxRating?: number; // exclusive upper bound
   diversityFlag?: boolean;
   sustainabilityScore?: number;
   minCapacity?: number;
+  maxCapacity?: number; // exclusive upper bound
+}
+
+// Table-only filters applied by ManufacturerDataTable on top of SearchFilters
+export interface FilterState {
+  states: string[];
+  employeeRange: string;
+  revenueRange: string;
+  ratingRange: string;
+  diversityFlag: boolean | null;
+  sustainabilityMin: number;
+  yearEstablishedRange: string;
+}
+
+// 'matchScore' sorts by the computed fit against the project intake
+export type SortKey = keyof Manufacturer | 'matchScore';
+
+export interface SortConfig {
+  key: SortKey | null;
+  direction: 'asc' | 'desc';
+}
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+// Which manufacturers an export covers
+export type ExportScope = 'selected' | 'filtered' | 'all';
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  fields: string[]; // ordered field paths, e.g. 'historicalPerformance.onTimeDelivery'
+  format: ExportFormat;
+  delimiter: string; // CSV only
+  scope: ExportScope;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Optional data table columns; the company column is always shown
+export type ManufacturerTableColumn =
+  | 'match'
+  | 'location'
+  | 'distance'
+  | 'size'
+  | 'revenue'
+  | 'rating'
+  | 'capacity'
+  | 'capabilities'
+  | 'certifications';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // raw query-language text as typed
+  searchText: string; // free-text part of the query
+  searchFilters: SearchFilters;
+  tableFilters: FilterState;
+  sortConfig: SortConfig;
+  hiddenColumns: ManufacturerTableColumn[];
+  alertEnabled: boolean;
+  knownMatches: Record<string, string>; // manufacturer id -> content signature
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SearchHighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHighlight {
+  field: keyof Manufacturer;
+  segments: SearchHighlightSegment[];
+}
+
+export interface ManufacturerSearchHit {
+  manufacturerId: string;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export type MatchCriterion =
+  | 'capability'
+  | 'moq'
+  | 'leadTime'
+  | 'price'
+  | 'certifications'
+  | 'capacity'
+  | 'performance';
+
+export type MatchWeights = Record<MatchCriterion, number>;
+
+export interface MatchScore {
+  manufacturerId: string;
+  total: number; // 0-100 weighted fit
+  breakdown: Record<MatchCriterion, number>; // 0-100 per criterion
+}
+
+export type DecisionCriterion =
+  | 'price'
+  | 'leadTime'
+  | 'moqFit'
+  | 'certifications'
+  | 'rating'
+  | 'onTimeDelivery'
+  | 'sustainability'
+  | 'distance';
+
+export type DecisionWeights = Record<DecisionCriterion, number>;
+
+export interface QuoteDecisionScore {
+  quoteId: string;
+  total: number; // 0-100 weighted score, written back to Quote.score
+  breakdown: Record<DecisionCriterion, number | null>; // 0-100 normalized; null when the data is missing
+}
+
+export interface DuplicatePair {
+  manufacturerIds: [string, string];
+  confidence: number; // 0-100
+  reasons: string[];
+}
+
+export interface DuplicateCluster {
+  id: string; // sorted member ids, stable across recomputes
+  manufacturerIds: string[];
+  confidence: number; // strongest pair in the cluster, 0-100
+  pairs: DuplicatePair[];
 }
 
 export interface ResponseTemplate {
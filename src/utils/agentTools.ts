@@ -0,0 +1,494 @@
+import { Manufacturer, Quote, SearchFilters } from '../types';
+import type { AppState } from '../store/appStore';
+import { capabilities, certifications, materials } from '../data/mockData';
+import { usStateCentroids } from '../data/usLocations';
+import { calculateLandedCost, defaultCostQuantity } from './landedCost';
+import { quoteStatusLabels } from './quoteLifecycle';
+import { fillTemplate, rfqDraftFromIntake, rfqTemplateValues } from './rfq';
+import { MAX_SHORTLIST_SIZE, scopeToProject } from './projects';
+
+/**
+ * Voice Agent Client Tools
+ *
+ * Actions the conversational agent can take in the app. Each tool declares
+ * its parameters, which are checked (and coerced, since spoken arguments
+ * often arrive as strings) before it runs. Tools that change app state
+ * have a `confirm` step: the user sees what is about to happen and allows
+ * or declines it, and the tool then runs with exactly the arguments that
+ * were confirmed. Results are plain sentences for the agent to speak.
+ */
+
+export type AgentToolParamType = 'string' | 'number' | 'boolean' | 'string[]';
+
+export interface AgentToolParam {
+  type: AgentToolParamType;
+  description: string;
+  required?: boolean;
+  enum?: readonly string[]; // case-insensitive; values are normalized to these
+  min?: number;
+  max?: number;
+}
+
+export interface AgentToolContext {
+  getState: () => AppState;
+  navigate: (path: string) => void;
+  userName: string;
+}
+
+type ParamSchema<Args> = { [K in keyof Args]-?: AgentToolParam };
+
+export interface AgentTool<Args = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: ParamSchema<Args>;
+  /**
+   * Present on state-changing tools: the question to put to the user, and
+   * optionally the arguments resolved for it (e.g. "the top three" pinned
+   * to the three manufacturers named in the question)
+   */
+  confirm?: (args: Args, context: AgentToolContext) => { question: string; args?: Args };
+  run: (args: Args, context: AgentToolContext) => string;
+}
+
+/**
+ * A tool call the agent can't make, with the reason suitable for the agent
+ * to relay
+ */
+export class AgentToolError extends Error {
+  toolName: string;
+
+  constructor(toolName: string, message: string) {
+    super(message);
+    this.name = 'AgentToolError';
+    this.toolName = toolName;
+  }
+}
+
+export const appRoutes = ['/projects', '/map', '/database', '/quotes', '/conversations', '/account', '/settings'] as const;
+
+const listOf = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const matchesState = (manufacturer: Manufacturer, state: string) => {
+  const needle = state.trim().toLowerCase();
+  const entry = usStateCentroids.find(s => s.code.toLowerCase() === needle || s.name.toLowerCase() === needle);
+  return manufacturer.state.toLowerCase() === (entry?.name.toLowerCase() ?? needle);
+};
+
+const describeManufacturer = (manufacturer: Manufacturer) =>
+  `${manufacturer.name} (${manufacturer.city}, ${manufacturer.state})`;
+
+/**
+ * Search results, optionally in one state, best project match first.
+ * Only `showInViews` changes the visible search; confirmations must not.
+ */
+const searchRanked = (context: AgentToolContext, query: string, state?: string, showInViews = false) => {
+  const { findManufacturers, searchManufacturers } = context.getState();
+  if (showInViews) searchManufacturers(query);
+  const results = showInViews ? context.getState().filteredManufacturers : findManufacturers(query);
+  const { matchScores } = context.getState();
+  const inState = state ? results.filter(m => matchesState(m, state)) : results;
+  // Stable sort keeps search relevance as the tie-breaker
+  return [...inState].sort((a, b) => (matchScores[b.id]?.total ?? 0) - (matchScores[a.id]?.total ?? 0));
+};
+
+const requireActiveProject = (toolName: string, context: AgentToolContext) => {
+  const { projects, activeProjectId } = context.getState();
+  const project = projects.find(p => p.id === activeProjectId);
+  if (!project) throw new AgentToolError(toolName, 'No project is open. Ask the user to choose one in the project switcher first.');
+  return project;
+};
+
+/**
+ * A quote in the open project (or any, in all-projects mode) by id or by
+ * its manufacturer's name; the newest when a manufacturer has several
+ */
+const findQuote = (toolName: string, context: AgentToolContext, quoteId?: string, manufacturer?: string): Quote => {
+  const { quotes, manufacturers, activeProjectId } = context.getState();
+  const scoped = scopeToProject(quotes, activeProjectId);
+  if (quoteId) {
+    const quote = scoped.find(q => q.id === quoteId);
+    if (!quote) throw new AgentToolError(toolName, `There's no quote ${quoteId} in this project.`);
+    return quote;
+  }
+  const needle = manufacturer?.trim().toLowerCase() ?? '';
+  const ids = new Set(manufacturers.filter(m => m.name.toLowerCase().includes(needle)).map(m => m.id));
+  const [quote] = scoped.filter(q => ids.has(q.manufacturerId)).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  if (!quote) throw new AgentToolError(toolName, `There's no quote from "${manufacturer}" in this project.`);
+  return quote;
+};
+
+const manufacturerName = (context: AgentToolContext, manufacturerId: string) =>
+  context.getState().manufacturers.find(m => m.id === manufacturerId)?.name ?? manufacturerId;
+
+const defineTool = <Args>(tool: AgentTool<Args>) => tool as unknown as AgentTool;
+
+interface SearchArgs {
+  query: string;
+  state?: string;
+  limit?: number;
+}
+
+interface FilterArgs {
+  capabilities?: string[];
+  materials?: string[];
+  certifications?: string[];
+  maxDistance?: number;
+  maxLeadTime?: number;
+  minRating?: number;
+}
+
+interface ShortlistArgs {
+  manufacturerIds?: string[];
+  query?: string;
+  state?: string;
+  count?: number;
+}
+
+interface QuoteArgs {
+  quoteId?: string;
+  manufacturer?: string;
+}
+
+interface NavigateArgs {
+  route: typeof appRoutes[number];
+}
+
+interface DraftArgs {
+  templateId: string;
+  manufacturerId?: string;
+  conversationId?: string;
+}
+
+/**
+ * The manufacturers to shortlist, refusing any that wouldn't fit in the
+ * slots left; a search's count is capped at those slots
+ */
+const resolveShortlist = (args: ShortlistArgs, context: AgentToolContext): Manufacturer[] => {
+  const { manufacturers, shortlist } = context.getState();
+  const slotsLeft = MAX_SHORTLIST_SIZE - shortlist.length;
+  if (slotsLeft <= 0) {
+    throw new AgentToolError('addToShortlist', `The shortlist is full (${MAX_SHORTLIST_SIZE} manufacturers). Remove one first.`);
+  }
+  if (args.manufacturerIds?.length) {
+    const found = args.manufacturerIds.map(id => {
+      const manufacturer = manufacturers.find(m => m.id === id);
+      if (!manufacturer) throw new AgentToolError('addToShortlist', `There's no manufacturer ${id}.`);
+      return manufacturer;
+    });
+    const newCount = found.filter(m => !shortlist.some(s => s.id === m.id)).length;
+    if (newCount > slotsLeft) {
+      throw new AgentToolError('addToShortlist', `Only ${slotsLeft} shortlist slot${slotsLeft === 1 ? ' is' : 's are'} left (max ${MAX_SHORTLIST_SIZE}).`);
+    }
+    return found;
+  }
+  if (!args.query?.trim()) throw new AgentToolError('addToShortlist', 'Give either manufacturerIds or a search query.');
+  const found = searchRanked(context, args.query, args.state).slice(0, Math.min(args.count ?? 1, slotsLeft));
+  if (found.length === 0) {
+    throw new AgentToolError('addToShortlist', `No manufacturers match "${args.query}"${args.state ? ` in ${args.state}` : ''}.`);
+  }
+  return found;
+};
+
+const filterSummary = (args: FilterArgs) => [
+  ...(args.capabilities ?? []),
+  ...(args.materials ?? []),
+  ...(args.certifications ?? []),
+  args.maxDistance !== undefined && `within ${args.maxDistance} miles`,
+  args.maxLeadTime !== undefined && `lead time up to ${args.maxLeadTime} days`,
+  args.minRating !== undefined && `rated ${args.minRating}+`,
+].filter((part): part is string => !!part);
+
+export const agentTools: AgentTool[] = [
+  defineTool<SearchArgs>({
+    name: 'searchManufacturers',
+    description: 'Search manufacturers by keyword, optionally in one US state. Updates the map and database views.',
+    parameters: {
+      query: { type: 'string', description: 'Keywords, e.g. "CNC machining"', required: true },
+      state: { type: 'string', description: 'US state name or two-letter code' },
+      limit: { type: 'number', description: 'How many results to read back (default 5)', min: 1, max: 20 },
+    },
+    run: (args, context) => {
+      const found = searchRanked(context, args.query, args.state, true);
+      if (found.length === 0) return `No manufacturers match "${args.query}"${args.state ? ` in ${args.state}` : ''}.`;
+      const top = found.slice(0, args.limit ?? 5);
+      return `Found ${found.length} manufacturer${found.length === 1 ? '' : 's'}. Top ${top.length}: ${top
+        .map((m, index) => `${index + 1}. ${describeManufacturer(m)} [${m.id}]`)
+        .join('; ')}.`;
+    },
+  }),
+
+  defineTool<FilterArgs>({
+    name: 'setSearchFilters',
+    description: 'Narrow the manufacturer search by capability, material, certification, distance, lead time or rating.',
+    parameters: {
+      capabilities: { type: 'string[]', description: 'Required capabilities', enum: capabilities },
+      materials: { type: 'string[]', description: 'Required materials', enum: materials },
+      certifications: { type: 'string[]', description: 'Required certifications', enum: certifications },
+      maxDistance: { type: 'number', description: 'Miles from the project location', min: 1 },
+      maxLeadTime: { type: 'number', description: 'Longest acceptable lead time in days', min: 1 },
+      minRating: { type: 'number', description: 'Lowest acceptable rating', min: 0, max: 5 },
+    },
+    confirm: (args) => {
+      const summary = filterSummary(args);
+      if (summary.length === 0) throw new AgentToolError('setSearchFilters', 'Give at least one filter.');
+      return { question: `Filter manufacturers to ${listOf(summary)}?` };
+    },
+    run: (args, context) => {
+      const filters: Partial<SearchFilters> = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+      context.getState().setSearchFilters(filters);
+      return `Filters applied: ${listOf(filterSummary(args))}. ${context.getState().filteredManufacturers.length} manufacturers match.`;
+    },
+  }),
+
+  defineTool<ShortlistArgs>({
+    name: 'addToShortlist',
+    description: 'Shortlist manufacturers for the open project, by id or as the top matches for a search, e.g. the top three CNC shops in Michigan.',
+    parameters: {
+      manufacturerIds: { type: 'string[]', description: 'Manufacturer ids from searchManufacturers' },
+      query: { type: 'string', description: 'Search keywords, when not giving ids' },
+      state: { type: 'string', description: 'US state name or two-letter code, with query' },
+      count: { type: 'number', description: 'How many top matches to shortlist, with query (default 1, capped at the free shortlist slots)', min: 1, max: MAX_SHORTLIST_SIZE },
+    },
+    confirm: (args, context) => {
+      const project = requireActiveProject('addToShortlist', context);
+      const found = resolveShortlist(args, context);
+      const slotsLeft = MAX_SHORTLIST_SIZE - context.getState().shortlist.length;
+      const shortfall = args.manufacturerIds?.length || found.length >= (args.count ?? 1)
+        ? ''
+        : found.length === slotsLeft
+          ? `Only ${slotsLeft} shortlist slot${slotsLeft === 1 ? ' is' : 's are'} left. `
+          : `Only ${found.length} match${found.length === 1 ? 'es' : ''}. `;
+      return {
+        question: `${shortfall}Add ${listOf(found.map(describeManufacturer))} to the ${project.name} shortlist?`,
+        args: { manufacturerIds: found.map(m => m.id) },
+      };
+    },
+    run: (args, context) => {
+      const project = requireActiveProject('addToShortlist', context);
+      const found = resolveShortlist(args, context);
+      const before = context.getState().shortlist;
+      found.forEach(context.getState().addToShortlist);
+      // Report what the shortlist holds now, not what was asked for
+      const after = context.getState().shortlist;
+      const isOn = (list: Manufacturer[], m: Manufacturer) => list.some(s => s.id === m.id);
+      const added = found.filter(m => !isOn(before, m) && isOn(after, m));
+      const already = found.filter(m => isOn(before, m)).length;
+      const dropped = found.filter(m => !isOn(after, m));
+      return [
+        added.length > 0 && `Added ${listOf(added.map(m => m.name))} to the ${project.name} shortlist.`,
+        already > 0 && `${already} ${already === 1 ? 'was' : 'were'} already on it.`,
+        dropped.length > 0 && `${listOf(dropped.map(m => m.name))} didn't fit; the shortlist holds at most ${MAX_SHORTLIST_SIZE}.`,
+      ].filter(Boolean).join(' ');
+    },
+  }),
+
+  defineTool<QuoteArgs>({
+    name: 'selectQuoteForComparison',
+    description: 'Add a quote to the side-by-side comparison (up to five), by quote id or manufacturer name.',
+    parameters: {
+      quoteId: { type: 'string', description: 'Quote id' },
+      manufacturer: { type: 'string', description: 'Manufacturer name, when not giving a quote id' },
+    },
+    confirm: (args, context) => {
+      const quote = findQuote('selectQuoteForComparison', context, args.quoteId, args.manufacturer);
+      const { selectedQuotes } = context.getState();
+      if (selectedQuotes.some(q => q.id === quote.id)) {
+        throw new AgentToolError('selectQuoteForComparison', `${manufacturerName(context, quote.manufacturerId)}'s quote is already in the comparison.`);
+      }
+      if (selectedQuotes.length >= 5) throw new AgentToolError('selectQuoteForComparison', 'The comparison already holds five quotes.');
+      return { question: `Add ${manufacturerName(context, quote.manufacturerId)}'s quote to the comparison?`, args: { quoteId: quote.id } };
+    },
+    run: (args, context) => {
+      const quote = findQuote('selectQuoteForComparison', context, args.quoteId, args.manufacturer);
+      context.getState().selectQuoteForComparison(quote);
+      return `Added ${manufacturerName(context, quote.manufacturerId)}'s quote. ${context.getState().selectedQuotes.length} quotes are in the comparison.`;
+    },
+  }),
+
+  defineTool<NavigateArgs>({
+    name: 'navigate',
+    description: 'Open a page of the app.',
+    parameters: {
+      route: { type: 'string', description: 'Page to open', required: true, enum: appRoutes },
+    },
+    run: (args, context) => {
+      context.navigate(args.route);
+      return `Opened ${args.route}.`;
+    },
+  }),
+
+  defineTool<QuoteArgs>({
+    name: 'summarizeQuote',
+    description: 'Read back the terms of a quote: price, MOQ, lead time, status and landed cost at the project volume.',
+    parameters: {
+      quoteId: { type: 'string', description: 'Quote id' },
+      manufacturer: { type: 'string', description: 'Manufacturer name, when not giving a quote id' },
+    },
+    run: (args, context) => {
+      const quote = findQuote('summarizeQuote', context, args.quoteId, args.manufacturer);
+      const intake = context.getState().projects.find(p => p.id === quote.projectId)?.intake;
+      const quantity = defaultCostQuantity(intake?.volume, [quote]);
+      const landed = calculateLandedCost(quote, quantity);
+      return [
+        `${manufacturerName(context, quote.manufacturerId)}'s quote is ${quoteStatusLabels[quote.status].toLowerCase()}. `,
+        quote.pricePerUnit !== undefined ? `$${quote.pricePerUnit.toFixed(2)} per unit` : 'No unit price yet',
+        quote.moq ? `, MOQ ${quote.moq.toLocaleString()}` : '',
+        quote.leadTimeDays ? `, ${quote.leadTimeDays}-day lead time` : '',
+        '.',
+        landed ? ` Landed cost for ${quantity.toLocaleString()} units is $${Math.round(landed.total).toLocaleString()}, $${landed.landedUnitCost.toFixed(2)} a unit.` : '',
+        quote.validUntil ? ` Valid until ${quote.validUntil.toLocaleDateString()}.` : '',
+        quote.score !== undefined ? ` Decision score ${quote.score} of 100.` : '',
+      ].join('');
+    },
+  }),
+
+  defineTool<DraftArgs>({
+    name: 'draftMessage',
+    description: "Draft a message from a response template into a manufacturer's conversation for the user to review and send.",
+    parameters: {
+      templateId: { type: 'string', description: 'Response template id or name', required: true },
+      manufacturerId: { type: 'string', description: 'Manufacturer to write to; uses their conversation in the open project' },
+      conversationId: { type: 'string', description: 'Conversation to draft into, instead of manufacturerId' },
+    },
+    confirm: (args, context) => {
+      const { template, conversation } = resolveDraft(args, context);
+      return {
+        question: `Draft "${template.name}" to ${manufacturerName(context, conversation.manufacturerId)}?`,
+        args: { templateId: template.id, conversationId: conversation.id },
+      };
+    },
+    run: (args, context) => {
+      const { template, conversation } = resolveDraft(args, context);
+      const { manufacturers, projectIntake, setMessageDraft, setActiveConversation } = context.getState();
+      const manufacturer = manufacturers.find(m => m.id === conversation.manufacturerId);
+      const content = fillTemplate(template.content, rfqTemplateValues(rfqDraftFromIntake(projectIntake), manufacturer, context.userName));
+      setMessageDraft(conversation.id, content);
+      setActiveConversation(conversation);
+      context.navigate('/conversations');
+      return `Drafted "${template.name}" to ${manufacturer?.name ?? conversation.manufacturerId}; it's in the message box to review and send.`;
+    },
+  }),
+];
+
+function resolveDraft(args: DraftArgs, context: AgentToolContext) {
+  const { responseTemplates, conversations, activeProjectId } = context.getState();
+  const needle = args.templateId.trim().toLowerCase();
+  const template = responseTemplates.find(t => t.id === args.templateId) ?? responseTemplates.find(t => t.name.toLowerCase() === needle);
+  if (!template) {
+    throw new AgentToolError('draftMessage', `There's no template "${args.templateId}". Templates: ${listOf(responseTemplates.map(t => `${t.name} [${t.id}]`))}.`);
+  }
+  const conversation = args.conversationId
+    ? conversations.find(c => c.id === args.conversationId)
+    : scopeToProject(conversations, activeProjectId)
+        .filter(c => c.manufacturerId === args.manufacturerId)
+        .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime())[0];
+  if (!conversation) {
+    throw new AgentToolError('draftMessage', args.conversationId || args.manufacturerId
+      ? `There's no conversation ${args.conversationId ? args.conversationId : `with ${manufacturerName(context, args.manufacturerId!)}`} in this project.`
+      : 'Give a manufacturerId or conversationId.');
+  }
+  return { template, conversation };
+}
+
+export const findAgentTool = (name: string) => agentTools.find(tool => tool.name === name);
+
+/**
+ * Arguments checked against the tool's parameters: required ones present,
+ * types right (numeric strings and comma-separated lists are accepted),
+ * numbers in range and enum values normalized to their canonical spelling
+ */
+export const validateToolArgs = (tool: AgentTool, raw: unknown): Record<string, unknown> => {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const parameters = tool.parameters as Record<string, AgentToolParam>;
+  const errors: string[] = Object.keys(input)
+    .filter(key => !(key in parameters) && input[key] !== undefined)
+    .map(key => `unknown argument "${key}"`);
+  const args: Record<string, unknown> = {};
+
+  const canonical = (param: AgentToolParam, key: string, value: string) => {
+    if (!param.enum) return value;
+    const match = param.enum.find(option => option.toLowerCase() === value.trim().toLowerCase());
+    if (!match) errors.push(`"${value}" isn't a valid ${key}`);
+    return match ?? value;
+  };
+
+  Object.entries(parameters).forEach(([key, param]) => {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') {
+      if (param.required) errors.push(`"${key}" is required`);
+      return;
+    }
+    switch (param.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+        if (!Number.isFinite(number)) errors.push(`"${key}" must be a number`);
+        else if (param.min !== undefined && number < param.min) errors.push(`"${key}" must be at least ${param.min}`);
+        else if (param.max !== undefined && number > param.max) errors.push(`"${key}" must be at most ${param.max}`);
+        else args[key] = number;
+        return;
+      }
+      case 'boolean':
+        if (typeof value === 'boolean') args[key] = value;
+        else if (value === 'true' || value === 'false') args[key] = value === 'true';
+        else errors.push(`"${key}" must be true or false`);
+        return;
+      case 'string[]': {
+        const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+        if (!list || list.some(item => typeof item !== 'string')) errors.push(`"${key}" must be a list of strings`);
+        else args[key] = (list as string[]).map(item => item.trim()).filter(Boolean).map(item => canonical(param, key, item));
+        return;
+      }
+      default:
+        if (typeof value !== 'string' && typeof value !== 'number') errors.push(`"${key}" must be text`);
+        else args[key] = canonical(param, key, String(value));
+    }
+  });
+
+  if (errors.length > 0) throw new AgentToolError(tool.name, `Invalid arguments for ${tool.name}: ${errors.join('; ')}.`);
+  return args;
+};
+
+export interface PendingToolCall {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  question: string;
+}
+
+export type ToolCallOutcome =
+  | { status: 'done'; result: string }
+  | { status: 'failed'; error: string }
+  | { status: 'needs_confirmation'; call: PendingToolCall };
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * First step of a tool call from the agent: validate it, then either run it
+ * (read-only tools) or return the question to confirm it with the user
+ */
+export const prepareToolCall = (id: string, toolName: string, rawArgs: unknown, context: AgentToolContext): ToolCallOutcome => {
+  const tool = findAgentTool(toolName);
+  if (!tool) return { status: 'failed', error: `Unknown tool "${toolName}". Available: ${agentTools.map(t => t.name).join(', ')}.` };
+  try {
+    const args = validateToolArgs(tool, rawArgs);
+    if (!tool.confirm) return { status: 'done', result: tool.run(args, context) };
+    const { question, args: confirmedArgs } = tool.confirm(args, context);
+    return { status: 'needs_confirmation', call: { id, toolName, args: confirmedArgs ?? args, question } };
+  } catch (error) {
+    return { status: 'failed', error: errorMessage(error) };
+  }
+};
+
+/**
+ * Run a call the user allowed
+ */
+export const runConfirmedToolCall = (call: PendingToolCall, context: AgentToolContext): ToolCallOutcome => {
+  const tool = findAgentTool(call.toolName);
+  if (!tool) return { status: 'failed', error: `Unknown tool "${call.toolName}".` };
+  try {
+    return { status: 'done', result: tool.run(call.args, context) };
+  } catch (error) {
+    return { status: 'failed', error: errorMessage(error) };
+  }
+};
@@ -0,0 +1,25 @@
+import { SearchFilters } from '../types';
+
+export type CapacityLevel = 'all' | 'high' | 'medium' | 'low';
+
+/**
+ * Capacity utilization bands used by the map and data table filters,
+ * expressed as the store's minCapacity/maxCapacity search filters
+ */
+export const capacityBands: Record<CapacityLevel, Pick<SearchFilters, 'minCapacity' | 'maxCapacity'>> = {
+  all: { minCapacity: undefined, maxCapacity: undefined },
+  high: { minCapacity: 80, maxCapacity: undefined },
+  medium: { minCapacity: 50, maxCapacity: 80 },
+  low: { minCapacity: undefined, maxCapacity: 50 }
+};
+
+/**
+ * Resolve the capacity band currently expressed by the search filters
+ */
+export const getCapacityLevel = (filters: Pick<SearchFilters, 'minCapacity' | 'maxCapacity'>): CapacityLevel => {
+  const match = (Object.keys(capacityBands) as CapacityLevel[]).find(level =>
+    capacityBands[level].minCapacity === filters.minCapacity &&
+    capacityBands[level].maxCapacity === filters.maxCapacity
+  );
+  return match ?? 'all';
+};
@@ -0,0 +1,23 @@
+/**
+ * Date helpers for data that crossed a JSON boundary (IndexedDB records,
+ * API responses), where Dates arrive as ISO strings
+ */
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Turn ISO strings under the given property names back into Dates
+ */
+export const reviveDates = (value: unknown, dateFields: ReadonlySet<string>): unknown => {
+  if (Array.isArray(value)) return value.map(item => reviveDates(item, dateFields));
+  if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      dateFields.has(key) && typeof field === 'string' && isoDatePattern.test(field)
+        ? new Date(field)
+        : reviveDates(field, dateFields)
+    ])
+  );
+};
@@ -0,0 +1,211 @@
+import {
+  DecisionCriterion,
+  DecisionWeights,
+  Manufacturer,
+  ProjectIntake,
+  Quote,
+  QuoteDecisionScore
+} from '../types';
+import { calculateLandedCost, defaultCostQuantity } from './landedCost';
+
+/**
+ * Quote Decision Matrix
+ *
+ * Scores quotes on weighted criteria. Each criterion is normalized to 0-1:
+ * relative ones (price, lead time, distance) against the best quote in the
+ * group, absolute ones (ratings, on-time delivery, sustainability) against
+ * their scale, and fit ones (MOQ, certifications) against the project
+ * intake. Missing data scores a neutral 0.5 so it neither helps nor sinks a
+ * quote. The total is the weight-normalized average scaled to 0-100.
+ */
+
+export const defaultDecisionWeights: DecisionWeights = {
+  price: 30,
+  leadTime: 15,
+  moqFit: 10,
+  certifications: 15,
+  rating: 10,
+  onTimeDelivery: 10,
+  sustainability: 5,
+  distance: 5
+};
+
+export const decisionCriterionLabels: Record<DecisionCriterion, string> = {
+  price: 'Landed cost',
+  leadTime: 'Lead time',
+  moqFit: 'MOQ fit',
+  certifications: 'Certifications',
+  rating: 'Manufacturer rating',
+  onTimeDelivery: 'On-time delivery',
+  sustainability: 'Sustainability',
+  distance: 'Distance'
+};
+
+const NEUTRAL_FIT = 0.5;
+
+// Multipliers applied to one weight at a time in the sensitivity view
+export const sensitivityMultipliers = [0, 0.5, 1, 1.5, 2];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Lower-is-better value relative to the best in the group
+ */
+const relativeToBest = (value: number | undefined, best: number) => {
+  if (value === undefined) return null;
+  if (value <= 0) return 1;
+  return clamp01(best / value);
+};
+
+const heldCertifications = (quote: Quote, manufacturer?: Manufacturer) => [
+  ...(quote.extractedData?.certifications ?? []),
+  ...(manufacturer?.certifications ?? []),
+  ...(manufacturer?.qualityCertifications ?? []),
+  ...(manufacturer?.isoCertifications ? [manufacturer.isoCertifications] : [])
+].map(cert => cert.toLowerCase());
+
+export type DecisionFits = Record<string, Record<DecisionCriterion, number | null>>;
+
+/**
+ * Normalized 0-1 fit per criterion for each quote, keyed by quote id
+ */
+export const decisionFits = (
+  quotes: Quote[],
+  manufacturers: Manufacturer[],
+  intake: ProjectIntake | null
+): DecisionFits => {
+  const manufacturersById = new Map(manufacturers.map(m => [m.id, m]));
+  // Price every quote at the same quantity so landed costs compare
+  const quantity = defaultCostQuantity(intake?.volume, quotes);
+  const costs = new Map(quotes.map(quote => [quote.id, calculateLandedCost(quote, quantity)?.landedUnitCost]));
+  const distances = new Map(quotes.map(quote => [quote.id, manufacturersById.get(quote.manufacturerId)?.distance]));
+
+  const minOf = (values: (number | undefined)[]) => {
+    const known = values.filter((value): value is number => value !== undefined);
+    return known.length > 0 ? Math.min(...known) : 0;
+  };
+  const bestCost = minOf([...costs.values()]);
+  const bestLeadTime = minOf(quotes.map(quote => quote.leadTimeDays));
+  const nearest = minOf([...distances.values()]);
+  const required = intake?.certificationRequirements ?? [];
+
+  return Object.fromEntries(quotes.map(quote => {
+    const manufacturer = manufacturersById.get(quote.manufacturerId);
+    const held = heldCertifications(quote, manufacturer);
+    const covered = required.filter(cert => {
+      const needle = cert.toLowerCase();
+      return held.some(h => h.includes(needle) || needle.includes(h));
+    });
+
+    const fit: Record<DecisionCriterion, number | null> = {
+      price: relativeToBest(costs.get(quote.id), bestCost),
+      leadTime: relativeToBest(quote.leadTimeDays, bestLeadTime),
+      moqFit: quote.moq === undefined || !intake?.volume
+        ? null
+        : quote.moq <= intake.volume ? 1 : clamp01(intake.volume / quote.moq),
+      certifications: required.length === 0 ? 1 : covered.length / required.length,
+      rating: manufacturer ? clamp01(manufacturer.rating / 5) : null,
+      onTimeDelivery: manufacturer ? clamp01(manufacturer.historicalPerformance.onTimeDelivery / 100) : null,
+      sustainability: manufacturer ? clamp01(manufacturer.sustainabilityScore / 100) : null,
+      distance: relativeToBest(distances.get(quote.id), nearest)
+    };
+    return [quote.id, fit];
+  }));
+};
+
+const weightedFit = (fit: Record<DecisionCriterion, number | null>, weights: DecisionWeights) => {
+  const criteria = Object.keys(fit) as DecisionCriterion[];
+  const totalWeight = criteria.reduce((sum, criterion) => sum + Math.max(0, weights[criterion]), 0);
+  const weighted = criteria.reduce(
+    (sum, criterion) => sum + Math.max(0, weights[criterion]) * (fit[criterion] ?? NEUTRAL_FIT),
+    0
+  );
+  return totalWeight > 0 ? weighted / totalWeight : 0;
+};
+
+/**
+ * Weighted 0-100 total for one quote's fits
+ */
+export const weightedDecisionScore = (
+  fit: Record<DecisionCriterion, number | null>,
+  weights: DecisionWeights
+): number => Math.round(weightedFit(fit, weights) * 100);
+
+/**
+ * Score quotes against each other, keyed by quote id
+ */
+export const scoreQuoteDecisions = (
+  quotes: Quote[],
+  manufacturers: Manufacturer[],
+  intake: ProjectIntake | null,
+  weights: DecisionWeights = defaultDecisionWeights
+): Record<string, QuoteDecisionScore> => {
+  const fits = decisionFits(quotes, manufacturers, intake);
+  return Object.fromEntries(Object.entries(fits).map(([quoteId, fit]) => [quoteId, {
+    quoteId,
+    total: weightedDecisionScore(fit, weights),
+    breakdown: Object.fromEntries(
+      Object.entries(fit).map(([criterion, value]) => [criterion, value === null ? null : Math.round(value * 100)])
+    ) as Record<DecisionCriterion, number | null>
+  }]));
+};
+
+/**
+ * Quote ids from best to worst
+ */
+export const rankQuoteIds = (fits: DecisionFits, weights: DecisionWeights): string[] =>
+  Object.keys(fits)
+    // Unrounded, so near-ties rank by the actual difference
+    .map(quoteId => ({ quoteId, score: weightedFit(fits[quoteId], weights) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ quoteId }) => quoteId);
+
+export interface SensitivityStep {
+  multiplier: number;
+  weight: number;
+  ranking: string[]; // quote ids, best first
+}
+
+/**
+ * Rankings as each criterion's weight is scaled on its own, holding the
+ * others fixed, keyed by criterion
+ */
+export const sensitivityAnalysis = (
+  fits: DecisionFits,
+  weights: DecisionWeights,
+  multipliers: number[] = sensitivityMultipliers
+): Record<DecisionCriterion, SensitivityStep[]> =>
+  Object.fromEntries((Object.keys(weights) as DecisionCriterion[]).map(criterion => [
+    criterion,
+    multipliers.map(multiplier => {
+      const weight = weights[criterion] * multiplier;
+      return { multiplier, weight, ranking: rankQuoteIds(fits, { ...weights, [criterion]: weight }) };
+    })
+  ])) as Record<DecisionCriterion, SensitivityStep[]>;
+
+/**
+ * Quotes with `score` recomputed against the other priced quotes for the
+ * same project, and that project's intake. Quotes without a price have no
+ * score.
+ */
+export const applyDecisionScores = (
+  quotes: Quote[],
+  manufacturers: Manufacturer[],
+  intakeFor: (projectId: string) => ProjectIntake | null,
+  weights: DecisionWeights
+): Quote[] => {
+  const priced = quotes.filter(quote => quote.pricePerUnit !== undefined);
+  const projectIds = [...new Set(priced.map(quote => quote.projectId))];
+  const scores = new Map(projectIds.flatMap(projectId => Object.values(
+    scoreQuoteDecisions(priced.filter(quote => quote.projectId === projectId), manufacturers, intakeFor(projectId), weights)
+  ).map(score => [score.quoteId, score.total] as const)));
+
+  let changed = false;
+  const updated = quotes.map(quote => {
+    const score = scores.get(quote.id);
+    if (score === quote.score) return quote;
+    changed = true;
+    return { ...quote, score };
+  });
+  return changed ? updated : quotes;
+};
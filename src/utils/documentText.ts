@@ -0,0 +1,70 @@
+import { extractPdfText } from './pdfText';
+import { readZip } from './zip';
+import { readSpreadsheetFile } from './spreadsheet';
+
+/**
+ * Document Text
+ *
+ * Plain text from uploaded quote documents. Table-like content (DOCX
+ * tables, spreadsheet rows) keeps one row per line with cells separated by
+ * tabs, so "Label <tab> value" pairs read like "Label: value" lines.
+ */
+
+export const quoteDocumentAccept = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'text/csv': ['.csv'],
+  'text/plain': ['.txt'],
+};
+
+const children = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+/**
+ * Text of a Word paragraph: runs, tabs and line breaks
+ */
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  paragraph.querySelectorAll('*').forEach(node => {
+    if (node.localName === 't') text += node.textContent ?? '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+};
+
+const blockText = (block: Element): string[] => {
+  if (block.localName === 'p') return [paragraphText(block)];
+  if (block.localName === 'tbl') {
+    return children(block, 'tr').map(row =>
+      children(row, 'tc').map(cell => children(cell, 'p').map(paragraphText).join(' ').trim()).join('\t')
+    );
+  }
+  // Content controls and similar wrappers
+  return Array.from(block.children).flatMap(blockText);
+};
+
+export const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const entry = readZip(buffer).get('word/document.xml');
+  if (!entry) throw new Error('Not a Word document');
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(await entry()), 'application/xml');
+  const body = xml.getElementsByTagNameNS('*', 'body')[0];
+  if (!body) throw new Error('Word document has no body');
+  return Array.from(body.children).flatMap(blockText).join('\n').trim();
+};
+
+/**
+ * Read an uploaded quote document as text; the format is chosen by extension
+ */
+export const readDocumentText = async (file: File): Promise<string> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'pdf') return extractPdfText(await file.arrayBuffer());
+  if (extension === 'docx') return extractDocxText(await file.arrayBuffer());
+  if (extension === 'txt') return file.text();
+  if (extension === 'xlsx' || extension === 'csv' || extension === 'tsv') {
+    const rows = await readSpreadsheetFile(file);
+    return rows.map(row => row.map(cell => cell.trim()).filter(Boolean).join('\t')).filter(Boolean).join('\n');
+  }
+  throw new Error(`Unsupported file type: .${extension ?? ''}`);
+};
@@ -0,0 +1,342 @@
+import { DuplicateCluster, DuplicatePair, Manufacturer } from '../types';
+import { greatCircleDistance } from './geo';
+
+/**
+ * Duplicate Detection
+ *
+ * Finds manufacturer records that likely describe the same company. Pairs
+ * are scored on name similarity, normalized address, shared phone number,
+ * shared website/email domain and geographic proximity; only signals both
+ * records carry count toward the score. Likely pairs are grouped into
+ * clusters (A~B and B~C put A, B and C together).
+ */
+
+const CANDIDATE_THRESHOLD = 60;
+
+// Evidence weights; a missing signal is left out rather than scored as 0
+const signalWeights = {
+  name: 0.4,
+  domain: 0.2,
+  phone: 0.15,
+  address: 0.15,
+  proximity: 0.1,
+};
+
+const legalSuffixes = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'lp', 'ltd', 'limited', 'co', 'corp',
+  'corporation', 'company', 'plc', 'the', 'and',
+]);
+
+const freeEmailDomains = new Set([
+  'gmail.com', 'yahoo.com', 'outlook.com', 'hotmail.com', 'aol.com', 'icloud.com', 'protonmail.com',
+]);
+
+const addressAbbreviations: Record<string, string> = {
+  st: 'street', ave: 'avenue', av: 'avenue', blvd: 'boulevard', rd: 'road', dr: 'drive',
+  ln: 'lane', ct: 'court', pkwy: 'parkway', hwy: 'highway', pl: 'place', ter: 'terrace',
+  n: 'north', s: 'south', e: 'east', w: 'west', ne: 'northeast', nw: 'northwest',
+  se: 'southeast', sw: 'southwest',
+};
+
+export const normalizeCompanyName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !legalSuffixes.has(token))
+    .join(' ');
+
+/**
+ * Street address in canonical form: abbreviations expanded, unit
+ * designators and country dropped
+ */
+export const normalizeAddress = (address: string): string =>
+  address
+    .toLowerCase()
+    .replace(/\b(suite|ste|unit|apt|#)\s*[\w-]+/g, ' ')
+    .replace(/\b(usa|united states)\b/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => addressAbbreviations[token] ?? token)
+    .join(' ');
+
+const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  // Compare US numbers without the country code
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+};
+
+const domainOf = (value: string): string | null => {
+  const host = value.includes('@')
+    ? value.split('@')[1]
+    : value.replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0];
+  const domain = host?.toLowerCase().replace(/^www\./, '').trim();
+  return domain && domain.includes('.') ? domain : null;
+};
+
+const companyDomains = (m: Manufacturer): Set<string> =>
+  new Set(
+    [m.website, m.email, m.contactEmail]
+      .map(value => value ? domainOf(value) : null)
+      .filter((domain): domain is string => !!domain && !freeEmailDomains.has(domain))
+  );
+
+/**
+ * Jaro-Winkler similarity, 0-1
+ */
+const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Name similarity, 0-1: the better of whole-string Jaro-Winkler and the
+ * same comparison on alphabetized tokens (so word order doesn't matter)
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  const sorted = (name: string) => name.split(' ').sort().join(' ');
+  return Math.max(jaroWinkler(left, right), jaroWinkler(sorted(left), sorted(right)));
+};
+
+const proximitySignal = (miles: number) => {
+  if (miles <= 0.5) return 1;
+  if (miles <= 5) return 0.6;
+  if (miles <= 25) return 0.2;
+  return 0;
+};
+
+/**
+ * Score how likely two records are the same company
+ */
+export const compareManufacturers = (a: Manufacturer, b: Manufacturer): DuplicatePair => {
+  const signals: { weight: number; value: number }[] = [];
+  const reasons: string[] = [];
+
+  const name = nameSimilarity(a.name, b.name);
+  signals.push({ weight: signalWeights.name, value: name });
+  if (name >= 0.85) reasons.push(name === 1 ? 'Same name' : `Similar name (${Math.round(name * 100)}%)`);
+
+  const domainsA = companyDomains(a);
+  const domainsB = companyDomains(b);
+  if (domainsA.size > 0 && domainsB.size > 0) {
+    const shared = [...domainsA].find(domain => domainsB.has(domain));
+    signals.push({ weight: signalWeights.domain, value: shared ? 1 : 0 });
+    if (shared) reasons.push(`Same domain (${shared})`);
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  if (phoneA.length >= 7 && phoneB.length >= 7) {
+    signals.push({ weight: signalWeights.phone, value: phoneA === phoneB ? 1 : 0 });
+    if (phoneA === phoneB) reasons.push('Same phone');
+  }
+
+  const addressA = normalizeAddress(a.headquartersAddress);
+  const addressB = normalizeAddress(b.headquartersAddress);
+  if (addressA && addressB) {
+    const value = addressA === addressB ? 1 : jaroWinkler(addressA, addressB) >= 0.92 ? 0.7 : 0;
+    signals.push({ weight: signalWeights.address, value });
+    if (value === 1) reasons.push('Same address');
+    else if (value > 0) reasons.push('Similar address');
+  }
+
+  if ((a.lat || a.lon) && (b.lat || b.lon)) {
+    const miles = greatCircleDistance({ lat: a.lat, lon: a.lon }, { lat: b.lat, lon: b.lon });
+    const value = proximitySignal(miles);
+    signals.push({ weight: signalWeights.proximity, value });
+    if (value >= 0.6) reasons.push(miles < 0.1 ? 'Same location' : `${miles.toFixed(1)} mi apart`);
+  }
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  let confidence = signals.reduce((sum, signal) => sum + signal.weight * signal.value, 0) / totalWeight;
+
+  // A shared phone or domain is strong evidence even when names diverge
+  // (rebrands, DBAs); unrelated names with no shared identifier are not
+  const sharesIdentifier = reasons.some(reason => reason.startsWith('Same domain') || reason === 'Same phone');
+  if (sharesIdentifier) confidence = Math.max(confidence, 0.5 + name * 0.4);
+  else if (name < 0.75) confidence = Math.min(confidence, 0.5);
+
+  return {
+    manufacturerIds: [a.id, b.id],
+    confidence: Math.round(confidence * 100),
+    reasons,
+  };
+};
+
+/**
+ * Keys that put two records in the same comparison bucket, so only
+ * plausible pairs are scored instead of every pair
+ */
+const blockingKeys = (m: Manufacturer): string[] => {
+  const keys = normalizeCompanyName(m.name)
+    .split(' ')
+    .filter(token => token.length >= 3)
+    .map(token => `name:${token.slice(0, 5)}`);
+  const phone = normalizePhone(m.phone);
+  if (phone.length >= 7) keys.push(`phone:${phone}`);
+  companyDomains(m).forEach(domain => keys.push(`domain:${domain}`));
+  if (m.lat || m.lon) keys.push(`geo:${m.lat.toFixed(1)},${m.lon.toFixed(1)}`);
+  return keys;
+};
+
+/**
+ * Group likely duplicates into clusters, strongest first. Clusters listed
+ * in `dismissed` (by id) are left out.
+ */
+export const findDuplicateClusters = (
+  manufacturers: Manufacturer[],
+  dismissed: string[] = []
+): DuplicateCluster[] => {
+  const buckets = new Map<string, number[]>();
+  manufacturers.forEach((m, index) => {
+    blockingKeys(m).forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    });
+  });
+
+  const compared = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+        const pair = compareManufacturers(manufacturers[bucket[i]], manufacturers[bucket[j]]);
+        if (pair.confidence >= CANDIDATE_THRESHOLD) pairs.push(pair);
+      }
+    }
+  });
+
+  // Union-find over candidate pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  pairs.forEach(({ manufacturerIds: [a, b] }) => parent.set(find(a), find(b)));
+
+  const groups = new Map<string, DuplicatePair[]>();
+  pairs.forEach(pair => {
+    const root = find(pair.manufacturerIds[0]);
+    groups.set(root, [...(groups.get(root) ?? []), pair]);
+  });
+
+  const dismissedIds = new Set(dismissed);
+  return [...groups.values()]
+    .map(groupPairs => {
+      const manufacturerIds = [...new Set(groupPairs.flatMap(pair => pair.manufacturerIds))].sort();
+      return {
+        id: manufacturerIds.join('+'),
+        manufacturerIds,
+        confidence: Math.max(...groupPairs.map(pair => pair.confidence)),
+        pairs: groupPairs.sort((a, b) => b.confidence - a.confidence),
+      };
+    })
+    .filter(cluster => !dismissedIds.has(cluster.id))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Where a merged field's value comes from: a source record's id, or
+ * `combine` for list fields (union of every record's items)
+ */
+export type MergeChoice = string | 'combine';
+
+export type MergeChoices = Partial<Record<keyof Manufacturer, MergeChoice>>;
+
+// Identity stays with the survivor; distance is computed at runtime
+const fixedFields = new Set<keyof Manufacturer>(['id', 'manufacturerID', 'distance']);
+
+/**
+ * Fields whose values differ between the records, i.e. those that need a
+ * choice
+ */
+export const conflictingFields = (records: Manufacturer[]): (keyof Manufacturer)[] => {
+  const fields = Object.keys(records[0]) as (keyof Manufacturer)[];
+  return fields.filter(field =>
+    !fixedFields.has(field) &&
+    new Set(records.map(record => JSON.stringify(record[field]))).size > 1
+  );
+};
+
+/**
+ * Default choices: the survivor's value unless it's empty, in which case
+ * the first record that has one; list fields are combined
+ */
+export const defaultMergeChoices = (records: Manufacturer[], survivorId: string): MergeChoices => {
+  const survivor = records.find(record => record.id === survivorId) ?? records[0];
+  const isEmpty = (value: unknown) =>
+    value === null || value === undefined || value === '' || value === 0 || (Array.isArray(value) && value.length === 0);
+
+  return Object.fromEntries(
+    conflictingFields(records).map(field => {
+      if (Array.isArray(survivor[field])) return [field, 'combine'];
+      const source = isEmpty(survivor[field]) ? records.find(record => !isEmpty(record[field])) ?? survivor : survivor;
+      return [field, source.id];
+    })
+  );
+};
+
+/**
+ * Build the surviving record. It keeps the survivor's `id` and
+ * `manufacturerID` so existing references to it stay valid.
+ */
+export const buildMergedManufacturer = (
+  records: Manufacturer[],
+  survivorId: string,
+  choices: MergeChoices
+): Manufacturer => {
+  const survivor = records.find(record => record.id === survivorId) ?? records[0];
+  const merged: Manufacturer = { ...survivor };
+
+  (Object.entries(choices) as [keyof Manufacturer, MergeChoice][]).forEach(([field, choice]) => {
+    if (choice === 'combine') {
+      const items = records.flatMap(record => (Array.isArray(record[field]) ? record[field] : []) as string[]);
+      Object.assign(merged, { [field]: [...new Set(items)] });
+      return;
+    }
+    const source = records.find(record => record.id === choice);
+    if (source) Object.assign(merged, { [field]: source[field] });
+  });
+
+  return { ...merged, id: survivor.id, manufacturerID: survivor.manufacturerID };
+};
@@ -0,0 +1,131 @@
+import { Manufacturer } from '../types';
+import { usCityCentroids, usStateCentroids, CityCentroid } from '../data/usLocations';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  label: string;
+}
+
+// Mean Earth radius in statute miles
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Larger than any distance between two US locations; used as "any distance"
+export const MAX_SEARCH_DISTANCE = 6000;
+
+/**
+ * Max distance choices offered by the map and data table filters
+ */
+export const distanceFilterOptions = [
+  { value: MAX_SEARCH_DISTANCE, label: 'Any distance' },
+  { value: 100, label: 'Within 100 mi' },
+  { value: 250, label: 'Within 250 mi' },
+  { value: 500, label: 'Within 500 mi' },
+  { value: 1000, label: 'Within 1,000 mi' },
+  { value: 2500, label: 'Within 2,500 mi' }
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in miles (haversine formula)
+ */
+export const greatCircleDistance = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Return manufacturers with `distance` computed from the origin,
+ * rounded to whole miles. Without an origin, distances are cleared.
+ */
+export const applyDistances = (manufacturers: Manufacturer[], origin: GeoPoint | null): Manufacturer[] => {
+  return manufacturers.map(m => ({
+    ...m,
+    distance: origin ? Math.round(greatCircleDistance(origin, m)) : undefined
+  }));
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+
+const cityLabel = (entry: CityCentroid) => `${entry.city}, ${entry.stateCode}`;
+
+/**
+ * Resolve a state given its two-letter code or full name
+ */
+const findState = (value: string) => {
+  const needle = normalize(value);
+  return usStateCentroids.find(s => s.code.toLowerCase() === needle || s.name.toLowerCase() === needle);
+};
+
+/**
+ * Resolve a 5-digit ZIP code against the bundled table, falling back to the
+ * numerically closest entry in the same 3-digit prefix
+ */
+const geocodeZip = (zip: string): GeocodeResult | null => {
+  const exact = usCityCentroids.find(c => c.zip === zip);
+  if (exact) return { label: `${cityLabel(exact)} ${zip}`, lat: exact.lat, lon: exact.lon };
+
+  const prefixMatches = usCityCentroids.filter(c => c.zip.slice(0, 3) === zip.slice(0, 3));
+  if (prefixMatches.length === 0) return null;
+
+  const target = parseInt(zip, 10);
+  const closest = prefixMatches.reduce((best, c) =>
+    Math.abs(parseInt(c.zip, 10) - target) < Math.abs(parseInt(best.zip, 10) - target) ? c : best
+  );
+  return { label: `${cityLabel(closest)} (near ${zip})`, lat: closest.lat, lon: closest.lon };
+};
+
+/**
+ * Geocode a free-form US location using only bundled data.
+ *
+ * Accepts ZIP codes ("94103", "94103-1234"), "City, ST", "City, State",
+ * a bare city or state name, or a "lat, lon" pair. Returns null when the
+ * location cannot be resolved.
+ */
+export const geocodeLocation = (query: string): GeocodeResult | null => {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+
+  // ZIP or ZIP+4
+  const zipMatch = trimmed.match(/^(\d{5})(?:-\d{4})?$/);
+  if (zipMatch) return geocodeZip(zipMatch[1]);
+
+  // Raw coordinates
+  const coordMatch = trimmed.match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (coordMatch) {
+    const lat = parseFloat(coordMatch[1]);
+    const lon = parseFloat(coordMatch[2]);
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+    return { label: `${lat.toFixed(4)}, ${lon.toFixed(4)}`, lat, lon };
+  }
+
+  // "City, ST" / "City, State" with an optional trailing ZIP
+  const [cityPart, statePart] = trimmed.replace(/\s+\d{5}(?:-\d{4})?$/, '').split(',').map(p => p.trim());
+  const city = normalize(cityPart);
+
+  if (statePart) {
+    const state = findState(statePart);
+    if (state) {
+      const entry = usCityCentroids.find(c => normalize(c.city) === city && c.stateCode === state.code);
+      if (entry) return { label: cityLabel(entry), lat: entry.lat, lon: entry.lon };
+      // Unknown city in a known state: approximate with the state centroid
+      return { label: state.name, lat: state.lat, lon: state.lon };
+    }
+  }
+
+  const cityEntry = usCityCentroids.find(c => normalize(c.city) === city);
+  if (cityEntry) return { label: cityLabel(cityEntry), lat: cityEntry.lat, lon: cityEntry.lon };
+
+  const state = findState(statePart ?? cityPart);
+  if (state) return { label: state.name, lat: state.lat, lon: state.lon };
+
+  return null;
+};
@@ -0,0 +1,78 @@
+import { CostLineItem, CostLineItemKind, Quote } from '../types';
+
+/**
+ * Landed Cost
+ *
+ * True cost of buying a quantity from a quote: the tier price for that
+ * quantity plus one-time charges (tooling, NRE, setup), per-unit extras
+ * (freight) and percentage charges (tariffs on the merchandise value).
+ * When the MOQ is above the quantity needed, the MOQ is what gets bought,
+ * and the whole spend is spread over the units actually needed.
+ */
+
+export const costItemKindLabels: Record<CostLineItemKind, string> = {
+  tooling: 'Tooling',
+  nre: 'NRE',
+  setup: 'Setup',
+  freight: 'Freight',
+  tariff: 'Tariffs & Duties',
+  other: 'Other',
+};
+
+export interface LandedCost {
+  quantity: number; // units needed
+  orderQuantity: number; // units bought, at least the MOQ
+  unitPrice: number; // tier price at the order quantity
+  merchandise: number;
+  charges: Record<CostLineItemKind, number>;
+  total: number;
+  landedUnitCost: number; // total / units needed
+}
+
+/**
+ * Tier price for a quantity: the highest break at or below it. Quantities
+ * below the first break pay the first break's price.
+ */
+export const unitPriceAt = (quote: Quote, quantity: number): number | undefined => {
+  const tiers = [...(quote.priceTiers ?? [])].sort((a, b) => a.minQuantity - b.minQuantity);
+  if (tiers.length === 0) return quote.pricePerUnit;
+  return [...tiers].reverse().find(tier => tier.minQuantity <= quantity)?.pricePerUnit ?? tiers[0].pricePerUnit;
+};
+
+const chargeFor = (item: CostLineItem, orderQuantity: number, merchandise: number) => {
+  switch (item.basis) {
+    case 'per-unit':
+      return item.amount * orderQuantity;
+    case 'percent':
+      return (item.amount / 100) * merchandise;
+    default:
+      return item.amount;
+  }
+};
+
+/**
+ * Landed cost of `quantity` units; undefined while the quote has no price
+ */
+export const calculateLandedCost = (quote: Quote, quantity: number): LandedCost | undefined => {
+  if (!(quantity > 0)) return undefined;
+  const orderQuantity = Math.max(quantity, quote.moq ?? 0);
+  const unitPrice = unitPriceAt(quote, orderQuantity);
+  if (unitPrice === undefined) return undefined;
+
+  const merchandise = unitPrice * orderQuantity;
+  const charges = Object.fromEntries(
+    (Object.keys(costItemKindLabels) as CostLineItemKind[]).map(kind => [kind, 0])
+  ) as Record<CostLineItemKind, number>;
+  (quote.costItems ?? []).forEach(item => {
+    charges[item.kind] += chargeFor(item, orderQuantity, merchandise);
+  });
+
+  const total = merchandise + Object.values(charges).reduce((sum, charge) => sum + charge, 0);
+  return { quantity, orderQuantity, unitPrice, merchandise, charges, total, landedUnitCost: total / quantity };
+};
+
+/**
+ * Quantity to price quotes at: the project volume, else the quote's MOQ
+ */
+export const defaultCostQuantity = (volume: number | undefined, quotes: Quote[]): number =>
+  volume && volume > 0 ? volume : Math.max(1, ...quotes.map(quote => quote.moq ?? 0));
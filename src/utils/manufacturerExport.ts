@@ -0,0 +1,167 @@
+import { ExportFormat, Manufacturer } from '../types';
+import { toCsv } from './spreadsheet';
+import { writeXlsx, XlsxCell } from './xlsx';
+
+/**
+ * Manufacturer Export
+ *
+ * Turns manufacturers into CSV, JSON or XLSX files with a chosen, ordered
+ * set of fields. Fields are addressed by path so nested values such as
+ * `historicalPerformance.onTimeDelivery` can be picked individually.
+ */
+
+export interface ExportFieldSpec {
+  path: string;
+  label: string;
+  group: string;
+}
+
+export const exportFieldSpecs: ExportFieldSpec[] = [
+  { path: 'id', label: 'Record ID', group: 'Identification' },
+  { path: 'manufacturerID', label: 'Manufacturer ID', group: 'Identification' },
+  { path: 'name', label: 'Name', group: 'Identification' },
+  { path: 'headquartersAddress', label: 'HQ Address', group: 'Location' },
+  { path: 'city', label: 'City', group: 'Location' },
+  { path: 'state', label: 'State', group: 'Location' },
+  { path: 'lat', label: 'Latitude', group: 'Location' },
+  { path: 'lon', label: 'Longitude', group: 'Location' },
+  { path: 'distance', label: 'Distance (mi)', group: 'Location' },
+  { path: 'naicsCode', label: 'NAICS Code', group: 'Industry' },
+  { path: 'sicCode', label: 'SIC Code', group: 'Industry' },
+  { path: 'industryKeywords', label: 'Industry', group: 'Industry' },
+  { path: 'primaryApplications', label: 'Primary Applications', group: 'Industry' },
+  { path: 'yearEstablished', label: 'Founded', group: 'Company' },
+  { path: 'numberOfEmployees', label: 'Employees', group: 'Company' },
+  { path: 'annualRevenue', label: 'Revenue', group: 'Company' },
+  { path: 'website', label: 'Website', group: 'Company' },
+  { path: 'phone', label: 'Phone', group: 'Company' },
+  { path: 'email', label: 'Email', group: 'Company' },
+  { path: 'ownershipType', label: 'Ownership Type', group: 'Company' },
+  { path: 'parentCompany', label: 'Parent Company', group: 'Company' },
+  { path: 'numberOfBranches', label: 'Branches', group: 'Company' },
+  { path: 'contactPerson', label: 'Contact Person', group: 'Company' },
+  { path: 'contactEmail', label: 'Contact Email', group: 'Company' },
+  { path: 'description', label: 'Description', group: 'Company' },
+  { path: 'factoryName', label: 'Factory Name', group: 'Factory' },
+  { path: 'factoryAddress', label: 'Factory Address', group: 'Factory' },
+  { path: 'factoryFloorArea', label: 'Floor Area', group: 'Factory' },
+  { path: 'productionCapacity', label: 'Production Capacity', group: 'Factory' },
+  { path: 'currentCapacity', label: 'Capacity', group: 'Factory' },
+  { path: 'maxCapacity', label: 'Max Capacity', group: 'Factory' },
+  { path: 'workforceSkills', label: 'Workforce Skills', group: 'Factory' },
+  { path: 'safetyIncidentCount', label: 'Safety Incidents', group: 'Factory' },
+  { path: 'capabilities', label: 'Capabilities', group: 'Capabilities' },
+  { path: 'materials', label: 'Materials', group: 'Capabilities' },
+  { path: 'equipment', label: 'Equipment', group: 'Capabilities' },
+  { path: 'specializations', label: 'Specializations', group: 'Capabilities' },
+  { path: 'keyProducts', label: 'Key Products', group: 'Capabilities' },
+  { path: 'rawMaterialSources', label: 'Raw Material Sources', group: 'Capabilities' },
+  { path: 'certifications', label: 'Certifications', group: 'Certifications' },
+  { path: 'qualityCertifications', label: 'Quality Certifications', group: 'Certifications' },
+  { path: 'isoCertifications', label: 'ISO Certifications', group: 'Certifications' },
+  { path: 'environmentalPermits', label: 'Environmental Permits', group: 'Certifications' },
+  { path: 'diversityFlag', label: 'Diversity Certified', group: 'Certifications' },
+  { path: 'moq', label: 'MOQ', group: 'Business Metrics' },
+  { path: 'leadTimeDays', label: 'Lead Time', group: 'Business Metrics' },
+  { path: 'typicalPriceRange', label: 'Price Range', group: 'Business Metrics' },
+  { path: 'rating', label: 'Rating', group: 'Business Metrics' },
+  { path: 'sustainabilityScore', label: 'Sustainability', group: 'Business Metrics' },
+  { path: 'lastVerifiedAt', label: 'Last Verified', group: 'Business Metrics' },
+  { path: 'historicalPerformance.onTimeDelivery', label: 'On-Time Delivery', group: 'Historical Performance' },
+  { path: 'historicalPerformance.qualityScore', label: 'Quality Score', group: 'Historical Performance' },
+  { path: 'historicalPerformance.communicationRating', label: 'Communication Rating', group: 'Historical Performance' },
+  { path: 'photos', label: 'Photos', group: 'Additional' },
+];
+
+const specsByPath = new Map(exportFieldSpecs.map(spec => [spec.path, spec]));
+
+export const exportFieldLabel = (path: string) => specsByPath.get(path)?.label ?? path;
+
+// The columns the table exported before fields were configurable
+export const defaultExportFields = [
+  'name', 'city', 'state', 'industryKeywords', 'numberOfEmployees', 'annualRevenue',
+  'rating', 'moq', 'leadTimeDays', 'currentCapacity', 'sustainabilityScore',
+  'yearEstablished', 'capabilities', 'materials', 'certifications'
+];
+
+export const exportDelimiters = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+export const exportFormats: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+  { value: 'xlsx', label: 'Excel (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+];
+
+const getFieldValue = (manufacturer: Manufacturer, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    manufacturer
+  );
+
+/**
+ * Flatten a value into a single spreadsheet cell; list items are joined
+ * with "; " as in the table's original export
+ */
+const toCell = (value: unknown): XlsxCell => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as XlsxCell;
+};
+
+/**
+ * Header row plus one row per manufacturer, in field order
+ */
+export const buildExportRows = (manufacturers: Manufacturer[], fields: string[]): XlsxCell[][] => [
+  fields.map(exportFieldLabel),
+  ...manufacturers.map(manufacturer => fields.map(path => toCell(getFieldValue(manufacturer, path)))),
+];
+
+/**
+ * JSON keeps nesting and list values: picking only
+ * `historicalPerformance.qualityScore` yields `{ historicalPerformance: { qualityScore } }`
+ */
+export const buildExportJson = (manufacturers: Manufacturer[], fields: string[]): string =>
+  JSON.stringify(
+    manufacturers.map(manufacturer => {
+      const record: Record<string, unknown> = {};
+      fields.forEach(path => {
+        const keys = path.split('.');
+        const parent = keys.slice(0, -1).reduce<Record<string, unknown>>((target, key) => {
+          target[key] = target[key] ?? {};
+          return target[key] as Record<string, unknown>;
+        }, record);
+        parent[keys[keys.length - 1]] = getFieldValue(manufacturer, path) ?? null;
+      });
+      return record;
+    }),
+    null,
+    2
+  );
+
+export interface ExportFile {
+  content: BlobPart;
+  extension: string;
+  mimeType: string;
+}
+
+export const createManufacturerExport = (
+  manufacturers: Manufacturer[],
+  options: { fields: string[]; format: ExportFormat; delimiter: string }
+): ExportFile => {
+  const { extension, mimeType } = exportFormats.find(format => format.value === options.format) ?? exportFormats[0];
+
+  let content: BlobPart;
+  if (options.format === 'json') content = buildExportJson(manufacturers, options.fields);
+  else if (options.format === 'xlsx') content = writeXlsx(buildExportRows(manufacturers, options.fields), 'Manufacturers');
+  // A byte order mark lets Excel detect UTF-8
+  else content = `\uFEFF${toCsv(buildExportRows(manufacturers, options.fields), options.delimiter)}`;
+
+  return { content, extension, mimeType };
+};
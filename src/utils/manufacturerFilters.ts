@@ -0,0 +1,110 @@
+import { FilterState, Manufacturer, SearchFilters } from '../types';
+
+/**
+ * Manufacturer Filter Predicates
+ *
+ * Shared by the store's searchManufacturers (SearchFilters), the data
+ * table (FilterState) and saved-search alerts, so every consumer agrees on
+ * what "matches" means.
+ */
+
+/**
+ * Whether a manufacturer passes the store's SearchFilters
+ */
+export const matchesSearchFilters = (m: Manufacturer, filters: SearchFilters): boolean => {
+  if (filters.capabilities.length > 0 && !filters.capabilities.some(cap => m.capabilities.includes(cap))) {
+    return false;
+  }
+  if (filters.materials.length > 0 && !filters.materials.some(mat => m.materials.includes(mat))) {
+    return false;
+  }
+  if (filters.certifications.length > 0 && !filters.certifications.some(cert => m.certifications.includes(cert))) {
+    return false;
+  }
+
+  if (
+    !(m.distance === undefined || m.distance <= filters.maxDistance) ||
+    m.moq < filters.minMoq ||
+    m.moq > filters.maxMoq ||
+    m.leadTimeDays > filters.maxLeadTime ||
+    m.rating < filters.minRating
+  ) {
+    return false;
+  }
+
+  if (filters.diversityFlag !== undefined && m.diversityFlag !== filters.diversityFlag) return false;
+  if (filters.minCapacity !== undefined && m.currentCapacity < filters.minCapacity) return false;
+  if (filters.maxCapacity !== undefined && m.currentCapacity >= filters.maxCapacity) return false;
+  if (filters.maxRating !== undefined && m.rating >= filters.maxRating) return false;
+
+  return true;
+};
+
+/**
+ * Whether a manufacturer passes the data table's own FilterState
+ */
+export const matchesTableFilters = (m: Manufacturer, filters: FilterState): boolean => {
+  // States filter
+  if (filters.states.length > 0) {
+    if (!filters.states.includes(m.state)) return false;
+  }
+
+  // Employee range filter
+  if (filters.employeeRange !== 'all') {
+    const empCount = m.numberOfEmployees;
+    switch (filters.employeeRange) {
+      case '1-25': if (empCount < 1 || empCount > 25) return false; break;
+      case '26-50': if (empCount < 26 || empCount > 50) return false; break;
+      case '51-100': if (empCount < 51 || empCount > 100) return false; break;
+      case '101-250': if (empCount < 101 || empCount > 250) return false; break;
+      case '251-500': if (empCount < 251 || empCount > 500) return false; break;
+      case '500+': if (empCount < 500) return false; break;
+    }
+  }
+
+  // Revenue range filter
+  if (filters.revenueRange !== 'all') {
+    const revenue = m.annualRevenue;
+    switch (filters.revenueRange) {
+      case '0-1M': if (revenue >= 1000000) return false; break;
+      case '1M-10M': if (revenue < 1000000 || revenue >= 10000000) return false; break;
+      case '10M-50M': if (revenue < 10000000 || revenue >= 50000000) return false; break;
+      case '50M-100M': if (revenue < 50000000 || revenue >= 100000000) return false; break;
+      case '100M+': if (revenue < 100000000) return false; break;
+    }
+  }
+
+  // Rating range filter
+  if (filters.ratingRange !== 'all') {
+    const rating = m.rating;
+    switch (filters.ratingRange) {
+      case '4.5+': if (rating < 4.5) return false; break;
+      case '4.0+': if (rating < 4.0) return false; break;
+      case '3.5+': if (rating < 3.5) return false; break;
+    }
+  }
+
+  // Diversity flag filter
+  if (filters.diversityFlag !== null) {
+    if (m.diversityFlag !== filters.diversityFlag) return false;
+  }
+
+  // Sustainability filter
+  if (filters.sustainabilityMin > 0) {
+    if (m.sustainabilityScore < filters.sustainabilityMin) return false;
+  }
+
+  // Year established filter
+  if (filters.yearEstablishedRange !== 'all') {
+    const year = m.yearEstablished;
+    const currentYear = new Date().getFullYear();
+    switch (filters.yearEstablishedRange) {
+      case '0-5': if (currentYear - year > 5) return false; break;
+      case '6-15': if (currentYear - year <= 5 || currentYear - year > 15) return false; break;
+      case '16-30': if (currentYear - year <= 15 || currentYear - year > 30) return false; break;
+      case '30+': if (currentYear - year <= 30) return false; break;
+    }
+  }
+
+  return true;
+};
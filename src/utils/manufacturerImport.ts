@@ -0,0 +1,389 @@
+import { Manufacturer, ScoredManufacturerField } from '../types';
+import { usStateCentroids } from '../data/usLocations';
+import { geocodeLocation } from './geo';
+
+/**
+ * Manufacturer Import
+ *
+ * Maps spreadsheet columns to Manufacturer fields, validates each row and
+ * plans how the rows merge into the existing database. Rows are matched to
+ * existing records by `manufacturerID`; rows without one get an ID derived
+ * from name, city and state, so re-importing the same list updates rather
+ * than duplicates.
+ */
+
+type ImportFieldKind =
+  | 'text'
+  | 'integer'
+  | 'number'
+  | 'list'
+  | 'boolean'
+  | 'date'
+  | 'email'
+  | 'phone'
+  | 'url'
+  | 'naics'
+  | 'sic'
+  | 'latitude'
+  | 'longitude'
+  | 'state';
+
+export interface ImportFieldSpec {
+  field: keyof Manufacturer;
+  label: string;
+  kind: ImportFieldKind;
+  aliases?: string[];
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export const importFieldSpecs: ImportFieldSpec[] = [
+  { field: 'manufacturerID', label: 'Manufacturer ID', kind: 'text', aliases: ['id', 'mfg id', 'supplier id', 'vendor id'] },
+  { field: 'name', label: 'Name', kind: 'text', required: true, aliases: ['company', 'company name', 'manufacturer', 'manufacturer name', 'supplier', 'supplier name', 'vendor', 'vendor name'] },
+  { field: 'headquartersAddress', label: 'HQ Address', kind: 'text', aliases: ['address', 'street address', 'headquarters'] },
+  { field: 'city', label: 'City', kind: 'text' },
+  { field: 'state', label: 'State', kind: 'state', aliases: ['st', 'state code', 'province'] },
+  { field: 'lat', label: 'Latitude', kind: 'latitude', aliases: ['latitude'] },
+  { field: 'lon', label: 'Longitude', kind: 'longitude', aliases: ['lng', 'long', 'longitude'] },
+  { field: 'naicsCode', label: 'NAICS Code', kind: 'naics', aliases: ['naics'] },
+  { field: 'sicCode', label: 'SIC Code', kind: 'sic', aliases: ['sic'] },
+  { field: 'yearEstablished', label: 'Year Established', kind: 'integer', min: 1700, max: new Date().getFullYear(), aliases: ['founded', 'year founded', 'established'] },
+  { field: 'numberOfEmployees', label: 'Employees', kind: 'integer', min: 0, aliases: ['employee count', 'number of employees', 'headcount', 'staff'] },
+  { field: 'annualRevenue', label: 'Annual Revenue', kind: 'number', min: 0, aliases: ['revenue', 'sales', 'annual sales'] },
+  { field: 'website', label: 'Website', kind: 'url', aliases: ['url', 'web', 'homepage'] },
+  { field: 'phone', label: 'Phone', kind: 'phone', aliases: ['phone number', 'telephone', 'tel'] },
+  { field: 'email', label: 'Email', kind: 'email', aliases: ['email address', 'e-mail'] },
+  { field: 'industryKeywords', label: 'Industry Keywords', kind: 'text', aliases: ['industry', 'industries', 'keywords'] },
+  { field: 'primaryApplications', label: 'Primary Applications', kind: 'text', aliases: ['applications'] },
+  { field: 'ownershipType', label: 'Ownership Type', kind: 'text', aliases: ['ownership'] },
+  { field: 'parentCompany', label: 'Parent Company', kind: 'text', aliases: ['parent'] },
+  { field: 'numberOfBranches', label: 'Branches', kind: 'integer', min: 0, aliases: ['number of branches'] },
+  { field: 'factoryName', label: 'Factory Name', kind: 'text', aliases: ['facility', 'facility name', 'plant'] },
+  { field: 'factoryAddress', label: 'Factory Address', kind: 'text', aliases: ['facility address', 'plant address'] },
+  { field: 'productionCapacity', label: 'Production Capacity', kind: 'text' },
+  { field: 'capabilities', label: 'Capabilities', kind: 'list', aliases: ['capability', 'processes', 'services'] },
+  { field: 'materials', label: 'Materials', kind: 'list', aliases: ['material'] },
+  { field: 'equipment', label: 'Equipment', kind: 'list' },
+  { field: 'certifications', label: 'Certifications', kind: 'list', aliases: ['certification', 'certs'] },
+  { field: 'isoCertifications', label: 'ISO Certifications', kind: 'text', aliases: ['iso'] },
+  { field: 'keyProducts', label: 'Key Products', kind: 'text', aliases: ['products'] },
+  { field: 'contactPerson', label: 'Contact Person', kind: 'text', aliases: ['contact', 'contact name'] },
+  { field: 'contactEmail', label: 'Contact Email', kind: 'email' },
+  { field: 'factoryFloorArea', label: 'Floor Area', kind: 'text', aliases: ['factory floor area', 'square footage'] },
+  { field: 'moq', label: 'MOQ', kind: 'integer', min: 0, aliases: ['minimum order', 'minimum order quantity', 'min order'] },
+  { field: 'leadTimeDays', label: 'Lead Time (days)', kind: 'integer', min: 0, aliases: ['lead time', 'leadtime'] },
+  { field: 'typicalPriceRange', label: 'Price Range', kind: 'text', aliases: ['typical price range', 'pricing'] },
+  { field: 'diversityFlag', label: 'Diversity Certified', kind: 'boolean', aliases: ['diversity', 'diverse supplier', 'diversity flag'] },
+  { field: 'sustainabilityScore', label: 'Sustainability Score', kind: 'number', min: 0, max: 100, aliases: ['sustainability'] },
+  { field: 'rating', label: 'Rating', kind: 'number', min: 0, max: 5 },
+  { field: 'currentCapacity', label: 'Capacity Utilization (%)', kind: 'number', min: 0, max: 100, aliases: ['capacity', 'current capacity', 'utilization'] },
+  { field: 'safetyIncidentCount', label: 'Safety Incidents', kind: 'integer', min: 0, aliases: ['safety incident count', 'incidents'] },
+  { field: 'lastVerifiedAt', label: 'Last Verified', kind: 'date', aliases: ['verified', 'verified at', 'last verified at'] },
+  { field: 'specializations', label: 'Specializations', kind: 'list' },
+  { field: 'description', label: 'Description', kind: 'text', aliases: ['about', 'summary', 'notes'] },
+];
+
+export type ColumnMapping = (keyof Manufacturer | null)[];
+
+export interface ImportIssue {
+  column: string;
+  message: string;
+}
+
+export interface ImportRowPlan {
+  // 1-based spreadsheet row, counting the header row
+  rowNumber: number;
+  manufacturerID: string;
+  name: string;
+  action: 'create' | 'update' | 'skip' | 'invalid';
+  reason?: string;
+  errors: ImportIssue[];
+  manufacturer: Manufacturer | null;
+}
+
+export interface ImportPlan {
+  rows: ImportRowPlan[];
+  counts: Record<ImportRowPlan['action'], number>;
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess a field for each column from its header; each field is used once
+ */
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const used = new Set<keyof Manufacturer>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const spec = importFieldSpecs.find(candidate =>
+      !used.has(candidate.field) &&
+      [candidate.field, candidate.label, ...(candidate.aliases ?? [])].some(name => normalizeHeader(name) === normalized)
+    );
+    if (!spec) return null;
+    used.add(spec.field);
+    return spec.field;
+  });
+};
+
+type ParsedValue = { value: unknown } | { error: string };
+
+const parseNumber = (raw: string): number => {
+  const match = raw.replace(/[$,\s%]/g, '').match(/^(-?\d*\.?\d+)([kmb])?$/i);
+  if (!match) return NaN;
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[match[2]?.toLowerCase() as 'k' | 'm' | 'b'] ?? 1;
+  return parseFloat(match[1]) * multiplier;
+};
+
+// Excel stores dates as days since 1899-12-30
+const excelSerialToDate = (serial: number) => new Date(Date.UTC(1899, 11, 30) + serial * 86400000);
+
+const parseValue = (spec: ImportFieldSpec, raw: string): ParsedValue => {
+  switch (spec.kind) {
+    case 'integer':
+    case 'number':
+    case 'latitude':
+    case 'longitude': {
+      const value = parseNumber(raw);
+      if (!Number.isFinite(value)) return { error: `"${raw}" is not a number` };
+      if (spec.kind === 'integer' && !Number.isInteger(value)) return { error: `"${raw}" must be a whole number` };
+      const [min, max] = spec.kind === 'latitude' ? [-90, 90] : spec.kind === 'longitude' ? [-180, 180] : [spec.min, spec.max];
+      if (min !== undefined && value < min) return { error: `${value} is below the minimum of ${min}` };
+      if (max !== undefined && value > max) return { error: `${value} is above the maximum of ${max}` };
+      return { value };
+    }
+    case 'list':
+      return { value: raw.split(/[;|]/.test(raw) ? /[;|]/ : ',').map(item => item.trim()).filter(Boolean) };
+    case 'boolean': {
+      const normalized = raw.toLowerCase();
+      if (['yes', 'y', 'true', '1', 'x'].includes(normalized)) return { value: true };
+      if (['no', 'n', 'false', '0'].includes(normalized)) return { value: false };
+      return { error: `"${raw}" is not yes/no` };
+    }
+    case 'date': {
+      const serial = Number(raw);
+      const date = Number.isFinite(serial) && serial > 0 && serial < 2958466 ? excelSerialToDate(serial) : new Date(raw);
+      return Number.isNaN(date.getTime()) ? { error: `"${raw}" is not a date` } : { value: date };
+    }
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw) ? { value: raw } : { error: `"${raw}" is not a valid email` };
+    case 'phone': {
+      const digits = raw.replace(/\D/g, '');
+      const valid = raw.trim().startsWith('+')
+        ? digits.length >= 8 && digits.length <= 15
+        : digits.length === 10 || (digits.length === 11 && digits.startsWith('1'));
+      return valid ? { value: raw } : { error: `"${raw}" is not a valid phone number` };
+    }
+    case 'url': {
+      try {
+        const url = new URL(/^https?:\/\//i.test(raw) ? raw : `https://${raw}`);
+        return url.hostname.includes('.') ? { value: url.href.replace(/\/$/, '') } : { error: `"${raw}" is not a valid URL` };
+      } catch {
+        return { error: `"${raw}" is not a valid URL` };
+      }
+    }
+    case 'naics':
+      // 2-digit sectors through 6-digit national industries
+      return /^\d{2,6}$/.test(raw) ? { value: raw } : { error: `"${raw}" is not a NAICS code (2-6 digits)` };
+    case 'sic': {
+      // Spreadsheets drop the leading zero of codes like 0111
+      const code = /^\d{3}$/.test(raw) ? raw.padStart(4, '0') : raw;
+      return /^\d{4}$/.test(code) ? { value: code } : { error: `"${raw}" is not a SIC code (4 digits)` };
+    }
+    case 'state': {
+      const normalized = raw.toLowerCase();
+      const state = usStateCentroids.find(s => s.code.toLowerCase() === normalized || s.name.toLowerCase() === normalized);
+      return state ? { value: state.name } : { error: `"${raw}" is not a U.S. state` };
+    }
+    default:
+      return { value: raw };
+  }
+};
+
+const hashKey = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36).toUpperCase();
+};
+
+const employeeBand = (employees: number) => {
+  if (employees < 100) return '1-100';
+  if (employees < 250) return '100-250';
+  if (employees < 500) return '250-500';
+  if (employees < 1000) return '500-1000';
+  if (employees < 5000) return '1000-5000';
+  return '5000+';
+};
+
+const scoredFields: ScoredManufacturerField[] = ['moq', 'leadTimeDays', 'currentCapacity', 'historicalPerformance'];
+
+/**
+ * A complete Manufacturer from imported values, layered over an existing
+ * record when updating so unmapped fields keep their current values.
+ * Scored fields the row doesn't supply are listed in `unknownFields`, so
+ * their placeholder zeros don't read as a perfect fit.
+ */
+const buildManufacturer = (values: Partial<Manufacturer>, existing?: Manufacturer): Manufacturer => {
+  if (existing) {
+    const unknownFields = existing.unknownFields?.filter(field => values[field] === undefined);
+    return { ...existing, ...values, unknownFields: unknownFields?.length ? unknownFields : undefined };
+  }
+
+  const employees = values.numberOfEmployees ?? 0;
+  const yearEstablished = values.yearEstablished ?? 0;
+  return {
+    id: `imported-${values.manufacturerID}`,
+    manufacturerID: '',
+    name: '',
+    headquartersAddress: '',
+    city: '',
+    state: '',
+    lat: 0,
+    lon: 0,
+    naicsCode: '',
+    sicCode: '',
+    yearEstablished,
+    numberOfEmployees: employees,
+    annualRevenue: 0,
+    website: '',
+    phone: '',
+    email: '',
+    industryKeywords: '',
+    primaryApplications: '',
+    ownershipType: '',
+    parentCompany: null,
+    numberOfBranches: 0,
+    factoryName: '',
+    factoryAddress: '',
+    productionCapacity: '',
+    capabilities: [],
+    materials: [],
+    equipment: [],
+    certifications: [],
+    isoCertifications: '',
+    environmentalPermits: '',
+    rawMaterialSources: '',
+    workforceSkills: '',
+    safetyIncidentCount: 0,
+    keyProducts: '',
+    contactPerson: '',
+    contactEmail: '',
+    factoryFloorArea: '',
+    moq: 0,
+    leadTimeDays: 0,
+    typicalPriceRange: '',
+    diversityFlag: false,
+    sustainabilityScore: 0,
+    lastVerifiedAt: new Date(),
+    rating: 0,
+    photos: [],
+    description: '',
+    foundedYear: yearEstablished,
+    employeeCount: employeeBand(employees),
+    specializations: [],
+    currentCapacity: 0,
+    maxCapacity: 100,
+    qualityCertifications: values.certifications ?? [],
+    historicalPerformance: {
+      onTimeDelivery: 0,
+      qualityScore: 0,
+      communicationRating: 0,
+    },
+    unknownFields: scoredFields.filter(field => values[field] === undefined),
+    ...values,
+  };
+};
+
+/**
+ * Validate rows and decide, per row, whether it creates, updates or is
+ * skipped. `updateExisting: false` leaves records already in the database
+ * untouched.
+ */
+export const planManufacturerImport = (
+  headers: string[],
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: Manufacturer[],
+  options: { updateExisting: boolean }
+): ImportPlan => {
+  const existingById = new Map(existing.map(m => [m.manufacturerID.toLowerCase(), m]));
+  const firstRowById = new Map<string, number>();
+
+  const planned = rows.flatMap((row, index): ImportRowPlan[] => {
+    if (row.every(cell => cell.trim() === '')) return [];
+    const rowNumber = index + 2;
+    const values: Partial<Manufacturer> = {};
+    const errors: ImportIssue[] = [];
+    const invalidFields = new Set<keyof Manufacturer>();
+
+    mapping.forEach((field, column) => {
+      const raw = row[column]?.trim() ?? '';
+      const spec = importFieldSpecs.find(candidate => candidate.field === field);
+      if (!spec || raw === '') return;
+      const parsed = parseValue(spec, raw);
+      if ('error' in parsed) {
+        errors.push({ column: headers[column] || spec.label, message: parsed.error });
+        invalidFields.add(spec.field);
+      } else {
+        Object.assign(values, { [spec.field]: parsed.value });
+      }
+    });
+
+    importFieldSpecs
+      .filter(spec => spec.required && values[spec.field] === undefined)
+      .forEach(spec => errors.push({ column: spec.label, message: 'Required' }));
+
+    // Place new rows without coordinates at their city, or the state's center.
+    // Updates keep the record's coordinates, geocoding only if it has none.
+    const existingMatch = values.manufacturerID ? existingById.get(values.manufacturerID.toLowerCase()) : undefined;
+    const needsCoordinates = !existingMatch || (existingMatch.lat === 0 && existingMatch.lon === 0);
+    if (needsCoordinates && (values.lat === undefined || values.lon === undefined)) {
+      const state = values.state ?? existingMatch?.state;
+      const city = values.city ?? existingMatch?.city ?? '';
+      const geocoded = state ? geocodeLocation(`${city}, ${state}`) : null;
+      if (geocoded) {
+        values.lat = geocoded.lat;
+        values.lon = geocoded.lon;
+      } else if (!existingMatch && !invalidFields.has('lat') && !invalidFields.has('lon') && !invalidFields.has('state')) {
+        errors.push({ column: 'Location', message: 'Needs latitude/longitude or a recognizable state' });
+      }
+    }
+
+    const manufacturerID = values.manufacturerID
+      ?? `IMP-${hashKey([values.name, values.city, values.state].map(v => String(v ?? '').toLowerCase()).join('|'))}`;
+    values.manufacturerID = manufacturerID;
+    const base = { rowNumber, manufacturerID, name: values.name ?? '', errors };
+
+    if (errors.length > 0) return [{ ...base, action: 'invalid', manufacturer: null }];
+
+    const key = manufacturerID.toLowerCase();
+    const firstRow = firstRowById.get(key);
+    if (firstRow !== undefined) {
+      return [{ ...base, action: 'skip', reason: `Duplicate of row ${firstRow}`, manufacturer: null }];
+    }
+    firstRowById.set(key, rowNumber);
+
+    const match = existingById.get(key);
+    if (match && !options.updateExisting) {
+      return [{ ...base, action: 'skip', reason: `Already in database as ${match.name}`, manufacturer: null }];
+    }
+    return [{ ...base, action: match ? 'update' : 'create', manufacturer: buildManufacturer(values, match) }];
+  });
+
+  const counts = { create: 0, update: 0, skip: 0, invalid: 0 };
+  planned.forEach(row => counts[row.action]++);
+  return { rows: planned, counts };
+};
+
+/**
+ * Merge records into a list by manufacturerID, replacing matches in place
+ */
+export const mergeManufacturers = (base: Manufacturer[], incoming: Manufacturer[]): Manufacturer[] => {
+  const incomingById = new Map(incoming.map(m => [m.manufacturerID.toLowerCase(), m]));
+  const merged = base.map(m => {
+    const replacement = incomingById.get(m.manufacturerID.toLowerCase());
+    if (replacement) incomingById.delete(m.manufacturerID.toLowerCase());
+    return replacement ?? m;
+  });
+  return [...merged, ...incomingById.values()];
+};
@@ -0,0 +1,213 @@
+import { Manufacturer, MatchCriterion, MatchScore, MatchWeights, ProjectIntake, ScoredManufacturerField } from '../types';
+
+/**
+ * Manufacturer Match Scoring
+ *
+ * Ranks manufacturers against the ProjectIntake collected by the voice
+ * agent. Each criterion produces a 0-1 fit value; the total is the
+ * weight-normalized average scaled to 0-100. Unknown data scores a neutral
+ * 0.5 so it neither helps nor sinks a manufacturer.
+ */
+
+export const defaultMatchWeights: MatchWeights = {
+  capability: 25,
+  moq: 15,
+  leadTime: 15,
+  price: 15,
+  certifications: 15,
+  capacity: 5,
+  performance: 10
+};
+
+export const matchCriterionLabels: Record<MatchCriterion, string> = {
+  capability: 'Capability & material',
+  moq: 'MOQ vs. volume',
+  leadTime: 'Lead time',
+  price: 'Price vs. target',
+  certifications: 'Certifications',
+  capacity: 'Capacity headroom',
+  performance: 'Past performance'
+};
+
+// Share of free capacity at which the headroom criterion is fully satisfied
+const FULL_HEADROOM_RATIO = 0.4;
+
+const NEUTRAL_FIT = 0.5;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const isUnknown = (manufacturer: Manufacturer, field: ScoredManufacturerField) =>
+  manufacturer.unknownFields?.includes(field) ?? false;
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2);
+
+/**
+ * Loose token equality that tolerates plurals and suffixes
+ * ("electronic" / "electronics", "machining" / "machine")
+ */
+const tokensMatch = (a: string, b: string) => {
+  if (a === b) return true;
+  const stemLength = Math.min(a.length, b.length, 6);
+  return stemLength >= 4 && a.slice(0, stemLength) === b.slice(0, stemLength);
+};
+
+/**
+ * Fraction of needle tokens found in the haystack tokens
+ */
+const tokenCoverage = (needle: string, haystack: string[]) => {
+  const tokens = tokenize(needle);
+  if (tokens.length === 0) return 0;
+  const found = tokens.filter(token => haystack.some(candidate => tokensMatch(token, candidate)));
+  return found.length / tokens.length;
+};
+
+/**
+ * Category fit weighs core capabilities above industry keywords and products
+ */
+const scoreCategory = (category: string, manufacturer: Manufacturer) => {
+  const coreTokens = tokenize([...manufacturer.capabilities, ...manufacturer.specializations].join(' '));
+  const contextTokens = tokenize([
+    manufacturer.industryKeywords,
+    manufacturer.primaryApplications,
+    manufacturer.keyProducts
+  ].join(' '));
+  return Math.max(tokenCoverage(category, coreTokens), 0.7 * tokenCoverage(category, contextTokens));
+};
+
+const scoreMaterial = (material: string, manufacturer: Manufacturer) => {
+  const needle = material.trim().toLowerCase();
+  if (manufacturer.materials.some(m => m.toLowerCase() === needle)) return 1;
+  return 0.7 * tokenCoverage(material, tokenize(manufacturer.materials.join(' ')));
+};
+
+const scoreCapability = (intake: ProjectIntake, manufacturer: Manufacturer) => {
+  const parts: number[] = [];
+  if (intake.category) parts.push(scoreCategory(intake.category, manufacturer));
+  if (intake.material) parts.push(scoreMaterial(intake.material, manufacturer));
+  return parts.length > 0 ? parts.reduce((sum, value) => sum + value, 0) / parts.length : 1;
+};
+
+const scoreMoq = (intake: ProjectIntake, manufacturer: Manufacturer) => {
+  if (intake.volume && isUnknown(manufacturer, 'moq')) return NEUTRAL_FIT;
+  if (!intake.volume || manufacturer.moq <= intake.volume) return 1;
+  return clamp01(intake.volume / manufacturer.moq);
+};
+
+const scoreLeadTime = (intake: ProjectIntake, manufacturer: Manufacturer) => {
+  if (intake.leadTimeGoal && isUnknown(manufacturer, 'leadTimeDays')) return NEUTRAL_FIT;
+  if (!intake.leadTimeGoal || manufacturer.leadTimeDays <= intake.leadTimeGoal) return 1;
+  return clamp01(1 - (manufacturer.leadTimeDays - intake.leadTimeGoal) / intake.leadTimeGoal);
+};
+
+/**
+ * Parse a typical price range such as "$50-500" into per-unit bounds
+ */
+export const parsePriceRange = (range: string): { min: number; max: number } | null => {
+  const values = range.replace(/,/g, '').match(/\d+(?:\.\d+)?/g);
+  if (!values || values.length === 0) return null;
+  const numbers = values.map(Number);
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+};
+
+const scorePrice = (intake: ProjectIntake, manufacturer: Manufacturer) => {
+  const range = parsePriceRange(manufacturer.typicalPriceRange);
+  if (!intake.targetCost || !range) return NEUTRAL_FIT;
+  if (intake.targetCost >= range.min) return 1;
+  return clamp01(intake.targetCost / range.min);
+};
+
+const scoreCertifications = (intake: ProjectIntake, manufacturer: Manufacturer) => {
+  const required = intake.certificationRequirements;
+  if (required.length === 0) return 1;
+  const held = [
+    ...manufacturer.certifications,
+    ...manufacturer.qualityCertifications,
+    // An empty string would "cover" every requirement through includes('')
+    ...(manufacturer.isoCertifications ? [manufacturer.isoCertifications] : [])
+  ].map(cert => cert.toLowerCase());
+  const covered = required.filter(cert => {
+    const needle = cert.toLowerCase();
+    return held.some(h => h.includes(needle) || needle.includes(h));
+  });
+  return covered.length / required.length;
+};
+
+const scoreCapacity = (manufacturer: Manufacturer) => {
+  if (isUnknown(manufacturer, 'currentCapacity')) return NEUTRAL_FIT;
+  if (manufacturer.maxCapacity <= 0) return 0;
+  const headroom = (manufacturer.maxCapacity - manufacturer.currentCapacity) / manufacturer.maxCapacity;
+  return clamp01(headroom / FULL_HEADROOM_RATIO);
+};
+
+const scorePerformance = (manufacturer: Manufacturer) => {
+  if (isUnknown(manufacturer, 'historicalPerformance')) return NEUTRAL_FIT;
+  const { onTimeDelivery, qualityScore, communicationRating } = manufacturer.historicalPerformance;
+  return clamp01((onTimeDelivery / 100 + qualityScore / 100 + communicationRating / 5) / 3);
+};
+
+/**
+ * Score a single manufacturer against a project intake
+ */
+export const scoreManufacturer = (
+  manufacturer: Manufacturer,
+  intake: ProjectIntake,
+  weights: MatchWeights = defaultMatchWeights
+): MatchScore => {
+  const fit: Record<MatchCriterion, number> = {
+    capability: scoreCapability(intake, manufacturer),
+    moq: scoreMoq(intake, manufacturer),
+    leadTime: scoreLeadTime(intake, manufacturer),
+    price: scorePrice(intake, manufacturer),
+    certifications: scoreCertifications(intake, manufacturer),
+    capacity: scoreCapacity(manufacturer),
+    performance: scorePerformance(manufacturer)
+  };
+
+  const criteria = Object.keys(fit) as MatchCriterion[];
+  const totalWeight = criteria.reduce((sum, criterion) => sum + Math.max(0, weights[criterion]), 0);
+  const weighted = criteria.reduce((sum, criterion) => sum + Math.max(0, weights[criterion]) * fit[criterion], 0);
+
+  const breakdown = Object.fromEntries(
+    criteria.map(criterion => [criterion, Math.round(fit[criterion] * 100)])
+  ) as Record<MatchCriterion, number>;
+
+  return {
+    manufacturerId: manufacturer.id,
+    total: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+    breakdown
+  };
+};
+
+/**
+ * Score every manufacturer, keyed by manufacturer id
+ */
+export const scoreManufacturers = (
+  manufacturers: Manufacturer[],
+  intake: ProjectIntake | null,
+  weights: MatchWeights = defaultMatchWeights
+): Record<string, MatchScore> => {
+  if (!intake) return {};
+  return Object.fromEntries(manufacturers.map(m => [m.id, scoreManufacturer(m, intake, weights)]));
+};
+
+/**
+ * Tailwind classes for a 0-100 match score
+ */
+export const getMatchScoreColor = (score: number) => {
+  if (score >= 75) return 'bg-success-100 text-success-800';
+  if (score >= 50) return 'bg-warning-100 text-warning-800';
+  return 'bg-gray-100 text-gray-700';
+};
+
+/**
+ * Hex color for a 0-100 match score, for contexts outside Tailwind (map markers)
+ */
+export const getMatchScoreHex = (score: number) => {
+  if (score >= 75) return '#16a34a';
+  if (score >= 50) return '#d97706';
+  return '#6b7280';
+};
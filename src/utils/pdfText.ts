@@ -0,0 +1,216 @@
+/**
+ * PDF Text
+ *
+ * Pulls the text layer out of a PDF: page content streams are inflated
+ * (FlateDecode, or unfiltered) and their text-showing operators decoded as
+ * single-byte strings. That covers most generated quotes; text set in
+ * fonts without a simple encoding (e.g. subset CID fonts) is skipped, and
+ * scanned PDFs have no text layer at all.
+ */
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Latin-1 keeps one character per byte so offsets line up with the bytes
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+/**
+ * Raw (still filtered) stream payloads with their dictionaries
+ */
+const findStreams = (source: string, bytes: Uint8Array) => {
+  const streams: { dictionary: string; data: Uint8Array }[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(source))) {
+    // "endstream" also ends in "stream"; skip it
+    if (source.slice(match.index - 3, match.index) === 'end') continue;
+    const dictionaryStart = source.lastIndexOf('<<', match.index);
+    const dictionary = dictionaryStart >= 0 ? source.slice(dictionaryStart, match.index) : '';
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end < 0) break;
+    // Prefer a direct /Length; otherwise drop the end-of-line before "endstream",
+    // since decompressors reject trailing bytes
+    const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/)?.[1];
+    let dataEnd = length && start + Number(length) <= end ? start + Number(length) : end;
+    if (!length) {
+      if (source[dataEnd - 1] === '\n') dataEnd--;
+      if (source[dataEnd - 1] === '\r') dataEnd--;
+    }
+    streams.push({ dictionary, data: bytes.subarray(start, dataEnd) });
+    streamPattern.lastIndex = end + 'endstream'.length;
+  }
+
+  return streams;
+};
+
+const decodeLiteralString = (raw: string): string => raw.replace(
+  /\\(\d{1,3}|\r\n|[\s\S])/g,
+  (_, escape: string) => {
+    if (/^\d+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    if (escape === '\n' || escape === '\r' || escape === '\r\n') return ''; // line continuation
+    return escapes[escape] ?? escape;
+  }
+);
+
+const decodeHexString = (raw: string): string => {
+  const hex = raw.replace(/\s+/g, '');
+  const padded = hex.length % 2 ? `${hex}0` : hex;
+  let text = '';
+  for (let i = 0; i < padded.length; i += 2) text += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  // Two-byte glyph ids decode to control characters; they can't be mapped without the font's CMap
+  // eslint-disable-next-line no-control-regex
+  return /[\u0000-\u0008\u000E-\u001F]/.test(text) ? '' : text;
+};
+
+type Token = { type: 'string'; value: string } | { type: 'number'; value: number } | { type: 'operator'; value: string } | { type: 'array-start' | 'array-end' };
+
+/**
+ * Tokenise the parts of a content stream that matter for text
+ */
+function* tokenize(content: string): Generator<Token> {
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      let depth = 1;
+      let raw = '';
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === '\\') {
+          raw += c + (content[i + 1] ?? '');
+          i += 2;
+          continue;
+        }
+        if (c === '(') depth++;
+        if (c === ')') depth--;
+        if (depth > 0) raw += c;
+        i++;
+      }
+      yield { type: 'string', value: decodeLiteralString(raw) };
+    } else if (char === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (e.g. marked-content properties) carry no text
+      const end = content.indexOf('>>', i);
+      i = end < 0 ? content.length : end + 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      yield { type: 'string', value: decodeHexString(content.slice(i + 1, end < 0 ? content.length : end)) };
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      yield { type: 'array-start' };
+      i++;
+    } else if (char === ']') {
+      yield { type: 'array-end' };
+      i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?(\d+\.?\d*|\.\d+)/)?.[0] ?? char;
+      yield { type: 'number', value: Number(number) };
+      i += number.length;
+    } else {
+      const word = content.slice(i).match(/^[^\s()<>[\]{}/%]+/)?.[0];
+      if (word) {
+        yield { type: 'operator', value: word };
+        i += word.length;
+      } else {
+        // Names (/F1) and braces
+        const name = content.slice(i).match(/^\/?[^\s()<>[\]{}/%]*/)?.[0] ?? char;
+        i += Math.max(1, name.length);
+      }
+    }
+  }
+}
+
+/**
+ * Text from one content stream. Line breaks follow text positioning;
+ * large negative kerning inside TJ arrays becomes a space.
+ */
+const contentStreamText = (content: string): string => {
+  let text = '';
+  const operands: Token[] = [];
+  let array: Token[] | null = null;
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.type === 'array-start') {
+      array = [];
+    } else if (token.type === 'array-end') {
+      operands.push({ type: 'string', value: (array ?? []).map(item => {
+        if (item.type === 'string') return item.value;
+        if (item.type === 'number' && item.value < -200) return ' ';
+        return '';
+      }).join('') });
+      array = null;
+    } else if (array) {
+      array.push(token);
+    } else if (token.type !== 'operator') {
+      operands.push(token);
+    } else {
+      const lastString = [...operands].reverse().find(operand => operand.type === 'string');
+      const shown = lastString?.type === 'string' ? lastString.value : '';
+      switch (token.value) {
+        case 'Tj':
+        case 'TJ':
+          text += shown;
+          break;
+        case "'":
+        case '"':
+          newline();
+          text += shown;
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands[operands.length - 1];
+          if (ty?.type === 'number' && ty.value !== 0) newline();
+          else if (text && !/\s$/.test(text)) text += ' ';
+          break;
+        }
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          newline();
+          break;
+      }
+      operands.length = 0;
+    }
+  }
+
+  return text;
+};
+
+export const extractPdfText = async (buffer: ArrayBuffer): Promise<string> => {
+  const bytes = new Uint8Array(buffer);
+  const source = latin1(bytes);
+  if (!source.startsWith('%PDF')) throw new Error('Not a PDF file');
+
+  const texts: string[] = [];
+  for (const { dictionary, data } of findStreams(source, bytes)) {
+    // Images, fonts and embedded files never hold page text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1|\/Type\s*\/(XRef|ObjStm|EmbeddedFile|Metadata)/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    if (filters && filters.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue;
+
+    try {
+      const content = latin1(filters ? await inflate(data) : data);
+      if (!/\bBT\b/.test(content)) continue;
+      texts.push(contentStreamText(content));
+    } catch {
+      // A corrupt stream shouldn't lose the rest of the document
+    }
+  }
+
+  const text = texts.join('\n').replace(/[ \t]+\n/g, '\n').trim();
+  if (!text) throw new Error('No text layer found in this PDF (it may be scanned)');
+  return text;
+};
@@ -0,0 +1,79 @@
+import { Project, ProjectIntake, ProjectStatus, Quote } from '../types';
+import { calculateLandedCost } from './landedCost';
+
+/**
+ * Sourcing Projects
+ *
+ * Each project owns its intake and shortlist; quotes, conversations and
+ * RFQs point at it by projectId. The store mirrors the active project's
+ * intake and shortlist into `projectIntake` and `shortlist`, so views that
+ * predate projects keep working, and scopes lists with `scopeToProject`.
+ */
+
+export const projectStatuses: ProjectStatus[] = ['planning', 'sourcing', 'negotiating', 'production', 'completed', 'on_hold'];
+
+export const projectStatusLabels: Record<ProjectStatus, string> = {
+  planning: 'Planning',
+  sourcing: 'Sourcing',
+  negotiating: 'Negotiating',
+  production: 'In Production',
+  completed: 'Completed',
+  on_hold: 'On Hold',
+};
+
+// Most manufacturers a project can shortlist at once
+export const MAX_SHORTLIST_SIZE = 5;
+
+let projectCounter = 0;
+
+export const createProjectId = (now = new Date()) => `project-${now.getTime()}-${++projectCounter}`;
+
+/**
+ * Items in the project, or all of them when `projectId` is null (the
+ * "all projects" view)
+ */
+export const scopeToProject = <T extends { projectId?: string }>(items: T[], projectId: string | null): T[] =>
+  projectId === null ? items : items.filter(item => item.projectId === projectId);
+
+/**
+ * A name for a project started from an intake alone
+ */
+export const projectNameFromIntake = (intake: ProjectIntake) =>
+  intake.additionalRequirements?.trim() || `${intake.material} ${intake.category.toLowerCase()}`.trim() || 'Untitled project';
+
+export const createProject = (
+  input: Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>> & { name: string },
+  owner: { id: string; name: string },
+  now = new Date()
+): Project => ({
+  status: 'planning',
+  intake: null,
+  shortlist: [],
+  milestones: [],
+  ownerId: owner.id,
+  ownerName: owner.name,
+  ...input,
+  id: createProjectId(now),
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * First milestone not yet completed, by due date
+ */
+export const nextMilestone = (project: Project) =>
+  [...project.milestones]
+    .filter(milestone => !milestone.completedAt)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())[0];
+
+/**
+ * Landed cost of the project's accepted quotes at the intake volume, to
+ * hold against the budget
+ */
+export const committedSpend = (project: Project, quotes: Quote[]) =>
+  quotes
+    .filter(quote => quote.projectId === project.id && quote.status === 'accepted')
+    .reduce((sum, quote) => {
+      const cost = calculateLandedCost(quote, project.intake?.volume || quote.moq || 1);
+      return sum + (cost?.total ?? quote.totalPrice ?? 0);
+    }, 0);
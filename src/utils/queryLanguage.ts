@@ -0,0 +1,283 @@
+import { FilterState, SearchFilters } from '../types';
+import { usStateCentroids } from '../data/usLocations';
+
+/**
+ * Manufacturer Query Language
+ *
+ * Parses power-user queries for the /database search box, e.g.
+ *
+ *   capability:"CNC Machining" state:Michigan moq<500 rating>=4.5 cert:AS9100 -diversity
+ *
+ * into the store's SearchFilters and the table's FilterState. Anything that
+ * is not a field expression is passed through as free text for the
+ * full-text index.
+ */
+
+export type QueryListField = 'capability' | 'material' | 'cert' | 'state';
+type QueryNumberField = 'moq' | 'leadtime' | 'rating' | 'capacity' | 'distance' | 'sustainability';
+type QueryFlagField = 'diversity';
+type QueryField = QueryListField | QueryNumberField | QueryFlagField;
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedManufacturerQuery {
+  text: string;
+  searchFilters: Partial<SearchFilters>;
+  tableFilters: Partial<FilterState>;
+  errors: QueryError[];
+}
+
+export type QueryVocabulary = Record<QueryListField, string[]>;
+
+export interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  insertText: string;
+  replaceFrom: number;
+}
+
+interface QueryFieldSpec {
+  field: QueryField;
+  aliases: string[];
+  kind: 'list' | 'number' | 'flag';
+  description: string;
+  operators?: Operator[];
+}
+
+export const queryFieldSpecs: QueryFieldSpec[] = [
+  { field: 'capability', aliases: ['cap', 'capabilities'], kind: 'list', description: 'Manufacturing capability' },
+  { field: 'material', aliases: ['mat', 'materials'], kind: 'list', description: 'Material worked with' },
+  { field: 'cert', aliases: ['certification', 'certifications'], kind: 'list', description: 'Certification held' },
+  { field: 'state', aliases: [], kind: 'list', description: 'US state name or code' },
+  { field: 'moq', aliases: [], kind: 'number', description: 'Minimum order quantity', operators: ['<', '<=', '>', '>=', '='] },
+  { field: 'leadtime', aliases: ['lead'], kind: 'number', description: 'Lead time in days', operators: ['<', '<='] },
+  { field: 'rating', aliases: [], kind: 'number', description: 'Rating out of 5', operators: ['<', '<=', '>', '>='] },
+  { field: 'capacity', aliases: [], kind: 'number', description: 'Current capacity utilization %', operators: ['<', '<=', '>', '>='] },
+  { field: 'distance', aliases: [], kind: 'number', description: 'Miles from the distance origin', operators: ['<', '<='] },
+  { field: 'sustainability', aliases: [], kind: 'number', description: 'Sustainability score', operators: ['>', '>='] },
+  { field: 'diversity', aliases: [], kind: 'flag', description: 'Diversity-certified (prefix with - to exclude)' }
+];
+
+const listFilterKeys = {
+  capability: 'capabilities',
+  material: 'materials',
+  cert: 'certifications'
+} as const;
+
+const findFieldSpec = (name: string) => {
+  const needle = name.toLowerCase();
+  return queryFieldSpecs.find(spec => spec.field === needle || spec.aliases.includes(needle));
+};
+
+/**
+ * Canonical spelling of a list value, or null when it is not in the vocabulary
+ */
+const resolveListValue = (field: QueryListField, value: string, vocabulary: QueryVocabulary): string | null => {
+  const needle = value.trim().toLowerCase();
+  if (field === 'state') {
+    const state = usStateCentroids.find(s => s.code.toLowerCase() === needle || s.name.toLowerCase() === needle);
+    if (state) return state.name;
+  }
+  return vocabulary[field].find(option => option.toLowerCase() === needle) ?? null;
+};
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Apply a numeric comparison to the filter partials; returns an error
+ * message when the operator is not supported for the field
+ */
+const applyComparison = (
+  spec: QueryFieldSpec,
+  operator: Operator,
+  value: number,
+  result: ParsedManufacturerQuery
+): string | null => {
+  if (!spec.operators?.includes(operator)) {
+    return `${spec.field} supports ${spec.operators?.join(', ')} only`;
+  }
+  const filters = result.searchFilters;
+
+  switch (spec.field) {
+    case 'moq':
+      if (operator === '<' || operator === '<=' || operator === '=') {
+        filters.maxMoq = operator === '<' ? value - 1 : value;
+      }
+      if (operator === '>' || operator === '>=' || operator === '=') {
+        filters.minMoq = operator === '>' ? value + 1 : value;
+      }
+      break;
+    case 'leadtime':
+      filters.maxLeadTime = operator === '<' ? value - 1 : value;
+      break;
+    case 'rating': {
+      // Ratings are kept to one decimal, so strict bounds step by a tenth;
+      // maxRating is an exclusive bound
+      const nextTenth = (Math.floor(value * 10 + 1e-9) + 1) / 10;
+      if (operator === '>=') filters.minRating = value;
+      else if (operator === '>') filters.minRating = nextTenth;
+      else filters.maxRating = operator === '<' ? value : nextTenth;
+      break;
+    }
+    case 'capacity':
+      // maxCapacity is an exclusive bound
+      if (operator === '<' || operator === '<=') filters.maxCapacity = operator === '<' ? value : value + 1;
+      else filters.minCapacity = operator === '>' ? value + 1 : value;
+      break;
+    case 'distance':
+      filters.maxDistance = value;
+      break;
+    case 'sustainability':
+      result.tableFilters.sustainabilityMin = operator === '>' ? value + 1 : value;
+      break;
+  }
+  return null;
+};
+
+/**
+ * Parse a query string. Field values are validated against the vocabulary;
+ * every problem is reported with its character range so the input can show
+ * it inline.
+ */
+export const parseManufacturerQuery = (query: string, vocabulary: QueryVocabulary): ParsedManufacturerQuery => {
+  const result: ParsedManufacturerQuery = { text: '', searchFilters: {}, tableFilters: {}, errors: [] };
+  const textParts: string[] = [];
+  const pattern = /(-?)([a-z_]+)(:|<=|>=|<|>|=)("[^"]*"?|[^\s"]*)|(-?)("[^"]*"?|\S+)/gi;
+  let match: RegExpExecArray | null;
+
+  const addError = (message: string) => {
+    result.errors.push({ message, start: match!.index, end: match!.index + match![0].length });
+  };
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [token, negated, name, operator, rawValue, textNegated, text] = match;
+
+    // Free text, or a bare flag such as "diversity" / "-diversity"
+    if (name === undefined) {
+      if (text.startsWith('"') && (text.length === 1 || !text.endsWith('"'))) {
+        addError(`Missing closing quote in ${token}`);
+        continue;
+      }
+      const flag = findFieldSpec(text);
+      if (flag?.kind === 'flag') {
+        result.tableFilters.diversityFlag = !textNegated;
+      } else if (textNegated) {
+        addError(`Exclusion only works on flags such as -diversity`);
+      } else {
+        textParts.push(text);
+      }
+      continue;
+    }
+
+    const spec = findFieldSpec(name);
+    if (!spec) {
+      addError(`Unknown field "${name}"`);
+      continue;
+    }
+    if (negated) {
+      addError(`"${spec.field}" cannot be excluded; only flags such as -diversity can`);
+      continue;
+    }
+
+    if (rawValue.startsWith('"') && (rawValue.length === 1 || !rawValue.endsWith('"'))) {
+      addError(`Missing closing quote in ${token}`);
+      continue;
+    }
+    const value = rawValue.replace(/^"|"$/g, '').trim();
+    if (!value) {
+      addError(`Missing value for ${spec.field}`);
+      continue;
+    }
+
+    if (spec.kind === 'list') {
+      if (operator !== ':') {
+        addError(`Use ${spec.field}:value`);
+        continue;
+      }
+      const field = spec.field as QueryListField;
+      const resolved = resolveListValue(field, value, vocabulary);
+      if (!resolved) {
+        addError(`Unknown ${spec.field} "${value}"`);
+        continue;
+      }
+      if (field === 'state') {
+        result.tableFilters.states = [...(result.tableFilters.states ?? []), resolved];
+      } else {
+        const key = listFilterKeys[field];
+        result.searchFilters[key] = [...(result.searchFilters[key] ?? []), resolved];
+      }
+    } else if (spec.kind === 'number') {
+      const number = Number(value.replace(/,/g, ''));
+      if (operator === ':' || Number.isNaN(number)) {
+        addError(operator === ':' ? `Compare ${spec.field} with <, <=, >, >= or =` : `"${value}" is not a number`);
+        continue;
+      }
+      const error = applyComparison(spec, operator as Operator, number, result);
+      if (error) addError(error);
+    } else {
+      const normalized = value.toLowerCase();
+      if (operator !== ':' || !['yes', 'no', 'true', 'false'].includes(normalized)) {
+        addError(`Use ${spec.field}:yes or ${spec.field}:no`);
+        continue;
+      }
+      result.tableFilters.diversityFlag = normalized === 'yes' || normalized === 'true';
+    }
+  }
+
+  result.text = textParts.join(' ');
+  return result;
+};
+
+/**
+ * Autocomplete suggestions for the token ending at the caret: field names
+ * while typing a bare word, vocabulary values after "field:"
+ */
+export const getQuerySuggestions = (
+  query: string,
+  caret: number,
+  vocabulary: QueryVocabulary,
+  limit = 8
+): QuerySuggestion[] => {
+  const before = query.slice(0, caret);
+
+  const valueMatch = before.match(/(?:^|\s)-?([a-z_]+):("?)([^"]*)$/i);
+  if (valueMatch && (valueMatch[2] === '"' || !/\s/.test(valueMatch[3]))) {
+    const spec = findFieldSpec(valueMatch[1]);
+    if (!spec) return [];
+
+    const partial = valueMatch[3].toLowerCase();
+    const replaceFrom = caret - valueMatch[2].length - valueMatch[3].length;
+    const options = spec.kind === 'list'
+      ? vocabulary[spec.field as QueryListField]
+      : spec.kind === 'flag' ? ['yes', 'no'] : [];
+
+    return options
+      .filter(option => option.toLowerCase().includes(partial))
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+      .slice(0, limit)
+      .map(option => ({ label: option, insertText: `${quoteIfNeeded(option)} `, replaceFrom }));
+  }
+
+  const fieldMatch = before.match(/(?:^|\s)-?([a-z_]+)$/i);
+  if (!fieldMatch) return [];
+
+  const partial = fieldMatch[1].toLowerCase();
+  return queryFieldSpecs
+    .filter(spec => spec.field.startsWith(partial) || spec.aliases.some(alias => alias.startsWith(partial)))
+    .filter(spec => spec.field !== partial || spec.kind !== 'flag')
+    .slice(0, limit)
+    .map(spec => {
+      const label = spec.kind === 'list' ? `${spec.field}:` : spec.kind === 'number' ? `${spec.field}${spec.operators?.[0]}` : spec.field;
+      return {
+        label,
+        detail: spec.description,
+        insertText: spec.kind === 'flag' ? `${label} ` : label,
+        replaceFrom: caret - fieldMatch[1].length
+      };
+    });
+};
@@ -0,0 +1,251 @@
+import { ExtractedQuoteData, ExtractedQuoteField } from '../types';
+import { certifications as knownCertifications } from '../data/mockData';
+
+/**
+ * Quote Extraction
+ *
+ * Finds commercial terms in the text of a quote document. Each field is
+ * matched by a set of patterns of decreasing reliability: an explicit
+ * label ("Unit Price: $4.20") beats a bare phrase ("$4.20 each"). The
+ * best match wins, and its confidence drops when the document contains
+ * other, conflicting values for the same field.
+ */
+
+export interface ExtractedValue<T> {
+  value: T;
+  confidence: number; // 0-1
+  snippet: string; // the text the value was read from
+}
+
+export type QuoteExtraction = {
+  [K in ExtractedQuoteField]: ExtractedValue<ExtractedQuoteData[K]> | null;
+};
+
+interface Candidate<T> extends ExtractedValue<T> {
+  index: number;
+}
+
+const CONFLICT_PENALTY = 0.15;
+
+// Label and value may be separated by a colon, dash, tab or spaces
+const SEP = String.raw`[\s:=\-–\t]*`;
+// Free-text values need an explicit separator, so "payment in advance" isn't read as a label
+const LABEL_SEP = String.raw`\s*[:=\-–\t]\s*`;
+const AMOUNT = String.raw`(?:US)?\$?\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)`;
+
+const parseAmount = (text: string) => Number(text.replace(/,/g, ''));
+
+const snippetAt = (text: string, index: number, length: number) =>
+  text.slice(index, index + length).replace(/\s+/g, ' ').trim();
+
+/**
+ * Run each pattern over the text; `parse` turns a match into a value or
+ * rejects it with null
+ */
+const collect = <T>(
+  text: string,
+  patterns: { pattern: RegExp; confidence: number }[],
+  parse: (match: RegExpExecArray) => T | null
+): Candidate<T>[] =>
+  patterns.flatMap(({ pattern, confidence }) => {
+    const candidates: Candidate<T>[] = [];
+    const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text))) {
+      const value = parse(match);
+      if (value !== null) candidates.push({ value, confidence, snippet: snippetAt(text, match.index, match[0].length), index: match.index });
+    }
+    return candidates;
+  });
+
+// Text values agree when one contains the other ("Net 30" and "Net 30, 2% 10")
+const agrees = <T>(a: T, b: T) => {
+  if (typeof a !== 'string' || typeof b !== 'string') return JSON.stringify(a) === JSON.stringify(b);
+  const [x, y] = [a.toLowerCase(), b.toLowerCase()];
+  return x.includes(y) || y.includes(x);
+};
+
+/**
+ * Highest confidence wins, earliest on ties; each distinct disagreeing
+ * value costs confidence
+ */
+const pickBest = <T>(candidates: Candidate<T>[]): ExtractedValue<T> | null => {
+  if (candidates.length === 0) return null;
+  const [best] = [...candidates].sort((a, b) => b.confidence - a.confidence || a.index - b.index);
+  const conflicts = new Set(
+    candidates.filter(candidate => !agrees(candidate.value, best.value)).map(candidate => JSON.stringify(candidate.value))
+  ).size;
+  return {
+    value: best.value,
+    confidence: Math.max(0.1, Math.round((best.confidence - conflicts * CONFLICT_PENALTY) * 100) / 100),
+    snippet: best.snippet,
+  };
+};
+
+/**
+ * Values under a matching column header in tab-separated rows, e.g. a
+ * line-item table whose "Unit Price" column holds the price
+ */
+const collectFromTable = <T>(
+  text: string,
+  header: RegExp,
+  confidence: number,
+  parse: (cell: string) => T | null
+): Candidate<T>[] => {
+  const lines = text.split('\n');
+  let offset = 0;
+  return lines.flatMap((line, lineIndex) => {
+    const lineOffset = offset;
+    offset += line.length + 1;
+    const cells = line.split('\t');
+    const column = cells.findIndex(cell => header.test(cell.trim()));
+    const next = lines[lineIndex + 1]?.split('\t');
+    if (cells.length < 2 || column < 0 || !next || next.length !== cells.length) return [];
+    const value = parse(next[column]);
+    return value === null ? [] : [{ value, confidence, snippet: `${cells[column].trim()}: ${next[column].trim()}`, index: lineOffset }];
+  });
+};
+
+const UNIT_PRICE_LABEL = String.raw`(?:unit\s*price|price\s*(?:per|/)\s*(?:unit|piece|pc|ea)|unit\s*cost|cost\s*per\s*unit|price\s*each)`;
+
+const extractPricePerUnit = (text: string) => pickBest([
+  ...collect(text, [
+    { pattern: new RegExp(String.raw`${UNIT_PRICE_LABEL}${SEP}${AMOUNT}`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(String.raw`\$\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s*(?:/|per)\s*(?:unit|piece|pc|part|ea)\b|\$\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s*(?:each|ea\.?)\b`, 'i'), confidence: 0.8 },
+    { pattern: new RegExp(String.raw`\bprice${SEP}${AMOUNT}`, 'i'), confidence: 0.5 },
+  ], match => {
+    const amount = parseAmount(match[1] ?? match[2]);
+    return amount > 0 ? amount : null;
+  }),
+  ...collectFromTable(text, new RegExp(`^${UNIT_PRICE_LABEL}$`, 'i'), 0.75, cell => {
+    const amount = cell.match(new RegExp(`^${AMOUNT}$`))?.[1];
+    return amount && parseAmount(amount) > 0 ? parseAmount(amount) : null;
+  }),
+]);
+
+/**
+ * Calendar days per duration unit
+ */
+const unitDays = (unit: string) => {
+  const normalized = unit.toLowerCase();
+  if (/business|working/.test(normalized)) return 7 / 5;
+  if (normalized.startsWith('w')) return 7;
+  if (normalized.startsWith('m')) return 30;
+  return 1;
+};
+
+/**
+ * Lead time in calendar days; ranges take the upper bound at slightly
+ * lower confidence
+ */
+const extractLeadTime = (text: string) => {
+  const duration = String.raw`(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(business\s*days?|working\s*days?|days?|weeks?|wks?|months?)`;
+  const candidates = collect(text, [
+    { pattern: new RegExp(String.raw`(?:lead\s*time|production\s*time|turnaround)${SEP}(?:of\s*)?${duration}`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(String.raw`${duration}\s*(?:ARO|after\s*receipt\s*of\s*(?:order|PO))`, 'i'), confidence: 0.8 },
+    { pattern: new RegExp(String.raw`(?:deliver(?:y|ed)?|ships?|shipment)\s*(?:with)?in\s*${duration}`, 'i'), confidence: 0.65 },
+  ], match => {
+    const days = Math.round(Number(match[2] ?? match[1]) * unitDays(match[3]));
+    return days > 0 && days <= 730 ? days : null;
+  });
+  return pickBest(candidates.map(candidate =>
+    /\d\s*(?:-|–|to)\s*\d/.test(candidate.snippet) ? { ...candidate, confidence: candidate.confidence - 0.05 } : candidate
+  ));
+};
+
+const extractMoq = (text: string) => pickBest(collect(text, [
+  { pattern: new RegExp(String.raw`(?:\bMOQ\b|minimum\s*order\s*(?:quantity|qty)?|min\.?\s*order\s*(?:quantity|qty)?|minimum\s*(?:quantity|qty))${SEP}(\d{1,3}(?:,\d{3})+|\d+)`, 'i'), confidence: 0.9 },
+  { pattern: /minimum\s*of\s*(\d{1,3}(?:,\d{3})+|\d+)\s*(?:units|pcs|pieces|parts)/i, confidence: 0.7 },
+], match => {
+  const quantity = parseAmount(match[1]);
+  return quantity > 0 ? quantity : null;
+}));
+
+// A free-text value runs to the end of its line, cell or sentence
+const lineAfter = (text: string) => text.split(/[\n\t]|\.\s/)[0].replace(/[.;,]\s*$/, '').trim();
+
+const extractPaymentTerms = (text: string) => pickBest(collect(text, [
+  { pattern: new RegExp(String.raw`(?:payment\s*terms?|terms\s*of\s*payment|payment)${LABEL_SEP}([^\n\t]{2,60})`, 'i'), confidence: 0.9 },
+  { pattern: /\b(\d+%?\s*\/\s*\d+\s*,?\s*net\s*\d+|net\s*-?\s*\d{1,3})\b/i, confidence: 0.8 },
+  { pattern: /\b(\d{1,3}%\s*(?:deposit|down|advance)[^\n\t]{0,40}|cash\s*in\s*advance|payment\s*in\s*advance|due\s*(?:up)?on\s*receipt|C\.?O\.?D\.?)(?=\s|$|[.,;])/i, confidence: 0.7 },
+], match => {
+  const value = lineAfter(match[1]).replace(/^net\s*-?\s*(\d+)/i, 'Net $1');
+  return value.length >= 2 ? value : null;
+}));
+
+const incoterms = 'EXW|FCA|FAS|FOB|CFR|CIF|CPT|CIP|DAP|DPU|DDP';
+
+const extractShippingTerms = (text: string) => pickBest(collect(text, [
+  { pattern: new RegExp(String.raw`(?:shipping\s*terms?|freight\s*terms?|delivery\s*terms?|incoterms?(?:\s*20\d\d)?|shipping)${LABEL_SEP}([^\n\t]{2,60})`, 'i'), confidence: 0.9 },
+  { pattern: new RegExp(String.raw`\b((?:${incoterms})\b(?:\s+(?:origin|destination|shipping\s*point|factory|[A-Z][a-z]+(?:,\s*[A-Z]{2})?))?)`), confidence: 0.8 },
+], match => {
+  const value = lineAfter(match[1]);
+  return value.length >= 2 ? value.replace(/\b(origin|destination|shipping point)\b/gi, word => word.replace(/\b\w/g, c => c.toUpperCase())) : null;
+}));
+
+const extractWarranty = (text: string) => pickBest(collect(text, [
+  { pattern: new RegExp(String.raw`warrant(?:y|ies)${LABEL_SEP}([^\n\t]{2,60})`, 'i'), confidence: 0.9 },
+  { pattern: /\b(\d+)[\s-]*(year|yr|month|mo|day)s?\s*(?:limited\s*)?warranty/i, confidence: 0.85 },
+  { pattern: /warranted\s*(?:for|against[^\n]*for)\s*(\d+)\s*(year|yr|month|mo|day)s?/i, confidence: 0.75 },
+], match => {
+  if (match[2]) {
+    const count = Number(match[1]);
+    const unit = { yr: 'Year', year: 'Year', mo: 'Month', month: 'Month', day: 'Day' }[match[2].toLowerCase()] ?? match[2];
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+  }
+  const value = lineAfter(match[1]);
+  return value.length >= 2 ? value : null;
+}));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * All certifications named in the document. Confidence is higher when they
+ * appear near wording such as "certified" or "compliant".
+ */
+const extractCertifications = (text: string): ExtractedValue<string[]> | null => {
+  const found = new Map<string, { index: number; snippet: string }>();
+  const remember = (name: string, index: number, length: number) => {
+    if (!found.has(name)) found.set(name, { index, snippet: snippetAt(text, index, length) });
+  };
+
+  // Loose spacing and punctuation: "ISO9001", "AS 9100D", "IATF-16949"
+  knownCertifications.forEach(certification => {
+    const pattern = new RegExp(
+      `\\b${escapeRegExp(certification).replace(/(?:\\ |-)/g, '[\\s-]?').replace(/([A-Za-z])(\d)/, '$1[\\s-]?$2')}[A-Z]?\\b`,
+      'i'
+    );
+    const match = pattern.exec(text);
+    if (match) remember(certification, match.index, match[0].length);
+  });
+
+  // ISO standards missing from the vocabulary
+  const isoPattern = /\bISO[\s-]?(\d{4,5})(?::\d{4})?\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = isoPattern.exec(text))) remember(`ISO ${match[1]}`, match.index, match[0].length);
+  ['RoHS', 'REACH'].forEach(name => {
+    const index = text.search(new RegExp(`\\b${name}\\b`));
+    if (index >= 0) remember(name, index, name.length);
+  });
+
+  if (found.size === 0) return null;
+  const entries = [...found.entries()].sort((a, b) => a[1].index - b[1].index);
+  const nearCertificationWording = entries.every(([, { index }]) =>
+    /certif|registered|complian|accredit|approved|quality\s*system/i.test(text.slice(Math.max(0, index - 80), index + 80))
+  );
+  return {
+    value: entries.map(([name]) => name),
+    confidence: nearCertificationWording ? 0.9 : 0.7,
+    snippet: entries.map(([, { snippet }]) => snippet).join(', '),
+  };
+};
+
+export const extractQuoteData = (text: string): QuoteExtraction => ({
+  pricePerUnit: extractPricePerUnit(text),
+  leadTime: extractLeadTime(text),
+  moq: extractMoq(text),
+  certifications: extractCertifications(text),
+  paymentTerms: extractPaymentTerms(text),
+  shippingTerms: extractShippingTerms(text),
+  warranty: extractWarranty(text),
+});
@@ -0,0 +1,224 @@
+import { Quote, QuoteEvent, QuoteFieldChange, QuoteStatus } from '../types';
+
+/**
+ * Quote Lifecycle
+ *
+ * The states a quote moves through, from a draft request to a decision:
+ *
+ *   draft → requested → received → under_review ⇄ negotiating → accepted
+ *
+ * Any open quote can be withdrawn, received quotes can be rejected, and
+ * open quotes past `validUntil` expire. Accepted, rejected, expired and
+ * withdrawn are final. Every change is appended to the quote's event log,
+ * which is never rewritten.
+ */
+
+export const SYSTEM_ACTOR = 'System';
+
+export const quoteStatuses: QuoteStatus[] = [
+  'draft',
+  'requested',
+  'received',
+  'under_review',
+  'negotiating',
+  'accepted',
+  'rejected',
+  'expired',
+  'withdrawn',
+];
+
+export const quoteStatusLabels: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  requested: 'Requested',
+  received: 'Received',
+  under_review: 'Under Review',
+  negotiating: 'Negotiating',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+};
+
+export const quoteTransitions: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['requested', 'withdrawn'],
+  requested: ['received', 'expired', 'withdrawn'],
+  received: ['under_review', 'rejected', 'expired', 'withdrawn'],
+  under_review: ['negotiating', 'accepted', 'rejected', 'expired', 'withdrawn'],
+  negotiating: ['under_review', 'accepted', 'rejected', 'expired', 'withdrawn'],
+  accepted: [],
+  rejected: [],
+  expired: [],
+  withdrawn: [],
+};
+
+export const isFinalQuoteStatus = (status: QuoteStatus) => quoteTransitions[status].length === 0;
+
+export const isQuotePastValidity = (quote: Quote, now = new Date()) =>
+  !!quote.validUntil && quote.validUntil.getTime() < now.getTime();
+
+/**
+ * Failure to move a quote to a status, with the reason suitable for display
+ */
+export class QuoteTransitionError extends Error {
+  from: QuoteStatus;
+  to: QuoteStatus;
+
+  constructor(from: QuoteStatus, to: QuoteStatus, message: string) {
+    super(message);
+    this.name = 'QuoteTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Why `quote` can't move to `to` right now; undefined when it can
+ */
+export const transitionBlocker = (quote: Quote, to: QuoteStatus, now = new Date()): string | undefined => {
+  if (!quoteTransitions[quote.status].includes(to)) {
+    return `A ${quoteStatusLabels[quote.status].toLowerCase()} quote can't be marked ${quoteStatusLabels[to].toLowerCase()}`;
+  }
+  switch (to) {
+    case 'received':
+      return quote.pricePerUnit === undefined ? 'Record the quoted price before marking it received' : undefined;
+    case 'accepted':
+      if (quote.pricePerUnit === undefined) return 'A quote needs a price before it can be accepted';
+      return isQuotePastValidity(quote, now) ? 'This quote is past its validity date' : undefined;
+    case 'expired':
+      return isQuotePastValidity(quote, now) ? undefined : 'Only quotes past their validity date expire';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Statuses `quote` can move to now, in lifecycle order
+ */
+export const availableTransitions = (quote: Quote, now = new Date()): QuoteStatus[] =>
+  quoteTransitions[quote.status].filter(status => !transitionBlocker(quote, status, now));
+
+let eventCounter = 0;
+
+export const createQuoteEvent = (event: Omit<QuoteEvent, 'id' | 'timestamp'>, now = new Date()): QuoteEvent => ({
+  ...event,
+  id: `event-${now.getTime()}-${++eventCounter}`,
+  timestamp: now,
+});
+
+export const appendQuoteEvent = (quote: Quote, event: QuoteEvent): readonly QuoteEvent[] =>
+  Object.freeze([...(quote.events ?? []), Object.freeze(event)]);
+
+/**
+ * `quote` moved to `to`, with the change logged. Throws a
+ * QuoteTransitionError when the lifecycle doesn't allow it.
+ */
+export const transitionQuote = (
+  quote: Quote,
+  to: QuoteStatus,
+  actor: string,
+  { note, now = new Date() }: { note?: string; now?: Date } = {}
+): Quote => {
+  const blocker = transitionBlocker(quote, to, now);
+  if (blocker) throw new QuoteTransitionError(quote.status, to, blocker);
+  return {
+    ...quote,
+    status: to,
+    updatedAt: now,
+    events: appendQuoteEvent(quote, createQuoteEvent({ type: 'status_changed', actor, from: quote.status, to, note }, now)),
+  };
+};
+
+/**
+ * Open quotes past `validUntil`, moved to expired by the system
+ */
+export const expireQuotes = (quotes: Quote[], now = new Date()): { quotes: Quote[]; expired: Quote[] } => {
+  const expired: Quote[] = [];
+  const updated = quotes.map(quote => {
+    if (isFinalQuoteStatus(quote.status) || transitionBlocker(quote, 'expired', now)) return quote;
+    const next = transitionQuote(quote, 'expired', SYSTEM_ACTOR, { note: 'Validity date passed', now });
+    expired.push(next);
+    return next;
+  });
+  return { quotes: expired.length > 0 ? updated : quotes, expired };
+};
+
+// Fields the log doesn't describe: the status has its own events, the rest is bookkeeping
+const unloggedFields = new Set<keyof Quote>(['id', 'status', 'events', 'revisions', 'updatedAt', 'createdAt']);
+
+const fieldLabels: Partial<Record<keyof Quote, string>> = {
+  pricePerUnit: 'Unit price',
+  totalPrice: 'Total price',
+  leadTimeDays: 'Lead time',
+  moq: 'MOQ',
+  validUntil: 'Valid until',
+  files: 'Files',
+  notes: 'Notes',
+  extractedData: 'Extracted terms',
+  score: 'Score',
+  priceTiers: 'Price breaks',
+  costItems: 'Additional costs',
+  manufacturerId: 'Manufacturer',
+  projectId: 'Project',
+};
+
+const displayValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === 'object') return undefined;
+  return String(value);
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * What `updates` would change on `quote`, for the event log
+ */
+export const describeQuoteChanges = (quote: Quote, updates: Partial<Quote>): QuoteFieldChange[] =>
+  (Object.keys(updates) as (keyof Quote)[])
+    .filter(field => !unloggedFields.has(field) && !sameValue(quote[field], updates[field]))
+    .map(field => ({
+      field: fieldLabels[field] ?? field,
+      from: displayValue(quote[field]),
+      to: displayValue(updates[field]),
+    }));
+
+/**
+ * Apply field updates (and a status change, if any) as `actor`, logging
+ * each. Events in `updates` are ignored so the log can't be rewritten.
+ */
+export const applyQuoteUpdates = (
+  quote: Quote,
+  updates: Partial<Quote>,
+  actor: string,
+  now = new Date()
+): Quote => {
+  const { status, ...fields } = updates;
+  delete fields.events;
+  const changes = describeQuoteChanges(quote, fields);
+  let updated: Quote = changes.length > 0
+    ? {
+        ...quote,
+        ...fields,
+        events: appendQuoteEvent(quote, createQuoteEvent({ type: 'updated', actor, changes }, now)),
+      }
+    : { ...quote, ...fields };
+  if (status && status !== quote.status) updated = transitionQuote(updated, status, actor, { now });
+  return updated;
+};
+
+/**
+ * Log for quotes saved before events were recorded: a creation event, plus
+ * the current status when it has moved on from the start
+ */
+export const seedQuoteEvents = (quote: Quote): Quote => {
+  if (quote.events?.length) return quote;
+  const initial: QuoteStatus = quote.status === 'draft' ? 'draft' : 'requested';
+  const events = [createQuoteEvent({ type: 'created', actor: SYSTEM_ACTOR, to: initial }, quote.createdAt)];
+  if (quote.status !== initial) {
+    events.push(createQuoteEvent(
+      { type: 'status_changed', actor: SYSTEM_ACTOR, from: initial, to: quote.status },
+      quote.updatedAt
+    ));
+  }
+  return { ...quote, events: Object.freeze(events.map(event => Object.freeze(event))) };
+};
@@ -0,0 +1,296 @@
+import { Manufacturer, Quote, QuoteStatus } from '../types';
+import { calculateLandedCost } from './landedCost';
+import { quoteStatuses, quoteStatusLabels } from './quoteLifecycle';
+
+/**
+ * Quote Reports
+ *
+ * Builds a self-contained HTML document (inline styles and SVG charts, no
+ * external assets) summarising quotes, so it can be saved as a file or
+ * printed to PDF from the browser.
+ */
+
+export interface QuoteReportOptions {
+  title: string;
+  quotes: Quote[];
+  manufacturers: Manufacturer[];
+  comparison: Quote[]; // quotes for the side-by-side matrix; empty to omit it
+  volume?: number; // quantity the matrix's landed-cost rows are priced at
+  generatedAt?: Date;
+}
+
+const statusColors: Record<QuoteStatus, string> = {
+  draft: '#6b7280',
+  requested: '#d97706',
+  received: '#16a34a',
+  under_review: '#2563eb',
+  negotiating: '#0d9488',
+  accepted: '#15803d',
+  rejected: '#dc2626',
+  expired: '#9ca3af',
+  withdrawn: '#9ca3af',
+};
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatCurrency = (value?: number) =>
+  value === undefined ? '—' : `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDays = (value?: number) => value === undefined ? '—' : `${value} days`;
+
+const formatDate = (value?: Date) => value ? new Date(value).toLocaleDateString() : '—';
+
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+/**
+ * Horizontal bar chart as inline SVG
+ */
+const barChart = (title: string, bars: { label: string; value: number }[], format: (value: number) => string, color: string) => {
+  if (bars.length === 0) return '';
+  const rowHeight = 28;
+  const labelWidth = 220;
+  const chartWidth = 380;
+  const max = Math.max(...bars.map(bar => bar.value), 1);
+  const height = bars.length * rowHeight + 8;
+
+  const rows = bars.map((bar, index) => {
+    const y = index * rowHeight + 4;
+    const width = Math.max(2, (bar.value / max) * chartWidth);
+    return `<text x="${labelWidth - 8}" y="${y + 17}" text-anchor="end" font-size="12" fill="#374151">${escapeHtml(bar.label)}</text>` +
+      `<rect x="${labelWidth}" y="${y + 4}" width="${width.toFixed(1)}" height="18" rx="3" fill="${color}"/>` +
+      `<text x="${labelWidth + width + 6}" y="${y + 17}" font-size="12" fill="#111827">${escapeHtml(format(bar.value))}</text>`;
+  }).join('');
+
+  return `<figure class="chart"><figcaption>${escapeHtml(title)}</figcaption>` +
+    `<svg viewBox="0 0 ${labelWidth + chartWidth + 90} ${height}" width="100%" role="img" aria-label="${escapeHtml(title)}">${rows}</svg></figure>`;
+};
+
+const statusBreakdown = (quotes: Quote[]) => {
+  const rows = quoteStatuses
+    .map(status => ({ status, count: quotes.filter(quote => quote.status === status).length }))
+    .filter(row => row.count > 0)
+    .map(({ status, count }) => {
+      const percent = Math.round((count / quotes.length) * 100);
+      return `<tr><td><span class="badge" style="background:${statusColors[status]}">${quoteStatusLabels[status]}</span></td>` +
+        `<td class="num">${count}</td><td class="num">${percent}%</td>` +
+        `<td class="bar-cell"><div class="bar" style="width:${percent}%;background:${statusColors[status]}"></div></td></tr>`;
+    })
+    .join('');
+  return `<table><thead><tr><th>Status</th><th class="num">Quotes</th><th class="num">Share</th><th></th></tr></thead><tbody>${rows}</tbody></table>`;
+};
+
+/**
+ * Side-by-side matrix; the best value in each comparable row is highlighted
+ */
+const comparisonMatrix = (
+  quotes: Quote[],
+  nameOf: (quote: Quote) => string,
+  manufacturerOf: (quote: Quote) => Manufacturer | undefined,
+  volume: number | undefined
+) => {
+  type Row = { label: string; value: (quote: Quote) => number | undefined; format: (quote: Quote) => string; best?: 'min' | 'max' };
+  const landedCost = (quote: Quote) => (volume ? calculateLandedCost(quote, volume) : undefined);
+  const costRows: Row[] = volume ? [
+    { label: `Total Cost (${volume.toLocaleString()} units)`, value: q => landedCost(q)?.total, format: q => formatCurrency(landedCost(q)?.total), best: 'min' },
+    { label: 'Landed Cost / Unit', value: q => landedCost(q)?.landedUnitCost, format: q => formatCurrency(landedCost(q)?.landedUnitCost), best: 'min' },
+  ] : [];
+  const rows: Row[] = [
+    ...costRows,
+    { label: 'Quoted Unit Price', value: q => q.pricePerUnit, format: q => formatCurrency(q.pricePerUnit), best: 'min' },
+    { label: 'Total Price', value: q => q.totalPrice, format: q => formatCurrency(q.totalPrice), best: 'min' },
+    { label: 'Lead Time', value: q => q.leadTimeDays, format: q => formatDays(q.leadTimeDays), best: 'min' },
+    { label: 'MOQ', value: q => q.moq, format: q => q.moq?.toLocaleString() ?? '—', best: 'min' },
+    { label: 'Score', value: q => q.score, format: q => q.score?.toString() ?? 'Not scored', best: 'max' },
+    { label: 'Supplier Rating', value: q => manufacturerOf(q)?.rating, format: q => manufacturerOf(q)?.rating?.toFixed(1) ?? '—', best: 'max' },
+    {
+      label: 'On-Time Delivery',
+      value: q => manufacturerOf(q)?.historicalPerformance.onTimeDelivery,
+      format: q => {
+        const onTime = manufacturerOf(q)?.historicalPerformance.onTimeDelivery;
+        return onTime === undefined ? '—' : `${onTime}%`;
+      },
+      best: 'max'
+    },
+    { label: 'Valid Until', value: () => undefined, format: q => formatDate(q.validUntil) },
+    { label: 'Payment Terms', value: () => undefined, format: q => q.extractedData?.paymentTerms ?? '—' },
+    { label: 'Warranty', value: () => undefined, format: q => q.extractedData?.warranty ?? '—' },
+    { label: 'Status', value: () => undefined, format: q => quoteStatusLabels[q.status] },
+  ];
+
+  const body = rows.map(row => {
+    const values = quotes.map(row.value).filter((value): value is number => value !== undefined);
+    const best = row.best && values.length > 1
+      ? (row.best === 'min' ? Math.min(...values) : Math.max(...values))
+      : undefined;
+    const cells = quotes.map(quote => {
+      const isBest = best !== undefined && row.value(quote) === best;
+      return `<td class="center${isBest ? ' best' : ''}">${escapeHtml(row.format(quote))}</td>`;
+    }).join('');
+    return `<tr><th scope="row">${row.label}</th>${cells}</tr>`;
+  }).join('');
+
+  const header = quotes.map(quote => `<th class="center">${escapeHtml(nameOf(quote))}<br><small>Quote #${escapeHtml(quote.id)}</small></th>`).join('');
+  return `<table class="matrix"><thead><tr><th>Criteria</th>${header}</tr></thead><tbody>${body}</tbody></table>` +
+    '<p class="note">Highlighted cells are the best value in their row.</p>';
+};
+
+const manufacturerDetails = (manufacturer: Manufacturer) => `
+  <div class="card">
+    <h3>${escapeHtml(manufacturer.name)}</h3>
+    <dl>
+      <dt>Location</dt><dd>${escapeHtml(`${manufacturer.city}, ${manufacturer.state}`)}</dd>
+      <dt>Contact</dt><dd>${escapeHtml([manufacturer.contactPerson, manufacturer.contactEmail || manufacturer.email, manufacturer.phone].filter(Boolean).join(' · ') || '—')}</dd>
+      <dt>Rating</dt><dd>${manufacturer.rating.toFixed(1)} / 5</dd>
+      <dt>Lead Time</dt><dd>${formatDays(manufacturer.leadTimeDays)} typical, MOQ ${manufacturer.moq.toLocaleString()}</dd>
+      <dt>Performance</dt><dd>${manufacturer.historicalPerformance.onTimeDelivery}% on time, quality ${manufacturer.historicalPerformance.qualityScore}</dd>
+      <dt>Capabilities</dt><dd>${escapeHtml(manufacturer.capabilities.join(', ') || '—')}</dd>
+      <dt>Certifications</dt><dd>${escapeHtml(manufacturer.certifications.join(', ') || '—')}</dd>
+    </dl>
+  </div>`;
+
+const styles = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 0; padding: 32px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; padding-bottom: 6px; border-bottom: 2px solid #2563eb; }
+  h3 { font-size: 15px; margin: 0 0 8px; }
+  .meta, .note, small { color: #6b7280; font-size: 12px; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 20px; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .stat strong { display: block; font-size: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  thead th { background: #f9fafb; font-size: 11px; text-transform: uppercase; letter-spacing: .04em; color: #6b7280; }
+  .num { text-align: right; }
+  .center { text-align: center; }
+  .best { background: #dcfce7; font-weight: 600; }
+  .badge { color: #fff; border-radius: 999px; padding: 2px 8px; font-size: 11px; }
+  .bar-cell { width: 40%; }
+  .bar { height: 10px; border-radius: 5px; }
+  .chart { margin: 0 0 16px; }
+  .chart figcaption { font-weight: 600; font-size: 13px; margin-bottom: 4px; }
+  .cards { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; break-inside: avoid; }
+  dl { display: grid; grid-template-columns: 100px 1fr; gap: 4px 8px; margin: 0; font-size: 12px; }
+  dt { color: #6b7280; }
+  dd { margin: 0; }
+  section { break-inside: avoid-page; }
+  @media print { body { padding: 0; } h2 { break-after: avoid; } }
+  @page { margin: 16mm; }
+`;
+
+export const buildQuoteReportHtml = ({
+  title,
+  quotes,
+  manufacturers,
+  comparison,
+  volume,
+  generatedAt = new Date()
+}: QuoteReportOptions): string => {
+  const manufacturersById = new Map(manufacturers.map(manufacturer => [manufacturer.id, manufacturer]));
+  const manufacturerOf = (quote: Quote) => manufacturersById.get(quote.manufacturerId);
+  const nameOf = (quote: Quote) => manufacturerOf(quote)?.name ?? quote.manufacturerId;
+  const chartLabel = (quote: Quote) => `${nameOf(quote)} (#${quote.id})`;
+
+  const prices = quotes.flatMap(quote => quote.pricePerUnit !== undefined ? [quote.pricePerUnit] : []);
+  const leadTimes = quotes.flatMap(quote => quote.leadTimeDays !== undefined ? [quote.leadTimeDays] : []);
+  const averageLeadTime = average(leadTimes);
+  const stats = [
+    { label: 'Quotes', value: quotes.length.toString() },
+    { label: 'Average Price / Unit', value: formatCurrency(average(prices)) },
+    { label: 'Lowest Price / Unit', value: prices.length > 0 ? formatCurrency(Math.min(...prices)) : '—' },
+    { label: 'Average Lead Time', value: averageLeadTime === undefined ? '—' : `${Math.round(averageLeadTime)} days` },
+  ];
+
+  const quoteRows = quotes.map(quote => `<tr>
+      <td>#${escapeHtml(quote.id)}</td>
+      <td>${escapeHtml(nameOf(quote))}</td>
+      <td><span class="badge" style="background:${statusColors[quote.status]}">${quoteStatusLabels[quote.status]}</span></td>
+      <td class="num">${formatCurrency(quote.pricePerUnit)}</td>
+      <td class="num">${formatCurrency(quote.totalPrice)}</td>
+      <td class="num">${formatDays(quote.leadTimeDays)}</td>
+      <td class="num">${quote.moq?.toLocaleString() ?? '—'}</td>
+      <td class="num">${quote.score ?? '—'}</td>
+      <td>${formatDate(quote.createdAt)}</td>
+    </tr>`).join('');
+
+  const featured = [...new Set([...quotes, ...comparison].map(quote => quote.manufacturerId))]
+    .flatMap(id => manufacturersById.get(id) ?? []);
+
+  const priced = quotes.filter(quote => quote.pricePerUnit !== undefined);
+  const timed = quotes.filter(quote => quote.leadTimeDays !== undefined);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="meta">Generated ${escapeHtml(generatedAt.toLocaleString())} · FactoryLink</p>
+    <div class="stats">
+      ${stats.map(stat => `<div class="stat"><strong>${escapeHtml(stat.value)}</strong><span class="meta">${stat.label}</span></div>`).join('')}
+    </div>
+  </header>
+
+  ${quotes.length > 0 ? `<section>
+    <h2>Status Breakdown</h2>
+    ${statusBreakdown(quotes)}
+  </section>` : ''}
+
+  ${priced.length + timed.length > 0 ? `<section>
+    <h2>Price &amp; Lead Time</h2>
+    ${barChart('Price per Unit', priced.map(quote => ({ label: chartLabel(quote), value: quote.pricePerUnit as number })), formatCurrency, '#2563eb')}
+    ${barChart('Lead Time', timed.map(quote => ({ label: chartLabel(quote), value: quote.leadTimeDays as number })), formatDays, '#0d9488')}
+  </section>` : ''}
+
+  ${comparison.length > 0 ? `<section>
+    <h2>Comparison Matrix</h2>
+    ${comparisonMatrix(comparison, nameOf, manufacturerOf, volume)}
+  </section>` : ''}
+
+  ${quotes.length > 0 ? `<section>
+    <h2>Quotes</h2>
+    <table>
+      <thead><tr><th>Quote</th><th>Manufacturer</th><th>Status</th><th class="num">Price / Unit</th><th class="num">Total</th><th class="num">Lead Time</th><th class="num">MOQ</th><th class="num">Score</th><th>Received</th></tr></thead>
+      <tbody>${quoteRows}</tbody>
+    </table>
+  </section>` : ''}
+
+  ${featured.length > 0 ? `<section>
+    <h2>Manufacturers</h2>
+    <div class="cards">${featured.map(manufacturerDetails).join('')}</div>
+  </section>` : ''}
+</body>
+</html>`;
+};
+
+/**
+ * Open the browser's print dialog for an HTML document, from which it can
+ * be saved as PDF. The document is printed from a hidden frame so the app
+ * itself is left untouched.
+ */
+export const printHtmlDocument = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,154 @@
+import { Quote, QuoteFieldChange, QuoteRevision, QuoteRevisionTerms } from '../types';
+import { appendQuoteEvent, createQuoteEvent } from './quoteLifecycle';
+
+/**
+ * Quote Revisions
+ *
+ * A manufacturer's revised quote is kept as a new numbered revision of the
+ * same logical quote rather than a separate quote or an overwrite. The
+ * quote's own terms always mirror the latest revision, so everything that
+ * reads a Quote sees the current offer; older revisions stay available for
+ * diffs and for pinning in the comparison.
+ */
+
+const termKeys: (keyof QuoteRevisionTerms)[] = [
+  'pricePerUnit',
+  'totalPrice',
+  'leadTimeDays',
+  'moq',
+  'validUntil',
+  'extractedData',
+  'priceTiers',
+  'costItems',
+  'notes',
+];
+
+export const revisionTerms = (source: QuoteRevisionTerms): QuoteRevisionTerms =>
+  Object.fromEntries(termKeys.map(key => [key, source[key]])) as QuoteRevisionTerms;
+
+/**
+ * Revisions of a quote, oldest first. Quotes received before revisions were
+ * tracked count their current terms as revision 1; quotes with no terms yet
+ * have none.
+ */
+export const quoteRevisions = (quote: Quote): QuoteRevision[] => {
+  if (quote.revisions?.length) return quote.revisions;
+  if (quote.pricePerUnit === undefined) return [];
+  return [{ ...revisionTerms(quote), version: 1, files: quote.files, receivedAt: quote.createdAt }];
+};
+
+export const latestRevision = (quote: Quote): QuoteRevision | undefined => {
+  const revisions = quoteRevisions(quote);
+  return revisions[revisions.length - 1];
+};
+
+/**
+ * The quote as it stood at `version`; the quote itself for the latest
+ * revision or an unknown version
+ */
+export const quoteAtRevision = (quote: Quote, version?: number): Quote => {
+  if (version === undefined || version === latestRevision(quote)?.version) return quote;
+  const revision = quoteRevisions(quote).find(r => r.version === version);
+  return revision ? { ...quote, ...revisionTerms(revision) } : quote;
+};
+
+export interface RevisionDiffRow {
+  field: string;
+  label: string;
+  from?: string;
+  to?: string;
+  changed: boolean;
+  trend?: 'better' | 'worse'; // for numeric terms where lower is better
+}
+
+const diffFields: {
+  field: string;
+  label: string;
+  value: (revision: QuoteRevisionTerms) => number | string | undefined;
+  format?: (value: number) => string;
+}[] = [
+  { field: 'pricePerUnit', label: 'Unit price', value: r => r.pricePerUnit, format: v => `$${v.toFixed(2)}` },
+  { field: 'leadTimeDays', label: 'Lead time', value: r => r.leadTimeDays, format: v => `${v} days` },
+  { field: 'moq', label: 'MOQ', value: r => r.moq, format: v => v.toLocaleString() },
+  { field: 'paymentTerms', label: 'Payment terms', value: r => r.extractedData?.paymentTerms || undefined },
+  { field: 'shippingTerms', label: 'Shipping terms', value: r => r.extractedData?.shippingTerms || undefined },
+  { field: 'warranty', label: 'Warranty', value: r => r.extractedData?.warranty || undefined },
+];
+
+/**
+ * Side-by-side terms of two revisions, with changes flagged. Lower price,
+ * lead time and MOQ count as better.
+ */
+export const diffRevisions = (from: QuoteRevisionTerms, to: QuoteRevisionTerms): RevisionDiffRow[] =>
+  diffFields.map(({ field, label, value, format }) => {
+    const before = value(from);
+    const after = value(to);
+    const display = (v: number | string | undefined) =>
+      v === undefined ? undefined : typeof v === 'number' && format ? format(v) : String(v);
+    const trend = typeof before === 'number' && typeof after === 'number' && before !== after
+      ? (after < before ? 'better' : 'worse')
+      : undefined;
+    return { field, label, from: display(before), to: display(after), changed: before !== after, trend };
+  });
+
+/**
+ * Terms of a new revision: what it states, with anything it leaves out
+ * carried over from the current terms. Price breaks and totals were quoted
+ * against the old unit price, so they're dropped when a revision changes the
+ * price without restating them.
+ */
+const carryTerms = (current: QuoteRevisionTerms, input: QuoteRevisionTerms): QuoteRevisionTerms => {
+  const terms: QuoteRevisionTerms = { ...current };
+  termKeys.forEach(key => {
+    if (input[key] !== undefined) Object.assign(terms, { [key]: input[key] });
+  });
+  if (input.pricePerUnit !== undefined && input.pricePerUnit !== current.pricePerUnit) {
+    if (input.priceTiers === undefined) terms.priceTiers = undefined;
+    if (input.totalPrice === undefined) terms.totalPrice = undefined;
+  }
+  return terms;
+};
+
+/**
+ * `quote` with a new revision appended and its terms brought up to date.
+ * The change is logged as a 'revised' event listing what moved.
+ */
+export const reviseQuote = (
+  quote: Quote,
+  input: QuoteRevisionTerms & { files: QuoteRevision['files']; receivedAt?: Date },
+  actor: string,
+  now = new Date()
+): Quote => {
+  const revisions = quoteRevisions(quote);
+  const previous = revisions[revisions.length - 1];
+  const revision: QuoteRevision = {
+    ...carryTerms(revisionTerms(quote), revisionTerms(input)),
+    version: (previous?.version ?? 0) + 1,
+    files: input.files,
+    receivedAt: input.receivedAt ?? now,
+  };
+  const changes: QuoteFieldChange[] = previous
+    ? diffRevisions(previous, revision).filter(row => row.changed).map(({ label, from, to }) => ({ field: label, from, to }))
+    : [];
+
+  return {
+    ...quote,
+    ...revisionTerms(revision),
+    files: [...quote.files, ...input.files.filter(file => !quote.files.some(existing => existing.id === file.id))],
+    revisions: [...revisions, revision],
+    updatedAt: now,
+    events: appendQuoteEvent(quote, createQuoteEvent({ type: 'revised', actor, revision: revision.version, changes }, now)),
+  };
+};
+
+/**
+ * Keep the latest revision in step after the quote's terms are edited in
+ * place (e.g. correcting the cost model)
+ */
+export const syncLatestRevision = (quote: Quote): Quote => {
+  if (!quote.revisions?.length) return quote;
+  const revisions = [...quote.revisions];
+  const latest = revisions[revisions.length - 1];
+  revisions[revisions.length - 1] = { ...latest, ...revisionTerms(quote) };
+  return { ...quote, revisions };
+};
@@ -0,0 +1,263 @@
+import {
+  Conversation,
+  Manufacturer,
+  Message,
+  ProjectIntake,
+  Quote,
+  ResponseTemplate,
+  Rfq,
+  RfqDraft,
+  RfqRecipient
+} from '../types';
+import { createQuoteEvent } from './quoteLifecycle';
+
+/**
+ * Requests for Quote
+ *
+ * An RFQ goes to every shortlisted manufacturer at once. Each recipient
+ * gets a requested Quote and an email Conversation carrying the message
+ * generated from the quote-request template, so replies and uploaded
+ * quotes land where the rest of the app already looks for them. Recipients
+ * who haven't responded are reminded as the deadline approaches.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RFQ_RESPONSE_DAYS = 14;
+
+// Days before the deadline at which unanswered recipients are reminded
+export const RFQ_REMINDER_DAYS = [3, 1];
+
+export const INITIAL_REQUEST_TEMPLATE = 'Initial Quote Request';
+export const FOLLOW_UP_TEMPLATE = 'Follow-up on Quote';
+
+let rfqCounter = 0;
+
+/**
+ * A draft RFQ prefilled from the project intake
+ */
+export const rfqDraftFromIntake = (intake: ProjectIntake | null, now = new Date()): RfqDraft => ({
+  title: intake?.additionalRequirements || (intake ? `${intake.material} ${intake.category.toLowerCase()}` : ''),
+  description: intake?.additionalRequirements ?? '',
+  category: intake?.category ?? '',
+  material: intake?.material ?? '',
+  quantity: intake?.volume ?? 0,
+  targetPrice: intake?.targetCost ?? 0,
+  leadTimeGoal: intake?.leadTimeGoal ?? 0,
+  certificationRequirements: intake?.certificationRequirements ?? [],
+  attachments: [],
+  deadline: new Date(now.getTime() + DEFAULT_RFQ_RESPONSE_DAYS * DAY_MS),
+});
+
+/**
+ * Template by name, falling back to its category so a renamed template
+ * still works
+ */
+export const findTemplate = (templates: ResponseTemplate[], name: string, category: string) =>
+  templates.find(t => t.name === name) ?? templates.find(t => t.category === category);
+
+export const findRfqTemplates = (templates: ResponseTemplate[]) => ({
+  request: findTemplate(templates, INITIAL_REQUEST_TEMPLATE, 'quote_request'),
+  followUp: findTemplate(templates, FOLLOW_UP_TEMPLATE, 'follow_up'),
+});
+
+/**
+ * `text` with `{{variable}}` placeholders filled in. Unknown placeholders
+ * are left as written so a missing value is visible in the preview.
+ */
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+
+/**
+ * Placeholder values for RFQ templates, also used to draft one-off messages
+ */
+export const rfqTemplateValues = (rfq: RfqDraft, manufacturer: Manufacturer | undefined, userName: string, requestDate?: Date) => ({
+  manufacturerName: manufacturer?.name ?? 'there',
+  projectName: rfq.title,
+  productDescription: rfq.description || rfq.category,
+  material: rfq.material,
+  quantity: rfq.quantity.toLocaleString(),
+  targetPrice: rfq.targetPrice.toFixed(2),
+  leadTime: String(rfq.leadTimeGoal),
+  certifications: rfq.certificationRequirements.join(', ') || 'None',
+  deadline: rfq.deadline.toLocaleDateString(),
+  requestDate: (requestDate ?? new Date()).toLocaleDateString(),
+  userName,
+});
+
+/**
+ * Subject and body for one recipient. The deadline is appended when the
+ * template doesn't mention it, so every request states when it's due.
+ */
+export const renderRfqMessage = (
+  template: ResponseTemplate,
+  rfq: RfqDraft,
+  manufacturer: Manufacturer | undefined,
+  userName: string,
+  requestDate?: Date
+) => {
+  const values = rfqTemplateValues(rfq, manufacturer, userName, requestDate);
+  const content = fillTemplate(template.content, values);
+  return {
+    subject: fillTemplate(template.subject, values),
+    content: template.content.includes('{{deadline}}')
+      ? content
+      : `${content}\n\nPlease respond by ${values.deadline}.`,
+  };
+};
+
+const rfqMessage = (conversationId: string, senderId: string, content: string, now: Date, files?: Message['files']): Message => ({
+  id: `msg-${now.getTime()}-${++rfqCounter}`,
+  conversationId,
+  senderId,
+  senderType: 'user',
+  content,
+  type: files?.length ? 'file' : 'text',
+  timestamp: now,
+  read: true,
+  files,
+});
+
+/**
+ * The RFQ with one requested quote and one conversation per manufacturer
+ */
+export const createRfqRequests = ({
+  draft,
+  projectId,
+  manufacturers,
+  template,
+  user,
+  now = new Date(),
+}: {
+  draft: RfqDraft;
+  projectId: string;
+  manufacturers: Manufacturer[];
+  template: ResponseTemplate;
+  user: { id: string; name: string };
+  now?: Date;
+}): { rfq: Rfq; quotes: Quote[]; conversations: Conversation[] } => {
+  const rfqId = `rfq-${now.getTime()}-${++rfqCounter}`;
+  const quotes: Quote[] = [];
+  const conversations: Conversation[] = [];
+  const recipients: RfqRecipient[] = manufacturers.map((manufacturer, index) => {
+    const quoteId = `${rfqId}-q${index + 1}`;
+    const conversationId = `${rfqId}-c${index + 1}`;
+    const { subject, content } = renderRfqMessage(template, draft, manufacturer, user.name, now);
+
+    quotes.push({
+      id: quoteId,
+      manufacturerId: manufacturer.id,
+      projectId,
+      status: 'requested',
+      files: [],
+      createdAt: now,
+      updatedAt: now,
+      events: [createQuoteEvent({ type: 'created', actor: user.name, to: 'requested', note: `Requested in RFQ “${draft.title}”` }, now)],
+    });
+    conversations.push({
+      id: conversationId,
+      manufacturerId: manufacturer.id,
+      projectId,
+      userId: user.id,
+      type: 'email',
+      subject,
+      status: 'pending',
+      priority: 'medium',
+      lastMessageAt: now,
+      messages: [rfqMessage(conversationId, user.id, content, now, draft.attachments)],
+      tags: ['rfq', 'quote'],
+    });
+    return { manufacturerId: manufacturer.id, quoteId, conversationId, remindersSent: 0 };
+  });
+
+  return { rfq: { ...draft, id: rfqId, projectId, recipients, createdAt: now }, quotes, conversations };
+};
+
+export type RfqRecipientStatus = 'quoted' | 'replied' | 'awaiting' | 'closed';
+
+/**
+ * Where a recipient stands: 'quoted' once their quote has terms, 'replied'
+ * if they've written back without one, 'closed' if the quote left the
+ * requested state some other way (withdrawn, expired)
+ */
+export const rfqRecipientStatus = (
+  recipient: RfqRecipient,
+  quotes: Quote[],
+  conversations: Conversation[]
+): RfqRecipientStatus => {
+  const quote = quotes.find(q => q.id === recipient.quoteId);
+  if (quote?.pricePerUnit !== undefined) return 'quoted';
+  const conversation = conversations.find(c => c.id === recipient.conversationId);
+  if (conversation?.messages.some(m => m.senderType === 'manufacturer')) return 'replied';
+  if (!quote || quote.status !== 'requested') return 'closed';
+  return 'awaiting';
+};
+
+export interface RfqResponseStats {
+  sent: number;
+  quoted: number;
+  replied: number;
+  awaiting: number;
+  responseRate: number; // 0-1, quoted or replied
+}
+
+export const rfqResponseStats = (rfq: Rfq, quotes: Quote[], conversations: Conversation[]): RfqResponseStats => {
+  const statuses = rfq.recipients.map(recipient => rfqRecipientStatus(recipient, quotes, conversations));
+  const count = (status: RfqRecipientStatus) => statuses.filter(s => s === status).length;
+  const quoted = count('quoted');
+  const replied = count('replied');
+  return {
+    sent: statuses.length,
+    quoted,
+    replied,
+    awaiting: count('awaiting'),
+    responseRate: statuses.length > 0 ? (quoted + replied) / statuses.length : 0,
+  };
+};
+
+export const isRfqOpen = (rfq: Rfq, now = new Date()) => rfq.deadline.getTime() > now.getTime();
+
+/**
+ * Reminders an unanswered recipient should have had by `now`: one for each
+ * RFQ_REMINDER_DAYS mark the deadline has come within
+ */
+export const rfqRemindersDue = (rfq: Rfq, now = new Date()) => {
+  const daysLeft = (rfq.deadline.getTime() - now.getTime()) / DAY_MS;
+  return RFQ_REMINDER_DAYS.filter(days => daysLeft <= days).length;
+};
+
+/**
+ * Recipients still awaited who are owed a reminder. Several marks passed
+ * at once (e.g. the app was closed) still send a single reminder; the
+ * caller records `rfqRemindersDue` as sent.
+ */
+export const dueRfqReminders = (
+  rfq: Rfq,
+  quotes: Quote[],
+  conversations: Conversation[],
+  now = new Date()
+): RfqRecipient[] => {
+  if (!isRfqOpen(rfq, now)) return [];
+  const due = rfqRemindersDue(rfq, now);
+  return rfq.recipients.filter(recipient =>
+    recipient.remindersSent < due && rfqRecipientStatus(recipient, quotes, conversations) === 'awaiting'
+  );
+};
+
+/**
+ * Reminder message for one recipient, from the follow-up template when
+ * there is one
+ */
+export const rfqReminderMessage = (
+  rfq: Rfq,
+  recipient: RfqRecipient,
+  manufacturer: Manufacturer | undefined,
+  template: ResponseTemplate | undefined,
+  user: { id: string; name: string },
+  now = new Date()
+): Message => {
+  const content = template
+    ? renderRfqMessage(template, rfq, manufacturer, user.name, rfq.createdAt).content
+    : `Hello ${manufacturer?.name ?? ''},\n\nA reminder that quotes for ${rfq.title} are due by ${rfq.deadline.toLocaleDateString()}.\n\nBest regards,\n${user.name}`;
+  return rfqMessage(recipient.conversationId, user.id, content, now);
+};
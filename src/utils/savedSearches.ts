@@ -0,0 +1,98 @@
+import { Manufacturer, Notification, SavedSearch } from '../types';
+import { matchesSearchFilters, matchesTableFilters } from './manufacturerFilters';
+
+/**
+ * Saved Searches
+ *
+ * Named /database views (query, filters, sort and column layout), persisted
+ * with the rest of the app store. Searches flagged "alert me" raise a
+ * status_change notification when newly loaded manufacturer data adds or
+ * changes matches.
+ */
+
+/**
+ * Link that reopens a saved search in the database view
+ */
+export const savedSearchUrl = (savedSearchId: string) => `/database?savedSearch=${encodeURIComponent(savedSearchId)}`;
+
+/**
+ * Short content hash of a manufacturer, ignoring runtime-only fields, used
+ * to tell whether a known match has changed since the last check
+ */
+export const manufacturerSignature = (manufacturer: Manufacturer): string => {
+  const text = JSON.stringify({ ...manufacturer, distance: undefined });
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Manufacturers matching a saved search. `textSearch` resolves the free-text
+ * part to matching ids (the store passes its full-text index).
+ */
+export const findSavedSearchMatches = (
+  search: SavedSearch,
+  manufacturers: Manufacturer[],
+  textSearch: (query: string) => Set<string>
+): Manufacturer[] => {
+  const textMatches = search.searchText.trim() ? textSearch(search.searchText) : null;
+  return manufacturers.filter(m =>
+    (!textMatches || textMatches.has(m.id)) &&
+    matchesSearchFilters(m, search.searchFilters) &&
+    matchesTableFilters(m, search.tableFilters)
+  );
+};
+
+export const snapshotMatches = (matches: Manufacturer[]): Record<string, string> =>
+  Object.fromEntries(matches.map(m => [m.id, manufacturerSignature(m)]));
+
+/**
+ * Compare every saved search against freshly loaded manufacturers.
+ * Returns the searches with refreshed match snapshots plus one
+ * notification per alerting search that gained new or changed matches,
+ * addressed to `userId`.
+ */
+export const checkSavedSearchAlerts = (
+  searches: SavedSearch[],
+  manufacturers: Manufacturer[],
+  textSearch: (query: string) => Set<string>,
+  userId: string
+): { searches: SavedSearch[]; notifications: Notification[] } => {
+  const notifications: Notification[] = [];
+
+  const refreshed = searches.map(search => {
+    const matches = findSavedSearchMatches(search, manufacturers, textSearch);
+    const knownMatches = snapshotMatches(matches);
+
+    if (search.alertEnabled) {
+      const added = matches.filter(m => !(m.id in search.knownMatches));
+      const changed = matches.filter(m => m.id in search.knownMatches && search.knownMatches[m.id] !== knownMatches[m.id]);
+
+      if (added.length + changed.length > 0) {
+        const parts = [
+          added.length > 0 && `${added.length} new`,
+          changed.length > 0 && `${changed.length} updated`
+        ].filter(Boolean);
+        const names = [...added, ...changed].slice(0, 3).map(m => m.name).join(', ');
+
+        notifications.push({
+          id: `saved-search-${search.id}-${Date.now()}`,
+          userId,
+          type: 'status_change',
+          title: `Saved search "${search.name}": ${parts.join(', ')} match${added.length + changed.length === 1 ? '' : 'es'}`,
+          message: added.length + changed.length > 3 ? `${names} and more` : names,
+          read: false,
+          actionUrl: savedSearchUrl(search.id),
+          createdAt: new Date(),
+          priority: 'medium'
+        });
+      }
+    }
+
+    return { ...search, knownMatches };
+  });
+
+  return { searches: refreshed, notifications };
+};
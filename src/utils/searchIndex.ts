@@ -0,0 +1,417 @@
+import { Manufacturer, ManufacturerSearchHit, SearchHighlight, SearchHighlightSegment } from '../types';
+
+/**
+ * Manufacturer Full-Text Search Index
+ *
+ * In-browser inverted index over every Manufacturer text field with:
+ * - tokenization and light suffix stemming
+ * - per-field boosts
+ * - typo-tolerant fuzzy matching (bounded edit distance)
+ * - prefix queries (`mach*`, and implicit prefixes for words being typed)
+ * - phrase queries (`"cnc machining"`), matched on term positions
+ * - highlighted match snippets
+ *
+ * `sync` re-indexes only documents whose text changed, so it can be called
+ * on every `setManufacturers` without rebuilding the whole index.
+ */
+
+type SearchField = keyof Manufacturer;
+
+/**
+ * Indexed fields and their relevance boosts
+ */
+export const searchFieldBoosts: Partial<Record<SearchField, number>> = {
+  name: 5,
+  capabilities: 4,
+  specializations: 3,
+  keyProducts: 3,
+  materials: 3,
+  industryKeywords: 2.5,
+  certifications: 2,
+  qualityCertifications: 1.5,
+  isoCertifications: 1.5,
+  equipment: 2,
+  naicsCode: 2,
+  sicCode: 1.5,
+  city: 2,
+  state: 2,
+  primaryApplications: 1.5,
+  description: 1,
+  factoryName: 1,
+  headquartersAddress: 0.75,
+  factoryAddress: 0.75,
+  workforceSkills: 0.75,
+  rawMaterialSources: 0.75,
+  environmentalPermits: 0.5,
+  productionCapacity: 0.5,
+  ownershipType: 0.5,
+  parentCompany: 0.5,
+  contactPerson: 0.5,
+  manufacturerID: 0.5,
+  website: 0.25,
+  email: 0.25
+};
+
+const indexedFields = Object.keys(searchFieldBoosts) as SearchField[];
+
+// Position gap between array items so phrases never span two values
+const ARRAY_ITEM_GAP = 100;
+
+const PREFIX_QUALITY = 0.7;
+const FUZZY_QUALITY = [1, 0.5, 0.35];
+const SNIPPET_CONTEXT = 40;
+const SNIPPET_LENGTH = 120;
+const MAX_HIGHLIGHTS = 2;
+
+const suffixes = ['ational', 'ation', 'ating', 'ings', 'ing', 'ated', 'ates', 'ate', 'edly', 'ers', 'ies', 'ed', 'er', 'es', 'ly', 's', 'e'];
+
+/**
+ * Light English stemmer: strips one common suffix, keeping at least a
+ * three-letter stem ("machining" / "machines" -> "machin")
+ */
+export const stem = (token: string): string => {
+  if (token.length <= 3 || /^\d+$/.test(token)) return token;
+  for (const suffix of suffixes) {
+    if (!token.endsWith(suffix) || token.length - suffix.length < 3) continue;
+    if (suffix === 's' && token.endsWith('ss')) return token;
+    if (suffix === 'ies') return `${token.slice(0, -3)}y`;
+    return token.slice(0, -suffix.length);
+  }
+  return token;
+};
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into lowercase alphanumeric tokens with their source offsets
+ */
+const tokenizeWithOffsets = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /[a-z0-9]+/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ term: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+/**
+ * Text values of a field; arrays keep their items separate
+ */
+const fieldValues = (manufacturer: Manufacturer, field: SearchField): string[] => {
+  const value = manufacturer[field];
+  if (Array.isArray(value)) return value.map(String);
+  if (value === null || value === undefined) return [];
+  return [String(value)];
+};
+
+const fieldText = (manufacturer: Manufacturer, field: SearchField) => fieldValues(manufacturer, field).join(', ');
+
+/**
+ * Bounded Damerau-Levenshtein distance; returns maxDistance + 1 once exceeded
+ */
+const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+  return rows[a.length][b.length];
+};
+
+const maxEditsFor = (term: string) => (term.length < 4 ? 0 : term.length < 8 ? 1 : 2);
+
+type QueryClause =
+  | { kind: 'term'; raw: string; term: string; prefix: boolean; fuzzy: boolean }
+  | { kind: 'phrase'; raw: string; terms: string[] };
+
+/**
+ * Parse a query into quoted phrases and terms. A trailing `*` requests a
+ * prefix match; unquoted words of three or more letters also match as
+ * prefixes so results update while the user types. Numbers (NAICS codes,
+ * ZIPs) only match exactly or with an explicit `*`.
+ */
+export const parseSearchQuery = (query: string): QueryClause[] => {
+  const clauses: QueryClause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const terms = tokenizeWithOffsets(match[1]).map(t => stem(t.term));
+      if (terms.length === 1) {
+        clauses.push({ kind: 'term', raw: match[1], term: terms[0], prefix: false, fuzzy: false });
+      } else if (terms.length > 1) {
+        clauses.push({ kind: 'phrase', raw: match[1], terms });
+      }
+      continue;
+    }
+
+    const word = match[2];
+    const explicitPrefix = word.endsWith('*');
+    for (const token of tokenizeWithOffsets(word)) {
+      const isNumeric = /^\d+$/.test(token.term);
+      clauses.push({
+        kind: 'term',
+        raw: token.term,
+        term: explicitPrefix ? token.term : stem(token.term),
+        prefix: explicitPrefix || (!isNumeric && token.term.length >= 3),
+        fuzzy: !explicitPrefix && !isNumeric
+      });
+    }
+  }
+  return clauses;
+};
+
+// term -> document id -> field -> positions
+type Postings = Map<string, Map<SearchField, number[]>>;
+
+interface IndexedDocument {
+  signature: string;
+  terms: Set<string>;
+}
+
+export interface ManufacturerSearchIndex {
+  sync: (manufacturers: Manufacturer[]) => void;
+  search: (query: string) => ManufacturerSearchHit[];
+  size: () => number;
+}
+
+/**
+ * Create an empty manufacturer search index
+ */
+export const createManufacturerSearchIndex = (): ManufacturerSearchIndex => {
+  const postings = new Map<string, Postings>();
+  const documents = new Map<string, IndexedDocument>();
+  const sources = new Map<string, Manufacturer>();
+
+  const signatureOf = (manufacturer: Manufacturer) =>
+    indexedFields.map(field => fieldText(manufacturer, field)).join('\u0000');
+
+  const removeDocument = (id: string) => {
+    const doc = documents.get(id);
+    if (!doc) return;
+    doc.terms.forEach(term => {
+      const termPostings = postings.get(term);
+      termPostings?.delete(id);
+      if (termPostings && termPostings.size === 0) postings.delete(term);
+    });
+    documents.delete(id);
+    sources.delete(id);
+  };
+
+  const addDocument = (manufacturer: Manufacturer, signature: string) => {
+    const terms = new Set<string>();
+
+    indexedFields.forEach(field => {
+      let position = 0;
+      fieldValues(manufacturer, field).forEach(value => {
+        tokenizeWithOffsets(value).forEach(token => {
+          const term = stem(token.term);
+          terms.add(term);
+          let termPostings = postings.get(term);
+          if (!termPostings) {
+            termPostings = new Map();
+            postings.set(term, termPostings);
+          }
+          let fields = termPostings.get(manufacturer.id);
+          if (!fields) {
+            fields = new Map();
+            termPostings.set(manufacturer.id, fields);
+          }
+          const positions = fields.get(field) ?? [];
+          positions.push(position++);
+          fields.set(field, positions);
+        });
+        position += ARRAY_ITEM_GAP;
+      });
+    });
+
+    documents.set(manufacturer.id, { signature, terms });
+    sources.set(manufacturer.id, manufacturer);
+  };
+
+  const sync = (manufacturers: Manufacturer[]) => {
+    const incoming = new Set(manufacturers.map(m => m.id));
+    [...documents.keys()].filter(id => !incoming.has(id)).forEach(removeDocument);
+
+    manufacturers.forEach(manufacturer => {
+      const signature = signatureOf(manufacturer);
+      const existing = documents.get(manufacturer.id);
+      if (existing?.signature === signature) {
+        sources.set(manufacturer.id, manufacturer);
+        return;
+      }
+      removeDocument(manufacturer.id);
+      addDocument(manufacturer, signature);
+    });
+  };
+
+  /**
+   * Vocabulary terms a query term expands to, with their match quality
+   */
+  const expandTerm = (clause: Extract<QueryClause, { kind: 'term' }>): Map<string, number> => {
+    const expansions = new Map<string, number>();
+    const consider = (term: string, quality: number) => {
+      if (quality > (expansions.get(term) ?? 0)) expansions.set(term, quality);
+    };
+
+    if (postings.has(clause.term)) consider(clause.term, 1);
+
+    postings.forEach((_, term) => {
+      if (clause.prefix && term !== clause.term && (term.startsWith(clause.term) || term.startsWith(clause.raw))) {
+        consider(term, PREFIX_QUALITY);
+      }
+      if (clause.fuzzy) {
+        const maxEdits = maxEditsFor(clause.term);
+        if (maxEdits > 0) {
+          const distance = editDistance(clause.term, term, maxEdits);
+          if (distance > 0 && distance <= maxEdits) consider(term, FUZZY_QUALITY[distance]);
+        }
+      }
+    });
+    return expansions;
+  };
+
+  const idf = (term: string) => Math.log(1 + documents.size / (postings.get(term)?.size ?? 1));
+
+  /**
+   * Documents containing the phrase terms at consecutive positions in one field
+   */
+  const matchPhrase = (terms: string[]): Map<string, Set<SearchField>> => {
+    const matches = new Map<string, Set<SearchField>>();
+    const first = postings.get(terms[0]);
+    if (!first) return matches;
+
+    first.forEach((fields, id) => {
+      fields.forEach((positions, field) => {
+        const found = positions.some(start =>
+          terms.slice(1).every((term, offset) =>
+            postings.get(term)?.get(id)?.get(field)?.includes(start + offset + 1)
+          )
+        );
+        if (found) {
+          const matchedFields = matches.get(id) ?? new Set<SearchField>();
+          matchedFields.add(field);
+          matches.set(id, matchedFields);
+        }
+      });
+    });
+    return matches;
+  };
+
+  /**
+   * Build highlighted segments around the first matched term in a field
+   */
+  const buildHighlight = (manufacturer: Manufacturer, field: SearchField, terms: Set<string>): SearchHighlight | null => {
+    const text = fieldText(manufacturer, field);
+    const matches = tokenizeWithOffsets(text).filter(token => terms.has(stem(token.term)));
+    if (matches.length === 0) return null;
+
+    let windowStart = 0;
+    let windowEnd = text.length;
+    if (text.length > SNIPPET_LENGTH) {
+      windowStart = Math.max(0, matches[0].start - SNIPPET_CONTEXT);
+      windowEnd = Math.min(text.length, windowStart + SNIPPET_LENGTH);
+    }
+
+    const segments: SearchHighlightSegment[] = [];
+    let cursor = windowStart;
+    matches
+      .filter(token => token.start >= windowStart && token.end <= windowEnd)
+      .forEach(token => {
+        if (token.start > cursor) segments.push({ text: text.slice(cursor, token.start), match: false });
+        segments.push({ text: text.slice(token.start, token.end), match: true });
+        cursor = token.end;
+      });
+    if (cursor < windowEnd) segments.push({ text: text.slice(cursor, windowEnd), match: false });
+
+    if (windowStart > 0) segments.unshift({ text: '…', match: false });
+    if (windowEnd < text.length) segments.push({ text: '…', match: false });
+    return { field, segments };
+  };
+
+  const search = (query: string): ManufacturerSearchHit[] => {
+    const clauses = parseSearchQuery(query);
+    if (clauses.length === 0) return [];
+
+    // Every clause must match (AND); scores accumulate per document and field
+    let candidates = new Set<string>();
+    const scores = new Map<string, number>();
+    const fieldScores = new Map<string, Map<SearchField, number>>();
+    const matchedTerms = new Map<string, Map<SearchField, Set<string>>>();
+
+    const record = (id: string, field: SearchField, term: string, score: number) => {
+      scores.set(id, (scores.get(id) ?? 0) + score);
+      const perField = fieldScores.get(id) ?? new Map<SearchField, number>();
+      perField.set(field, (perField.get(field) ?? 0) + score);
+      fieldScores.set(id, perField);
+      const termsByField = matchedTerms.get(id) ?? new Map<SearchField, Set<string>>();
+      const fieldTerms = termsByField.get(field) ?? new Set<string>();
+      fieldTerms.add(term);
+      termsByField.set(field, fieldTerms);
+      matchedTerms.set(id, termsByField);
+    };
+
+    for (const [clauseIndex, clause] of clauses.entries()) {
+      const clauseMatches = new Set<string>();
+
+      if (clause.kind === 'phrase') {
+        const phraseWeight = clause.terms.reduce((sum, term) => sum + idf(term), 0);
+        matchPhrase(clause.terms).forEach((fields, id) => {
+          clauseMatches.add(id);
+          fields.forEach(field => {
+            clause.terms.forEach(term => record(id, field, term, (searchFieldBoosts[field] ?? 1) * phraseWeight / clause.terms.length));
+          });
+        });
+      } else {
+        expandTerm(clause).forEach((quality, term) => {
+          const weight = quality * idf(term);
+          postings.get(term)?.forEach((fields, id) => {
+            clauseMatches.add(id);
+            fields.forEach((positions, field) => {
+              const termFrequency = 1 + Math.log(positions.length);
+              record(id, field, term, (searchFieldBoosts[field] ?? 1) * weight * termFrequency);
+            });
+          });
+        });
+      }
+
+      candidates = clauseIndex === 0
+        ? clauseMatches
+        : new Set([...candidates].filter(id => clauseMatches.has(id)));
+      if (candidates.size === 0) return [];
+    }
+
+    return [...candidates]
+      .map(id => {
+        const manufacturer = sources.get(id)!;
+        const topFields = [...(fieldScores.get(id) ?? new Map<SearchField, number>()).entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_HIGHLIGHTS)
+          .map(([field]) => field);
+        const highlights = topFields
+          .map(field => buildHighlight(manufacturer, field, matchedTerms.get(id)?.get(field) ?? new Set()))
+          .filter((highlight): highlight is SearchHighlight => highlight !== null);
+        return { manufacturerId: id, score: scores.get(id) ?? 0, highlights };
+      })
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return { sync, search, size: () => documents.size };
+};
@@ -0,0 +1,123 @@
+import { readXlsx } from './xlsx';
+
+/**
+ * Spreadsheet Files
+ *
+ * Turns uploaded CSV, TSV and XLSX files into rows of cell text, and rows
+ * back into CSV downloads.
+ */
+
+const candidateDelimiters = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter that splits the first line into the most fields,
+ * ignoring delimiters inside quotes
+ */
+const detectDelimiter = (text: string): string => {
+  let firstLine = '';
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if ((char === '\n' || char === '\r') && !inQuotes) break;
+    firstLine += inQuotes ? '' : char;
+  }
+  return candidateDelimiters
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain delimiters, newlines and
+ * doubled quotes. Trailing blank lines are dropped.
+ */
+export const parseCsv = (input: string, delimiter = detectDelimiter(input)): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell.trim() === '')) rows.pop();
+  return rows;
+};
+
+export const spreadsheetAccept = {
+  'text/csv': ['.csv'],
+  'text/tab-separated-values': ['.tsv'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+};
+
+/**
+ * Read an uploaded file as rows; the format is chosen by extension
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'xlsx') return readXlsx(await file.arrayBuffer());
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') {
+    return parseCsv(await file.text(), extension === 'tsv' ? '\t' : undefined);
+  }
+  throw new Error(`Unsupported file type: .${extension ?? ''}`);
+};
+
+/**
+ * Rows to RFC 4180 CSV text: CRLF line breaks, and cells containing the
+ * delimiter, quotes, line breaks or edge whitespace are quoted
+ */
+export const toCsv = (rows: (string | number | boolean | null | undefined)[][], delimiter = ','): string => {
+  const needsQuotes = (text: string) =>
+    text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return rows
+    .map(row => row.map(cell => {
+      const text = String(cell ?? '');
+      return needsQuotes(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(delimiter))
+    .join('\r\n');
+};
+
+/**
+ * Save generated content through a temporary download link
+ */
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,236 @@
+import { FilterState, ManufacturerTableColumn, SearchFilters, SortConfig, SortKey } from '../types';
+
+/**
+ * URL State
+ *
+ * Query-string encoding for the /database, /map and /quotes views so links
+ * reproduce the exact view. Values equal to their defaults are omitted to
+ * keep links short; list values use repeated keys (`cap=A&cap=B`).
+ */
+
+const setIfChanged = (params: URLSearchParams, key: string, value: string | number | undefined, defaultValue?: string | number) => {
+  if (value === undefined || value === '' || value === defaultValue) return;
+  params.set(key, String(value));
+};
+
+const appendAll = (params: URLSearchParams, key: string, values: string[]) => {
+  values.forEach(value => params.append(key, value));
+};
+
+export const readNumber = (params: URLSearchParams, key: string): number | undefined => {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const readOption = <T extends string>(params: URLSearchParams, key: string, options: readonly T[], fallback: T): T => {
+  const raw = params.get(key);
+  return options.includes(raw as T) ? (raw as T) : fallback;
+};
+
+const readBoolean = (params: URLSearchParams, key: string): boolean | undefined => {
+  const raw = params.get(key);
+  if (raw === 'yes') return true;
+  if (raw === 'no') return false;
+  return undefined;
+};
+
+/**
+ * Encode the store's SearchFilters (shared by the map and database views)
+ */
+export const writeSearchFilters = (params: URLSearchParams, filters: SearchFilters, defaults: SearchFilters) => {
+  appendAll(params, 'cap', filters.capabilities);
+  appendAll(params, 'mat', filters.materials);
+  appendAll(params, 'cert', filters.certifications);
+  setIfChanged(params, 'distance', filters.maxDistance, defaults.maxDistance);
+  setIfChanged(params, 'moqMin', filters.minMoq, defaults.minMoq);
+  setIfChanged(params, 'moqMax', filters.maxMoq, defaults.maxMoq);
+  setIfChanged(params, 'leadTime', filters.maxLeadTime, defaults.maxLeadTime);
+  setIfChanged(params, 'minRating', filters.minRating, defaults.minRating);
+  setIfChanged(params, 'capacityMin', filters.minCapacity);
+  setIfChanged(params, 'capacityMax', filters.maxCapacity);
+  setIfChanged(params, 'ratingMax', filters.maxRating);
+};
+
+export const readSearchFilters = (params: URLSearchParams, defaults: SearchFilters): SearchFilters => ({
+  ...defaults,
+  capabilities: params.getAll('cap'),
+  materials: params.getAll('mat'),
+  certifications: params.getAll('cert'),
+  maxDistance: readNumber(params, 'distance') ?? defaults.maxDistance,
+  minMoq: readNumber(params, 'moqMin') ?? defaults.minMoq,
+  maxMoq: readNumber(params, 'moqMax') ?? defaults.maxMoq,
+  maxLeadTime: readNumber(params, 'leadTime') ?? defaults.maxLeadTime,
+  minRating: readNumber(params, 'minRating') ?? defaults.minRating,
+  minCapacity: readNumber(params, 'capacityMin'),
+  maxCapacity: readNumber(params, 'capacityMax'),
+  maxRating: readNumber(params, 'ratingMax')
+});
+
+export interface DatabaseUrlState {
+  query: string;
+  searchFilters: SearchFilters;
+  tableFilters: FilterState;
+  sortConfig: SortConfig;
+  page: number;
+  pageSize: number;
+  hiddenColumns: ManufacturerTableColumn[];
+  manufacturerId: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+// Columns the data table can sort by
+export const sortableKeys: SortKey[] = [
+  'name', 'matchScore', 'state', 'distance', 'numberOfEmployees', 'annualRevenue', 'rating', 'currentCapacity'
+];
+
+// Snap a page size from a link to the nearest one the table offers
+const readPageSize = (params: URLSearchParams): number => {
+  const requested = readNumber(params, 'pageSize');
+  if (requested === undefined) return DEFAULT_PAGE_SIZE;
+  return PAGE_SIZE_OPTIONS.reduce((best, option) =>
+    Math.abs(option - requested) < Math.abs(best - requested) ? option : best
+  );
+};
+
+export const serializeDatabaseState = (
+  state: DatabaseUrlState,
+  defaults: { searchFilters: SearchFilters; tableFilters: FilterState }
+): string => {
+  const params = new URLSearchParams();
+  setIfChanged(params, 'q', state.query.trim() ? state.query : undefined);
+  writeSearchFilters(params, state.searchFilters, defaults.searchFilters);
+
+  const table = state.tableFilters;
+  const tableDefaults = defaults.tableFilters;
+  appendAll(params, 'state', table.states);
+  setIfChanged(params, 'employees', table.employeeRange, tableDefaults.employeeRange);
+  setIfChanged(params, 'revenue', table.revenueRange, tableDefaults.revenueRange);
+  setIfChanged(params, 'ratingRange', table.ratingRange, tableDefaults.ratingRange);
+  setIfChanged(params, 'diversity', table.diversityFlag === null ? undefined : table.diversityFlag ? 'yes' : 'no');
+  setIfChanged(params, 'sustainability', table.sustainabilityMin, tableDefaults.sustainabilityMin);
+  setIfChanged(params, 'founded', table.yearEstablishedRange, tableDefaults.yearEstablishedRange);
+
+  if (state.sortConfig.key) {
+    params.set('sort', state.sortConfig.key);
+    params.set('dir', state.sortConfig.direction);
+  }
+  setIfChanged(params, 'page', state.page, 1);
+  setIfChanged(params, 'pageSize', state.pageSize, DEFAULT_PAGE_SIZE);
+  appendAll(params, 'hide', state.hiddenColumns);
+  setIfChanged(params, 'manufacturer', state.manufacturerId ?? undefined);
+  return params.toString();
+};
+
+export const parseDatabaseState = (
+  params: URLSearchParams,
+  defaults: { searchFilters: SearchFilters; tableFilters: FilterState }
+): DatabaseUrlState => {
+  const tableDefaults = defaults.tableFilters;
+  const diversity = readBoolean(params, 'diversity');
+  const sortKey = readOption<SortKey | 'none'>(params, 'sort', sortableKeys, 'none');
+
+  return {
+    query: params.get('q') ?? '',
+    searchFilters: readSearchFilters(params, defaults.searchFilters),
+    tableFilters: {
+      states: params.getAll('state'),
+      employeeRange: params.get('employees') ?? tableDefaults.employeeRange,
+      revenueRange: params.get('revenue') ?? tableDefaults.revenueRange,
+      ratingRange: params.get('ratingRange') ?? tableDefaults.ratingRange,
+      diversityFlag: diversity ?? null,
+      sustainabilityMin: readNumber(params, 'sustainability') ?? tableDefaults.sustainabilityMin,
+      yearEstablishedRange: params.get('founded') ?? tableDefaults.yearEstablishedRange
+    },
+    sortConfig: {
+      key: sortKey === 'none' ? null : sortKey,
+      direction: readOption(params, 'dir', ['asc', 'desc'] as const, 'asc')
+    },
+    page: Math.max(1, Math.floor(readNumber(params, 'page') ?? 1)),
+    pageSize: readPageSize(params),
+    hiddenColumns: params.getAll('hide') as ManufacturerTableColumn[],
+    manufacturerId: params.get('manufacturer')
+  };
+};
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export const DEFAULT_MAP_VIEWPORT: MapViewport = { lat: 39.8283, lng: -98.5795, zoom: 4 }; // Center of US
+
+export interface MapUrlState {
+  searchFilters: SearchFilters;
+  viewport: MapViewport;
+  viewMode: 'map' | 'list';
+  manufacturerId: string | null;
+}
+
+export const serializeMapState = (state: MapUrlState, defaultFilters: SearchFilters): string => {
+  const params = new URLSearchParams();
+  writeSearchFilters(params, state.searchFilters, defaultFilters);
+
+  const { lat, lng, zoom } = state.viewport;
+  if (lat !== DEFAULT_MAP_VIEWPORT.lat || lng !== DEFAULT_MAP_VIEWPORT.lng || zoom !== DEFAULT_MAP_VIEWPORT.zoom) {
+    params.set('lat', lat.toFixed(4));
+    params.set('lng', lng.toFixed(4));
+    params.set('zoom', String(zoom));
+  }
+  setIfChanged(params, 'view', state.viewMode, 'map');
+  setIfChanged(params, 'manufacturer', state.manufacturerId ?? undefined);
+  return params.toString();
+};
+
+export const parseMapState = (params: URLSearchParams, defaultFilters: SearchFilters): MapUrlState => ({
+  searchFilters: readSearchFilters(params, defaultFilters),
+  viewport: {
+    lat: readNumber(params, 'lat') ?? DEFAULT_MAP_VIEWPORT.lat,
+    lng: readNumber(params, 'lng') ?? DEFAULT_MAP_VIEWPORT.lng,
+    zoom: readNumber(params, 'zoom') ?? DEFAULT_MAP_VIEWPORT.zoom
+  },
+  viewMode: readOption(params, 'view', ['map', 'list'] as const, 'map'),
+  manufacturerId: params.get('manufacturer')
+});
+
+export const quoteTabs = [
+  'all',
+  'draft',
+  'requested',
+  'received',
+  'under_review',
+  'negotiating',
+  'accepted',
+  'rejected',
+  'expired',
+  'withdrawn',
+  'comparison'
+] as const;
+export const quoteSorts = ['date', 'price', 'leadTime', 'score'] as const;
+
+export interface QuotesUrlState {
+  tab: typeof quoteTabs[number];
+  search: string;
+  sortBy: typeof quoteSorts[number];
+  compareIds: string[];
+}
+
+export const serializeQuotesState = (state: QuotesUrlState): string => {
+  const params = new URLSearchParams();
+  setIfChanged(params, 'tab', state.tab, 'all');
+  setIfChanged(params, 'q', state.search);
+  setIfChanged(params, 'sort', state.sortBy, 'date');
+  appendAll(params, 'compare', state.compareIds);
+  return params.toString();
+};
+
+export const parseQuotesState = (params: URLSearchParams): QuotesUrlState => ({
+  tab: readOption(params, 'tab', quoteTabs, 'all'),
+  search: params.get('q') ?? '',
+  sortBy: readOption(params, 'sort', quoteSorts, 'date'),
+  compareIds: params.getAll('compare')
+});
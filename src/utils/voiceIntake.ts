@@ -0,0 +1,473 @@
+import { IntakeSlot, IntakeSlots, ProjectIntake, SlotFill, VoiceTurn } from '../types';
+import { certifications as knownCertifications, materials as knownMaterials } from '../data/mockData';
+import { geocodeLocation } from './geo';
+
+/**
+ * Voice Intake Slot Filling
+ *
+ * Reads the voice agent transcript turn by turn and fills the project
+ * intake from what the user said. Spoken numbers are normalized to digits
+ * first ("ten thousand" → 10000), then each slot is matched by patterns
+ * of decreasing reliability: an explicit unit ("10000 units", "$50 a
+ * unit") beats a bare number given in answer to the agent's question.
+ * Deterministic, so the same conversation always yields the same intake.
+ */
+
+export const intakeSlots: IntakeSlot[] = [
+  'category', 'material', 'volume', 'targetCost', 'leadTimeGoal', 'certificationRequirements', 'location',
+];
+
+// Slots that must be filled before the intake can be confirmed
+export const requiredIntakeSlots: IntakeSlot[] = ['category', 'material', 'volume', 'targetCost', 'leadTimeGoal'];
+
+export const intakeSlotLabels: Record<IntakeSlot, string> = {
+  category: 'Product category',
+  material: 'Material',
+  volume: 'Volume',
+  targetCost: 'Target cost',
+  leadTimeGoal: 'Lead time goal',
+  certificationRequirements: 'Certifications',
+  location: 'Location',
+};
+
+export const intakeSlotPrompts: Record<IntakeSlot, string> = {
+  category: 'What type of product are you looking to manufacture?',
+  material: 'What material will your product primarily be made from?',
+  volume: "What's your expected annual production volume?",
+  targetCost: "What's your target cost per unit?",
+  leadTimeGoal: "What's your ideal lead time for production?",
+  certificationRequirements: 'Do you need any specific certifications like ISO 9001, UL listing, or others?',
+  location: 'Where are you located, or where would you like your manufacturer to be?',
+};
+
+// Below this a filled slot is confirmed with the user rather than assumed
+export const LOW_SLOT_CONFIDENCE = 0.6;
+
+// Later statements override earlier ones from this confidence up
+const OVERRIDE_CONFIDENCE = 0.7;
+
+const CONFIRM_PREFIX = 'Just to confirm, ';
+const YES_OR_NO = /^\W*(?:yes|yeah|yep|no|nope|correct|right|that'?s\s+(?:right|correct)|exactly)\b/i;
+const YES = /^\W*(?:yes|yeah|yep|correct|right|that'?s\s+(?:right|correct)|exactly)\b/i;
+
+const SPEAKER_PREFIXES: Record<VoiceTurn['speaker'], string> = { agent: 'AI', user: 'You' };
+
+/**
+ * A turn as it's written into `VoiceSession.transcript`
+ */
+export const formatVoiceTurn = (turn: VoiceTurn) => `\n\n${SPEAKER_PREFIXES[turn.speaker]}: ${turn.text}`;
+
+/**
+ * Split a transcript back into turns; text without a speaker prefix
+ * continues the previous turn
+ */
+export const parseVoiceTranscript = (transcript: string): VoiceTurn[] =>
+  transcript.split(/\n{2,}/).reduce<VoiceTurn[]>((turns, block) => {
+    const text = block.trim();
+    if (!text) return turns;
+    const match = text.match(/^(AI|You):\s*/);
+    if (match) return [...turns, { speaker: match[1] === 'AI' ? 'agent' : 'user', text: text.slice(match[0].length) }];
+    if (turns.length === 0) return [{ speaker: 'agent', text }];
+    const last = turns[turns.length - 1];
+    return [...turns.slice(0, -1), { ...last, text: `${last.text}\n${text}` }];
+  }, []);
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const SCALES: Record<string, number> = { thousand: 1000, million: 1000000 };
+
+const NUMBER_WORD = `(?:${[...Object.keys(SMALL_NUMBERS), 'hundred', 'dozen', ...Object.keys(SCALES)].join('|')})`;
+const SPOKEN_NUMBER = new RegExp(
+  String.raw`\b(?:(?:an?|half(?:\s+an?)?|\d+(?:\.\d+)?)[\s-]+)?${NUMBER_WORD}(?:[\s-]+(?:and[\s-]+)?${NUMBER_WORD})*\b`,
+  'gi'
+);
+
+const spokenNumberValue = (phrase: string) => {
+  let total = 0;
+  let current = 0;
+  const words = phrase.toLowerCase().split(/[\s-]+/);
+  words.forEach((word, index) => {
+    if (word === 'and') return;
+    if (word === 'half') current = 0.5;
+    // "a hundred", "a dozen", "half a million", but not "a six week run"
+    else if (word === 'a' || word === 'an') current = /^(?:hundred|dozen|thousand|million)$/.test(words[index + 1]) ? current || 1 : current;
+    else if (/^\d/.test(word)) current = Number(word);
+    else if (word in SMALL_NUMBERS) current += SMALL_NUMBERS[word];
+    else if (word === 'hundred') current = (current || 1) * 100;
+    else if (word === 'dozen') current = (current || 1) * 12;
+    else if (word in SCALES) {
+      total += (current || 1) * SCALES[word];
+      current = 0;
+    }
+  });
+  return total + current;
+};
+
+/**
+ * Rewrite spoken and abbreviated numbers as plain digits: "ten thousand",
+ * "1.5 million", "10k", "10,000" and "a couple of" all become numbers
+ */
+export const normalizeSpokenNumbers = (text: string) =>
+  text
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/\b(\d+(?:\.\d+)?)\s?k\b/gi, (_, amount: string) => String(Number(amount) * 1000))
+    .replace(/\b(?:a\s+)?couple(?:\s+of)?\b/gi, '2')
+    .replace(SPOKEN_NUMBER, phrase => String(spokenNumberValue(phrase)));
+
+const snippetAt = (text: string, index: number, length: number) =>
+  text.slice(index, index + length).replace(/\s+/g, ' ').trim();
+
+/**
+ * Calendar days per duration unit
+ */
+const unitDays = (unit: string) => {
+  const normalized = unit.toLowerCase();
+  if (/business|working/.test(normalized)) return 7 / 5;
+  if (normalized.startsWith('w')) return 7;
+  if (normalized.startsWith('m')) return 30;
+  return 1;
+};
+
+const DURATION = String.raw`(\d+(?:\.\d+)?|an?)(?:\s*(?:-|–|to|or)\s*(\d+(?:\.\d+)?))?\s*(business\s*days?|working\s*days?|days?|weeks?|wks?|months?)\b`;
+const PER_UNIT = String.raw`(?:\s*(?:a|per|\/|for\s+each)\s*(?:unit|piece|pc|part|item|device)|\s*each|\s*apiece)`;
+
+// What the agent's last question asked about
+const QUESTION_SLOTS: { slot: IntakeSlot; pattern: RegExp }[] = [
+  { slot: 'certificationRequirements', pattern: /certif|complian|standards?/i },
+  { slot: 'leadTimeGoal', pattern: /lead\s*time|timeline|how\s+soon|when\s+do\s+you\s+need|turnaround/i },
+  { slot: 'targetCost', pattern: /cost|price|budget|spend/i },
+  { slot: 'volume', pattern: /volume|how\s+many|quantit/i },
+  { slot: 'material', pattern: /material|made\s+(?:of|from)/i },
+  { slot: 'location', pattern: /where|locat|based/i },
+  { slot: 'category', pattern: /type\s+of\s+product|kind\s+of\s+product|what\s+(?:are\s+you|do\s+you\s+want\s+to)\s+(?:looking\s+to\s+)?(?:make|manufactur|build|produc)/i },
+];
+
+export const questionSlot = (agentText: string): IntakeSlot | null => {
+  const questions = agentText.match(/[^.!?]*\?/g);
+  const question = questions ? questions[questions.length - 1] : agentText;
+  return QUESTION_SLOTS.find(({ pattern }) => pattern.test(question))?.slot ?? null;
+};
+
+type Candidate<K extends IntakeSlot> = SlotFill<NonNullable<ProjectIntake[K]>>;
+
+/**
+ * The first number with no currency, quantity or time unit, as in "12" or
+ * "about 30" said in answer to the agent's question
+ */
+const bareNumber = (text: string, min: number) => {
+  const match = [...text.matchAll(/(\$\s?)?\b(\d+(?:\.\d+)?)\b(\s*(?:dollars|bucks|cents|usd|units|pieces|pcs|parts|items|devices|business|working|days?|weeks?|wks?|months?|years?|%))?/gi)]
+    .find(candidate => !candidate[1] && !candidate[3] && Number(candidate[2]) >= min);
+  return match && match.index !== undefined
+    ? { value: Number(match[2]), snippet: snippetAt(text, match.index, match[0].length) }
+    : null;
+};
+
+const extractVolume = (text: string, asked: boolean): Candidate<'volume'> | null => {
+  const explicit = text.match(/\b(\d+(?:\.\d+)?)\s*(?:units|pieces|pcs|parts|items|devices|assemblies|sets|orders)\b/i)
+    ?? text.match(/\b(?:volume|quantity|run|order)\s+(?:of|is|would\s+be|will\s+be)?\s*(?:about|around|roughly|approximately)?\s*(\d+(?:\.\d+)?)\b(?!\s*(?:dollars|bucks|cents|usd|business|working|days?|weeks?|wks?|months?|%))/i);
+  if (explicit && explicit.index !== undefined) {
+    return { value: Math.round(Number(explicit[1])), confidence: 0.9, snippet: snippetAt(text, explicit.index, explicit[0].length) };
+  }
+  // Volume is annual: "800 a month" is 9600
+  const rate = text.match(/\b(\d+(?:\.\d+)?)\s*(?:a|per|every|each)\s+(year|month|week)\b/i);
+  if (rate && rate.index !== undefined) {
+    const perYear = { year: 1, month: 12, week: 52 }[rate[2].toLowerCase() as 'year' | 'month' | 'week'];
+    return { value: Math.round(Number(rate[1]) * perYear), confidence: 0.85, snippet: snippetAt(text, rate.index, rate[0].length) };
+  }
+  if (!asked) return null;
+  // A bare number in answer to "how many"
+  const bare = bareNumber(text, 1);
+  return bare ? { value: Math.round(bare.value), confidence: 0.7, snippet: bare.snippet } : null;
+};
+
+const extractTargetCost = (text: string, asked: boolean): Candidate<'targetCost'> | null => {
+  const patterns: { pattern: RegExp; confidence: number; scale?: number }[] = [
+    { pattern: new RegExp(String.raw`\$\s?(\d+(?:\.\d+)?)${PER_UNIT}`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(String.raw`\b(\d+(?:\.\d+)?)\s*(?:dollars|bucks|usd)${PER_UNIT}`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(String.raw`\b(\d+(?:\.\d+)?)\s*cents${PER_UNIT}?`, 'i'), confidence: 0.85, scale: 0.01 },
+    { pattern: /\$\s?(\d+(?:\.\d+)?)(?!\s*(?:total|in\s+total|overall))/i, confidence: asked ? 0.8 : 0.6 },
+    { pattern: /\b(\d+(?:\.\d+)?)\s*(?:dollars|bucks|usd)\b(?!\s*(?:total|in\s+total|overall))/i, confidence: asked ? 0.8 : 0.6 },
+  ];
+  for (const { pattern, confidence, scale = 1 } of patterns) {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined && Number(match[1]) > 0) {
+      return { value: Math.round(Number(match[1]) * scale * 100) / 100, confidence, snippet: snippetAt(text, match.index, match[0].length) };
+    }
+  }
+  if (!asked) return null;
+  // A bare number in answer to the cost question is dollars per unit
+  const bare = bareNumber(text, 0.01);
+  return bare ? { value: Math.round(bare.value * 100) / 100, confidence: 0.7, snippet: bare.snippet } : null;
+};
+
+/**
+ * Lead time in calendar days; ranges take the upper bound at slightly
+ * lower confidence, and a bare number in answer to the question is days
+ */
+const extractLeadTime = (text: string, asked: boolean): Candidate<'leadTimeGoal'> | null => {
+  const match = text.match(new RegExp(DURATION, 'i'));
+  if (!match || match.index === undefined) {
+    const bare = asked ? bareNumber(text, 1) : null;
+    return bare && bare.value <= 730 ? { value: Math.round(bare.value), confidence: 0.7, snippet: bare.snippet } : null;
+  }
+  const count = Number(match[2] ?? (/^an?$/i.test(match[1]) ? 1 : match[1]));
+  const days = Math.round(count * unitDays(match[3]));
+  if (days <= 0 || days > 730) return null;
+  const context = asked || /lead\s*time|turnaround|deliver|ship|within|ready|need\s+(?:it|them)/i.test(text);
+  return {
+    value: days,
+    confidence: (context ? 0.9 : 0.7) - (match[2] ? 0.05 : 0),
+    snippet: snippetAt(text, match.index, match[0].length),
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// How certifications are usually said out loud
+const SPOKEN_CERTIFICATIONS: { pattern: RegExp; name: string }[] = [
+  { pattern: /\bUL\b/i, name: 'UL Listed' },
+  { pattern: /\bFCC\b/i, name: 'FCC Certified' },
+  { pattern: /\bCE\b(?:\s*mark)?/, name: 'CE Marked' },
+  { pattern: /\bFDA\b/i, name: 'FDA Registered' },
+  { pattern: /\bNSF\b/i, name: 'NSF Certified' },
+  { pattern: /\bRoHS\b/i, name: 'RoHS' },
+  { pattern: /\bREACH\b/, name: 'REACH' },
+];
+
+const extractCertifications = (text: string, asked: boolean): Candidate<'certificationRequirements'> | null => {
+  const found = new Map<string, { index: number; snippet: string }>();
+  const remember = (name: string, index: number, length: number) => {
+    if (!found.has(name)) found.set(name, { index, snippet: snippetAt(text, index, length) });
+  };
+
+  // Loose spacing and punctuation: "ISO9001", "AS 9100", "IATF-16949"
+  knownCertifications.forEach(certification => {
+    const pattern = new RegExp(
+      `\\b${escapeRegExp(certification).replace(/(?:\\ |-)/g, '[\\s-]?').replace(/([A-Za-z])(\d)/, '$1[\\s-]?$2')}\\b`,
+      'i'
+    );
+    const match = pattern.exec(text);
+    if (match) remember(certification, match.index, match[0].length);
+  });
+  const isoPattern = /\bISO[\s-]?(\d{4,5})\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = isoPattern.exec(text))) remember(`ISO ${match[1]}`, match.index, match[0].length);
+  SPOKEN_CERTIFICATIONS.forEach(({ pattern, name }) => {
+    const spoken = pattern.exec(text);
+    if (spoken && ![...found.keys()].some(key => key.startsWith(name.split(' ')[0]))) remember(name, spoken.index, spoken[0].length);
+  });
+
+  if (found.size > 0) {
+    const entries = [...found.entries()].sort((a, b) => a[1].index - b[1].index);
+    return {
+      value: entries.map(([name]) => name),
+      confidence: 0.9,
+      snippet: entries.map(([, { snippet }]) => snippet).join(', '),
+    };
+  }
+  // "No, nothing special" in answer to the certification question
+  const none = asked && text.match(/\b(?:no|none|nothing|not\s+really|don'?t\s+need|no\s+special)\b/i);
+  return none && none.index !== undefined ? { value: [], confidence: 0.8, snippet: snippetAt(text, none.index, none[0].length) } : null;
+};
+
+// Spellings and shorthand for vocabulary materials, plus generic families
+const MATERIAL_ALIASES: { pattern: RegExp; name: string; confidence: number }[] = [
+  { pattern: /\baluminium\b/i, name: 'Aluminum', confidence: 0.9 },
+  { pattern: /\bstainless\b/i, name: 'Stainless Steel', confidence: 0.9 },
+  { pattern: /\bcarbon\s+fibre\b/i, name: 'Carbon Fiber', confidence: 0.9 },
+  { pattern: /\bpolycarb\b/i, name: 'Polycarbonate', confidence: 0.9 },
+  { pattern: /\bplastics?\b/i, name: 'Plastic', confidence: 0.7 },
+  { pattern: /\bmetal\b/i, name: 'Metal', confidence: 0.6 },
+  { pattern: /\bwood(?:en)?\b/i, name: 'Wood', confidence: 0.7 },
+  { pattern: /\bglass\b/i, name: 'Glass', confidence: 0.7 },
+  { pattern: /\b(?:silicone|rubber)\b/i, name: 'Silicone', confidence: 0.7 },
+];
+
+/**
+ * The main material: the one called "primarily" or "mostly", else the
+ * first named. Confidence drops when several are mentioned.
+ */
+const extractMaterial = (text: string): Candidate<'material'> | null => {
+  const mentions: { name: string; index: number; length: number; confidence: number }[] = [];
+  // Longest names first, so "Stainless Steel" wins over "Steel"
+  [...knownMaterials].sort((a, b) => b.length - a.length).forEach(name => {
+    const match = new RegExp(`\\b${escapeRegExp(name)}s?\\b`, 'i').exec(text);
+    if (match && !mentions.some(m => match.index >= m.index && match.index < m.index + m.length)) {
+      mentions.push({ name, index: match.index, length: match[0].length, confidence: 0.9 });
+    }
+  });
+  MATERIAL_ALIASES.forEach(({ pattern, name, confidence }) => {
+    const match = pattern.exec(text);
+    if (match && !mentions.some(m => match.index >= m.index && match.index < m.index + m.length)) {
+      mentions.push({ name, index: match.index, length: match[0].length, confidence });
+    }
+  });
+  if (mentions.length === 0) return null;
+
+  const ordered = mentions.sort((a, b) => a.index - b.index);
+  const qualified = ordered.find(m => /\b(?:primarily|mainly|mostly|main\s+material)\b/i.test(text.slice(Math.max(0, m.index - 30), m.index)));
+  const primary = qualified ?? ordered[0];
+  return {
+    value: primary.name,
+    confidence: ordered.length > 1 && !qualified ? primary.confidence - 0.15 : primary.confidence,
+    snippet: snippetAt(text, primary.index, primary.length),
+  };
+};
+
+// Product words for each category manufacturers are matched on
+const CATEGORY_KEYWORDS: { category: string; pattern: RegExp }[] = [
+  { category: 'Electronics', pattern: /\b(?:electronics?|pcbs?|circuit\s*boards?|sensors?|iot|smart\s+home|wearables?|consumer\s+electronics)\b/i },
+  { category: 'Medical Devices', pattern: /\b(?:medical|surgical|implants?|diagnostic|healthcare)\b/i },
+  { category: 'Aerospace', pattern: /\b(?:aerospace|aircraft|avionics|satellites?|drones?)\b/i },
+  { category: 'Automotive', pattern: /\b(?:automotive|vehicles?|car\s+parts|auto\s+parts|ev\s+components?)\b/i },
+  { category: 'Energy', pattern: /\b(?:solar|wind\s+turbines?|batter(?:y|ies)|energy\s+storage|inverters?)\b/i },
+  { category: 'Marine', pattern: /\b(?:marine|boats?|watercraft)\b/i },
+  { category: 'Apparel', pattern: /\b(?:apparel|clothing|garments?|textiles?|jackets?|outdoor\s+gear)\b/i },
+  { category: 'Furniture', pattern: /\b(?:furniture|cabinets?|chairs?|tables?|woodworking)\b/i },
+  { category: 'Food Equipment', pattern: /\b(?:food\s+(?:processing|equipment)|beverage|kitchen\s+equipment)\b/i },
+  { category: 'Industrial Equipment', pattern: /\b(?:industrial|machinery|pumps?|valves?|hydraulics?|pressure\s+vessels?)\b/i },
+  { category: 'Consumer Products', pattern: /\b(?:consumer\s+products?|household|toys?|sporting\s+goods)\b/i },
+];
+
+const extractCategory = (text: string, asked: boolean): Candidate<'category'> | null => {
+  const hit = CATEGORY_KEYWORDS
+    .map(({ category, pattern }) => ({ category, match: pattern.exec(text) }))
+    .filter((entry): entry is { category: string; match: RegExpExecArray } => !!entry.match)
+    .sort((a, b) => a.match.index - b.match.index)[0];
+  if (hit) {
+    return { value: hit.category, confidence: asked ? 0.85 : 0.75, snippet: snippetAt(text, hit.match.index, hit.match[0].length) };
+  }
+  if (!asked || YES_OR_NO.test(text)) return null;
+  // Take the product as described, for the user to check
+  const described = text
+    .replace(/^(?:well,?\s+|so,?\s+)?(?:(?:i'?m|we'?re|i\s+am|we\s+are)\s+(?:developing|making|building|designing|producing|looking\s+to\s+(?:make|manufacture|build))|(?:i|we)\s+(?:make|build|produce|manufacture|design|sell))\s+(?:an?\s+|some\s+)?/i, '')
+    .replace(/[.!?]+$/, '')
+    .trim();
+  return described && described.split(/\s+/).length <= 8
+    ? { value: described.charAt(0).toUpperCase() + described.slice(1), confidence: 0.4, snippet: text.trim() }
+    : null;
+};
+
+const LOCATION_CUE = /\b(?:based\s+in|located\s+in|in|near|around|from|out\s+of|close\s+to)\s+((?:[A-Za-z.]+,?\s*){1,4})/g;
+
+/**
+ * A place after "in", "near", "based in" and the like, resolved against
+ * the bundled US locations. Two-letter words only count as state codes
+ * when capitalized, so "near me" isn't Maine.
+ */
+const extractLocation = (text: string, asked: boolean): Candidate<'location'> | null => {
+  const candidates = [...text.matchAll(LOCATION_CUE)];
+  // In answer to "where", the place may be all the user said
+  if (asked) candidates.push(...text.matchAll(/^\s*((?:[A-Za-z.]+,?\s*){1,4})/g));
+  for (const match of candidates) {
+    const words = match[1].replace(/,/g, ' , ').split(/\s+/).filter(Boolean);
+    for (let length = Math.min(words.length, 5); length > 0; length -= 1) {
+      const phrase = words.slice(0, length).join(' ').replace(/\s+,/g, ',').replace(/,$/, '');
+      if (/^(?:the|a|an|my|our|us|me|about|around)$/i.test(phrase)) break;
+      if (/^[a-z]{2}$/.test(phrase)) continue;
+      const plain = phrase.replace(/,/g, '');
+      // "Austin Texas" without a comma: try the last word as the state
+      const options = phrase.includes(',') || length === 1 || /\s[a-z]{2}$/.test(plain) ? [phrase] : [phrase, plain.replace(/\s+(\S+)$/, ', $1')];
+      const result = options.map(option => geocodeLocation(option)).find(Boolean);
+      if (result) {
+        const index = match.index ?? 0;
+        return { value: result.label, confidence: result.label.includes(',') ? 0.85 : 0.75, snippet: snippetAt(text, index, match[0].length) };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Slot values heard in one user turn, given the slot the agent last asked
+ * about
+ */
+export const extractIntakeSlots = (userText: string, askedSlot: IntakeSlot | null = null): IntakeSlots => {
+  const text = normalizeSpokenNumbers(userText);
+  const asked = (slot: IntakeSlot) => askedSlot === slot;
+  const slots: IntakeSlots = {
+    category: extractCategory(text, asked('category')) ?? undefined,
+    material: extractMaterial(text) ?? undefined,
+    volume: extractVolume(text, asked('volume')) ?? undefined,
+    targetCost: extractTargetCost(text, asked('targetCost')) ?? undefined,
+    leadTimeGoal: extractLeadTime(text, asked('leadTimeGoal')) ?? undefined,
+    certificationRequirements: extractCertifications(text, asked('certificationRequirements')) ?? undefined,
+    location: extractLocation(text, asked('location')) ?? undefined,
+  };
+  return Object.fromEntries(Object.entries(slots).filter(([, fill]) => fill)) as IntakeSlots;
+};
+
+const mergeSlot = <K extends IntakeSlot>(slots: IntakeSlots, slot: K, next: NonNullable<IntakeSlots[K]>) => {
+  const previous = slots[slot];
+  if (!previous || next.confidence >= OVERRIDE_CONFIDENCE || next.confidence >= previous.confidence) slots[slot] = next;
+};
+
+/**
+ * Fill the intake from a whole conversation. A later statement replaces an
+ * earlier one when it is said with confidence (a correction), or when it is
+ * surer than what was heard before; certifications accumulate across turns.
+ * A "yes" to the agent's "Just to confirm" settles the slot it asked about.
+ */
+export const fillIntakeSlots = (turns: VoiceTurn[]): IntakeSlots => {
+  let askedSlot: IntakeSlot | null = null;
+  let confirming = false;
+  const slots: IntakeSlots = {};
+  turns.forEach(turn => {
+    if (turn.speaker === 'agent') {
+      confirming = turn.text.includes(CONFIRM_PREFIX);
+      askedSlot = confirming
+        ? intakeSlots.find(slot => turn.text.includes(intakeSlotLabels[slot].toLowerCase())) ?? null
+        : questionSlot(turn.text);
+      return;
+    }
+    const heard = extractIntakeSlots(turn.text, askedSlot);
+    const previousCertifications = slots.certificationRequirements;
+    (Object.keys(heard) as IntakeSlot[]).forEach(slot => mergeSlot(slots, slot, heard[slot]!));
+    if (previousCertifications && heard.certificationRequirements?.value.length) {
+      slots.certificationRequirements = {
+        value: [...new Set([...previousCertifications.value, ...heard.certificationRequirements.value])],
+        confidence: Math.min(previousCertifications.confidence, heard.certificationRequirements.confidence),
+        snippet: `${previousCertifications.snippet}, ${heard.certificationRequirements.snippet}`,
+      };
+    }
+    const confirmed = askedSlot && slots[askedSlot];
+    if (confirming && confirmed && !heard[askedSlot!] && YES.test(turn.text)) {
+      confirmed.confidence = Math.max(confirmed.confidence, 0.9);
+    }
+  });
+  return slots;
+};
+
+export const missingIntakeSlots = (slots: IntakeSlots, required = intakeSlots) =>
+  required.filter(slot => !slots[slot]);
+
+/**
+ * What the agent should ask next: the first unfilled slot, then the least
+ * certain one to confirm, or null once everything is known
+ */
+export const nextIntakeFollowUp = (slots: IntakeSlots): { slot: IntakeSlot; prompt: string; confirming: boolean } | null => {
+  const missing = missingIntakeSlots(slots)[0];
+  if (missing) return { slot: missing, prompt: intakeSlotPrompts[missing], confirming: false };
+  const unsure = intakeSlots
+    .filter(slot => (slots[slot]?.confidence ?? 1) < LOW_SLOT_CONFIDENCE)
+    .sort((a, b) => (slots[a]?.confidence ?? 1) - (slots[b]?.confidence ?? 1))[0];
+  if (!unsure) return null;
+  return {
+    slot: unsure,
+    confirming: true,
+    prompt: `${CONFIRM_PREFIX}your ${intakeSlotLabels[unsure].toLowerCase()} is ${formatSlotValue(unsure, slots[unsure]!.value)}?`,
+  };
+};
+
+export const formatSlotValue = <K extends IntakeSlot>(slot: K, value: NonNullable<ProjectIntake[K]>): string => {
+  switch (slot) {
+    case 'volume': return `${(value as number).toLocaleString()} units`;
+    case 'targetCost': return `$${(value as number).toFixed(2)} per unit`;
+    case 'leadTimeGoal': return `${value} days`;
+    case 'certificationRequirements': return (value as string[]).length ? (value as string[]).join(', ') : 'no certifications';
+    default: return String(value);
+  }
+};
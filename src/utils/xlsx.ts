@@ -0,0 +1,169 @@
+import { readZip, writeZip, ZipEntries } from './zip';
+
+/**
+ * XLSX Workbooks
+ *
+ * Reads the first worksheet of an .xlsx file into rows of cell text.
+ * Formatting, formulas and extra sheets are ignored; a formula cell yields
+ * its cached value. Dates come back as Excel serial numbers, since telling
+ * them apart needs the style table.
+ *
+ * Writes single-sheet workbooks with inline strings, numbers and booleans
+ * and no styling.
+ */
+
+const readXml = async (entries: ZipEntries, path: string): Promise<Document | null> => {
+  const entry = entries.get(path);
+  if (!entry) return null;
+  const text = new TextDecoder().decode(await entry());
+  return new DOMParser().parseFromString(text, 'application/xml');
+};
+
+// Match on local names so prefixed (`x:row`) and default namespaces both work
+const children = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// Rich-text runs are concatenated; phonetic guides (`rPh`) are skipped
+const textOf = (element: Element) => children(element, 't')
+  .filter(t => t.parentElement?.localName !== 'rPh')
+  .map(t => t.textContent ?? '')
+  .join('');
+
+/**
+ * Column index from a cell reference: "A1" -> 0, "AB12" -> 27
+ */
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const resolveFirstSheetPath = async (entries: ZipEntries): Promise<string> => {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = await readXml(entries, 'xl/workbook.xml');
+  const rels = await readXml(entries, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook && children(workbook, 'sheet')[0];
+  if (!sheet || !rels) return fallback;
+
+  const relationshipId = Array.from(sheet.attributes).find(attr => attr.localName === 'id')?.value;
+  const target = children(rels, 'Relationship').find(rel => rel.getAttribute('Id') === relationshipId)?.getAttribute('Target');
+  if (!target) return fallback;
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = readZip(buffer);
+  const sharedStringsXml = await readXml(entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? children(sharedStringsXml, 'si').map(textOf) : [];
+
+  const sheet = await readXml(entries, await resolveFirstSheetPath(entries));
+  if (!sheet) throw new Error('Workbook has no worksheet');
+  if (sheet.getElementsByTagName('parsererror').length > 0) throw new Error('Worksheet XML is malformed');
+
+  const rows: string[][] = [];
+  children(sheet, 'row').forEach(row => {
+    const rowNumber = Number(row.getAttribute('r'));
+    const rowIndex = Number.isFinite(rowNumber) && rowNumber > 0 ? rowNumber - 1 : rows.length;
+    const cells: string[] = [];
+
+    children(row, 'c').forEach(cell => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : cells.length;
+      const type = cell.getAttribute('t');
+      const raw = children(cell, 'v')[0]?.textContent ?? '';
+
+      let value = raw;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textOf(cell);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      cells[index] = value;
+    });
+
+    // Keep row positions so blank spreadsheet rows stay blank
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = Array.from(cells, cell => cell ?? '');
+  });
+
+  return rows;
+};
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters other than tab and newlines are not allowed in XML 1.0
+  // eslint-disable-next-line no-control-regex
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Cell reference from indexes: (0, 0) -> "A1", (11, 27) -> "AB12"
+ */
+const cellReference = (row: number, column: number): string => {
+  let letters = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${row + 1}`;
+};
+
+const cellXml = (value: XlsxCell, reference: string): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * Build an .xlsx file from rows; the first row is frozen as a header
+ */
+export const writeXlsx = (rows: XlsxCell[][], sheetName = 'Sheet1'): Uint8Array => {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  const sheetRows = rows
+    .map((row, rowIndex) => `<row r="${rowIndex + 1}">${row.map((cell, column) => cellXml(cell, cellReference(rowIndex, column))).join('')}</row>`)
+    .join('');
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      data: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}">` +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${sheetRows}</sheetData>` +
+        '</worksheet>'
+    },
+  ]);
+};
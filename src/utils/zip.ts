@@ -0,0 +1,141 @@
+/**
+ * ZIP Archives
+ *
+ * Just enough of the ZIP format to read and write Office Open XML files
+ * (.xlsx): stored and deflated entries, no encryption, no ZIP64. Deflated
+ * entries are inflated with the browser's DecompressionStream; written
+ * archives use stored entries only.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export type ZipEntries = Map<string, () => Promise<Uint8Array>>;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of up to 65535 bytes
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive');
+};
+
+/**
+ * List an archive's files. Each entry is decompressed only when read.
+ */
+export const readZip = (buffer: ArrayBuffer): ZipEntries => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: ZipEntries = new Map();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('Corrupt ZIP central directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, async () => {
+      if (view.getUint32(localHeader, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry ${name}`);
+      // Local name/extra lengths can differ from the central directory's
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`Unsupported ZIP compression method ${method} in ${name}`);
+    });
+  }
+
+  return entries;
+};
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array | string; // strings are written as UTF-8
+}
+
+/**
+ * Build an archive of stored (uncompressed) entries
+ */
+export const writeZip = (files: ZipFile[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const entries = files.map(file => {
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    return { name: encoder.encode(file.name), data, crc: crc32(data) };
+  });
+
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  // Version 2.0, UTF-8 names (flag bit 11), method 0, zeroed DOS timestamp
+  const writeCommonHeader = (at: number, entry: typeof entries[number]) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, 0x0800, true);
+    view.setUint16(at + 4, 0, true);
+    view.setUint32(at + 6, 0, true);
+    view.setUint32(at + 10, entry.crc, true);
+    view.setUint32(at + 14, entry.data.length, true);
+    view.setUint32(at + 18, entry.data.length, true);
+    view.setUint16(at + 22, entry.name.length, true);
+    view.setUint16(at + 24, 0, true);
+  };
+
+  entries.forEach(entry => {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    writeCommonHeader(offset + 4, entry);
+    bytes.set(entry.name, offset + 30);
+    bytes.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  });
+
+  const centralStart = offset;
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(offset + 4, 20, true);
+    writeCommonHeader(offset + 6, entry);
+    // Comment length, disk number, attributes stay zero
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return bytes;
+};
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: 'memory' | 'http';
+  readonly VITE_API_URL?: string;
+  readonly VITE_VOICE_TRANSPORT?: 'elevenlabs' | 'mock';
+  readonly VITE_ELEVEN_AGENT_ID?: string;
+}
@@ -0,0 +1,68 @@
+import { IntakeSlot } from '../types';
+import { fillIntakeSlots, intakeSlotPrompts, nextIntakeFollowUp } from '../utils/voiceIntake';
+import { MockVoiceScript } from './mockTransport';
+import { encodePcm16 } from './playbackQueue';
+
+// Demo answers for whichever slot the agent asks about next
+export const demoIntakeReplies: Record<IntakeSlot, string> = {
+  category: "I'm developing a smart home device, an IoT sensor hub",
+  material: 'It will be primarily aluminum with some plastic components',
+  volume: "We're planning for about ten thousand units per year initially",
+  targetCost: 'Our target is around $50 a unit',
+  leadTimeGoal: 'We need about six weeks lead time',
+  certificationRequirements: 'Yes, we need UL listing and FCC certification',
+  location: "We're based in Austin, Texas",
+};
+
+export const demoConfirmReply = "Yes, that's right";
+
+// Demo request the agent answers with a client tool call
+export const demoToolCommand = 'Shortlist the top three CNC shops in Michigan';
+
+/**
+ * A two-note chime as 40 ms chunks of 16 kHz PCM, the mock transport's
+ * default format. There's no speech synthesis offline, so the greeting
+ * plays this through the streaming playback queue instead of being read out.
+ */
+const chimeChunks = (): string[] => {
+  const sampleRate = 16000;
+  const noteSamples = sampleRate * 0.2;
+  const chunkSamples = sampleRate * 0.04;
+  const samples = new Float32Array(noteSamples * 2);
+  [660, 880].forEach((frequency, note) => {
+    for (let i = 0; i < noteSamples; i++) {
+      const decay = Math.exp(-i / (noteSamples / 4));
+      samples[note * noteSamples + i] = 0.25 * decay * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    }
+  });
+  const chunks: string[] = [];
+  for (let start = 0; start < samples.length; start += chunkSamples) {
+    chunks.push(encodePcm16(samples.subarray(start, start + chunkSamples)));
+  }
+  return chunks;
+};
+
+/**
+ * The sourcing agent played by the mock transport: it asks for whatever
+ * the project intake still lacks, the way the hosted agent is prompted to,
+ * and shortlists through the addToShortlist tool when asked
+ */
+export const intakeDemoScript: MockVoiceScript = {
+  firstMessage: `Hello! I'm your AI sourcing agent. I'll help you find the perfect U.S. manufacturer for your project. ${intakeSlotPrompts.category}`,
+  firstAudio: chimeChunks(),
+  turns: [
+    {
+      when: /\bshortlist the top three cnc shops in michigan\b/i,
+      toolCall: { name: 'addToShortlist', parameters: { query: 'CNC', state: 'Michigan', count: 3 } },
+      say: ({ toolResult, toolError }) => toolResult ?? `I couldn't update the shortlist. ${toolError}`,
+    },
+    {
+      say: ({ turns }) => {
+        const followUp = nextIntakeFollowUp(fillIntakeSlots(turns));
+        return followUp
+          ? followUp.prompt
+          : "Wonderful! I've gathered all the information I need. Please confirm the details and I'll search our database of verified U.S. manufacturers for you.";
+      },
+    },
+  ],
+};
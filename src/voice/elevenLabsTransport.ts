@@ -0,0 +1,91 @@
+import { Conversation, Input, VoiceConversation } from '@elevenlabs/client';
+import { VoiceConnection, VoiceMicrophone, VoiceTransport, VoiceTransportError } from './types';
+
+const TRANSPORT_NAME = 'ElevenLabs';
+
+// getUserMedia failures that retrying won't fix
+const permanentMediaErrors = new Set(['NotAllowedError', 'NotFoundError', 'NotSupportedError', 'SecurityError']);
+
+// Longest send delay the input graph is built for
+const MAX_SEND_DELAY_SEC = 1;
+
+interface ElevenLabsTransportConfig {
+  agentId: string;
+}
+
+/**
+ * The SDK captures through source -> analyser -> worklet, and muting stops
+ * the worklet. A delay between the analyser and the worklet lets callers
+ * detect speech on the live signal and unmute before it reaches the agent.
+ */
+const delayedMicrophone = (input: Input): VoiceMicrophone => {
+  const delay = input.context.createDelay(MAX_SEND_DELAY_SEC);
+  delay.delayTime.value = 0;
+  input.analyser.disconnect(input.worklet);
+  input.analyser.connect(delay).connect(input.worklet);
+  return {
+    analyser: input.analyser,
+    setSendDelay: (ms) => {
+      delay.delayTime.value = Math.min(Math.max(0, ms) / 1000, MAX_SEND_DELAY_SEC);
+    },
+  };
+};
+
+/**
+ * Transport on the ElevenLabs client SDK, which owns the socket protocol,
+ * microphone capture, audio playback and client tool round trips. The
+ * SDK's input analyser is shared as the connection's microphone.
+ */
+export const createElevenLabsTransport = ({ agentId }: ElevenLabsTransportConfig): VoiceTransport => ({
+  name: TRANSPORT_NAME,
+  requiresMicrophone: true,
+  playsAudio: true,
+  connect: async (options) => {
+    if (!agentId) {
+      throw new VoiceTransportError(TRANSPORT_NAME, 'ElevenLabs Agent ID not found. Please check your .env file contains VITE_ELEVEN_AGENT_ID.', false);
+    }
+
+    // Typed messages may come back as user transcripts; drop those echoes
+    let lastSentText: string | null = null;
+
+    let conversation: Conversation;
+    try {
+      conversation = await Conversation.startSession({
+        agentId,
+        connectionType: 'websocket',
+        userId: options.userId,
+        clientTools: options.clientTools,
+        onStatusChange: ({ status }) => options.onStatusChange(
+          status === 'connected' ? 'connected' : status === 'connecting' ? 'connecting' : 'disconnected'
+        ),
+        onModeChange: ({ mode }) => options.onModeChange(mode),
+        onMessage: ({ message, source }) => {
+          if (source === 'user' && message === lastSentText) {
+            lastSentText = null;
+            return;
+          }
+          options.onTurn({ speaker: source === 'ai' ? 'agent' : 'user', text: message });
+        },
+        onInterruption: () => options.onInterruption?.(),
+        onError: (message) => options.onError(message),
+        onDisconnect: (details) => options.onDisconnect(details.reason),
+      });
+    } catch (error) {
+      const retryable = !(error instanceof DOMException && permanentMediaErrors.has(error.name));
+      throw new VoiceTransportError(TRANSPORT_NAME, error instanceof Error ? error.message : String(error), retryable);
+    }
+
+    const connection: VoiceConnection = {
+      conversationId: conversation.getId(),
+      microphone: conversation instanceof VoiceConversation ? delayedMicrophone(conversation.input) : undefined,
+      sendUserMessage: (text) => {
+        lastSentText = text;
+        conversation.sendUserMessage(text);
+      },
+      setMicMuted: (muted) => conversation.setMicMuted(muted),
+      setVolume: (volume) => conversation.setVolume({ volume }),
+      end: () => conversation.endSession(),
+    };
+    return connection;
+  },
+});
@@ -0,0 +1,64 @@
+import { createElevenLabsTransport } from './elevenLabsTransport';
+import { createMockVoiceTransport } from './mockTransport';
+import { intakeDemoScript } from './demoScript';
+import { VoiceConnection, VoiceSessionOptions, VoiceTransport, VoiceTransportError } from './types';
+
+export * from './types';
+export { createElevenLabsTransport } from './elevenLabsTransport';
+export { createMockVoiceTransport } from './mockTransport';
+export type { MockAgentTurn, MockVoiceScript } from './mockTransport';
+export { createAudioPlaybackQueue } from './playbackQueue';
+export type { AudioChunkFormat, AudioPlaybackQueue } from './playbackQueue';
+export { createVoiceActivityDetector, monitorVoiceActivity, PUSH_TO_TALK_KEY, PUSH_TO_TALK_KEY_LABEL, VAD_PRE_ROLL_MS, voiceInputModeLabels } from './vad';
+export type { VoiceActivityDetector, VoiceInputMode } from './vad';
+
+const DEFAULT_AGENT_ID = 'agent_01jxea051nek1svtgdx4px1hcq';
+
+/**
+ * The app's voice transport, chosen at build time:
+ * - `VITE_VOICE_TRANSPORT=mock` plays the scripted intake agent locally
+ * - anything else connects to the ElevenLabs agent `VITE_ELEVEN_AGENT_ID`
+ */
+const createVoiceTransport = (): VoiceTransport => {
+  if (import.meta.env.VITE_VOICE_TRANSPORT === 'mock') {
+    return createMockVoiceTransport(intakeDemoScript);
+  }
+  return createElevenLabsTransport({ agentId: import.meta.env.VITE_ELEVEN_AGENT_ID ?? DEFAULT_AGENT_ID });
+};
+
+export const voiceTransport = createVoiceTransport();
+
+/**
+ * Exponential backoff with jitter: attempt 1 waits about `baseDelayMs`,
+ * each later attempt about twice as long
+ */
+export const retryDelayMs = (attempt: number, baseDelayMs = 1000) =>
+  Math.round(baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2));
+
+interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+/**
+ * Connect, retrying failures with exponential backoff and jitter. Errors
+ * marked not retryable fail straight away.
+ */
+export const connectWithRetry = async (
+  transport: VoiceTransport,
+  options: VoiceSessionOptions,
+  { attempts = 3, baseDelayMs = 1000, onRetry }: RetryOptions = {}
+): Promise<VoiceConnection> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await transport.connect(options);
+    } catch (error) {
+      const retryable = !(error instanceof VoiceTransportError) || error.retryable;
+      if (!retryable || attempt >= attempts) throw error;
+      const delayMs = retryDelayMs(attempt, baseDelayMs);
+      onRetry?.(attempt, delayMs, error);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import { VoiceTurn } from '../types';
+import { AudioChunkFormat, chunkDurationMs } from './playbackQueue';
+import { VoiceConnection, VoiceTransport, VoiceTransportError } from './types';
+
+const TRANSPORT_NAME = 'Mock';
+const DEFAULT_AUDIO_FORMAT: AudioChunkFormat = { encoding: 'pcm16', sampleRate: 16000 };
+
+export interface MockAgentReplyContext {
+  userText: string;
+  turns: VoiceTurn[]; // the conversation so far, including userText
+  toolResult?: string;
+  toolError?: string;
+}
+
+export interface MockAgentTurn {
+  // The user messages this turn answers; omitted, it answers anything an
+  // earlier turn didn't match
+  when?: RegExp;
+  // A client tool the agent calls before replying; its outcome is passed to `say`
+  toolCall?: { name: string; parameters: Record<string, unknown> };
+  say: string | ((context: MockAgentReplyContext) => string);
+  // Base64 audio chunks (in the transport's audioFormat) replayed while the
+  // agent speaks, sent in real time when their length is known
+  audio?: string[];
+}
+
+export interface MockVoiceScript {
+  firstMessage: string;
+  firstAudio?: string[];
+  turns: MockAgentTurn[];
+}
+
+interface MockTransportOptions {
+  // Delay before connecting and before each reply
+  latencyMs?: number;
+  // How long speaking a reply takes, per character
+  speakingMsPerChar?: number;
+  // Fail every connection attempt, to exercise error handling
+  connectError?: string;
+  // Encoding of the scripted audio chunks (default 16 kHz PCM)
+  audioFormat?: AudioChunkFormat;
+}
+
+/**
+ * Transport that replays a scripted agent locally: no network, microphone
+ * or API key, so voice flows can be demoed and tested offline. Replies are
+ * queued, so messages sent while the agent is speaking are answered in order;
+ * a message sent mid-reply interrupts it, like talking over the agent.
+ */
+export const createMockVoiceTransport = (script: MockVoiceScript, options: MockTransportOptions = {}): VoiceTransport => ({
+  name: TRANSPORT_NAME,
+  requiresMicrophone: false,
+  playsAudio: false,
+  audioFormat: options.audioFormat ?? DEFAULT_AUDIO_FORMAT,
+  connect: async (session) => {
+    const latencyMs = options.latencyMs ?? 700;
+    const speakingMsPerChar = options.speakingMsPerChar ?? 40;
+    const audioFormat = options.audioFormat ?? DEFAULT_AUDIO_FORMAT;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const turns: VoiceTurn[] = [];
+    let isOpen = true;
+    let volume = 1;
+    let replies = Promise.resolve();
+    let audioSequence = 0;
+    // Ends the current reply early when the user interrupts it
+    let interruptSpeech: (() => void) | null = null;
+
+    const wait = (ms: number) => new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        resolve();
+      }, ms);
+      timers.add(timer);
+    });
+
+    const speak = async (text: string, audio: string[] = []) => {
+      if (!isOpen) return;
+      let interrupted = false;
+      const interrupt = new Promise<void>(resolve => {
+        interruptSpeech = () => {
+          interrupted = true;
+          resolve();
+        };
+      });
+      const pause = (ms: number) => Promise.race([wait(ms), interrupt]);
+
+      turns.push({ speaker: 'agent', text });
+      session.onModeChange('speaking');
+      session.onTurn({ speaker: 'agent', text }, audio.length > 0);
+      const duration = text.length * speakingMsPerChar;
+      let elapsed = 0;
+      for (const chunk of audio) {
+        if (!isOpen || interrupted) return;
+        if (volume > 0) session.onAudio?.(chunk, audioSequence);
+        audioSequence += 1;
+        const chunkMs = chunkDurationMs(chunk, audioFormat) ?? duration / audio.length;
+        elapsed += chunkMs;
+        await pause(chunkMs);
+      }
+      // The turn lasts at least as long as saying its text
+      if (elapsed < duration) await pause(duration - elapsed);
+      interruptSpeech = null;
+      if (isOpen && !interrupted) session.onModeChange('listening');
+    };
+
+    const reply = async (userText: string) => {
+      if (!isOpen) return;
+      turns.push({ speaker: 'user', text: userText });
+      await wait(latencyMs);
+      const turn = script.turns.find(candidate => !candidate.when || candidate.when.test(userText));
+      if (!turn || !isOpen) return;
+
+      const context: MockAgentReplyContext = { userText, turns: [...turns] };
+      if (turn.toolCall) {
+        const tool = session.clientTools[turn.toolCall.name];
+        try {
+          if (!tool) throw new Error(`Unknown tool "${turn.toolCall.name}"`);
+          context.toolResult = await tool(turn.toolCall.parameters);
+        } catch (error) {
+          context.toolError = error instanceof Error ? error.message : String(error);
+        }
+      }
+      await speak(typeof turn.say === 'string' ? turn.say : turn.say(context), turn.audio);
+    };
+
+    session.onStatusChange('connecting');
+    await wait(latencyMs);
+    if (options.connectError) {
+      session.onStatusChange('disconnected');
+      throw new VoiceTransportError(TRANSPORT_NAME, options.connectError);
+    }
+    session.onStatusChange('connected');
+    replies = replies.then(() => speak(script.firstMessage, script.firstAudio));
+
+    const connection: VoiceConnection = {
+      conversationId: `mock_${Date.now()}`,
+      sendUserMessage: (text) => {
+        if (!isOpen) return;
+        if (interruptSpeech) {
+          interruptSpeech();
+          interruptSpeech = null;
+          session.onInterruption?.();
+          session.onModeChange('listening');
+        }
+        replies = replies.then(() => reply(text));
+      },
+      setMicMuted: () => {},
+      setVolume: (value) => {
+        volume = value;
+      },
+      end: async () => {
+        if (!isOpen) return;
+        isOpen = false;
+        timers.forEach(timer => clearTimeout(timer));
+        timers.clear();
+        session.onStatusChange('disconnected');
+        session.onDisconnect('user');
+      },
+    };
+    return connection;
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * Streaming Playback
+ *
+ * Agent speech arrives as a stream of small audio chunks, possibly out of
+ * order and with uneven gaps. The queue decodes them, puts them back in
+ * sequence and schedules them back-to-back on the AudioContext clock, with
+ * a short lead (the jitter buffer) whenever playback (re)starts so late
+ * chunks don't leave gaps.
+ */
+
+export type AudioChunkFormat =
+  | { encoding: 'pcm16'; sampleRate: number } // signed 16-bit little-endian, mono
+  | { encoding: 'mp3' };
+
+interface PlaybackQueueOptions {
+  format: AudioChunkFormat;
+  // Lead before playback starts or resumes after running dry
+  jitterBufferMs?: number;
+  // How long a missing chunk is waited for before it's skipped
+  gapTimeoutMs?: number;
+  onSpeakingChange?: (isSpeaking: boolean) => void;
+}
+
+export interface AudioPlaybackQueue {
+  // `sequence` counts up from 0 over the queue's life and orders chunks
+  // that may arrive out of order; without it chunks play in arrival order
+  enqueue: (audioBase64: string, sequence?: number) => void;
+  // Barge-in: stop what's playing and drop everything queued; playback
+  // picks up again at the first position not enqueued yet
+  flush: () => void;
+  setVolume: (volume: number) => void;
+  isSpeaking: () => boolean;
+  close: () => void;
+}
+
+const base64ToBytes = (audioBase64: string) => Uint8Array.from(atob(audioBase64), char => char.charCodeAt(0));
+
+export const decodePcm16 = (context: BaseAudioContext, bytes: Uint8Array, sampleRate: number): AudioBuffer => {
+  const sampleCount = Math.floor(bytes.byteLength / 2);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, sampleCount * 2);
+  const buffer = context.createBuffer(1, sampleCount, sampleRate);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < sampleCount; i++) {
+    channel[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+  return buffer;
+};
+
+// The inverse of decodePcm16, for generating chunks; samples are clamped to -1..1
+export const encodePcm16 = (samples: Float32Array): string => {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => view.setInt16(i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true));
+  let binary = '';
+  new Uint8Array(view.buffer).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+// How long a chunk plays, where the encoding tells without decoding it
+export const chunkDurationMs = (audioBase64: string, format: AudioChunkFormat): number | null =>
+  format.encoding === 'pcm16' ? (Math.floor(atob(audioBase64).length / 2) / format.sampleRate) * 1000 : null;
+
+export const createAudioPlaybackQueue = (context: AudioContext, options: PlaybackQueueOptions): AudioPlaybackQueue => {
+  const jitterBufferSec = (options.jitterBufferMs ?? 150) / 1000;
+  const gapTimeoutMs = options.gapTimeoutMs ?? 250;
+  const gain = context.createGain();
+  gain.connect(context.destination);
+
+  // Decoded chunks waiting for their turn; null marks one that failed to decode
+  const ready = new Map<number, AudioBuffer | null>();
+  const sources = new Set<AudioBufferSourceNode>();
+  let generation = 0; // bumped by flush so in-flight decodes are dropped
+  let decoding = 0;
+  let nextArrival = 0; // one past the highest position enqueued
+  let nextSequence = 0; // the position that plays next
+  let playhead = 0; // context time the next chunk starts at
+  let speaking = false;
+  let startTimer: ReturnType<typeof setTimeout> | null = null;
+  let gapTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setSpeaking = (value: boolean) => {
+    if (speaking === value) return;
+    speaking = value;
+    options.onSpeakingChange?.(value);
+  };
+
+  const isIdle = () => sources.size === 0 && ready.size === 0 && decoding === 0;
+
+  const decode = (audioBase64: string): Promise<AudioBuffer | null> => {
+    const bytes = base64ToBytes(audioBase64);
+    if (options.format.encoding === 'pcm16') {
+      return Promise.resolve(bytes.byteLength >= 2 ? decodePcm16(context, bytes, options.format.sampleRate) : null);
+    }
+    return context.decodeAudioData(bytes.buffer).catch(() => null);
+  };
+
+  const schedule = (buffer: AudioBuffer) => {
+    const now = context.currentTime;
+    // Nothing left ahead of the clock: (re)start with the jitter lead
+    const startAt = playhead > now ? playhead : now + jitterBufferSec;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    source.onended = () => {
+      sources.delete(source);
+      if (isIdle()) setSpeaking(false);
+    };
+    source.start(startAt);
+    sources.add(source);
+    playhead = startAt + buffer.duration;
+
+    // Speaking starts when the audio does, not when it's scheduled
+    if (!speaking && startTimer === null) {
+      startTimer = setTimeout(() => {
+        startTimer = null;
+        if (sources.size > 0) setSpeaking(true);
+      }, Math.max(0, (startAt - now) * 1000));
+    }
+  };
+
+  const drain = () => {
+    const drainedFrom = nextSequence;
+    while (ready.has(nextSequence)) {
+      const buffer = ready.get(nextSequence)!;
+      ready.delete(nextSequence);
+      nextSequence += 1;
+      if (buffer) schedule(buffer);
+    }
+
+    // Each gap gets the full timeout, so restart it once the stream moves on
+    if (gapTimer !== null && (ready.size === 0 || nextSequence !== drainedFrom)) {
+      clearTimeout(gapTimer);
+      gapTimer = null;
+    }
+    // A chunk is missing: give it a moment, then play on without it
+    if (ready.size > 0 && gapTimer === null) {
+      gapTimer = setTimeout(() => {
+        gapTimer = null;
+        nextSequence = Math.min(...ready.keys());
+        drain();
+      }, gapTimeoutMs);
+    }
+    if (isIdle()) setSpeaking(false);
+  };
+
+  const flush = () => {
+    generation += 1;
+    decoding = 0;
+    sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    sources.clear();
+    ready.clear();
+    nextSequence = nextArrival;
+    playhead = 0;
+    if (startTimer !== null) clearTimeout(startTimer);
+    if (gapTimer !== null) clearTimeout(gapTimer);
+    startTimer = null;
+    gapTimer = null;
+    setSpeaking(false);
+  };
+
+  return {
+    enqueue: (audioBase64, sequence) => {
+      const position = sequence ?? nextArrival;
+      nextArrival = Math.max(nextArrival, position + 1);
+      // Already played past, skipped, or cut off by a barge-in
+      if (position < nextSequence) return;
+
+      const queuedIn = generation;
+      decoding += 1;
+      decode(audioBase64).then(buffer => {
+        if (queuedIn !== generation) return;
+        decoding -= 1;
+        ready.set(position, buffer);
+        drain();
+      });
+    },
+    flush,
+    setVolume: (volume) => {
+      gain.gain.value = volume;
+    },
+    isSpeaking: () => speaking,
+    close: () => {
+      flush();
+      gain.disconnect();
+    },
+  };
+};
@@ -0,0 +1,87 @@
+import { VoiceTurn } from '../types';
+import { AudioChunkFormat } from './playbackQueue';
+
+/**
+ * Voice Transport Contracts
+ *
+ * The voice panels talk to the conversational agent through a transport
+ * instead of a hand-built socket, so the same UI runs against ElevenLabs or
+ * a scripted agent that works offline.
+ */
+
+export type VoiceTransportStatus = 'connecting' | 'connected' | 'disconnected';
+
+export type VoiceMode = 'listening' | 'speaking';
+
+export type VoiceDisconnectReason = 'user' | 'agent' | 'error';
+
+/**
+ * A client tool the agent can call. Resolves to the result the agent hears;
+ * a rejection is reported to the agent as a failed call.
+ */
+export type VoiceClientTool = (parameters: Record<string, unknown>) => Promise<string>;
+
+export interface VoiceSessionOptions {
+  userId?: string;
+  clientTools: Record<string, VoiceClientTool>;
+  onStatusChange: (status: VoiceTransportStatus) => void;
+  onModeChange: (mode: VoiceMode) => void;
+  // Agent responses and transcripts of what the user said aloud; text sent
+  // with sendUserMessage isn't echoed back. `withAudio`: agent audio for
+  // the turn follows through onAudio.
+  onTurn: (turn: VoiceTurn, withAudio?: boolean) => void;
+  // Agent audio in `audioFormat`, for transports that don't play it themselves
+  onAudio?: (audioBase64: string, sequence: number) => void;
+  // The user talked over the agent; stop playing what's left of its turn
+  onInterruption?: () => void;
+  onError: (message: string) => void;
+  onDisconnect: (reason: VoiceDisconnectReason) => void;
+}
+
+/**
+ * The microphone as the transport captures it, so the UI can analyse the
+ * same signal the agent hears instead of opening a second capture
+ */
+export interface VoiceMicrophone {
+  // The live signal, ahead of the send delay
+  readonly analyser: AnalyserNode;
+  // Hold audio back this long before it reaches the agent, so a mic opened
+  // after speech is detected still sends the start of the utterance
+  setSendDelay: (ms: number) => void;
+}
+
+export interface VoiceConnection {
+  readonly conversationId: string;
+  // Absent when the transport doesn't capture the microphone
+  readonly microphone?: VoiceMicrophone;
+  sendUserMessage: (text: string) => void;
+  setMicMuted: (muted: boolean) => void;
+  setVolume: (volume: number) => void; // 0-1
+  end: () => Promise<void>;
+}
+
+export interface VoiceTransport {
+  readonly name: string;
+  readonly requiresMicrophone: boolean;
+  // Whether the transport plays the agent's audio itself; if not, the UI
+  // plays onAudio chunks, or speech synthesis for turns without audio
+  readonly playsAudio: boolean;
+  readonly audioFormat?: AudioChunkFormat;
+  connect: (options: VoiceSessionOptions) => Promise<VoiceConnection>;
+}
+
+/**
+ * Failure to start a voice session. `retryable` is false when trying again
+ * can't help (missing configuration, microphone denied).
+ */
+export class VoiceTransportError extends Error {
+  transport: string;
+  retryable: boolean;
+
+  constructor(transport: string, message: string, retryable = true) {
+    super(message);
+    this.name = 'VoiceTransportError';
+    this.transport = transport;
+    this.retryable = retryable;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Voice Activity Detection
+ *
+ * Decides frame by frame whether the microphone is picking up speech, from
+ * two cheap features of the time-domain signal: energy (RMS) against a noise
+ * floor that keeps adapting to the room, and the zero-crossing rate, which
+ * separates voice from hiss (too many crossings) and hum (too few).
+ */
+
+export type VoiceInputMode = 'always' | 'push_to_talk' | 'vad';
+
+export const voiceInputModeLabels: Record<VoiceInputMode, string> = {
+  always: 'Always on',
+  push_to_talk: 'Push to talk',
+  vad: 'Voice detect',
+};
+
+export const PUSH_TO_TALK_KEY = ' ';
+export const PUSH_TO_TALK_KEY_LABEL = 'Space';
+
+// Audio sent behind the detector in VAD mode. It must cover detection lag
+// (attack frames plus the analyser window) and stay under the hangover, so
+// muting after speech ends doesn't cut off its tail.
+export const VAD_PRE_ROLL_MS = 300;
+
+export interface VadFrameFeatures {
+  energy: number; // RMS, 0-1
+  zeroCrossingRate: number; // sign changes per sample, 0-1
+}
+
+export const frameFeatures = (samples: Float32Array): VadFrameFeatures => {
+  if (samples.length === 0) return { energy: 0, zeroCrossingRate: 0 };
+  let sumOfSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumOfSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings += 1;
+  }
+  return {
+    energy: Math.sqrt(sumOfSquares / samples.length),
+    zeroCrossingRate: samples.length > 1 ? crossings / (samples.length - 1) : 0,
+  };
+};
+
+interface VadOptions {
+  // Frames at the start used only to measure the noise floor
+  calibrationMs?: number;
+  // Speech energy must exceed the noise floor by this factor...
+  speechToNoiseRatio?: number;
+  // ...and this absolute level, so a silent room doesn't trigger on breath
+  minSpeechEnergy?: number;
+  zeroCrossingRange?: { min: number; max: number };
+  // Consecutive speech-like frames before speech starts
+  attackFrames?: number;
+  // How long speech lasts past the last speech-like frame (pauses between words)
+  hangoverMs?: number;
+  // How fast the noise floor follows non-speech frames (0-1 per frame)
+  noiseAdaptRate?: number;
+}
+
+export interface VoiceActivityDetector {
+  // Feed one frame; returns whether speech is in progress
+  process: (samples: Float32Array, timeMs: number) => boolean;
+  isSpeech: () => boolean;
+  noiseFloor: () => number;
+  reset: () => void;
+}
+
+export const createVoiceActivityDetector = (options: VadOptions = {}): VoiceActivityDetector => {
+  const calibrationMs = options.calibrationMs ?? 500;
+  const speechToNoiseRatio = options.speechToNoiseRatio ?? 3;
+  const minSpeechEnergy = options.minSpeechEnergy ?? 0.01;
+  const zeroCrossingRange = options.zeroCrossingRange ?? { min: 0.005, max: 0.35 };
+  const attackFrames = options.attackFrames ?? 2;
+  const hangoverMs = options.hangoverMs ?? 350;
+  const noiseAdaptRate = options.noiseAdaptRate ?? 0.05;
+
+  let startedAt: number | null = null;
+  let calibrationFrames = 0;
+  let noiseFloor = 0;
+  let speechFrames = 0;
+  let lastSpeechAt = -Infinity;
+  let speaking = false;
+
+  return {
+    process: (samples, timeMs) => {
+      const { energy, zeroCrossingRate } = frameFeatures(samples);
+      startedAt ??= timeMs;
+
+      if (timeMs - startedAt < calibrationMs) {
+        calibrationFrames += 1;
+        noiseFloor += (energy - noiseFloor) / calibrationFrames;
+        return false;
+      }
+
+      const isSpeechLike = energy > Math.max(minSpeechEnergy, noiseFloor * speechToNoiseRatio)
+        && zeroCrossingRate >= zeroCrossingRange.min
+        && zeroCrossingRate <= zeroCrossingRange.max;
+
+      if (isSpeechLike) {
+        speechFrames += 1;
+        lastSpeechAt = timeMs;
+      } else {
+        speechFrames = 0;
+        // Only quiet frames move the floor, so talking doesn't raise it
+        if (!speaking) noiseFloor += (energy - noiseFloor) * noiseAdaptRate;
+      }
+
+      if (!speaking && speechFrames >= attackFrames) {
+        speaking = true;
+      } else if (speaking && timeMs - lastSpeechAt > hangoverMs) {
+        speaking = false;
+      }
+      return speaking;
+    },
+    isSpeech: () => speaking,
+    noiseFloor: () => noiseFloor,
+    reset: () => {
+      startedAt = null;
+      calibrationFrames = 0;
+      noiseFloor = 0;
+      speechFrames = 0;
+      lastSpeechAt = -Infinity;
+      speaking = false;
+    },
+  };
+};
+
+interface MonitorOptions {
+  intervalMs?: number;
+  onLevel?: (level: number) => void; // 0-1, for the level meter
+  onSpeechChange: (isSpeech: boolean) => void;
+}
+
+/**
+ * Run the detector on an analyser's time-domain data every `intervalMs`.
+ * Returns a function that stops monitoring.
+ */
+export const monitorVoiceActivity = (
+  analyser: AnalyserNode,
+  detector: VoiceActivityDetector,
+  { intervalMs = 20, onLevel, onSpeechChange }: MonitorOptions
+): (() => void) => {
+  const samples = new Float32Array(analyser.fftSize);
+  let wasSpeech = detector.isSpeech();
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const isSpeech = detector.process(samples, performance.now());
+    onLevel?.(Math.min(1, frameFeatures(samples).energy * 5));
+    if (isSpeech !== wasSpeech) {
+      wasSpeech = isSpeech;
+      onSpeechChange(isSpeech);
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
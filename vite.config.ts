@@ -1,10 +1,21 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mockApi } from './server/mockApi';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  optimizeDeps: {
-    exclude: ['lucide-react'],
-  },
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', 'MOCK_API_');
+
+  return {
+    plugins: [
+      react(),
+      mockApi({
+        latencyMs: env.MOCK_API_LATENCY ? Number(env.MOCK_API_LATENCY) : undefined,
+        errorRate: env.MOCK_API_ERROR_RATE ? Number(env.MOCK_API_ERROR_RATE) : undefined,
+      }),
+    ],
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+  };
 });